@@ -1,10 +1,19 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { CompanyList } from './components/CompanyList';
 import { CompanyDetail } from './components/CompanyDetail';
+import { TrashView } from './components/TrashView';
+import { TagView } from './components/TagView';
+import { ReportFeed } from './components/ReportFeed';
+import { AnalystDirectory } from './components/AnalystDirectory';
+import { AnalystProfile } from './components/AnalystProfile';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { TaxonomyProvider } from './components/TaxonomyContext';
 import { Header } from './components/Header';
 import { LoadingSpinner } from './components/LoadingSpinner';
+import { LoginPage } from './components/LoginPage';
 import { Toaster } from './components/ui/sonner';
-import { companyApi, initSampleData } from './utils/api';
+import { authApi, companyApi, ConflictError, initSampleData, realtimeApi, tagApi, watchlistApi } from './utils/api';
+import { can } from './utils/permissions';
 import { toast } from 'sonner@2.0.3';
 import { motion, AnimatePresence } from 'motion/react';
 
@@ -12,21 +21,147 @@ export type Company = {
   id: string;
   name: string;
   code: string;
-  type: string; // A股、港股、美股、行业
+  type: string; // 股票类型的名称，见 TaxonomyTerm
   description: string;
   iconUrl?: string; // 公司图标URL
   order?: number; // 显示顺序
+  revision?: number; // 每次保存加一，用于发现并发修改
+  tagIds?: string[]; // 标签，通过 tagApi.setCompanyTags 单独保存
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string; // 移入回收站的时间
+};
+
+// 公司和报告共用的自由标签，如主题、地区、事件类型
+export type Tag = {
+  id: string;
+  name: string;
+  color: string; // TAG_COLORS 中的颜色名
+  companyCount?: number; // 仅标签列表和单个标签接口返回
+  reportCount?: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// 标签页内容：带该标签的公司；报告通过报告动态接口按 tag 分页加载
+export type TagContents = {
+  tag: Tag;
+  companies: Company[];
+};
+
+// 由管理员维护的分类：股票类型（Company.type）和报告类别（Report.category）
+export type TaxonomyKind = 'stock_type' | 'report_category';
+
+export type TaxonomyTerm = {
+  id: string;
+  kind: TaxonomyKind;
+  label: string; // 公司和报告保存的就是这个名称
+  color: string; // TAG_COLORS 中的颜色名
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Taxonomies = {
+  stockTypes: TaxonomyTerm[];
+  reportCategories: TaxonomyTerm[];
+};
+
+// 分析师名录，报告的 analyst 字段保存的就是分析师的名称
+export type Analyst = {
+  id: string;
+  name: string;
+  title: string; // 职位
+  team: string; // 团队或所在机构
+  email: string;
+  bio: string;
+  reportCount?: number; // 以下仅名录接口返回，不含回收站中的报告
+  companyCount?: number;
+  latestReportAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// 分析师主页：覆盖的公司（最近有报告的在前）、每月报告数（UTC，按月份升序，没有报告的月份不返回）和各类别报告数
+export type AnalystProfile = {
+  analyst: Analyst;
+  reportCount: number;
+  latestReportAt: string | null;
+  coverage: { companyId: string; reportCount: number; latestReportAt: string }[];
+  activity: { month: string; count: number }[]; // month 如 2026-09
+  categories: Record<string, number>;
+};
+
+// 个人自选列表，companyIds 按用户自己的顺序排列
+export type Watchlist = {
+  id: string;
+  ownerId: string;
+  name: string;
+  companyIds: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// 关注：companyId 对应的整个公司，或设置了 reportId 时的单篇报告
+export type Subscription = {
+  id: string;
+  userId: string;
+  companyId: string;
+  reportId: string | null;
+  createdAt: string;
+};
+
+// 站内通知，关注的公司或报告有新报告、新评论时产生（不与浏览器的 Notification 重名）
+export type AppNotification = {
+  id: string;
+  userId: string;
+  action: 'report.create' | 'comment.create';
+  companyId: string;
+  reportId: string;
+  commentId: string | null;
+  actorId: string;
+  actorName: string;
+  title: string; // 报告标题
+  excerpt: string; // 评论开头，新报告为空
+  readAt: string | null;
+  createdAt: string;
+};
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly'; // 邮件摘要：关闭、每日、每周
+
+// 批注位置，坐标为相对页面宽高的比例（0-1），缩放后仍然准确
+export type CommentAnchor = {
+  page: number;
+  rects: { x: number; y: number; width: number; height: number }[];
+  quote: string; // 选中的原文
 };
 
 export type Comment = {
   id: string;
   content: string;
+  authorId?: string; // 评论作者，旧评论可能没有
+  authorName?: string;
+  parentId?: string | null; // 回复所属的根评论
+  anchor?: CommentAnchor | null; // 页面批注，仅根评论可有
+  mentions?: string[]; // 被 @ 的用户名
   createdAt: string;
   updatedAt?: string;
 };
 
+export type FileKind = 'pdf' | 'excel' | 'word' | 'powerpoint' | 'image';
+
+export type ReportVersion = {
+  version: number;
+  fileName: string;
+  fileSize: string;
+  filePath: string;
+  fileKind?: FileKind;
+  uploadedById?: string;
+  uploadedByName?: string;
+  uploadedAt: string;
+  note?: string; // 版本说明
+};
+
 export type Report = {
   id: string;
   companyId: string;
@@ -34,21 +169,171 @@ export type Report = {
   analyst: string;
   fileName: string;
   fileSize: string;
-  category: string; // 会议纪要、首次覆盖、跟踪
+  category: string; // 报告类别的名称，见 TaxonomyTerm
   comments?: Comment[]; // 报告评论
   filePath?: string;
+  fileKind?: FileKind; // 文件类型，旧报告没有此字段，均为 PDF
+  currentVersion?: number; // 当前文件版本号
+  versions?: ReportVersion[]; // 历史版本，旧报告可能没有
   order?: number; // 显示顺序
+  revision?: number; // 每次保存加一，用于发现并发修改
+  tagIds?: string[]; // 标签，通过 tagApi.setReportTags 单独保存
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string; // 移入回收站的时间
+};
+
+// 回收站中的公司连同其报告一起恢复
+export type TrashedCompany = Company & {
+  deletedAt: string;
+  expiresAt: string; // 到期后永久删除
+  reportCount: number;
+};
+
+export type TrashedReport = Report & {
+  deletedAt: string;
+  expiresAt: string;
+  companyName: string;
+  companyCode: string;
+};
+
+export type TrashContents = {
+  companies: TrashedCompany[];
+  reports: TrashedReport[];
+};
+
+// 操作记录，changes 为字段修改前后的值
+export type AuditEntry = {
+  id: string;
+  actorId: string;
+  actorName: string;
+  action: string; // 如 company.update、comment.delete
+  entityType: 'company' | 'report' | 'comment' | 'tag' | 'taxonomy' | 'analyst' | 'user' | 'trash';
+  entityId: string | null;
+  companyId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  createdAt: string;
+};
+
+export type AuditFilter = {
+  companyId?: string;
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+// 分页列表的一页，nextCursor 为 null 表示已到最后一页
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+export type CompanyFilter = {
+  type?: string;
+  tagIds?: string[]; // 须同时带有这些标签
+  q?: string; // 名称或代码
+  sort?: 'order' | 'newest';
+};
+
+export type ReportFilter = {
+  companyType?: string; // 仅跨公司的报告动态使用
+  category?: string;
+  analyst?: string;
+  from?: string; // 上传时间范围，ISO 格式，含两端
+  to?: string;
+  tagIds?: string[];
+  q?: string; // 标题、分析师或文件名
+  sort?: 'order' | 'newest' | 'oldest';
+};
+
+// 公司全部报告的统计，用于筛选栏的数量和分析师列表
+export type ReportStats = {
+  total: number;
+  categories: Record<string, number>;
+  analysts: string[];
+  latestReportDate: string | null;
+};
+
+// 数据看板的统计，期间为最近 months 个月（含当月，按 UTC 计），不含回收站中的内容
+export type DashboardStats = {
+  months: number;
+  staleDays: number;
+  totals: { companies: number; reports: number; analysts: number; reportsInPeriod: number; commentsInPeriod: number };
+  reportsPerMonth: { month: string; count: number }[]; // 期间内每个月一条，含没有报告的月份
+  byCategory: { category: string; count: number }[];
+  byStockType: { type: string; count: number; companyCount: number }[];
+  topAnalysts: { analystId: string | null; name: string; count: number; companyCount: number }[];
+  commentActivity: { month: string; count: number; commenters: number }[];
+  mostDiscussed: { reportId: string; companyId: string; title: string; count: number }[];
+  // 最近 staleDays 天没有报告的公司，从未有报告的在前
+  staleCompanies: { companyId: string; name: string; code: string; type: string; latestReportAt: string | null }[];
+};
+
+// 服务端推送的实时变更，每次成功的修改一条
+export type ChangeEvent = {
+  action: string; // 与操作记录相同，如 report.create、comment.update
+  entityType: AuditEntry['entityType'];
+  entityId: string | null;
+  companyId: string | null;
+  reportId: string | null;
+  actorId: string;
+  actorName: string;
+  data: any; // 接口返回的数据；排序为排好序的完整列表
+  createdAt: string;
+};
+
+export type SearchMatch = {
+  page: number; // 从 1 开始的页码
+  snippet: string;
+  highlights: [number, number][]; // snippet 中命中词的起止位置
+};
+
+export type SearchResult = {
+  companyId: string;
+  companyName: string;
+  companyCode: string;
+  reportId: string;
+  title: string;
+  analyst: string;
+  category: string;
+  createdAt?: string;
+  matchCount: number; // 命中的页数
+  matches: SearchMatch[];
+};
+
+export type UserRole = 'viewer' | 'analyst' | 'pm' | 'admin'; // 查看者、分析师、投资经理、管理员
+
+export type CurrentUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+};
+
+// email is only returned to admins
+export type UserProfile = Omit<CurrentUser, 'email'> & {
+  email?: string;
+  createdAt?: string;
 };
 
 export default function App() {
-  const [currentView, setCurrentView] = useState<'list' | 'detail'>('list');
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
+  const [currentView, setCurrentView] = useState<'list' | 'detail' | 'trash' | 'tag' | 'feed' | 'analysts' | 'analyst' | 'dashboard'>('list');
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const [selectedAnalystId, setSelectedAnalystId] = useState<string | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
   const [loading, setLoading] = useState(true);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false); // 新增：手动刷新状态
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [activeWatchlistId, setActiveWatchlistId] = useState<string | null>(null); // null 表示全部公司
 
   // 修复loadCompanies函数的依赖项问题
   const loadCompanies = useCallback(async (forceRefresh = false) => {
@@ -67,8 +352,8 @@ export default function App() {
 
       const data = await companyApi.getAll();
       
-      // 只在没有数据时初始化示例数据
-      if (data.length === 0) {
+      // 只在没有数据时初始化示例数据（需要编辑公司的权限）
+      if (data.length === 0 && can(currentUser, 'company:edit')) {
         await initSampleData();
         const sampleData = await companyApi.getAll();
         setCompanies(sampleData);
@@ -94,12 +379,93 @@ export default function App() {
         }, Math.max(800, 0));
       }
     }
-  }, [isInitialLoad]);
+  }, [isInitialLoad, currentUser]);
+
+  // 恢复登录状态并监听登录/登出
+  useEffect(() => {
+    authApi.getCurrentUser()
+      .then(setCurrentUser)
+      .catch(error => console.error('Error restoring session:', error))
+      .finally(() => setIsAuthChecked(true));
+
+    return authApi.onAuthStateChange(setCurrentUser);
+  }, []);
+
+  // 登录后初始加载
+  useEffect(() => {
+    if (currentUser) {
+      loadCompanies();
+    }
+  }, [loadCompanies, currentUser?.id]);
+
+  // 登录后加载自己的自选列表，并恢复上次选中的列表
+  useEffect(() => {
+    if (!currentUser) return;
+    setActiveWatchlistId(localStorage.getItem(`watchlist:active:${currentUser.id}`));
+    watchlistApi.getAll()
+      .then(setWatchlists)
+      .catch(error => console.error('Error loading watchlists:', error));
+  }, [currentUser?.id]);
+
+  // 标签列表带有各标签的公司数和报告数，打标签后重新加载
+  const loadTags = useCallback(() => {
+    tagApi.getAll()
+      .then(setTags)
+      .catch(error => console.error('Error loading tags:', error));
+  }, []);
 
-  // 初始加载
   useEffect(() => {
-    loadCompanies();
-  }, [loadCompanies]);
+    if (currentUser) loadTags();
+  }, [loadTags, currentUser?.id]);
+
+  const handleTagSelect = useCallback((tagId: string) => {
+    setSelectedTagId(tagId);
+    setSelectedCompany(null);
+    setCurrentView('tag');
+  }, []);
+
+  // 修改名称或颜色时保留列表接口返回的计数
+  const handleTagSaved = useCallback((saved: Tag) => {
+    setTags(prev => prev.some(tag => tag.id === saved.id)
+      ? prev.map(tag => tag.id === saved.id ? { ...tag, ...saved } : tag)
+      : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  // 删除的标签同时从各公司上移除
+  const handleTagDeleted = useCallback((deletedId: string) => {
+    setTags(prev => prev.filter(tag => tag.id !== deletedId));
+    setCompanies(prev => prev.map(company => company.tagIds?.includes(deletedId)
+      ? { ...company, tagIds: company.tagIds.filter(id => id !== deletedId) }
+      : company));
+    if (selectedTagId === deletedId) {
+      setCurrentView('list');
+      setSelectedTagId(null);
+    }
+  }, [selectedTagId]);
+
+  const handleActiveWatchlistChange = useCallback((id: string | null) => {
+    setActiveWatchlistId(id);
+    if (!currentUser) return;
+    const key = `watchlist:active:${currentUser.id}`;
+    if (id) {
+      localStorage.setItem(key, id);
+    } else {
+      localStorage.removeItem(key);
+    }
+  }, [currentUser?.id]);
+
+  const handleWatchlistSaved = useCallback((saved: Watchlist) => {
+    setWatchlists(prev => prev.some(watchlist => watchlist.id === saved.id)
+      ? prev.map(watchlist => watchlist.id === saved.id ? saved : watchlist)
+      : [...prev, saved]);
+  }, []);
+
+  const handleWatchlistDeleted = useCallback((deletedId: string) => {
+    setWatchlists(prev => prev.filter(watchlist => watchlist.id !== deletedId));
+    if (activeWatchlistId === deletedId) {
+      handleActiveWatchlistChange(null);
+    }
+  }, [activeWatchlistId, handleActiveWatchlistChange]);
 
   const handleCompanySelect = useCallback((company: Company) => {
     setSelectedCompany(company);
@@ -111,8 +477,9 @@ export default function App() {
     setSelectedCompany(null);
   }, []);
 
+  // 实时推送可能先于接口返回把新公司加入列表
   const handleCompanyCreated = useCallback((newCompany: Company) => {
-    setCompanies(prev => [newCompany, ...prev]);
+    setCompanies(prev => [newCompany, ...prev.filter(company => company.id !== newCompany.id)]);
     toast.success('公司创建成功');
   }, []);
 
@@ -137,16 +504,126 @@ export default function App() {
     toast.success('公司删除成功');
   }, [selectedCompany?.id]);
 
+  const handleOpenTrash = useCallback(() => {
+    setCurrentView('trash');
+    setSelectedCompany(null);
+  }, []);
+
+  const handleOpenFeed = useCallback(() => {
+    setCurrentView('feed');
+    setSelectedCompany(null);
+  }, []);
+
+  const handleOpenDashboard = useCallback(() => {
+    setCurrentView('dashboard');
+    setSelectedCompany(null);
+  }, []);
+
+  const handleOpenAnalysts = useCallback(() => {
+    setCurrentView('analysts');
+    setSelectedCompany(null);
+    setSelectedAnalystId(null);
+  }, []);
+
+  const handleAnalystSelect = useCallback((analystId: string) => {
+    setSelectedAnalystId(analystId);
+    setCurrentView('analyst');
+    setSelectedCompany(null);
+  }, []);
+
+  // 恢复的公司按原有顺序放回列表
+  const handleCompanyRestored = useCallback((restoredCompany: Company) => {
+    setCompanies(prev => [...prev.filter(company => company.id !== restoredCompany.id), restoredCompany]
+      .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER)));
+  }, []);
+
+  // 其他人对公司的修改实时同步到列表；自己的修改本地已更新过，重复应用结果相同
+  const applyCompanyChange = (event: ChangeEvent) => {
+    switch (event.action) {
+      case 'company.create':
+        setCompanies(prev => prev.some(company => company.id === event.data.id)
+          ? prev
+          : [event.data, ...prev]);
+        break;
+      case 'company.update':
+      case 'company.icon':
+      case 'company.tags':
+        setCompanies(prev => prev.map(company => company.id === event.data.id ? event.data : company));
+        setSelectedCompany(prev => prev?.id === event.data.id ? event.data : prev);
+        break;
+      case 'company.restore':
+        handleCompanyRestored(event.data);
+        break;
+      case 'company.delete':
+        setCompanies(prev => prev.filter(company => company.id !== event.entityId));
+        if (selectedCompany?.id === event.entityId && event.actorId !== currentUser?.id) {
+          setCurrentView('list');
+          setSelectedCompany(null);
+          toast.info(`${event.actorName} 已将 ${selectedCompany.name} 移至回收站`);
+        }
+        break;
+      case 'company.reorder':
+        setCompanies(event.data);
+        break;
+      case 'tag.delete':
+        handleTagDeleted(event.entityId!);
+        break;
+      case 'company.seed':
+      case 'trash.purge':
+        companyApi.getAll()
+          .then(setCompanies)
+          .catch(error => console.error('Error reloading companies:', error));
+        break;
+      // 股票类型改名后，归在其下的公司随之改变
+      case 'taxonomy.update':
+        if (event.data.kind !== 'stock_type') break;
+        companyApi.getAll()
+          .then(data => {
+            setCompanies(data);
+            setSelectedCompany(prev => prev ? data.find(company => company.id === prev.id) ?? prev : prev);
+          })
+          .catch(error => console.error('Error reloading companies:', error));
+        break;
+    }
+  };
+
+  // 频道只订阅一次，通过 ref 始终调用最新的处理函数
+  const companyChangeRef = useRef(applyCompanyChange);
+  companyChangeRef.current = applyCompanyChange;
+
+  useEffect(() => {
+    if (!currentUser) return;
+    return realtimeApi.subscribe(event => companyChangeRef.current(event));
+  }, [currentUser?.id]);
+
+  // 标签的增改和打标签都会改变标签列表或其计数
+  useEffect(() => {
+    if (!currentUser) return;
+    return realtimeApi.subscribe(event => {
+      if (event.entityType === 'tag' || event.action.endsWith('.tags')) {
+        loadTags();
+      }
+    });
+  }, [loadTags, currentUser?.id]);
+
   // 处理公司排序
   const handleCompaniesReorder = useCallback(async (reorderedCompanies: Company[]) => {
     try {
       setCompanies(reorderedCompanies);
-      // 批量更新排序
-      await companyApi.updateOrder(reorderedCompanies.map((company, index) => ({
+      // 批量更新排序，带上各公司的 revision，期间有人改动过则整体不保存
+      const saved = await companyApi.updateOrder(reorderedCompanies.map((company, index) => ({
         id: company.id,
-        order: index
+        order: index,
+        revision: company.revision
       })));
+      setCompanies(saved);
+      toast.success('公司排序已更新');
     } catch (error) {
+      if (error instanceof ConflictError) {
+        setCompanies(error.current as Company[]);
+        toast.error('排序期间公司列表已被他人修改，已加载最新顺序，请重新调整');
+        return;
+      }
       console.error('Error updating company order:', error);
       toast.error('保存排序失败，请重试');
       // 重新加载以恢复原始顺序 - 使用forceRefresh避免依赖检查
@@ -161,75 +638,246 @@ export default function App() {
     loadCompanies(true);
   }, [loadCompanies, isRefreshing]);
 
+  const handleSignOut = useCallback(async () => {
+    try {
+      await authApi.signOut();
+      setCompanies([]);
+      setWatchlists([]);
+      setActiveWatchlistId(null);
+      setTags([]);
+      setSelectedTagId(null);
+      setSelectedCompany(null);
+      setCurrentView('list');
+      setIsInitialLoad(true);
+      setLoading(true);
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('退出登录失败，请重试');
+    }
+  }, []);
+
+  if (!isAuthChecked) {
+    return <LoadingSpinner />;
+  }
+
+  if (!currentUser) {
+    return (
+      <>
+        <LoginPage onSignedIn={setCurrentUser} />
+        <Toaster position="top-right" />
+      </>
+    );
+  }
+
   // 只在初始加载时显示全屏loading
   if (loading && isInitialLoad) {
     return <LoadingSpinner />;
   }
 
+  // 顶部轮播只展示自选公司：选中的自选列表，未选中时为第一个自选列表，没有自选列表时展示全部公司
+  const carouselWatchlist = watchlists.find(watchlist => watchlist.id === activeWatchlistId) ?? watchlists[0];
+  const carouselCompanies = carouselWatchlist
+    ? carouselWatchlist.companyIds
+        .map(id => companies.find(company => company.id === id))
+        .filter((company): company is Company => !!company)
+    : companies;
+
   return (
-    <div className="min-h-screen bg-background">
-      <Header 
-        companies={companies} 
-        onCompanySelect={handleCompanySelect}
-      />
-      <div className="container mx-auto px-6 py-8">
-        <AnimatePresence mode="wait">
-          {currentView === 'list' ? (
-            <motion.div
-              key="list"
-              initial={{ opacity: 0, y: 20, scale: 0.98 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              exit={{ opacity: 0, y: -20, scale: 0.98 }}
-              transition={{ 
-                duration: 0.4, 
-                ease: [0.25, 0.46, 0.45, 0.94]
-              }}
-            >
-              <CompanyList 
-                companies={companies}
-                onCompanySelect={handleCompanySelect}
-                onCompanyCreated={handleCompanyCreated}
-                onCompanyUpdated={handleCompanyUpdated}
-                onCompanyDeleted={handleCompanyDeleted}
-                onCompaniesReorder={handleCompaniesReorder}
-                onRefresh={handleRefresh}
-                isLoading={loading && !isInitialLoad}
-                isRefreshing={isRefreshing} // 新增：传递刷新状态
-              />
-            </motion.div>
-          ) : (
-            <motion.div
-              key="detail"
-              initial={{ opacity: 0, y: 20, scale: 0.98 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              exit={{ opacity: 0, y: -20, scale: 0.98 }}
-              transition={{ 
-                duration: 0.4, 
-                ease: [0.25, 0.46, 0.45, 0.94]
-              }}
-            >
-              <CompanyDetail 
-                company={selectedCompany!} 
-                onBack={handleBackToList}
-                onCompanyUpdated={handleCompanyUpdated}
-                onCompanyDeleted={handleCompanyDeleted}
-              />
-            </motion.div>
-          )}
-        </AnimatePresence>
+    <TaxonomyProvider>
+      <div className="min-h-screen bg-background">
+        <Header 
+          companies={companies} 
+          carouselCompanies={carouselCompanies}
+          onCompanySelect={handleCompanySelect}
+          currentUser={currentUser}
+          onSignOut={handleSignOut}
+          onOpenTrash={handleOpenTrash}
+          onOpenFeed={handleOpenFeed}
+          onOpenAnalysts={handleOpenAnalysts}
+          onOpenDashboard={handleOpenDashboard}
+        />
+        <div className="container mx-auto px-6 py-8">
+          <AnimatePresence mode="wait">
+            {currentView === 'list' ? (
+              <motion.div
+                key="list"
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <CompanyList 
+                  companies={companies}
+                  currentUser={currentUser}
+                  onCompanySelect={handleCompanySelect}
+                  onCompanyCreated={handleCompanyCreated}
+                  onCompanyUpdated={handleCompanyUpdated}
+                  onCompanyDeleted={handleCompanyDeleted}
+                  onCompaniesReorder={handleCompaniesReorder}
+                  watchlists={watchlists}
+                  activeWatchlistId={activeWatchlistId}
+                  onActiveWatchlistChange={handleActiveWatchlistChange}
+                  onWatchlistSaved={handleWatchlistSaved}
+                  onWatchlistDeleted={handleWatchlistDeleted}
+                  tags={tags}
+                  onTagSelect={handleTagSelect}
+                  onRefresh={handleRefresh}
+                  isLoading={loading && !isInitialLoad}
+                  isRefreshing={isRefreshing} // 新增：传递刷新状态
+                />
+              </motion.div>
+            ) : currentView === 'tag' && selectedTagId ? (
+              <motion.div
+                key={`tag-${selectedTagId}`}
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <TagView
+                  tagId={selectedTagId}
+                  tags={tags}
+                  companies={companies}
+                  currentUser={currentUser}
+                  onBack={handleBackToList}
+                  onTagSelect={handleTagSelect}
+                  onCompanySelect={handleCompanySelect}
+                  onTagSaved={handleTagSaved}
+                  onTagDeleted={handleTagDeleted}
+                />
+              </motion.div>
+            ) : currentView === 'feed' ? (
+              <motion.div
+                key="feed"
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <ReportFeed
+                  companies={companies}
+                  onBack={handleBackToList}
+                  onCompanySelect={handleCompanySelect}
+                />
+              </motion.div>
+            ) : currentView === 'dashboard' ? (
+              <motion.div
+                key="dashboard"
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <AnalyticsDashboard
+                  companies={companies}
+                  onBack={handleBackToList}
+                  onCompanySelect={handleCompanySelect}
+                  onAnalystSelect={handleAnalystSelect}
+                />
+              </motion.div>
+            ) : currentView === 'analysts' ? (
+              <motion.div
+                key="analysts"
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <AnalystDirectory
+                  currentUser={currentUser}
+                  onBack={handleBackToList}
+                  onAnalystSelect={handleAnalystSelect}
+                />
+              </motion.div>
+            ) : currentView === 'analyst' && selectedAnalystId ? (
+              <motion.div
+                key={`analyst-${selectedAnalystId}`}
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <AnalystProfile
+                  analystId={selectedAnalystId}
+                  companies={companies}
+                  currentUser={currentUser}
+                  onBack={handleOpenAnalysts}
+                  onCompanySelect={handleCompanySelect}
+                />
+              </motion.div>
+            ) : currentView === 'trash' ? (
+              <motion.div
+                key="trash"
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <TrashView 
+                  currentUser={currentUser}
+                  onBack={handleBackToList}
+                  onCompanyRestored={handleCompanyRestored}
+                />
+              </motion.div>
+            ) : (
+              <motion.div
+                key="detail"
+                initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                transition={{ 
+                  duration: 0.4, 
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+              >
+                <CompanyDetail 
+                  company={selectedCompany!} 
+                  currentUser={currentUser}
+                  onBack={handleBackToList}
+                  onCompanyUpdated={handleCompanyUpdated}
+                  onCompanyDeleted={handleCompanyDeleted}
+                  tags={tags}
+                  onTagSelect={handleTagSelect}
+                  onTagCreated={handleTagSaved}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+        <Toaster 
+          position="top-right"
+          toastOptions={{
+            style: {
+              background: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              color: 'hsl(var(--foreground))',
+              boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+            },
+            className: 'shadow-xl backdrop-blur-sm',
+          }}
+        />
       </div>
-      <Toaster 
-        position="top-right"
-        toastOptions={{
-          style: {
-            background: 'hsl(var(--card))',
-            border: '1px solid hsl(var(--border))',
-            color: 'hsl(var(--foreground))',
-            boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
-          },
-          className: 'shadow-xl backdrop-blur-sm',
-        }}
-      />
-    </div>
+    </TaxonomyProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Contact, GitMerge, Search, UserPlus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AnalystEditDialog } from './AnalystEditDialog';
+import { AnalystMergeDialog } from './AnalystMergeDialog';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { analystApi, realtimeApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { formatDate } from '../utils/helpers';
+import type { Analyst, CurrentUser } from '../App';
+
+interface AnalystDirectoryProps {
+  currentUser: CurrentUser;
+  onBack: () => void;
+  onAnalystSelect: (analystId: string) => void;
+}
+
+type AnalystSort = 'name' | 'reports' | 'latest';
+
+const SORT_LABELS: Record<AnalystSort, string> = {
+  name: '按姓名',
+  reports: '按报告数',
+  latest: '按最近报告',
+};
+
+const compareAnalysts: Record<AnalystSort, (a: Analyst, b: Analyst) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  reports: (a, b) => (b.reportCount ?? 0) - (a.reportCount ?? 0) || a.name.localeCompare(b.name),
+  latest: (a, b) => (b.latestReportAt ?? '').localeCompare(a.latestReportAt ?? '') || a.name.localeCompare(b.name),
+};
+
+// 分析师名录：每位分析师的报告数、覆盖公司数和最近一份报告的日期
+export function AnalystDirectory({ currentUser, onBack, onAnalystSelect }: AnalystDirectoryProps) {
+  const [analysts, setAnalysts] = useState<Analyst[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<AnalystSort>('name');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+
+  const loadAnalysts = useCallback(async () => {
+    try {
+      setAnalysts(await analystApi.getAll());
+    } catch (error) {
+      console.error('Error loading analysts:', error);
+      toast.error('加载分析师失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAnalysts();
+  }, [loadAnalysts]);
+
+  // 分析师资料和报告的变化都会影响名录中的数字
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      if (event.entityType === 'analyst' || event.action.startsWith('report.')) {
+        loadAnalysts();
+      }
+    });
+  }, [loadAnalysts]);
+
+  const keyword = query.trim().toLowerCase();
+  const visibleAnalysts = analysts
+    .filter(analyst => [analyst.name, analyst.team, analyst.title].some(value => value.toLowerCase().includes(keyword)))
+    .sort(compareAnalysts[sort]);
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="w-fit hover:shadow-md transition-all duration-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回列表
+        </Button>
+      </motion.div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-medium text-foreground flex items-center gap-2">
+            <Contact className="h-6 w-6" />
+            分析师
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            撰写研究报告的分析师，报告数不含回收站中的报告
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {can(currentUser, 'analyst:merge') && (
+            <Button variant="outline" size="sm" onClick={() => setIsMergeOpen(true)} className="hover:shadow-md transition-all duration-200">
+              <GitMerge className="h-4 w-4 mr-2" />
+              合并重复
+            </Button>
+          )}
+          {can(currentUser, 'analyst:edit') && (
+            <Button size="sm" onClick={() => setIsCreateOpen(true)} className="hover:shadow-md transition-all duration-200">
+              <UserPlus className="h-4 w-4 mr-2" />
+              新增分析师
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索姓名、团队或职位"
+            className="pl-9 h-9"
+          />
+        </div>
+        <Select value={sort} onValueChange={(value) => setSort(value as AnalystSort)}>
+          <SelectTrigger className="w-36 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as AnalystSort[]).map(key => (
+              <SelectItem key={key} value={key}>{SORT_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+      ) : visibleAnalysts.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-12">
+          {keyword ? '没有匹配的分析师' : '还没有分析师'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          <AnimatePresence>
+            {visibleAnalysts.map((analyst, index) => (
+              <motion.div
+                key={analyst.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: 20 }}
+                transition={{ delay: Math.min(index, 10) * 0.03, duration: 0.2 }}
+              >
+                <Card
+                  onClick={() => onAnalystSelect(analyst.id)}
+                  className="cursor-pointer hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                >
+                  <CardContent className="px-4 py-3 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <div className="w-9 h-9 bg-secondary rounded-full flex items-center justify-center flex-shrink-0 text-sm text-secondary-foreground">
+                        {analyst.name.slice(0, 1)}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm text-foreground truncate">{analyst.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[analyst.team, analyst.title].filter(Boolean).join(' · ') || '未填写团队和职位'}
+                        </p>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {analyst.reportCount ?? 0} 份报告 · {analyst.companyCount ?? 0} 家公司
+                      {analyst.latestReportAt && ` · 最近 ${formatDate(analyst.latestReportAt)}`}
+                    </p>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+
+      <AnalystEditDialog
+        isOpen={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSaved={(analyst) => { loadAnalysts(); onAnalystSelect(analyst.id); }}
+      />
+      <AnalystMergeDialog
+        isOpen={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        analysts={analysts}
+        onMerged={loadAnalysts}
+      />
+    </div>
+  );
+}
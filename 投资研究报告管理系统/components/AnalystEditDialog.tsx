@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { MAX_ANALYST_NAME_LENGTH } from './AnalystPicker';
+import { toast } from 'sonner@2.0.3';
+import { analystApi } from '../utils/api';
+import type { Analyst } from '../App';
+
+interface AnalystEditDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  analyst?: Analyst | null; // 不传时新增分析师
+  onSaved: (analyst: Analyst) => void;
+}
+
+const EMPTY_FORM = { name: '', title: '', team: '', email: '', bio: '' };
+
+// 新增分析师或编辑分析师资料；改名会同步到该分析师的全部报告
+export function AnalystEditDialog({ isOpen, onOpenChange, analyst, onSaved }: AnalystEditDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(analyst
+      ? { name: analyst.name, title: analyst.title, team: analyst.team, email: analyst.email, bio: analyst.bio }
+      : EMPTY_FORM);
+  }, [isOpen, analyst]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error('请输入分析师姓名');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const saved = analyst
+        ? await analystApi.update(analyst.id, form)
+        : await analystApi.create(form);
+      onSaved(saved);
+      onOpenChange(false);
+      toast.success(analyst ? '分析师资料已更新' : `已添加分析师“${saved.name}”`);
+    } catch (error) {
+      console.error('Error saving analyst:', error);
+      const message = error instanceof Error ? error.message : '';
+      toast.error(message.includes('already exists')
+        ? '已有同名的分析师，如为同一人请在名录中合并'
+        : message.includes('email')
+          ? '邮箱格式不正确'
+          : '保存失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{analyst ? '编辑分析师' : '新增分析师'}</DialogTitle>
+          <DialogDescription>
+            {analyst ? '修改姓名后，该分析师的全部报告（包括回收站中的）会一并更新。' : '上传报告时填写的新分析师也会自动加入名录。'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="analyst-name" className="block mb-2">姓名 *</Label>
+            <Input
+              id="analyst-name"
+              value={form.name}
+              maxLength={MAX_ANALYST_NAME_LENGTH}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="analyst-title" className="block mb-2">职位</Label>
+              <Input
+                id="analyst-title"
+                value={form.title}
+                maxLength={50}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="如 首席分析师"
+              />
+            </div>
+            <div>
+              <Label htmlFor="analyst-team" className="block mb-2">团队 / 机构</Label>
+              <Input
+                id="analyst-team"
+                value={form.team}
+                maxLength={50}
+                onChange={(e) => setForm(prev => ({ ...prev, team: e.target.value }))}
+                placeholder="如 TMT 组"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="analyst-email" className="block mb-2">邮箱</Label>
+            <Input
+              id="analyst-email"
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="analyst-bio" className="block mb-2">简介</Label>
+            <Textarea
+              id="analyst-bio"
+              value={form.bio}
+              maxLength={1000}
+              onChange={(e) => setForm(prev => ({ ...prev, bio: e.target.value }))}
+              placeholder="研究领域、覆盖行业等"
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              取消
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? '保存中...' : '保存'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
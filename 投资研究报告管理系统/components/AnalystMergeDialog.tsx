@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { toast } from 'sonner@2.0.3';
+import { analystApi } from '../utils/api';
+import type { Analyst } from '../App';
+
+interface AnalystMergeDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  analysts: Analyst[]; // 名录中的全部分析师
+  onMerged: () => void;
+}
+
+const describe = (analyst: Analyst) => `${analyst.name}（${analyst.reportCount ?? 0} 份报告）`;
+
+// 合并同一人的不同写法：疑似重复的名称按组列出，也可以手动挑选。被合并的分析师的报告
+// （包括回收站中的）改为保留的名称，被合并的分析师随之删除
+export function AnalystMergeDialog({ isOpen, onOpenChange, analysts, onMerged }: AnalystMergeDialogProps) {
+  const [groups, setGroups] = useState<Analyst[][]>([]);
+  const [keptIds, setKeptIds] = useState<Record<number, string>>({}); // 每组保留的分析师
+  const [isLoading, setIsLoading] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [targetId, setTargetId] = useState('');
+  const [sourceIds, setSourceIds] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+
+  const loadDuplicates = async () => {
+    setIsLoading(true);
+    try {
+      setGroups(await analystApi.getDuplicates());
+      setKeptIds({});
+    } catch (error) {
+      console.error('Error loading duplicate analysts:', error);
+      toast.error('加载疑似重复的分析师失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTargetId('');
+    setSourceIds([]);
+    setQuery('');
+    loadDuplicates();
+  }, [isOpen]);
+
+  const merge = async (target: Analyst, sources: Analyst[]) => {
+    setIsMerging(true);
+    try {
+      await analystApi.merge(target.id, sources.map(source => source.id));
+      toast.success(`已将 ${sources.map(source => source.name).join('、')} 合并到 ${target.name}`);
+      onMerged();
+      await loadDuplicates();
+      setTargetId('');
+      setSourceIds([]);
+    } catch (error) {
+      console.error('Error merging analysts:', error);
+      toast.error('合并失败，请重试');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const mergeGroup = (group: Analyst[], index: number) => {
+    const keptId = keptIds[index] ?? group[0].id;
+    const target = group.find(analyst => analyst.id === keptId)!;
+    merge(target, group.filter(analyst => analyst.id !== keptId));
+  };
+
+  const target = analysts.find(analyst => analyst.id === targetId);
+  const candidates = analysts.filter(analyst =>
+    analyst.id !== targetId && analyst.name.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const toggleSource = (id: string, checked: boolean) => {
+    setSourceIds(prev => checked ? [...prev, id] : prev.filter(item => item !== id));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            合并分析师
+          </DialogTitle>
+          <DialogDescription>
+            被合并的分析师的报告（包括回收站中的）会改为保留的姓名，被合并的分析师从名录中删除，无法撤销。
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 pr-2">
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">疑似重复</h3>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  查找中...
+                </p>
+              ) : groups.length === 0 ? (
+                <p className="text-sm text-muted-foreground">没有发现只差大小写、空格、全半角或标点的名称</p>
+              ) : (
+                groups.map((group, index) => (
+                  <div key={group.map(analyst => analyst.id).join()} className="rounded-lg border border-border p-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">选择保留的姓名</p>
+                    <RadioGroup
+                      value={keptIds[index] ?? group[0].id}
+                      onValueChange={(value) => setKeptIds(prev => ({ ...prev, [index]: value }))}
+                    >
+                      {group.map(analyst => (
+                        <div key={analyst.id} className="flex items-center gap-2">
+                          <RadioGroupItem value={analyst.id} id={`kept-${analyst.id}`} />
+                          <Label htmlFor={`kept-${analyst.id}`} className="font-normal">{describe(analyst)}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <div className="flex justify-end">
+                      <Button size="sm" onClick={() => mergeGroup(group, index)} disabled={isMerging}>
+                        合并这 {group.length} 个
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-3 border-t border-border pt-4">
+              <h3 className="text-sm font-medium text-foreground">手动合并</h3>
+              <div>
+                <Label className="block mb-2">保留</Label>
+                <Select value={targetId} onValueChange={(value) => { setTargetId(value); setSourceIds(prev => prev.filter(id => id !== value)); }}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="选择保留的分析师" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {analysts.map(analyst => (
+                      <SelectItem key={analyst.id} value={analyst.id}>{describe(analyst)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {target && (
+                <div className="space-y-2">
+                  <Label className="block">合并到 {target.name}</Label>
+                  <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="搜索分析师"
+                    className="h-8"
+                  />
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {candidates.map(analyst => (
+                      <div key={analyst.id} className="flex items-center gap-2 px-1 py-1">
+                        <Checkbox
+                          id={`source-${analyst.id}`}
+                          checked={sourceIds.includes(analyst.id)}
+                          onCheckedChange={(checked) => toggleSource(analyst.id, checked === true)}
+                        />
+                        <Label htmlFor={`source-${analyst.id}`} className="font-normal">{describe(analyst)}</Label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => merge(target, analysts.filter(analyst => sourceIds.includes(analyst.id)))}
+                      disabled={isMerging || sourceIds.length === 0}
+                    >
+                      合并所选（{sourceIds.length}）
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
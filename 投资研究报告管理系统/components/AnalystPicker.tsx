@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown, Plus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ScrollArea } from './ui/scroll-area';
+import { analystApi } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import type { Analyst } from '../App';
+
+// 与服务端 analyst-handlers.tsx 一致
+export const MAX_ANALYST_NAME_LENGTH = 30;
+
+interface AnalystPickerProps {
+  value: string;
+  onChange: (name: string) => void;
+  id?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// 从分析师名录中选择；名录里没有时可以直接使用新名称，保存报告时服务端会把新分析师加入名录
+export function AnalystPicker({ value, onChange, id, placeholder = '选择分析师', disabled = false, className = '' }: AnalystPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [analysts, setAnalysts] = useState<Analyst[]>([]);
+  const [query, setQuery] = useState('');
+
+  const trimmed = query.trim().replace(/\s+/g, ' ');
+  const visibleAnalysts = analysts.filter(analyst => analyst.name.toLowerCase().includes(trimmed.toLowerCase()));
+  const hasExactMatch = analysts.some(analyst => analyst.name.toLowerCase() === trimmed.toLowerCase());
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    setQuery('');
+    if (!open) return;
+    try {
+      setAnalysts(await analystApi.getAll());
+    } catch (error) {
+      console.error('Error loading analysts:', error);
+    }
+  };
+
+  const select = (name: string) => {
+    onChange(name);
+    setIsOpen(false);
+  };
+
+  const useNewName = () => {
+    if (!trimmed || hasExactMatch) return;
+    if (trimmed.length > MAX_ANALYST_NAME_LENGTH) {
+      toast.error(`分析师名称不能超过 ${MAX_ANALYST_NAME_LENGTH} 个字符`);
+      return;
+    }
+    select(trimmed);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={isOpen}
+          disabled={disabled}
+          className={`w-full justify-between font-normal ${value ? 'text-foreground' : 'text-muted-foreground'} ${className}`}
+        >
+          <span className="truncate">{value || placeholder}</span>
+          <ChevronsUpDown className="h-4 w-4 ml-2 flex-shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-0">
+        <div className="p-2 border-b border-border">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                const match = analysts.find(analyst => analyst.name.toLowerCase() === trimmed.toLowerCase());
+                if (match) {
+                  select(match.name);
+                } else {
+                  useNewName();
+                }
+              }
+            }}
+            placeholder="搜索或输入新分析师"
+            className="h-8"
+          />
+        </div>
+        <ScrollArea className="max-h-64">
+          <div className="p-1">
+            {visibleAnalysts.map(analyst => (
+              <button
+                key={analyst.id}
+                type="button"
+                onClick={() => select(analyst.name)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-sm text-sm text-left hover:bg-secondary/50 transition-colors duration-200"
+              >
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate text-foreground">{analyst.name}</span>
+                  {(analyst.title || analyst.team) && (
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {[analyst.team, analyst.title].filter(Boolean).join(' · ')}
+                    </span>
+                  )}
+                </span>
+                {analyst.name === value && <Check className="h-4 w-4 text-primary" />}
+              </button>
+            ))}
+            {visibleAnalysts.length === 0 && !trimmed && (
+              <p className="px-2 py-4 text-center text-xs text-muted-foreground">还没有分析师，输入名称添加</p>
+            )}
+            {trimmed && !hasExactMatch && (
+              <button
+                type="button"
+                onClick={useNewName}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-sm text-sm text-left text-primary hover:bg-secondary/50 transition-colors duration-200"
+              >
+                <Plus className="h-4 w-4" />
+                使用新分析师“{trimmed}”
+              </button>
+            )}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Building2, Calendar, Edit, FileText, Mail, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { AnalystEditDialog } from './AnalystEditDialog';
+import { FileKindIcon } from './FileKindIcon';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { usePagedList } from './usePagedList';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { analystApi, realtimeApi, reportApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { formatDate, getReportFileKind } from '../utils/helpers';
+import type { AnalystProfile as AnalystProfileData, Company, CurrentUser, Report } from '../App';
+
+interface AnalystProfileProps {
+  analystId: string;
+  companies: Company[];
+  currentUser: CurrentUser;
+  onBack: () => void; // 返回分析师名录
+  onCompanySelect: (company: Company) => void;
+}
+
+// 活动图显示的月数
+const ACTIVITY_MONTHS = 12;
+
+// 最近若干个月（UTC，与服务端统计一致），如 2026-09
+const recentMonths = (count: number) => {
+  const now = new Date();
+  return Array.from({ length: count }, (_, index) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (count - 1 - index), 1)).toISOString().slice(0, 7)
+  );
+};
+
+// 分析师主页：资料、覆盖的公司、每月报告数和全部报告
+export function AnalystProfile({ analystId, companies, currentUser, onBack, onCompanySelect }: AnalystProfileProps) {
+  const { getTypeColor, getCategoryColor } = useTaxonomies();
+  const [profile, setProfile] = useState<AnalystProfileData | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const analyst = profile?.analyst;
+
+  const loadProfile = useCallback(async () => {
+    try {
+      setProfile(await analystApi.getById(analystId));
+    } catch (error) {
+      console.error('Error loading analyst:', error);
+      // 分析师已被合并或删除
+      toast.error('该分析师已不存在');
+      onBack();
+    }
+  }, [analystId, onBack]);
+
+  useEffect(() => {
+    setProfile(null);
+    loadProfile();
+  }, [loadProfile]);
+
+  // 改名后按新名称重新加载报告
+  const reports = usePagedList<Report>({
+    loadPage: (cursor) => reportApi.getFeed({ analyst: analyst!.name, sort: 'newest' }, cursor),
+    resetKey: analyst?.name ?? '',
+    enabled: !!analyst
+  });
+  const { reload: reloadReports } = reports;
+
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      if (event.entityType === 'analyst' || event.action.startsWith('report.')) {
+        loadProfile();
+        reloadReports();
+      }
+    });
+  }, [loadProfile, reloadReports]);
+
+  const handleDelete = async () => {
+    try {
+      await analystApi.delete(analystId);
+      toast.success('分析师已删除');
+      onBack();
+    } catch (error) {
+      console.error('Error deleting analyst:', error);
+      toast.error(error instanceof Error && error.message.includes('still has')
+        ? '该分析师仍有报告（包括回收站中的），无法删除'
+        : '删除失败，请重试');
+    }
+  };
+
+  const companiesById = new Map(companies.map(company => [company.id, company]));
+  const openCompany = (companyId: string) => {
+    const company = companiesById.get(companyId);
+    if (company) {
+      onCompanySelect(company);
+    } else {
+      toast.error('该公司已被删除');
+    }
+  };
+
+  const monthCounts = new Map(profile?.activity.map(item => [item.month, item.count]) ?? []);
+  const activity = recentMonths(ACTIVITY_MONTHS).map(month => ({ month, count: monthCounts.get(month) ?? 0 }));
+  const maxCount = Math.max(1, ...activity.map(item => item.count));
+  const categories = Object.entries(profile?.categories ?? {}).sort((a, b) => b[1] - a[1]);
+  // 公司列表里没有的（如刚被删除）不显示
+  const coverage = profile?.coverage.filter(item => companiesById.has(item.companyId)) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="w-fit hover:shadow-md transition-all duration-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回分析师名录
+        </Button>
+      </motion.div>
+
+      {!profile || !analyst ? (
+        <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+      ) : (
+        <>
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-4">
+              <div className="w-14 h-14 bg-secondary rounded-full flex items-center justify-center flex-shrink-0 text-xl text-secondary-foreground">
+                {analyst.name.slice(0, 1)}
+              </div>
+              <div className="space-y-1">
+                <h1 className="text-2xl font-medium text-foreground">{analyst.name}</h1>
+                {(analyst.team || analyst.title) && (
+                  <p className="text-sm text-muted-foreground">{[analyst.team, analyst.title].filter(Boolean).join(' · ')}</p>
+                )}
+                {analyst.email && (
+                  <a href={`mailto:${analyst.email}`} className="text-sm text-primary hover:underline flex items-center gap-1">
+                    <Mail className="h-3.5 w-3.5" />
+                    {analyst.email}
+                  </a>
+                )}
+                {analyst.bio && (
+                  <p className="text-sm text-foreground whitespace-pre-wrap max-w-2xl pt-1">{analyst.bio}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {can(currentUser, 'analyst:edit') && (
+                <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)} className="hover:shadow-md transition-all duration-200">
+                  <Edit className="h-4 w-4 mr-2" />
+                  编辑资料
+                </Button>
+              )}
+              {can(currentUser, 'analyst:merge') && profile.reportCount === 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsDeleteOpen(true)}
+                  className="text-destructive hover:bg-destructive/10 hover:text-destructive transition-all duration-200"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  删除
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[
+              { icon: FileText, label: '报告', value: profile.reportCount },
+              { icon: Building2, label: '覆盖公司', value: profile.coverage.length },
+              { icon: Calendar, label: '最近报告', value: profile.latestReportAt ? formatDate(profile.latestReportAt) : '—' }
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="flex items-center gap-3 px-4 py-4">
+                  <stat.icon className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-lg font-medium text-foreground">{stat.value}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-base">近 {ACTIVITY_MONTHS} 个月报告数</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-2 h-32">
+                  {activity.map(item => (
+                    <div key={item.month} className="flex-1 flex flex-col items-center justify-end h-full gap-1" title={`${item.month}：${item.count} 份`}>
+                      {item.count > 0 && <span className="text-xs text-muted-foreground">{item.count}</span>}
+                      <motion.div
+                        className="w-full rounded-t bg-primary/70"
+                        initial={{ height: 0 }}
+                        animate={{ height: `${(item.count / maxCount) * 100}%` }}
+                        transition={{ duration: 0.4 }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-2">
+                  {activity.map(item => (
+                    <span key={item.month} className="flex-1 text-center text-xs text-muted-foreground">
+                      {Number(item.month.slice(5))}月
+                    </span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">报告类别</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {categories.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">暂无报告</p>
+                ) : categories.map(([category, count]) => (
+                  <Badge key={category} className={`text-xs shadow-sm ${getCategoryColor(category)}`}>
+                    {category} {count}
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          {coverage.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">覆盖公司（{coverage.length}）</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {coverage.map(item => {
+                  const company = companiesById.get(item.companyId)!;
+                  return (
+                    <button
+                      key={item.companyId}
+                      type="button"
+                      onClick={() => onCompanySelect(company)}
+                      className="flex items-center gap-3 rounded-lg border border-border px-4 py-3 text-left hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{company.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          <span className="font-mono">{company.code}</span> · {item.reportCount} 份 · 最近 {formatDate(item.latestReportAt)}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={`text-xs ${getTypeColor(company.type)}`}>
+                        {company.type}
+                      </Badge>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">报告（{profile.reportCount}）</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {reports.isLoading && reports.items.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">加载中...</p>
+              ) : reports.items.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">还没有报告</p>
+              ) : (
+                <AnimatePresence>
+                  {reports.items.map((report, index) => (
+                    <motion.button
+                      key={report.id}
+                      type="button"
+                      onClick={() => openCompany(report.companyId)}
+                      className="w-full flex items-center gap-3 rounded-lg border border-border px-4 py-3 text-left hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{ delay: Math.min(index, 10) * 0.03, duration: 0.2 }}
+                    >
+                      <FileKindIcon kind={getReportFileKind(report)} className="h-5 w-5 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{report.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {companiesById.get(report.companyId)?.name ?? '已删除的公司'} · {formatDate(report.createdAt || '')}
+                        </p>
+                      </div>
+                      <Badge className={`text-xs shadow-sm ${getCategoryColor(report.category)}`}>
+                        {report.category}
+                      </Badge>
+                    </motion.button>
+                  ))}
+                </AnimatePresence>
+              )}
+              <LoadMoreTrigger hasMore={reports.hasMore} isLoading={reports.isLoadingMore} onLoadMore={reports.loadMore} />
+            </CardContent>
+          </Card>
+
+          <AnalystEditDialog
+            isOpen={isEditOpen}
+            onOpenChange={setIsEditOpen}
+            analyst={analyst}
+            onSaved={loadProfile}
+          />
+
+          <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>删除分析师</AlertDialogTitle>
+                <AlertDialogDescription>
+                  确定从名录中删除 "{analyst.name}" 吗？只有没有任何报告（包括回收站中的）的分析师才能删除。
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>取消</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowLeft, BarChart3, Building2, Contact, FileText, MessageSquare, TrendingUp } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts@2.15.2';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { realtimeApi, statsApi } from '../utils/api';
+import { formatDate } from '../utils/helpers';
+import type { Company, DashboardStats } from '../App';
+
+interface AnalyticsDashboardProps {
+  companies: Company[];
+  onBack: () => void;
+  onCompanySelect: (company: Company) => void;
+  onAnalystSelect: (analystId: string) => void;
+}
+
+const PERIOD_OPTIONS = [6, 12, 24, 36];
+const STALE_DAY_OPTIONS = [30, 60, 90, 180, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 连续的修改（如批量上传）合并为一次重新加载
+const RELOAD_DELAY_MS = 1000;
+
+const reportsConfig = {
+  count: { label: '报告', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const stockTypeConfig = {
+  count: { label: '报告', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+const categoryConfig = {
+  count: { label: '报告', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const analystConfig = {
+  count: { label: '报告', color: 'var(--chart-4)' },
+} satisfies ChartConfig;
+
+const commentConfig = {
+  count: { label: '评论', color: 'var(--chart-1)' },
+  commenters: { label: '参与人数', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+// 2026-09 显示为 9月，跨年的期间给一月加上年份
+const monthLabel = (month: string) => {
+  const [year, value] = month.split('-');
+  return value === '01' ? `${year}年1月` : `${Number(value)}月`;
+};
+
+// 横向条形图的高度随条数变化
+const barListHeight = (count: number) => Math.max(120, count * 32);
+
+// 数据看板：期间内的报告产出、分类和股票类型分布、活跃的分析师与评论，以及长期没有报告的公司
+export function AnalyticsDashboard({ companies, onBack, onCompanySelect, onAnalystSelect }: AnalyticsDashboardProps) {
+  const { getTypeColor } = useTaxonomies();
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [months, setMonths] = useState(12);
+  const [staleDays, setStaleDays] = useState(90);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await statsApi.get(months, staleDays));
+    } catch (error) {
+      console.error('Error loading stats:', error);
+      toast.error('加载统计失败，请重试');
+    }
+  }, [months, staleDays]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  useEffect(() => {
+    const unsubscribe = realtimeApi.subscribe(event => {
+      if (['company', 'report', 'comment', 'analyst', 'trash', 'taxonomy'].includes(event.entityType)) {
+        if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+        reloadTimerRef.current = setTimeout(loadStats, RELOAD_DELAY_MS);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+    };
+  }, [loadStats]);
+
+  const companiesById = new Map(companies.map(company => [company.id, company]));
+  const openCompany = (companyId: string) => {
+    const company = companiesById.get(companyId);
+    if (company) {
+      onCompanySelect(company);
+    } else {
+      toast.error('该公司已被删除');
+    }
+  };
+
+  const daysSince = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS);
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="w-fit hover:shadow-md transition-all duration-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回列表
+        </Button>
+      </motion.div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-medium text-foreground flex items-center gap-2">
+            <BarChart3 className="h-6 w-6" />
+            数据看板
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            按月统计（UTC），不含回收站中的公司和报告
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+            <SelectTrigger className="w-32 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>近 {option} 个月</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!stats ? (
+        <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { icon: Building2, label: '跟踪公司', value: stats.totals.companies },
+              { icon: FileText, label: '报告总数', value: stats.totals.reports },
+              { icon: Contact, label: '分析师', value: stats.totals.analysts },
+              { icon: TrendingUp, label: `近 ${stats.months} 个月报告`, value: stats.totals.reportsInPeriod },
+              { icon: MessageSquare, label: `近 ${stats.months} 个月评论`, value: stats.totals.commentsInPeriod }
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="flex items-center gap-3 px-4 py-4">
+                  <stat.icon className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-lg font-medium text-foreground">{stat.value}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">每月报告数</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={reportsConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={stats.reportsPerMonth}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickFormatter={monthLabel} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(month) => monthLabel(String(month))} />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">报告类别</CardTitle>
+                <CardDescription>近 {stats.months} 个月的报告</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.byCategory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">期间内没有报告</p>
+                ) : (
+                  <ChartContainer config={categoryConfig} className="w-full aspect-auto" style={{ height: barListHeight(stats.byCategory.length) }}>
+                    <BarChart data={stats.byCategory} layout="vertical" margin={{ left: 8 }}>
+                      <XAxis type="number" allowDecimals={false} hide />
+                      <YAxis dataKey="category" type="category" tickLine={false} axisLine={false} width={80} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">股票类型</CardTitle>
+                <CardDescription>近 {stats.months} 个月的报告，按公司的股票类型</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.byStockType.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">期间内没有报告</p>
+                ) : (
+                  <ChartContainer config={stockTypeConfig} className="w-full aspect-auto" style={{ height: barListHeight(stats.byStockType.length) }}>
+                    <BarChart data={stats.byStockType} layout="vertical" margin={{ left: 8 }}>
+                      <XAxis type="number" allowDecimals={false} hide />
+                      <YAxis dataKey="type" type="category" tickLine={false} axisLine={false} width={80} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">产出最多的分析师</CardTitle>
+                <CardDescription>近 {stats.months} 个月，点击查看分析师主页</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.topAnalysts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">期间内没有报告</p>
+                ) : (
+                  <ChartContainer config={analystConfig} className="w-full aspect-auto" style={{ height: barListHeight(stats.topAnalysts.length) }}>
+                    <BarChart data={stats.topAnalysts} layout="vertical" margin={{ left: 8 }}>
+                      <XAxis type="number" allowDecimals={false} hide />
+                      <YAxis dataKey="name" type="category" tickLine={false} axisLine={false} width={80} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar
+                        dataKey="count"
+                        fill="var(--color-count)"
+                        radius={4}
+                        className="cursor-pointer"
+                        onClick={(item: { analystId: string | null }) => item.analystId && onAnalystSelect(item.analystId)}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">评论活跃度</CardTitle>
+                <CardDescription>每月的评论数和参与评论的人数</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={commentConfig} className="h-56 w-full aspect-auto">
+                  <LineChart data={stats.commentActivity}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickFormatter={monthLabel} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(month) => monthLabel(String(month))} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="count" type="monotone" stroke="var(--color-count)" strokeWidth={2} dot={false} />
+                    <Line dataKey="commenters" type="monotone" stroke="var(--color-commenters)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+                {stats.mostDiscussed.length > 0 && (
+                  <div className="mt-4 space-y-1">
+                    <p className="text-xs text-muted-foreground">讨论最多的报告</p>
+                    {stats.mostDiscussed.map(item => (
+                      <button
+                        key={item.reportId}
+                        type="button"
+                        onClick={() => openCompany(item.companyId)}
+                        className="w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-secondary/40 transition-colors duration-200"
+                      >
+                        <span className="flex-1 min-w-0 truncate text-foreground">{item.title}</span>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">
+                          {companiesById.get(item.companyId)?.name ?? '已删除的公司'} · {item.count} 条评论
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base">久未覆盖的公司（{stats.staleCompanies.length}）</CardTitle>
+                <CardDescription>最近 {stats.staleDays} 天没有新报告，从未有报告的在前</CardDescription>
+              </div>
+              <Select value={String(staleDays)} onValueChange={(value) => setStaleDays(Number(value))}>
+                <SelectTrigger className="w-32 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STALE_DAY_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>超过 {option} 天</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {stats.staleCompanies.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">所有公司最近 {stats.staleDays} 天都有新报告</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                  {stats.staleCompanies.map(item => (
+                    <button
+                      key={item.companyId}
+                      type="button"
+                      onClick={() => openCompany(item.companyId)}
+                      className="flex items-center gap-3 rounded-lg border border-border px-4 py-3 text-left hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          <span className="font-mono">{item.code}</span> · {item.latestReportAt
+                            ? `${daysSince(item.latestReportAt)} 天前（${formatDate(item.latestReportAt)}）`
+                            : '还没有报告'}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={`text-xs ${getTypeColor(item.type)}`}>
+                        {item.type}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { auditApi } from '../utils/api';
+import type { AuditEntry, Report, Tag } from '../App';
+
+interface AuditLogProps {
+  companyId: string;
+  reports: Report[]; // 用于显示报告标题
+  tags: Tag[]; // 用于显示标签名称
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'company.create': '创建了公司',
+  'company.update': '修改了公司信息',
+  'company.icon': '更换了公司Logo',
+  'company.delete': '将公司移至回收站',
+  'company.restore': '从回收站恢复了公司',
+  'report.create': '上传了报告',
+  'report.update': '修改了报告信息',
+  'report.version': '上传了报告新版本',
+  'report.reorder': '调整了报告顺序',
+  'report.delete': '将报告移至回收站',
+  'report.restore': '从回收站恢复了报告',
+  'company.tags': '修改了公司标签',
+  'report.tags': '修改了报告标签',
+  'comment.create': '发表了评论',
+  'comment.update': '编辑了评论',
+  'comment.delete': '删除了评论',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: '名称',
+  code: '代码',
+  type: '类型',
+  description: '描述',
+  iconUrl: 'Logo',
+  title: '标题',
+  analyst: '分析师',
+  category: '类别',
+  createdAt: '日期',
+  fileName: '文件',
+  fileSize: '大小',
+  currentVersion: '版本',
+  content: '内容',
+  tagIds: '标签',
+};
+
+const ENTITY_FILTERS = [
+  { value: 'all', label: '全部操作' },
+  { value: 'company', label: '公司' },
+  { value: 'report', label: '报告' },
+  { value: 'comment', label: '评论' },
+];
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const formatValue = (field: string, value: unknown, tags: Tag[]) => {
+  if (isEmptyValue(value)) return '—';
+  if (field === 'createdAt' && typeof value === 'string') {
+    return new Date(value).toLocaleDateString('zh-CN');
+  }
+  if (field === 'tagIds' && Array.isArray(value)) {
+    return value.map(id => tags.find(tag => tag.id === id)?.name ?? '已删除的标签').join('、');
+  }
+  return String(value);
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString('zh-CN', {
+  month: 'numeric',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+// 新建和删除只记录结果，不逐项列出字段；排序记录的是每项的新位置
+const getVisibleChanges = (entry: AuditEntry) => {
+  if (entry.action.endsWith('.reorder') || entry.action.endsWith('.delete') || entry.action.endsWith('.restore')) {
+    return [];
+  }
+  // 新建时没有标签也会记为从空到空列表，不显示
+  return Object.entries(entry.changes)
+    .filter(([field, change]) => FIELD_LABELS[field] && !(isEmptyValue(change.before) && isEmptyValue(change.after)));
+};
+
+export function AuditLog({ companyId, reports, tags }: AuditLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [entityType, setEntityType] = useState('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await auditApi.getAll({
+        companyId,
+        entityType: entityType === 'all' ? undefined : entityType,
+      }));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error('加载操作记录失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [companyId, entityType]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const describeTarget = (entry: AuditEntry) => {
+    if (entry.entityType !== 'report') return '';
+    const title = reports.find(report => report.id === entry.entityId)?.title
+      ?? (entry.changes.title?.before ?? entry.changes.title?.after) as string | undefined;
+    return title ? `《${title}》` : '';
+  };
+
+  return (
+    <Card className="relative overflow-hidden shadow-lg shadow-black/5">
+      <CardHeader className="border-b">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            操作记录
+          </CardTitle>
+          <div className="flex items-center gap-3">
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENTITY_FILTERS.map(filter => (
+                  <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadEntries}
+              disabled={isLoading}
+              className="hover:bg-secondary/50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              刷新
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading && entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">暂无操作记录</p>
+        ) : (
+          <div className="space-y-3">
+            <AnimatePresence>
+              {entries.map((entry, index) => {
+                const changes = getVisibleChanges(entry);
+                return (
+                  <motion.div
+                    key={entry.id}
+                    className="rounded-lg border border-border px-4 py-3"
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(index, 10) * 0.03, duration: 0.2 }}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="text-sm text-foreground">
+                        <span className="font-medium">{entry.actorName}</span>
+                        {' '}{ACTION_LABELS[entry.action] ?? entry.action}{describeTarget(entry)}
+                      </p>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">{formatTime(entry.createdAt)}</span>
+                    </div>
+                    {entry.action.endsWith('.reorder') && (
+                      <p className="text-xs text-muted-foreground mt-1">共 {Object.keys(entry.changes).length} 项位置变化</p>
+                    )}
+                    {changes.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        {changes.map(([field, change]) => (
+                          <div key={field} className="flex items-center gap-2 text-xs">
+                            <Badge variant="outline" className="text-xs">{FIELD_LABELS[field]}</Badge>
+                            <span className="text-muted-foreground line-through truncate max-w-[40%]">{formatValue(field, change.before, tags)}</span>
+                            <span className="text-muted-foreground">→</span>
+                            <span className="text-foreground truncate max-w-[40%]">{formatValue(field, change.after, tags)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
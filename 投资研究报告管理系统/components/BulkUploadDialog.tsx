@@ -0,0 +1,359 @@
+import React, { useState } from 'react';
+import { Upload, X, RotateCcw, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { FileKindIcon } from './FileKindIcon';
+import { AnalystPicker } from './AnalystPicker';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { reportApi } from '../utils/api';
+import { REPORT_FILE_ACCEPT } from '../utils/constants';
+import { getFileKind, guessReportTitle } from '../utils/helpers';
+import type { Report } from '../App';
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+// 同时上传的文件数，避免一次占满带宽和边缘函数并发
+const CONCURRENCY = 3;
+
+type UploadStatus = 'pending' | 'uploading' | 'done' | 'error';
+
+type UploadItem = {
+  id: string;
+  file: File;
+  title: string;
+  analyst: string;
+  category: string;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+};
+
+interface BulkUploadDialogProps {
+  companyId: string;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUploaded: (reports: Report[]) => void;
+}
+
+export function BulkUploadDialog({ companyId, isOpen, onOpenChange, onUploaded }: BulkUploadDialogProps) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [rejected, setRejected] = useState<{ name: string; reason: string }[]>([]);
+  const [bulkAnalyst, setBulkAnalyst] = useState('');
+  const { reportCategories } = useTaxonomies();
+  // 未选择时默认排在最前的报告类别
+  const [chosenCategory, setChosenCategory] = useState('');
+  const bulkCategory = chosenCategory || reportCategories[0]?.label || '';
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const updateItem = (id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const addFiles = (files: File[]) => {
+    const accepted: UploadItem[] = [];
+    const skipped: { name: string; reason: string }[] = [];
+
+    files.forEach(file => {
+      if (!getFileKind(file.name)) {
+        skipped.push({ name: file.name, reason: '不支持的文件类型' });
+      } else if (file.size > MAX_FILE_SIZE) {
+        skipped.push({ name: file.name, reason: '超过50MB' });
+      } else {
+        accepted.push({
+          id: crypto.randomUUID(),
+          file,
+          title: guessReportTitle(file.name),
+          analyst: bulkAnalyst,
+          category: bulkCategory,
+          status: 'pending',
+          progress: 0
+        });
+      }
+    });
+
+    setItems(prev => [...prev, ...accepted]);
+    setRejected(prev => [...prev, ...skipped]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const applyToAll = () => {
+    setItems(prev => prev.map(item => item.status === 'done' ? item : {
+      ...item,
+      analyst: bulkAnalyst || item.analyst,
+      category: bulkCategory
+    }));
+  };
+
+  const uploadItem = async (item: UploadItem): Promise<Report | null> => {
+    updateItem(item.id, { status: 'uploading', progress: 0, error: undefined });
+    try {
+      const report = await reportApi.upload(companyId, {
+        title: item.title.trim(),
+        analyst: item.analyst.trim(),
+        category: item.category,
+        file: item.file
+      }, (progress) => updateItem(item.id, { progress }));
+      updateItem(item.id, { status: 'done', progress: 100 });
+      return report;
+    } catch (error) {
+      console.error(`Error uploading ${item.file.name}:`, error);
+      updateItem(item.id, { status: 'error', error: error instanceof Error ? error.message : '上传失败' });
+      return null;
+    }
+  };
+
+  // 以固定并发数依次上传，单个失败不影响其他文件
+  const uploadAll = async (queue: UploadItem[]) => {
+    const invalid = queue.filter(item => !item.title.trim() || !item.analyst.trim());
+    if (invalid.length > 0) {
+      toast.error(`有 ${invalid.length} 个文件缺少标题或分析师`);
+      return;
+    }
+
+    setIsUploading(true);
+    const uploaded: Report[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < queue.length) {
+        const report = await uploadItem(queue[next++]);
+        if (report) uploaded.push(report);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker));
+    setIsUploading(false);
+
+    if (uploaded.length > 0) {
+      onUploaded(uploaded);
+    }
+    const failed = queue.length - uploaded.length;
+    if (failed === 0) {
+      toast.success(`${uploaded.length} 份报告上传成功`);
+    } else {
+      toast.error(`${failed} 份报告上传失败，可重试`);
+    }
+  };
+
+  const pendingItems = items.filter(item => item.status === 'pending');
+  const failedItems = items.filter(item => item.status === 'error');
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const isFinished = items.length > 0 && !isUploading && pendingItems.length === 0;
+
+  const handleOpenChange = (open: boolean) => {
+    if (isUploading) return;
+    if (!open) {
+      setItems([]);
+      setRejected([]);
+    }
+    onOpenChange(open);
+  };
+
+  const statusIcon = (item: UploadItem) => {
+    switch (item.status) {
+      case 'uploading':
+        return <Loader2 className="h-4 w-4 text-primary animate-spin" />;
+      case 'done':
+        return <CheckCircle2 className="h-4 w-4 text-emerald-600" />;
+      case 'error':
+        return <AlertCircle className="h-4 w-4 text-destructive" />;
+      default:
+        return <FileKindIcon kind={getFileKind(item.file.name) ?? 'pdf'} className="h-4 w-4" />;
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>批量上传报告</DialogTitle>
+          <DialogDescription>
+            拖入多个文件（PDF、Excel、Word、PPT或图片），标题会根据文件名自动填写。可逐行修改分析师和分类，或统一应用到全部文件。
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 拖放区域 */}
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 cursor-pointer transition-colors duration-200 ${
+            isDragging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/40'
+          }`}
+        >
+          <Upload className="h-6 w-6 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">拖放文件到此处，或点击选择（单个文件最大50MB）</span>
+          <input
+            type="file"
+            accept={REPORT_FILE_ACCEPT}
+            multiple
+            className="hidden"
+            disabled={isUploading}
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {/* 批量设置 */}
+        {items.length > 0 && (
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Label htmlFor="bulk-analyst">分析师</Label>
+              <AnalystPicker
+                id="bulk-analyst"
+                value={bulkAnalyst}
+                onChange={setBulkAnalyst}
+                placeholder="统一设置分析师"
+                className="mt-1.5"
+              />
+            </div>
+            <div className="w-40">
+              <Label>分类</Label>
+              <Select value={bulkCategory} onValueChange={setChosenCategory}>
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportCategories.map(category => (
+                    <SelectItem key={category.id} value={category.label}>{category.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={applyToAll} disabled={isUploading}>
+              应用到全部
+            </Button>
+          </div>
+        )}
+
+        {/* 文件列表 */}
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          <AnimatePresence>
+            {items.map(item => (
+              <motion.div
+                key={item.id}
+                layout
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -20 }}
+                transition={{ duration: 0.2 }}
+                className="rounded-lg border border-border p-3 space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  {statusIcon(item)}
+                  <Input
+                    value={item.title}
+                    onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                    placeholder="报告标题"
+                    className="flex-1 h-8"
+                    disabled={item.status === 'uploading' || item.status === 'done'}
+                  />
+                  <div className="w-28 flex-shrink-0">
+                    <AnalystPicker
+                      value={item.analyst}
+                      onChange={(name) => updateItem(item.id, { analyst: name })}
+                      placeholder="分析师"
+                      className="h-8 px-2"
+                      disabled={item.status === 'uploading' || item.status === 'done'}
+                    />
+                  </div>
+                  <Select
+                    value={item.category}
+                    onValueChange={(value) => updateItem(item.id, { category: value })}
+                    disabled={item.status === 'uploading' || item.status === 'done'}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {reportCategories.map(category => (
+                        <SelectItem key={category.id} value={category.label}>{category.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {item.status === 'error' ? (
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => uploadAll([item])} disabled={isUploading}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                      disabled={item.status === 'uploading' || item.status === 'done'}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <span className="truncate flex-1">{item.file.name}</span>
+                  <span className="font-mono">{(item.file.size / 1024 / 1024).toFixed(1)}MB</span>
+                </div>
+                {(item.status === 'uploading' || item.status === 'done') && (
+                  <Progress value={item.progress} className="h-1.5" />
+                )}
+                {item.error && (
+                  <p className="text-xs text-destructive truncate">{item.error}</p>
+                )}
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+
+        {/* 上传结果汇总 */}
+        {(isFinished || rejected.length > 0) && (
+          <div className="rounded-lg bg-secondary/30 p-3 text-sm space-y-1">
+            {isFinished && (
+              <p className="text-foreground">
+                已上传 {doneCount} / {items.length} 份
+                {failedItems.length > 0 && <span className="text-destructive">，{failedItems.length} 份失败</span>}
+              </p>
+            )}
+            {failedItems.map(item => (
+              <p key={item.id} className="text-xs text-destructive truncate">{item.file.name}：{item.error}</p>
+            ))}
+            {rejected.map((file, index) => (
+              <p key={index} className="text-xs text-muted-foreground truncate">已跳过 {file.name}：{file.reason}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isUploading}>
+            {isFinished ? '完成' : '取消'}
+          </Button>
+          {failedItems.length > 0 && (
+            <Button variant="outline" onClick={() => uploadAll(failedItems)} disabled={isUploading}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              重试失败项
+            </Button>
+          )}
+          <Button
+            onClick={() => uploadAll(pendingItems)}
+            disabled={isUploading || pendingItems.length === 0}
+            className="shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {isUploading ? '上传中...' : `上传 ${pendingItems.length} 个文件`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
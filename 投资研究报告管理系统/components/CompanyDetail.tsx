@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { ArrowLeft, Upload, FileText, Download, Edit, Trash2, MoreHorizontal, RefreshCw, Calendar as CalendarIcon, MessageSquare, Building2, Eye, Image, ArrowUpDown } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowLeft, Upload, Files, FileText, Download, Edit, Trash2, MoreHorizontal, RefreshCw, Calendar as CalendarIcon, MessageSquare, Building2, Eye, Image, ArrowUpDown, History, Bell, BellOff, BellRing, Tag as TagIcon, Search, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -12,42 +12,79 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Progress } from './ui/progress';
 import { ReportComments } from './ReportComments';
+import { ReportVersions } from './ReportVersions';
+import { BulkUploadDialog } from './BulkUploadDialog';
+import { PdfViewer } from './PdfViewer';
+import { FilePreview } from './FilePreview';
+import { FileKindIcon } from './FileKindIcon';
 import { CompanyIconUpload } from './CompanyIconUpload';
 import { PasswordConfirmDialog } from './PasswordConfirmDialog';
 import { SortManager } from './SortManager';
+import { ConflictDialog, getCompanyConflictFields, type ConflictField } from './ConflictDialog';
+import { AuditLog } from './AuditLog';
+import { TagBadges, TagFilterButton, TagPicker } from './TagPicker';
+import { AnalystPicker } from './AnalystPicker';
+import { useTaxonomies } from './TaxonomyContext';
 import { SkeletonLoader } from './SkeletonLoader';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { usePagedList } from './usePagedList';
 import { ImageWithFallback } from './figma/ImageWithFallback';
-import { companyApi, reportApi } from '../utils/api';
-import { getTypeColor, getCategoryColor, REPORT_CATEGORIES } from '../utils/constants';
-import { formatDate, getLatestReportDate, getAnalystCount } from '../utils/helpers';
+import { companyApi, ConflictError, notificationApi, realtimeApi, reportApi, tagApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { REPORT_FILE_ACCEPT, TRASH_RETENTION_DAYS } from '../utils/constants';
+import { formatDate, getFileKind, getReportFileKind } from '../utils/helpers';
 import { toast } from 'sonner@2.0.3';
 import { motion, AnimatePresence } from 'motion/react';
-import type { Company, Report } from '../App';
+import type { ChangeEvent, Company, CurrentUser, Report, ReportFilter, ReportStats, Subscription, Tag } from '../App';
 
 interface CompanyDetailProps {
   company: Company;
+  currentUser: CurrentUser;
   onBack: () => void;
   onCompanyUpdated: (company: Company) => void;
   onCompanyDeleted: (id: string) => void;
+  tags: Tag[];
+  onTagSelect: (tagId: string) => void; // 打开标签页
+  onTagCreated: (tag: Tag) => void;
 }
 
-export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDeleted }: CompanyDetailProps) {
-  const [reports, setReports] = useState<Report[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState('全部');
+// 分析师筛选的“全部”选项，下拉框的值不能为空字符串
+const ALL_ANALYSTS = '__all__';
+
+const REPORT_SORT_LABELS: Record<NonNullable<ReportFilter['sort']>, string> = {
+  order: '自定义顺序',
+  newest: '最新上传',
+  oldest: '最早上传',
+};
+
+export function CompanyDetail({ company, currentUser, onBack, onCompanyUpdated, onCompanyDeleted, tags, onTagSelect, onTagCreated }: CompanyDetailProps) {
+  const [selectedCategory, setSelectedCategory] = useState(''); // 空字符串为全部（类别名称不能为空）
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [selectedAnalyst, setSelectedAnalyst] = useState(''); // 空字符串为全部
+  const [dateRange, setDateRange] = useState({ from: '', to: '' }); // 上传日期，yyyy-MM-dd
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState(''); // 停止输入后再请求服务端
+  const [reportSort, setReportSort] = useState<NonNullable<ReportFilter['sort']>>('order');
+  const [stats, setStats] = useState<ReportStats | null>(null); // 全部报告的统计，列表只有已加载的几页
+  const [allReports, setAllReports] = useState<Report[]>([]); // 排序对话框和操作记录需要全部报告
+  const [activeSection, setActiveSection] = useState<'reports' | 'audit'>('reports');
   const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [isBulkUploadOpen, setIsBulkUploadOpen] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isReportEditOpen, setIsReportEditOpen] = useState(false);
   const [editingReport, setEditingReport] = useState<Report | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [reportToDelete, setReportToDelete] = useState<Report | null>(null);
   const [isCompanyDeletePasswordOpen, setIsCompanyDeletePasswordOpen] = useState(false);
   const [isReportDeletePasswordOpen, setIsReportDeletePasswordOpen] = useState(false);
   const [isReportSortManagerOpen, setIsReportSortManagerOpen] = useState(false);
+  const [previewReportId, setPreviewReportId] = useState<string | null>(null);
   const [uploadForm, setUploadForm] = useState({
     title: '',
     analyst: '',
-    category: '会议纪要',
+    category: '', // 未选择时为排在最前的类别
     file: null as File | null
   });
   const [editForm, setEditForm] = useState({
@@ -62,71 +99,165 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
     category: '',
     createdAt: ''
   });
+  const [editRevision, setEditRevision] = useState(company.revision); // 打开编辑对话框时的公司版本
+  const [conflictingCompany, setConflictingCompany] = useState<Company | null>(null);
+  const [conflictingReport, setConflictingReport] = useState<Report | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const { stockTypes, reportCategories, getTypeColor, getCategoryColor } = useTaxonomies();
 
-  const filteredReports = selectedCategory === '全部' 
-    ? reports 
-    : reports.filter(report => report.category === selectedCategory);
+  // 按角色隐藏无权执行的操作
+  const canEditCompany = can(currentUser, 'company:edit');
+  const canDeleteCompany = can(currentUser, 'company:delete');
+  const canUploadReport = can(currentUser, 'report:upload');
+  const canEditReport = can(currentUser, 'report:edit');
+  const canDeleteReport = can(currentUser, 'report:delete');
+  const canReorder = can(currentUser, 'reorder');
+  const canViewAudit = can(currentUser, 'audit:view');
+  const canCreateTag = can(currentUser, 'tag:edit');
 
-  // 按顺序排序报告
-  const sortedReports = [...filteredReports].sort((a, b) => {
-    const orderA = a.order ?? 999999;
-    const orderB = b.order ?? 999999;
-    if (orderA !== orderB) {
-      return orderA - orderB;
-    }
-    // 如果order相同，按创建时间排序
-    return new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime();
+  // 已删除的标签、类别和分析师不再参与筛选；选中多个标签时报告需同时带有这些标签
+  const activeTagIds = selectedTagIds.filter(id => tags.some(tag => tag.id === id));
+  const activeCategory = reportCategories.some(category => category.label === selectedCategory) ? selectedCategory : '';
+  const activeAnalyst = stats?.analysts.includes(selectedAnalyst) ? selectedAnalyst : '';
+  const uploadCategory = uploadForm.category || reportCategories[0]?.label || '';
+  const hasExtraFilters = !!(activeAnalyst || dateRange.from || dateRange.to || searchTerm);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // 报告由服务端筛选、排序并分页，日期范围按本地时间取整天
+  const reportFilter: ReportFilter = {
+    category: activeCategory || undefined,
+    analyst: activeAnalyst || undefined,
+    from: dateRange.from ? new Date(`${dateRange.from}T00:00:00`).toISOString() : undefined,
+    to: dateRange.to ? new Date(`${dateRange.to}T23:59:59.999`).toISOString() : undefined,
+    tagIds: activeTagIds,
+    q: debouncedSearch || undefined,
+    sort: reportSort
+  };
+  const reportPages = usePagedList<Report>({
+    loadPage: (cursor) => reportApi.getPage(company.id, reportFilter, cursor),
+    resetKey: `${company.id}|${JSON.stringify(reportFilter)}`
   });
+  const reports = reportPages.items;
+  const setReports = reportPages.setItems;
+  const isLoading = reportPages.isLoading && reports.length === 0;
 
-  const loadReports = useCallback(async (forceRefresh = false) => {
+  const previewReport = reports.find(r => r.id === previewReportId) || null;
+
+  const loadStats = useCallback(async () => {
     try {
-      if (forceRefresh) {
-        setIsRefreshing(true);
-      } else {
-        setIsLoading(true);
-      }
-      const data = await reportApi.getByCompany(company.id);
-      setReports(data);
-      
-      if (forceRefresh) {
-        toast.success('报告数据已刷新');
-      }
+      setStats(await reportApi.getStats(company.id));
     } catch (error) {
-      console.error('Error loading reports:', error);
-      toast.error('加载报告列表失败');
-    } finally {
-      if (forceRefresh) {
-        // 给用户足够时间看到刷新动画，最少显示800ms
-        setTimeout(() => {
-          setIsRefreshing(false);
-        }, Math.max(800, 0));
-      } else {
-        setIsLoading(false);
-      }
+      console.error('Error loading report stats:', error);
     }
   }, [company.id]);
 
   useEffect(() => {
-    loadReports();
-  }, [loadReports]);
+    loadStats();
+  }, [loadStats]);
+
+  // 新增、恢复或重新排序后从第一页重新加载，位置由服务端决定
+  const reloadReports = reportPages.reload;
+  const loadReports = useCallback(async (forceRefresh = false) => {
+    if (forceRefresh) {
+      setIsRefreshing(true);
+    }
+    await Promise.all([reloadReports(), loadStats()]);
+    if (forceRefresh) {
+      toast.success('报告数据已刷新');
+      // 给用户足够时间看到刷新动画，最少显示800ms
+      setTimeout(() => {
+        setIsRefreshing(false);
+      }, 800);
+    }
+  }, [reloadReports, loadStats]);
+
+  // 打开排序对话框或操作记录时加载全部报告
+  useEffect(() => {
+    if (!isReportSortManagerOpen && activeSection !== 'audit') return;
+    reportApi.getByCompany(company.id)
+      .then(setAllReports)
+      .catch(error => console.error('Error loading reports:', error));
+  }, [company.id, isReportSortManagerOpen, activeSection]);
+
+  const clearExtraFilters = () => {
+    setSelectedAnalyst('');
+    setDateRange({ from: '', to: '' });
+    setSearchTerm('');
+  };
+
+  // 当前用户的关注，用于显示关注按钮的状态
+  useEffect(() => {
+    notificationApi.getSubscriptions()
+      .then(setSubscriptions)
+      .catch(error => console.error('Error loading subscriptions:', error));
+  }, [company.id]);
+
+  const handleCompanyTagsChange = async (tagIds: string[]) => {
+    try {
+      onCompanyUpdated(await tagApi.setCompanyTags(company.id, tagIds));
+    } catch (error) {
+      console.error('Error updating company tags:', error);
+      toast.error('更新标签失败，请重试');
+    }
+  };
+
+  const handleReportTagsChange = async (report: Report, tagIds: string[]) => {
+    try {
+      handleReportUpdated(await tagApi.setReportTags(company.id, report.id, tagIds));
+    } catch (error) {
+      console.error('Error updating report tags:', error);
+      toast.error('更新标签失败，请重试');
+    }
+  };
+
+  const isFollowingCompany = subscriptions.some(item => item.companyId === company.id && !item.reportId);
+  const isFollowingReport = (reportId: string) => subscriptions.some(item => item.reportId === reportId);
+
+  const handleToggleFollowCompany = async () => {
+    try {
+      setSubscriptions(await notificationApi.setCompanySubscribed(company.id, !isFollowingCompany));
+      toast.success(isFollowingCompany ? '已取消关注' : '已关注，有新报告或评论时会通知您');
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      toast.error('操作失败，请重试');
+    }
+  };
+
+  const handleToggleFollowReport = async (report: Report) => {
+    const following = isFollowingReport(report.id);
+    try {
+      setSubscriptions(await notificationApi.setReportSubscribed(company.id, report.id, !following));
+      toast.success(following ? '已取消关注该报告' : '已关注，有新评论时会通知您');
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      toast.error('操作失败，请重试');
+    }
+  };
 
+  // 对话框打开期间保留正在编辑的内容和打开时的版本，他人的修改在保存时按冲突处理
   useEffect(() => {
+    if (isEditOpen) return;
     setEditForm({
       name: company.name,
       code: company.code,
       type: company.type,
       description: company.description
     });
-  }, [company]);
+    setEditRevision(company.revision);
+  }, [company, isEditOpen]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (!file.type.includes('pdf')) {
-        toast.error('请选择PDF文件');
+      if (!getFileKind(file.name)) {
+        toast.error('请选择PDF、Excel、Word、PPT或图片文件');
         return;
       }
       if (file.size > 50 * 1024 * 1024) {
@@ -145,25 +276,23 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
     }
 
     setIsSubmitting(true);
+    setUploadProgress(0);
     try {
-      const newReport = await reportApi.upload(company.id, {
+      await reportApi.upload(company.id, {
         title: uploadForm.title,
         analyst: uploadForm.analyst,
-        category: uploadForm.category,
+        category: uploadCategory,
         file: uploadForm.file
-      });
+      }, setUploadProgress);
       
-      // 强制更新报告列表
-      setReports(prev => {
-        const updated = [newReport, ...prev];
-        return [...updated]; // 创建新数组确保重新渲染
-      });
-      setUploadForm({ title: '', analyst: '', category: '会议纪要', file: null });
+      // 新报告是否在当前筛选内、排在哪里由服务端决定
+      loadReports();
+      setUploadForm({ title: '', analyst: '', category: '', file: null });
       setIsUploadOpen(false);
       toast.success('报告上传成功');
     } catch (error) {
       console.error('Error uploading report:', error);
-      toast.error('报告上传失败，请重试');
+      toast.error('报告上传失败，重试将从中断处继续');
     } finally {
       setIsSubmitting(false);
     }
@@ -176,13 +305,21 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
       return;
     }
 
+    await saveCompanyEdit(editRevision);
+  };
+
+  const saveCompanyEdit = async (revision?: number) => {
     setIsSubmitting(true);
     try {
-      const updatedCompany = await companyApi.update(company.id, editForm);
+      const updatedCompany = await companyApi.update(company.id, editForm, revision);
       onCompanyUpdated(updatedCompany);
       setIsEditOpen(false);
       toast.success('公司信息更新成功');
     } catch (error) {
+      if (error instanceof ConflictError && error.current) {
+        setConflictingCompany(error.current as Company);
+        return;
+      }
       console.error('Error updating company:', error);
       toast.error('更新公司信息失败，请重试');
     } finally {
@@ -197,24 +334,34 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
       return;
     }
 
+    await saveReportEdit(editingReport);
+  };
+
+  // report 为编辑基于的版本，冲突后选择覆盖时传入最新版本
+  const saveReportEdit = async (report: Report) => {
     setIsSubmitting(true);
     try {
-      const updatedReport = await reportApi.update(company.id, editingReport.id, {
+      const updatedReport = await reportApi.update(company.id, report.id, {
         title: reportEditForm.title,
         analyst: reportEditForm.analyst,
         category: reportEditForm.category,
         createdAt: reportEditForm.createdAt
-      });
+      }, report.revision);
       
-      // 强制更新报告列表
+      // 强制更新报告列表，评论沿用当前列表中的数据
       setReports(prev => {
-        const updated = prev.map(r => r.id === editingReport.id ? updatedReport : r);
+        const updated = prev.map(r => r.id === report.id ? { ...updatedReport, comments: r.comments } : r);
         return [...updated]; // 创建新数组确保重新渲染
       });
+      loadStats();
       setIsReportEditOpen(false);
       setEditingReport(null);
       toast.success('报告信息更新成功');
     } catch (error) {
+      if (error instanceof ConflictError && error.current) {
+        setConflictingReport(error.current as Report);
+        return;
+      }
       console.error('Error updating report:', error);
       toast.error('更新报告信息失败，请重试');
     } finally {
@@ -230,7 +377,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
     try {
       await companyApi.delete(company.id);
       onCompanyDeleted(company.id);
-      toast.success('公司删除成功');
+      toast.success('公司已移至回收站');
     } catch (error) {
       console.error('Error deleting company:', error);
       toast.error('删除公司失败，请重试');
@@ -253,12 +400,11 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
         return [...updated]; // 创建新数组确保重新渲染
       });
       // 如果当前筛选的分类没有报告了，切换到全部
-      const remainingReports = reports.filter(r => r.id !== reportToDelete.id);
-      const remainingInCategory = remainingReports.filter(r => r.category === selectedCategory);
-      if (selectedCategory !== '全部' && remainingInCategory.length === 0) {
-        setSelectedCategory('全部');
+      if (activeCategory && (stats?.categories[activeCategory] ?? 0) <= 1) {
+        setSelectedCategory('');
       }
-      toast.success('报告删除成功');
+      loadStats();
+      toast.success('报告已移至回收站');
     } catch (error) {
       console.error('Error deleting report:', error);
       toast.error('删除报告失败，请重试');
@@ -277,30 +423,67 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
     }
   };
 
-  const handlePreviewReport = async (report: Report) => {
-    try {
-      const downloadUrl = await reportApi.getDownloadUrl(company.id, report.id);
-      window.open(downloadUrl + '#view=FitH', '_blank');
-    } catch (error) {
-      console.error('Error previewing report:', error);
-      toast.error('预览报告失败，请重试');
-    }
+  const handlePreviewReport = (report: Report) => {
+    setPreviewReportId(report.id);
+  };
+
+  // 修复日期处理，避免时区问题
+  const toDateInput = (value?: string) => {
+    const reportDate = value ? new Date(value) : new Date();
+    const localDate = new Date(reportDate.getTime() - reportDate.getTimezoneOffset() * 60000);
+    return localDate.toISOString().split('T')[0];
   };
 
   const handleEditReport = (report: Report) => {
     setEditingReport(report);
-    // 修复日期处理，避免时区问题
-    const reportDate = report.createdAt ? new Date(report.createdAt) : new Date();
-    const localDate = new Date(reportDate.getTime() - reportDate.getTimezoneOffset() * 60000);
     setReportEditForm({
       title: report.title,
       analyst: report.analyst,
       category: report.category,
-      createdAt: localDate.toISOString().split('T')[0]
+      createdAt: toDateInput(report.createdAt)
     });
     setIsReportEditOpen(true);
   };
 
+  const getReportConflictFields = (latest: Report): ConflictField[] => [
+    { label: '报告标题', mine: reportEditForm.title, theirs: latest.title },
+    { label: '分析师', mine: reportEditForm.analyst, theirs: latest.analyst },
+    { label: '报告分类', mine: reportEditForm.category, theirs: latest.category },
+    { label: '上传日期', mine: reportEditForm.createdAt, theirs: toDateInput(latest.createdAt) },
+  ];
+
+  // 覆盖保存：以最新版本为基础再次提交当前表单
+  const handleOverwriteConflict = () => {
+    if (conflictingCompany) {
+      const latest = conflictingCompany;
+      setConflictingCompany(null);
+      setEditRevision(latest.revision);
+      saveCompanyEdit(latest.revision);
+    } else if (conflictingReport) {
+      const latest = conflictingReport;
+      setConflictingReport(null);
+      setEditingReport(latest);
+      saveReportEdit(latest);
+    }
+  };
+
+  // 使用最新内容：表单换成最新版本，用户可在此基础上继续修改
+  const handleUseLatestConflict = () => {
+    if (conflictingCompany) {
+      setEditForm({
+        name: conflictingCompany.name,
+        code: conflictingCompany.code,
+        type: conflictingCompany.type,
+        description: conflictingCompany.description
+      });
+      setEditRevision(conflictingCompany.revision);
+      setConflictingCompany(null);
+    } else if (conflictingReport) {
+      handleEditReport(conflictingReport);
+      setConflictingReport(null);
+    }
+  };
+
   const handleDateSelect = (date: Date | undefined) => {
     if (date) {
       // 确保日期不受时区影响
@@ -319,9 +502,92 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
     ));
   }, []);
 
-  const handleSortReports = (reorderedReports: Report[]) => {
-    setReports([...reorderedReports]);
-    toast.success('报告排序已更新');
+  // 上传新版本后替换报告文件信息，评论沿用当前列表中的数据
+  const handleReportUpdated = useCallback((updatedReport: Report) => {
+    setReports(prev => prev.map(r =>
+      r.id === updatedReport.id ? { ...updatedReport, comments: r.comments } : r
+    ));
+  }, []);
+
+  // 其他人对本公司报告、评论和排序的修改实时同步；自己的修改本地已更新过，重复应用结果相同
+  const applyReportChange = (event: ChangeEvent) => {
+    if (event.companyId !== company.id) return;
+    const isOwnChange = event.actorId === currentUser.id;
+
+    switch (event.action) {
+      case 'report.create':
+      case 'report.restore':
+        loadReports();
+        if (!isOwnChange) {
+          toast.info(`${event.actorName} 上传了报告 ${event.data.title}`);
+        }
+        break;
+      case 'report.update':
+      case 'report.version':
+      case 'report.tags':
+        handleReportUpdated(event.data);
+        loadStats();
+        break;
+      case 'report.delete':
+        setReports(prev => prev.filter(r => r.id !== event.entityId));
+        setPreviewReportId(prev => prev === event.entityId ? null : prev);
+        loadStats();
+        break;
+      case 'report.reorder':
+        if (reportSort === 'order') {
+          reloadReports();
+        }
+        break;
+      case 'comment.create':
+      case 'comment.update':
+      case 'comment.delete':
+        if (event.reportId) {
+          handleCommentsUpdated(event.reportId, event.data);
+        }
+        break;
+    }
+  };
+
+  // 频道只订阅一次，通过 ref 始终调用最新的处理函数
+  const reportChangeRef = useRef(applyReportChange);
+  reportChangeRef.current = applyReportChange;
+
+  useEffect(() => {
+    return realtimeApi.subscribe(event => reportChangeRef.current(event));
+  }, []);
+
+  // 报告类别改名后，本公司报告的类别随之改变
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      if (event.action === 'taxonomy.update' && event.data.kind === 'report_category') {
+        loadReports();
+      }
+    });
+  }, [loadReports]);
+
+  // 带上各报告的 revision 保存排序，期间有人改动过则整体不保存并加载最新顺序
+  const handleSortReports = async (reorderedReports: Report[]) => {
+    setAllReports([...reorderedReports]);
+    try {
+      setAllReports(await reportApi.updateOrder(company.id, reorderedReports.map((report, index) => ({
+        id: report.id,
+        order: index,
+        revision: report.revision
+      }))));
+      toast.success('报告排序已更新');
+    } catch (error) {
+      if (error instanceof ConflictError && error.current) {
+        setAllReports(error.current as Report[]);
+        toast.error('排序期间报告已被他人修改，已加载最新顺序，请重新调整');
+        return;
+      }
+      console.error('Error updating report order:', error);
+      toast.error('保存排序失败，请重试');
+    } finally {
+      if (reportSort === 'order') {
+        reloadReports();
+      }
+    }
   };
 
   // 手动刷新函数
@@ -419,6 +685,25 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                 </div>
                 <p className="text-lg text-muted-foreground font-mono">{company.code}</p>
                 <p className="text-muted-foreground leading-relaxed max-w-2xl">{company.description}</p>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <TagBadges tags={tags} tagIds={company.tagIds} onTagSelect={onTagSelect} />
+                  {canEditCompany && (
+                    <TagPicker
+                      tags={tags}
+                      selectedTagIds={company.tagIds ?? []}
+                      onChange={handleCompanyTagsChange}
+                      title="公司标签"
+                      canCreate={canCreateTag}
+                      onTagCreated={onTagCreated}
+                      trigger={
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground">
+                          <TagIcon className="h-3 w-3 mr-1" />
+                          编辑标签
+                        </Button>
+                      }
+                    />
+                  )}
+                </div>
               </motion.div>
             </div>
             
@@ -428,281 +713,322 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.4, duration: 0.5 }}
             >
-              <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-                <DialogTrigger asChild>
-                  <motion.div
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    <Button 
-                      variant="outline"
-                      className="hover:shadow-md transition-all duration-300"
+              <motion.div
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <Button
+                  variant={isFollowingCompany ? 'secondary' : 'outline'}
+                  onClick={handleToggleFollowCompany}
+                  className="hover:shadow-md transition-all duration-300"
+                >
+                  {isFollowingCompany ? <BellOff className="h-4 w-4 mr-2" /> : <Bell className="h-4 w-4 mr-2" />}
+                  {isFollowingCompany ? '取消关注' : '关注'}
+                </Button>
+              </motion.div>
+
+              {canEditCompany && (
+                <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+                  <DialogTrigger asChild>
+                    <motion.div
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
                     >
-                      <Edit className="h-4 w-4 mr-2" />
-                      编辑信息
-                    </Button>
-                  </motion.div>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-lg">
-                  <DialogHeader>
-                    <DialogTitle>编辑公司信息</DialogTitle>
-                    <DialogDescription>
-                      修改公司的基本信息，包括名称、代码、类型和描述。
-                    </DialogDescription>
-                  </DialogHeader>
-                  <motion.form 
-                    onSubmit={handleEditSubmit} 
-                    className="space-y-4"
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.3 }}
-                  >
-                    <div className="grid grid-cols-2 gap-3">
+                      <Button 
+                        variant="outline"
+                        className="hover:shadow-md transition-all duration-300"
+                      >
+                        <Edit className="h-4 w-4 mr-2" />
+                        编辑信息
+                      </Button>
+                    </motion.div>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                      <DialogTitle>编辑公司信息</DialogTitle>
+                      <DialogDescription>
+                        修改公司的基本信息，包括名称、代码、类型和描述。
+                      </DialogDescription>
+                    </DialogHeader>
+                    <motion.form 
+                      onSubmit={handleEditSubmit} 
+                      className="space-y-4"
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <Label htmlFor="edit-name">公司名称 *</Label>
+                          <Input
+                            id="edit-name"
+                            value={editForm.name}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                            className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="edit-code">股票代码 *</Label>
+                          <Input
+                            id="edit-code"
+                            value={editForm.code}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, code: e.target.value }))}
+                            className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
+                            required
+                          />
+                        </div>
+                      </div>
                       <div>
-                        <Label htmlFor="edit-name">公司名称 *</Label>
-                        <Input
-                          id="edit-name"
-                          value={editForm.name}
-                          onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
-                          className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
-                          required
-                        />
+                        <Label htmlFor="edit-type">股票类型 *</Label>
+                        <Select value={editForm.type} onValueChange={(value) => setEditForm(prev => ({ ...prev, type: value }))}>
+                          <SelectTrigger className="mt-1.5 hover:scale-[1.02] transition-all duration-300">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stockTypes.map(type => (
+                              <SelectItem key={type.id} value={type.label}>{type.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                       <div>
-                        <Label htmlFor="edit-code">股票代码 *</Label>
-                        <Input
-                          id="edit-code"
-                          value={editForm.code}
-                          onChange={(e) => setEditForm(prev => ({ ...prev, code: e.target.value }))}
+                        <Label htmlFor="edit-description">公司描述</Label>
+                        <Textarea
+                          id="edit-description"
+                          value={editForm.description}
+                          onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
+                          rows={3}
                           className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
-                          required
                         />
                       </div>
-                    </div>
-                    <div>
-                      <Label htmlFor="edit-type">股票类型 *</Label>
-                      <Select value={editForm.type} onValueChange={(value) => setEditForm(prev => ({ ...prev, type: value }))}>
-                        <SelectTrigger className="mt-1.5 hover:scale-[1.02] transition-all duration-300">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="A股">A股</SelectItem>
-                          <SelectItem value="港股">港股</SelectItem>
-                          <SelectItem value="美股">美股</SelectItem>
-                          <SelectItem value="行业">行业</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div>
-                      <Label htmlFor="edit-description">公司描述</Label>
-                      <Textarea
-                        id="edit-description"
-                        value={editForm.description}
-                        onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
-                        rows={3}
-                        className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
-                      />
-                    </div>
-                    <div className="flex justify-end gap-2 pt-4">
-                      <Button 
-                        type="button" 
-                        variant="outline" 
-                        onClick={() => setIsEditOpen(false)} 
-                        disabled={isSubmitting}
-                        className="hover:scale-105 transition-transform duration-200"
-                      >
-                        取消
-                      </Button>
-                      <motion.div
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                      >
+                      <div className="flex justify-end gap-2 pt-4">
                         <Button 
-                          type="submit" 
+                          type="button" 
+                          variant="outline" 
+                          onClick={() => setIsEditOpen(false)} 
                           disabled={isSubmitting}
-                          className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                          className="hover:scale-105 transition-transform duration-200"
                         >
-                          {isSubmitting && (
-                            <motion.div
-                              className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
-                              initial={{ x: '-100%' }}
-                              animate={{ x: '100%' }}
-                              transition={{ 
-                                duration: 1,
-                                repeat: Infinity,
-                                ease: "linear"
-                              }}
-                            />
-                          )}
-                          {isSubmitting ? '更新中...' : '更新'}
+                          取消
                         </Button>
-                      </motion.div>
-                    </div>
-                  </motion.form>
-                </DialogContent>
-              </Dialog>
-
-              <CompanyIconUpload 
-                company={company}
-                onIconUpdated={onCompanyUpdated}
-                trigger={
-                  <motion.div
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    <Button 
-                      variant="outline"
-                      className="hover:shadow-md transition-all duration-300"
-                    >
-                      <Image className="h-4 w-4 mr-2" />
-                      上传Logo
-                    </Button>
-                  </motion.div>
-                }
-              />
-              
-              <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
-                <DialogTrigger asChild>
-                  <motion.div
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    <Button className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300">
-                      <motion.div
-                        className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
-                        initial={{ x: '-100%' }}
-                        whileHover={{ 
-                          x: '100%',
-                          transition: { duration: 0.6 }
-                        }}
-                      />
-                      <Upload className="h-4 w-4 mr-2" />
-                      上传报告
-                    </Button>
-                  </motion.div>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-lg">
-                  <DialogHeader>
-                    <DialogTitle>上传研究报告</DialogTitle>
-                    <DialogDescription>
-                      上传PDF格式的研究报告，文件大小不能超过50MB。
-                    </DialogDescription>
-                  </DialogHeader>
-                  <motion.form 
-                    onSubmit={handleUploadSubmit} 
-                    className="space-y-4"
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.3 }}
-                  >
-                    <div>
-                      <Label htmlFor="title">报告标题 *</Label>
-                      <Input
-                        id="title"
-                        value={uploadForm.title}
-                        onChange={(e) => setUploadForm(prev => ({ ...prev, title: e.target.value }))}
-                        placeholder="请输入报告标题"
-                        className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="analyst">分析师 *</Label>
-                      <Input
-                        id="analyst"
-                        value={uploadForm.analyst}
-                        onChange={(e) => setUploadForm(prev => ({ ...prev, analyst: e.target.value }))}
-                        placeholder="请输入分析师姓名"
-                        className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="category">报告类别</Label>
-                      <Select value={uploadForm.category} onValueChange={(value) => setUploadForm(prev => ({ ...prev, category: value }))}>
-                        <SelectTrigger className="mt-1.5 hover:scale-[1.02] transition-all duration-300">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="会议纪要">会议纪要</SelectItem>
-                          <SelectItem value="首次覆盖">首次覆盖</SelectItem>
-                          <SelectItem value="跟踪">跟踪</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div>
-                      <Label htmlFor="file">PDF文件 * (最大50MB)</Label>
-                      <Input
-                        id="file"
-                        type="file"
-                        accept=".pdf"
-                        onChange={handleFileUpload}
-                        className="mt-1.5 hover:scale-[1.02] transition-all duration-300"
-                        required
-                      />
-                      {uploadForm.file && (
-                        <motion.p 
-                          className="text-sm text-muted-foreground mt-2 p-2 bg-secondary/50 rounded-md"
-                          initial={{ opacity: 0, scale: 0.95 }}
-                          animate={{ opacity: 1, scale: 1 }}
-                          transition={{ duration: 0.2 }}
+                        <motion.div
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
                         >
-                          已选择: {uploadForm.file.name} ({(uploadForm.file.size / 1024 / 1024).toFixed(1)}MB)
-                        </motion.p>
-                      )}
-                    </div>
-                    <div className="flex justify-end gap-2 pt-4">
+                          <Button 
+                            type="submit" 
+                            disabled={isSubmitting}
+                            className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                          >
+                            {isSubmitting && (
+                              <motion.div
+                                className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
+                                initial={{ x: '-100%' }}
+                                animate={{ x: '100%' }}
+                                transition={{ 
+                                  duration: 1,
+                                  repeat: Infinity,
+                                  ease: "linear"
+                                }}
+                              />
+                            )}
+                            {isSubmitting ? '更新中...' : '更新'}
+                          </Button>
+                        </motion.div>
+                      </div>
+                    </motion.form>
+                  </DialogContent>
+                </Dialog>
+              )}
+
+              {canEditCompany && (
+                <CompanyIconUpload 
+                  company={company}
+                  onIconUpdated={onCompanyUpdated}
+                  trigger={
+                    <motion.div
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
                       <Button 
-                        type="button" 
-                        variant="outline" 
-                        onClick={() => setIsUploadOpen(false)} 
-                        disabled={isSubmitting}
-                        className="hover:scale-105 transition-transform duration-200"
+                        variant="outline"
+                        className="hover:shadow-md transition-all duration-300"
                       >
-                        取消
+                        <Image className="h-4 w-4 mr-2" />
+                        上传Logo
                       </Button>
-                      <motion.div
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                      >
+                    </motion.div>
+                  }
+                />
+              )}
+              
+              {canUploadReport && (
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsBulkUploadOpen(true)}
+                    className="hover:shadow-md transition-all duration-200"
+                  >
+                    <Files className="h-4 w-4 mr-2" />
+                    批量上传
+                  </Button>
+                </motion.div>
+              )}
+
+              {canUploadReport && (
+                <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+                  <DialogTrigger asChild>
+                    <motion.div
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      <Button className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300">
+                        <motion.div
+                          className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
+                          initial={{ x: '-100%' }}
+                          whileHover={{ 
+                            x: '100%',
+                            transition: { duration: 0.6 }
+                          }}
+                        />
+                        <Upload className="h-4 w-4 mr-2" />
+                        上传报告
+                      </Button>
+                    </motion.div>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                      <DialogTitle>上传研究报告</DialogTitle>
+                      <DialogDescription>
+                        支持PDF、Excel、Word、PPT和图片文件，文件大小不能超过50MB。
+                      </DialogDescription>
+                    </DialogHeader>
+                    <motion.form 
+                      onSubmit={handleUploadSubmit} 
+                      className="space-y-4"
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <div>
+                        <Label htmlFor="title">报告标题 *</Label>
+                        <Input
+                          id="title"
+                          value={uploadForm.title}
+                          onChange={(e) => setUploadForm(prev => ({ ...prev, title: e.target.value }))}
+                          placeholder="请输入报告标题"
+                          className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="analyst">分析师 *</Label>
+                        <AnalystPicker
+                          id="analyst"
+                          value={uploadForm.analyst}
+                          onChange={(name) => setUploadForm(prev => ({ ...prev, analyst: name }))}
+                          className="mt-1.5"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="category">报告类别</Label>
+                        <Select value={uploadCategory} onValueChange={(value) => setUploadForm(prev => ({ ...prev, category: value }))}>
+                          <SelectTrigger className="mt-1.5 hover:scale-[1.02] transition-all duration-300">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {reportCategories.map(category => (
+                              <SelectItem key={category.id} value={category.label}>{category.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="file">文件 * (最大50MB)</Label>
+                        <Input
+                          id="file"
+                          type="file"
+                          accept={REPORT_FILE_ACCEPT}
+                          onChange={handleFileUpload}
+                          className="mt-1.5 hover:scale-[1.02] transition-all duration-300"
+                          required
+                        />
+                        {uploadForm.file && (
+                          <motion.p 
+                            className="text-sm text-muted-foreground mt-2 p-2 bg-secondary/50 rounded-md"
+                            initial={{ opacity: 0, scale: 0.95 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            transition={{ duration: 0.2 }}
+                          >
+                            已选择: {uploadForm.file.name} ({(uploadForm.file.size / 1024 / 1024).toFixed(1)}MB)
+                          </motion.p>
+                        )}
+                      </div>
+                      {isSubmitting && (
+                        <div className="space-y-1.5">
+                          <Progress value={uploadProgress} />
+                          <p className="text-xs text-muted-foreground text-right font-mono">{uploadProgress}%</p>
+                        </div>
+                      )}
+                      <div className="flex justify-end gap-2 pt-4">
                         <Button 
-                          type="submit" 
+                          type="button" 
+                          variant="outline" 
+                          onClick={() => setIsUploadOpen(false)} 
                           disabled={isSubmitting}
-                          className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                          className="hover:scale-105 transition-transform duration-200"
                         >
-                          {isSubmitting && (
-                            <motion.div
-                              className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
-                              initial={{ x: '-100%' }}
-                              animate={{ x: '100%' }}
-                              transition={{ 
-                                duration: 1,
-                                repeat: Infinity,
-                                ease: "linear"
-                              }}
-                            />
-                          )}
-                          {isSubmitting ? '上传中...' : '上传'}
+                          取消
                         </Button>
-                      </motion.div>
-                    </div>
-                  </motion.form>
-                </DialogContent>
-              </Dialog>
+                        <motion.div
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <Button 
+                            type="submit" 
+                            disabled={isSubmitting}
+                            className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                          >
+                            {isSubmitting && (
+                              <motion.div
+                                className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
+                                initial={{ x: '-100%' }}
+                                animate={{ x: '100%' }}
+                                transition={{ 
+                                  duration: 1,
+                                  repeat: Infinity,
+                                  ease: "linear"
+                                }}
+                              />
+                            )}
+                            {isSubmitting ? '上传中...' : '上传'}
+                          </Button>
+                        </motion.div>
+                      </div>
+                    </motion.form>
+                  </DialogContent>
+                </Dialog>
+              )}
 
-              <motion.div
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-              >
-                <Button 
-                  variant="outline" 
-                  onClick={handleDeleteCompany}
-                  className="text-destructive border-destructive hover:bg-destructive hover:text-destructive-foreground transition-all duration-300 hover:shadow-md hover:shadow-destructive/20"
+              {canDeleteCompany && (
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
                 >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  删除公司
-                </Button>
-              </motion.div>
+                  <Button 
+                    variant="outline" 
+                    onClick={handleDeleteCompany}
+                    className="text-destructive border-destructive hover:bg-destructive hover:text-destructive-foreground transition-all duration-300 hover:shadow-md hover:shadow-destructive/20"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    删除公司
+                  </Button>
+                </motion.div>
+              )}
             </motion.div>
           </div>
         </div>
@@ -715,9 +1041,9 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
           transition={{ delay: 0.5, duration: 0.5 }}
         >
           {[
-            { icon: FileText, label: '研究报告总数', value: reports.length || 0, delay: 0.1 },
-            { icon: CalendarIcon, label: '最新报告', value: getLatestReportDate(reports), delay: 0.15, isDate: true },
-            { icon: MessageSquare, label: '分析师数量', value: getAnalystCount(reports), delay: 0.2 }
+            { icon: FileText, label: '研究报告总数', value: stats?.total ?? 0, delay: 0.1 },
+            { icon: CalendarIcon, label: '最新报告', value: stats?.latestReportDate ? formatDate(stats.latestReportDate) : '-', delay: 0.15, isDate: true },
+            { icon: MessageSquare, label: '分析师数量', value: stats?.analysts.length ?? 0, delay: 0.2 }
           ].map((stat, index) => (
             <motion.div
               key={stat.label}
@@ -773,7 +1099,29 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
           ))}
         </motion.div>
 
+        {/* Section Switcher */}
+        {canViewAudit && (
+          <Tabs value={activeSection} onValueChange={(value) => setActiveSection(value as 'reports' | 'audit')}>
+            <TabsList className="bg-secondary/50">
+              <TabsTrigger value="reports">
+                <FileText className="h-4 w-4 mr-2" />
+                研究报告
+              </TabsTrigger>
+              <TabsTrigger value="audit">
+                <History className="h-4 w-4 mr-2" />
+                操作记录
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        {/* Audit Section */}
+        {activeSection === 'audit' && canViewAudit && (
+          <AuditLog companyId={company.id} reports={allReports} tags={tags} />
+        )}
+
         {/* Reports Section */}
+        {activeSection === 'reports' && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -831,21 +1179,23 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                   </motion.div>
 
                   {/* 排序管理按钮 */}
-                  <motion.div
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setIsReportSortManagerOpen(true)}
-                      disabled={reports.length === 0}
-                      className="hover:bg-primary hover:text-primary-foreground transition-colors duration-200"
+                  {canReorder && (
+                    <motion.div
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
                     >
-                      <ArrowUpDown className="h-4 w-4 mr-2" />
-                      排序管理
-                    </Button>
-                  </motion.div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setIsReportSortManagerOpen(true)}
+                        disabled={!stats?.total}
+                        className="hover:bg-primary hover:text-primary-foreground transition-colors duration-200"
+                      >
+                        <ArrowUpDown className="h-4 w-4 mr-2" />
+                        排序管理
+                      </Button>
+                    </motion.div>
+                  )}
 
                   <span className="text-sm text-muted-foreground">
                     最后刷新：{new Date().toLocaleTimeString('zh-CN')}
@@ -853,16 +1203,17 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                 </div>
               </div>
               
-              <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
+              <div className="flex items-center gap-3 flex-wrap">
+              <Tabs value={activeCategory} onValueChange={setSelectedCategory}>
                 <TabsList className="bg-secondary/50">
-                  {REPORT_CATEGORIES.map((category, index) => {
-                    const count = category === '全部' 
-                      ? reports.length || 0 
-                      : reports.filter(r => r.category === category).length || 0;
+                  {['', ...reportCategories.map(category => category.label)].map((category, index) => {
+                    const count = !category 
+                      ? stats?.total ?? 0 
+                      : stats?.categories[category] ?? 0;
                     
                     return (
                       <motion.div
-                        key={category}
+                        key={category || 'all'}
                         initial={{ opacity: 0, x: 20 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: 0.9 + index * 0.05, duration: 0.3 }}
@@ -871,13 +1222,73 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                           value={category}
                           className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg transition-all duration-200"
                         >
-                          {category} ({count})
+                          {category || '全部'} ({count})
                         </TabsTrigger>
                       </motion.div>
                     );
                   })}
                 </TabsList>
               </Tabs>
+              <TagFilterButton tags={tags} selectedTagIds={activeTagIds} onChange={setSelectedTagIds} />
+              </div>
+
+              <div className="flex items-center gap-3 flex-wrap">
+                <div className="relative w-64 group">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground transition-colors duration-300 group-focus-within:text-primary" />
+                  <Input
+                    placeholder="搜索标题、分析师或文件名..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10 h-9"
+                  />
+                </div>
+                <Select value={activeAnalyst || ALL_ANALYSTS} onValueChange={(value) => setSelectedAnalyst(value === ALL_ANALYSTS ? '' : value)}>
+                  <SelectTrigger className="w-36 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ANALYSTS}>全部分析师</SelectItem>
+                    {stats?.analysts.map(analyst => (
+                      <SelectItem key={analyst} value={analyst}>{analyst}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={dateRange.from}
+                    max={dateRange.to || undefined}
+                    onChange={(e) => setDateRange(prev => ({ ...prev, from: e.target.value }))}
+                    className="w-40 h-9"
+                    aria-label="上传日期起"
+                  />
+                  <span className="text-sm text-muted-foreground">至</span>
+                  <Input
+                    type="date"
+                    value={dateRange.to}
+                    min={dateRange.from || undefined}
+                    onChange={(e) => setDateRange(prev => ({ ...prev, to: e.target.value }))}
+                    className="w-40 h-9"
+                    aria-label="上传日期止"
+                  />
+                </div>
+                <Select value={reportSort} onValueChange={(value) => setReportSort(value as NonNullable<ReportFilter['sort']>)}>
+                  <SelectTrigger className="w-32 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REPORT_SORT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hasExtraFilters && (
+                  <Button variant="ghost" size="sm" onClick={clearExtraFilters}>
+                    <X className="h-4 w-4 mr-1" />
+                    清除筛选
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             
             <CardContent className="p-6 relative z-10">
@@ -886,7 +1297,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
               ) : (
                 <div className="space-y-3">
                   <AnimatePresence mode="popLayout">
-                    {sortedReports.map((report, index) => (
+                    {reports.map((report, index) => (
                       <motion.div
                         key={report.id}
                         layout
@@ -918,7 +1329,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                                   className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0 group-hover:scale-110 transition-transform duration-300"
                                   whileHover={{ rotate: 5 }}
                                 >
-                                  <FileText className="h-5 w-5 text-secondary-foreground" />
+                                  <FileKindIcon kind={getReportFileKind(report)} />
                                 </motion.div>
                                 <div className="flex-1 min-w-0">
                                   <h4 className="font-medium text-foreground truncate mb-1 group-hover:text-primary transition-colors duration-300">
@@ -942,6 +1353,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                                         {report.category}
                                       </Badge>
                                     </motion.div>
+                                    <TagBadges tags={tags} tagIds={report.tagIds} onTagSelect={onTagSelect} />
                                   </div>
                                 </div>
                               </div>
@@ -949,9 +1361,16 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                                 <ReportComments
                                   companyId={company.id}
                                   reportId={report.id}
+                                  currentUser={currentUser}
                                   comments={report.comments || []}
                                   onCommentsUpdated={(comments) => handleCommentsUpdated(report.id, comments)}
                                 />
+                                <ReportVersions
+                                  companyId={company.id}
+                                  report={report}
+                                  currentUser={currentUser}
+                                  onReportUpdated={handleReportUpdated}
+                                />
                                 <motion.div
                                   whileHover={{ scale: 1.05 }}
                                   whileTap={{ scale: 0.95 }}
@@ -980,38 +1399,79 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                                     下载
                                   </Button>
                                 </motion.div>
-                                <DropdownMenu>
-                                  <DropdownMenuTrigger asChild>
-                                    <motion.div
-                                      whileHover={{ scale: 1.1 }}
-                                      whileTap={{ scale: 0.9 }}
-                                    >
-                                      <Button 
-                                        variant="ghost" 
-                                        size="sm" 
+                                <motion.div
+                                  whileHover={{ scale: 1.1 }}
+                                  whileTap={{ scale: 0.9 }}
+                                >
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleToggleFollowReport(report)}
+                                    className={`h-8 w-8 p-0 transition-all duration-200 hover:bg-secondary/50 ${isFollowingReport(report.id) ? 'text-primary' : 'text-foreground'}`}
+                                    title={isFollowingReport(report.id) ? '取消关注该报告' : '关注该报告的评论'}
+                                  >
+                                    {isFollowingReport(report.id) ? <BellRing className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                                  </Button>
+                                </motion.div>
+                                {canEditReport && (
+                                  <TagPicker
+                                    tags={tags}
+                                    selectedTagIds={report.tagIds ?? []}
+                                    onChange={(tagIds) => handleReportTagsChange(report, tagIds)}
+                                    title="报告标签"
+                                    canCreate={canCreateTag}
+                                    onTagCreated={onTagCreated}
+                                    align="end"
+                                    trigger={
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
                                         className="h-8 w-8 p-0 transition-all duration-200 hover:bg-secondary/50 text-foreground"
+                                        title="编辑标签"
                                       >
-                                        <MoreHorizontal className="h-4 w-4" />
+                                        <TagIcon className="h-4 w-4" />
                                       </Button>
-                                    </motion.div>
-                                  </DropdownMenuTrigger>
-                                  <DropdownMenuContent align="end" className="animate-in slide-in-from-top-2 duration-200">
-                                    <DropdownMenuItem 
-                                      onClick={() => handleEditReport(report)}
-                                      className="hover:bg-secondary/50 transition-colors duration-200"
-                                    >
-                                      <Edit className="h-4 w-4 mr-2" />
-                                      编辑信息
-                                    </DropdownMenuItem>
-                                    <DropdownMenuItem 
-                                      onClick={() => handleDeleteReport(report)}
-                                      className="text-destructive focus:text-destructive hover:bg-destructive/10 transition-colors duration-200"
-                                    >
-                                      <Trash2 className="h-4 w-4 mr-2" />
-                                      删除
-                                    </DropdownMenuItem>
-                                  </DropdownMenuContent>
-                                </DropdownMenu>
+                                    }
+                                  />
+                                )}
+                                {(canEditReport || canDeleteReport) && (
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <motion.div
+                                        whileHover={{ scale: 1.1 }}
+                                        whileTap={{ scale: 0.9 }}
+                                      >
+                                        <Button 
+                                          variant="ghost" 
+                                          size="sm" 
+                                          className="h-8 w-8 p-0 transition-all duration-200 hover:bg-secondary/50 text-foreground"
+                                        >
+                                          <MoreHorizontal className="h-4 w-4" />
+                                        </Button>
+                                      </motion.div>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end" className="animate-in slide-in-from-top-2 duration-200">
+                                      {canEditReport && (
+                                        <DropdownMenuItem 
+                                          onClick={() => handleEditReport(report)}
+                                          className="hover:bg-secondary/50 transition-colors duration-200"
+                                        >
+                                          <Edit className="h-4 w-4 mr-2" />
+                                          编辑信息
+                                        </DropdownMenuItem>
+                                      )}
+                                      {canDeleteReport && (
+                                        <DropdownMenuItem 
+                                          onClick={() => handleDeleteReport(report)}
+                                          className="text-destructive focus:text-destructive hover:bg-destructive/10 transition-colors duration-200"
+                                        >
+                                          <Trash2 className="h-4 w-4 mr-2" />
+                                          删除
+                                        </DropdownMenuItem>
+                                      )}
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                )}
                               </div>
                             </div>
                           </CardContent>
@@ -1021,7 +1481,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                   </AnimatePresence>
                   
                   <AnimatePresence>
-                    {sortedReports.length === 0 && !isLoading && (
+                    {reports.length === 0 && !reportPages.isLoading && (
                       <motion.div
                         initial={{ opacity: 0, scale: 0.9 }}
                         animate={{ opacity: 1, scale: 1 }}
@@ -1045,21 +1505,30 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                               <FileText className="h-8 w-8 text-secondary-foreground" />
                             </motion.div>
                             <h3 className="font-medium text-foreground mb-2">
-                              {reports.length === 0 ? '暂无研究报告' : '该分类下暂无报告'}
+                              {!stats?.total ? '暂无研究报告' : hasExtraFilters ? '没有符合筛选条件的报告' : activeTagIds.length > 0 ? '没有同时带有所选标签的报告' : '该分类下暂无报告'}
                             </h3>
                             <p className="text-muted-foreground">
-                              {reports.length === 0 ? '点击"上传报告"按钮添加第一份报告' : '切换分类查看其他报告'}
+                              {!stats?.total
+                                ? (canUploadReport ? '点击"上传报告"按钮添加第一份报告' : '该公司还没有上传研究报告')
+                                : hasExtraFilters ? '调整搜索、分析师或日期范围查看其他报告' : activeTagIds.length > 0 ? '调整标签筛选或切换分类查看其他报告' : '切换分类查看其他报告'}
                             </p>
                           </CardContent>
                         </Card>
                       </motion.div>
                     )}
                   </AnimatePresence>
+
+                  <LoadMoreTrigger
+                    hasMore={reportPages.hasMore}
+                    isLoading={reportPages.isLoadingMore}
+                    onLoadMore={reportPages.loadMore}
+                  />
                 </div>
               )}
             </CardContent>
           </Card>
         </motion.div>
+        )}
 
         {/* Report Edit Dialog */}
         <Dialog open={isReportEditOpen} onOpenChange={setIsReportEditOpen}>
@@ -1067,7 +1536,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
             <DialogHeader>
               <DialogTitle>编辑报告信息</DialogTitle>
               <DialogDescription>
-                修改报告的标题、分析师、分类信息和上传日期。注意：无法修改已上传的PDF文件。
+                修改报告的标题、分析师、分类信息和上传日期。如需更新文件，请在版本记录中上传新版本。
               </DialogDescription>
             </DialogHeader>
             <motion.form 
@@ -1089,12 +1558,11 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
               </div>
               <div>
                 <Label htmlFor="report-analyst">分析师 *</Label>
-                <Input
+                <AnalystPicker
                   id="report-analyst"
                   value={reportEditForm.analyst}
-                  onChange={(e) => setReportEditForm(prev => ({ ...prev, analyst: e.target.value }))}
-                  className="mt-1.5 focus:scale-[1.02] transition-all duration-300"
-                  required
+                  onChange={(name) => setReportEditForm(prev => ({ ...prev, analyst: name }))}
+                  className="mt-1.5"
                 />
               </div>
               <div>
@@ -1104,9 +1572,9 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="会议纪要">会议纪要</SelectItem>
-                    <SelectItem value="首次覆盖">首次覆盖</SelectItem>
-                    <SelectItem value="跟踪">跟踪</SelectItem>
+                    {reportCategories.map(category => (
+                      <SelectItem key={category.id} value={category.label}>{category.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1178,7 +1646,7 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
         onOpenChange={setIsCompanyDeletePasswordOpen}
         onConfirm={handleConfirmDeleteCompany}
         title="确认删除公司"
-        description={`您确定要删除公司 "${company.name}" 吗？此操作将同时删除该公司的所有研究报告，且无法撤销。请输入删除密码以继续操作。`}
+        description={`您确定要删除公司 "${company.name}" 吗？公司及其所有研究报告将移至回收站，${TRASH_RETENTION_DAYS} 天内可恢复。请输入登录密码以继续操作。`}
         confirmButtonText="确认删除"
       />
 
@@ -1190,20 +1658,60 @@ export function CompanyDetail({ company, onBack, onCompanyUpdated, onCompanyDele
         }}
         onConfirm={handleConfirmDeleteReport}
         title="确认删除报告"
-        description={`您确定要删除报告 "${reportToDelete?.title}" 吗？此操作无法撤销。请输入删除密码以继续操作。`}
+        description={`您确定要删除报告 "${reportToDelete?.title}" 吗？报告将移至回收站，${TRASH_RETENTION_DAYS} 天内可恢复。请输入登录密码以继续操作。`}
         confirmButtonText="确认删除"
       />
 
+      {/* Edit Conflict Dialog */}
+      <ConflictDialog
+        isOpen={!!conflictingCompany || !!conflictingReport}
+        onOpenChange={(open) => {
+          if (!open) {
+            setConflictingCompany(null);
+            setConflictingReport(null);
+          }
+        }}
+        fields={conflictingCompany
+          ? getCompanyConflictFields(editForm, conflictingCompany)
+          : conflictingReport ? getReportConflictFields(conflictingReport) : []}
+        onOverwrite={handleOverwriteConflict}
+        onUseLatest={handleUseLatestConflict}
+      />
+
       {/* Report Sort Manager Dialog */}
       <SortManager
         isOpen={isReportSortManagerOpen}
         onOpenChange={setIsReportSortManagerOpen}
         title="报告排序管理"
         description="调整报告在列表中的显示顺序。使用上下箭头按钮移动报告位置，完成后点击保存排序。"
-        items={reports}
+        items={allReports}
         type="report"
         onReorder={handleSortReports}
       />
+
+      {/* 批量上传 */}
+      <BulkUploadDialog
+        companyId={company.id}
+        isOpen={isBulkUploadOpen}
+        onOpenChange={setIsBulkUploadOpen}
+        onUploaded={() => loadReports()}
+      />
+
+      {/* 报告阅读器，从列表中取最新数据以同步评论；PDF 用阅读器，其他文件用通用预览 */}
+      <PdfViewer
+        companyId={company.id}
+        report={previewReport && getReportFileKind(previewReport) === 'pdf' ? previewReport : null}
+        currentUser={currentUser}
+        onClose={() => setPreviewReportId(null)}
+        onCommentsUpdated={handleCommentsUpdated}
+      />
+      <FilePreview
+        companyId={company.id}
+        report={previewReport && getReportFileKind(previewReport) !== 'pdf' ? previewReport : null}
+        currentUser={currentUser}
+        onClose={() => setPreviewReportId(null)}
+        onCommentsUpdated={handleCommentsUpdated}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -1,32 +1,47 @@
-import React, { useState, useCallback } from 'react';
-import { Search, Plus, Building2, TrendingUp, Users, Edit, Trash2, MoreHorizontal, Image, RefreshCw, ArrowUpDown } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Search, Plus, Building2, TrendingUp, Users, Edit, Trash2, MoreHorizontal, Image, RefreshCw, ArrowUpDown, Star } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import { Card, CardContent } from './ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { CompanyIconUpload } from './CompanyIconUpload';
 import { PasswordConfirmDialog } from './PasswordConfirmDialog';
 import { SortManager } from './SortManager';
+import { ConflictDialog, getCompanyConflictFields } from './ConflictDialog';
+import { WatchlistSwitcher } from './WatchlistSwitcher';
+import { TagBadges, TagFilterButton } from './TagPicker';
 import { SkeletonLoader } from './SkeletonLoader';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { usePagedList } from './usePagedList';
 import { ImageWithFallback } from './figma/ImageWithFallback';
-import { companyApi } from '../utils/api';
-import { getTypeColor, STOCK_TYPES } from '../utils/constants';
+import { useTaxonomies } from './TaxonomyContext';
+import { companyApi, ConflictError, watchlistApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { TRASH_RETENTION_DAYS } from '../utils/constants';
 import { toast } from 'sonner@2.0.3';
 import { motion, AnimatePresence } from 'motion/react';
-import type { Company } from '../App';
+import type { Company, CompanyFilter, CurrentUser, Tag, Watchlist } from '../App';
 
 interface CompanyListProps {
   companies: Company[];
+  currentUser: CurrentUser;
   onCompanySelect: (company: Company) => void;
   onCompanyCreated: (company: Company) => void;
   onCompanyUpdated: (company: Company) => void;
   onCompanyDeleted: (id: string) => void;
   onCompaniesReorder: (companies: Company[]) => void;
+  watchlists: Watchlist[];
+  activeWatchlistId: string | null; // null 表示全部公司
+  onActiveWatchlistChange: (id: string | null) => void;
+  onWatchlistSaved: (watchlist: Watchlist) => void;
+  onWatchlistDeleted: (id: string) => void;
+  tags: Tag[];
+  onTagSelect: (tagId: string) => void; // 打开标签页
   onRefresh?: () => void;
   isLoading?: boolean;
   isRefreshing?: boolean;
@@ -41,23 +56,35 @@ interface CompanyFormData {
 
 export function CompanyList({ 
   companies, 
+  currentUser,
   onCompanySelect, 
   onCompanyCreated, 
   onCompanyUpdated, 
   onCompanyDeleted,
   onCompaniesReorder,
+  watchlists,
+  activeWatchlistId,
+  onActiveWatchlistChange,
+  onWatchlistSaved,
+  onWatchlistDeleted,
+  tags,
+  onTagSelect,
   onRefresh,
   isLoading = false,
   isRefreshing = false
 }: CompanyListProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedType, setSelectedType] = useState('全部类型');
+  const [debouncedSearch, setDebouncedSearch] = useState(''); // 停止输入后再请求服务端
+  const [selectedType, setSelectedType] = useState<string | null>(null); // null 为全部类型
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
   const [companyToDelete, setCompanyToDelete] = useState<Company | null>(null);
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
   const [isSortManagerOpen, setIsSortManagerOpen] = useState(false);
+  const [isWatchlistSortOpen, setIsWatchlistSortOpen] = useState(false);
+  const [conflictingCompany, setConflictingCompany] = useState<Company | null>(null); // 保存时服务器上的最新版本
   const [formData, setFormData] = useState<CompanyFormData>({
     name: '',
     code: '',
@@ -66,23 +93,56 @@ export function CompanyList({
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const filteredCompanies = companies.filter(company => {
+  const { stockTypes, getTypeColor } = useTaxonomies();
+
+  // 按角色隐藏无权执行的操作
+  const canEditCompany = can(currentUser, 'company:edit');
+  const canDeleteCompany = can(currentUser, 'company:delete');
+  const canReorder = can(currentUser, 'reorder');
+
+  // 选中自选列表时只展示列表中的公司，按列表自己的顺序；已删除的公司不显示
+  const activeWatchlist = watchlists.find(watchlist => watchlist.id === activeWatchlistId) ?? null;
+  const scopedCompanies = activeWatchlist
+    ? activeWatchlist.companyIds
+        .map(id => companies.find(company => company.id === id))
+        .filter((company): company is Company => !!company)
+    : companies;
+
+  // 已删除的标签和股票类型不再参与筛选
+  const activeTagIds = selectedTagIds.filter(id => tags.some(tag => tag.id === id));
+  const activeType = stockTypes.some(type => type.label === selectedType) ? selectedType : null;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // 全部公司由服务端筛选、排序并分页；公司新增、删除、排序或改了类型和标签时从第一页重新加载
+  const companyFilter: CompanyFilter = { type: activeType ?? undefined, tagIds: activeTagIds, q: debouncedSearch || undefined };
+  const companiesSignature = companies
+    .map(company => `${company.id}:${company.type}:${company.order ?? ''}:${(company.tagIds ?? []).join('+')}`)
+    .join(',');
+  const companyPages = usePagedList<Company>({
+    loadPage: (cursor) => companyApi.getPage(companyFilter, cursor),
+    resetKey: `${JSON.stringify(companyFilter)}|${companiesSignature}`,
+    enabled: !activeWatchlist
+  });
+
+  // 自选列表公司不多，在本地筛选并保持列表内的顺序
+  const filteredCompanies = scopedCompanies.filter(company => {
     const matchesSearch = company.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          company.code.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = selectedType === '全部类型' || company.type === selectedType;
-    return matchesSearch && matchesType;
+    const matchesType = !activeType || company.type === activeType;
+    const matchesTags = activeTagIds.every(id => company.tagIds?.includes(id));
+    return matchesSearch && matchesType && matchesTags;
   });
 
-  // 按顺序排序公司
-  const sortedCompanies = [...filteredCompanies].sort((a, b) => {
-    const orderA = a.order ?? 999999;
-    const orderB = b.order ?? 999999;
-    if (orderA !== orderB) {
-      return orderA - orderB;
-    }
-    // 如果order相同，按创建时间排序
-    return new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime();
-  });
+  // 已加载的公司显示最新内容，如实时推送的改名
+  const companiesById = new Map(companies.map(company => [company.id, company]));
+  const sortedCompanies = activeWatchlist
+    ? filteredCompanies
+    : companyPages.items.map(company => companiesById.get(company.id) ?? company);
+  const isListLoading = !activeWatchlist && companyPages.isLoading;
 
   // 修复表单重置函数，确保不会触发不必要的渲染
   const resetForm = useCallback(() => {
@@ -125,7 +185,7 @@ export function CompanyList({
     try {
       await companyApi.delete(companyToDelete.id);
       onCompanyDeleted(companyToDelete.id);
-      toast.success('公司删除成功');
+      toast.success('公司已移至回收站');
     } catch (error) {
       console.error('Error deleting company:', error);
       toast.error('删除公司失败，请重试');
@@ -146,7 +206,7 @@ export function CompanyList({
     
     try {
       if (editingCompany) {
-        const updatedCompany = await companyApi.update(editingCompany.id, formData);
+        const updatedCompany = await companyApi.update(editingCompany.id, formData, editingCompany.revision);
         onCompanyUpdated(updatedCompany);
         setIsEditDialogOpen(false);
       } else {
@@ -156,6 +216,10 @@ export function CompanyList({
       }
       resetForm();
     } catch (error) {
+      if (error instanceof ConflictError && error.current) {
+        setConflictingCompany(error.current as Company);
+        return;
+      }
       console.error('Error saving company:', error);
       toast.error(editingCompany ? '更新公司失败，请重试' : '创建公司失败，请重试');
     } finally {
@@ -163,11 +227,72 @@ export function CompanyList({
     }
   }, [formData, editingCompany, onCompanyUpdated, onCompanyCreated, resetForm]);
 
+  // 覆盖保存：以最新版本为基础再次提交当前表单
+  const handleOverwriteConflict = useCallback(async () => {
+    if (!conflictingCompany) return;
+    setConflictingCompany(null);
+    setIsSubmitting(true);
+    try {
+      const updatedCompany = await companyApi.update(conflictingCompany.id, formData, conflictingCompany.revision);
+      onCompanyUpdated(updatedCompany);
+      setIsEditDialogOpen(false);
+      resetForm();
+    } catch (error) {
+      if (error instanceof ConflictError && error.current) {
+        setConflictingCompany(error.current as Company);
+        return;
+      }
+      console.error('Error saving company:', error);
+      toast.error('更新公司失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [conflictingCompany, formData, onCompanyUpdated, resetForm]);
+
+  // 使用最新内容：表单换成最新版本，用户可在此基础上继续修改
+  const handleUseLatestConflict = useCallback(() => {
+    if (!conflictingCompany) return;
+    setEditingCompany(conflictingCompany);
+    setFormData({
+      name: conflictingCompany.name,
+      code: conflictingCompany.code,
+      type: conflictingCompany.type,
+      description: conflictingCompany.description
+    });
+    setConflictingCompany(null);
+  }, [conflictingCompany]);
+
   const handleSortCompanies = useCallback((reorderedCompanies: Company[]) => {
     onCompaniesReorder(reorderedCompanies);
-    toast.success('公司排序已更新');
   }, [onCompaniesReorder]);
 
+  // 加入或移出自选列表，新加入的公司排在列表末尾
+  const handleToggleWatchlistCompany = useCallback(async (watchlist: Watchlist, company: Company) => {
+    const isMember = watchlist.companyIds.includes(company.id);
+    const companyIds = isMember
+      ? watchlist.companyIds.filter(id => id !== company.id)
+      : [...watchlist.companyIds, company.id];
+    try {
+      onWatchlistSaved(await watchlistApi.setCompanies(watchlist.id, companyIds));
+      toast.success(isMember ? `已将 ${company.name} 移出 ${watchlist.name}` : `已将 ${company.name} 加入 ${watchlist.name}`);
+    } catch (error) {
+      console.error('Error updating watchlist:', error);
+      toast.error('更新自选列表失败，请重试');
+    }
+  }, [onWatchlistSaved]);
+
+  // 自选列表的顺序只影响自己，不改动公司的全局排序
+  const handleSortWatchlist = useCallback(async (reorderedCompanies: Company[]) => {
+    if (!activeWatchlist) return;
+    try {
+      onWatchlistSaved(await watchlistApi.setCompanies(activeWatchlist.id, reorderedCompanies.map(company => company.id)));
+      toast.success('自选列表排序已更新');
+    } catch (error) {
+      console.error('Error sorting watchlist:', error);
+      toast.error('保存排序失败，请重试');
+    }
+  }, [activeWatchlist, onWatchlistSaved]);
+
   // 优化表单组件，使用React.memo避免不必要的重渲染
   const CompanyForm = React.memo(() => (
     <motion.form 
@@ -224,10 +349,9 @@ export function CompanyList({
             <SelectValue placeholder="选择股票类型" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="A股">A股</SelectItem>
-            <SelectItem value="港股">港股</SelectItem>
-            <SelectItem value="美股">美股</SelectItem>
-            <SelectItem value="行业">行业</SelectItem>
+            {stockTypes.map(type => (
+              <SelectItem key={type.id} value={type.label}>{type.label}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </motion.div>
@@ -404,21 +528,23 @@ export function CompanyList({
             )}
 
             {/* 排序管理按钮 */}
-            <motion.div
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setIsSortManagerOpen(true)}
-                disabled={companies.length === 0}
-                className="hover:shadow-md transition-all duration-300 hover:bg-primary hover:text-primary-foreground"
+            {canReorder && (
+              <motion.div
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
               >
-                <ArrowUpDown className="h-4 w-4 mr-2" />
-                排序管理
-              </Button>
-            </motion.div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsSortManagerOpen(true)}
+                  disabled={companies.length === 0}
+                  className="hover:shadow-md transition-all duration-300 hover:bg-primary hover:text-primary-foreground"
+                >
+                  <ArrowUpDown className="h-4 w-4 mr-2" />
+                  排序管理
+                </Button>
+              </motion.div>
+            )}
             
             <motion.span 
               className={`text-sm transition-all duration-300 ${
@@ -441,45 +567,47 @@ export function CompanyList({
             >
               {isRefreshing ? '正在刷新数据...' : `最后刷新：${new Date().toLocaleTimeString('zh-CN')}`}
             </motion.span>
-            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-              <DialogTrigger asChild>
-                <motion.div
-                  whileHover={{ 
-                    scale: 1.05,
-                    transition: { duration: 0.2 }
-                  }}
-                  whileTap={{ 
-                    scale: 0.95,
-                    transition: { duration: 0.1 }
-                  }}
-                >
-                  <Button 
-                    onClick={handleCreateCompany}
-                    className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+            {canEditCompany && (
+              <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                <DialogTrigger asChild>
+                  <motion.div
+                    whileHover={{ 
+                      scale: 1.05,
+                      transition: { duration: 0.2 }
+                    }}
+                    whileTap={{ 
+                      scale: 0.95,
+                      transition: { duration: 0.1 }
+                    }}
                   >
-                    <motion.div
-                      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
-                      initial={{ x: '-100%' }}
-                      whileHover={{ 
-                        x: '100%',
-                        transition: { duration: 0.6 }
-                      }}
-                    />
-                    <Plus className="h-4 w-4 mr-2" />
-                    添加公司
-                  </Button>
-                </motion.div>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-lg">
-                <DialogHeader>
-                  <DialogTitle>添加新公司</DialogTitle>
-                  <DialogDescription>
-                    创建一个新的投资研究标的，填写基本信息后即可开始上传相关研究报告。
-                  </DialogDescription>
-                </DialogHeader>
-                <CompanyForm />
-              </DialogContent>
-            </Dialog>
+                    <Button 
+                      onClick={handleCreateCompany}
+                      className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                    >
+                      <motion.div
+                        className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
+                        initial={{ x: '-100%' }}
+                        whileHover={{ 
+                          x: '100%',
+                          transition: { duration: 0.6 }
+                        }}
+                      />
+                      <Plus className="h-4 w-4 mr-2" />
+                      添加公司
+                    </Button>
+                  </motion.div>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-lg">
+                  <DialogHeader>
+                    <DialogTitle>添加新公司</DialogTitle>
+                    <DialogDescription>
+                      创建一个新的投资研究标的，填写基本信息后即可开始上传相关研究报告。
+                    </DialogDescription>
+                  </DialogHeader>
+                  <CompanyForm />
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
         </motion.div>
 
@@ -490,6 +618,14 @@ export function CompanyList({
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2, duration: 0.5 }}
         >
+          <WatchlistSwitcher
+            watchlists={watchlists}
+            activeWatchlistId={activeWatchlist?.id ?? null}
+            onActiveWatchlistChange={onActiveWatchlistChange}
+            onWatchlistSaved={onWatchlistSaved}
+            onWatchlistDeleted={onWatchlistDeleted}
+            onSortWatchlist={() => setIsWatchlistSortOpen(true)}
+          />
           <div className="relative flex-1 min-w-80 group">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground transition-colors duration-300 group-focus-within:text-primary" />
             <Input
@@ -500,9 +636,9 @@ export function CompanyList({
             />
           </div>
           <div className="flex gap-2">
-            {STOCK_TYPES.map((type, index) => (
+            {[null, ...stockTypes.map(type => type.label)].map((type, index) => (
               <motion.div
-                key={type}
+                key={type ?? 'all'}
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ 
@@ -511,20 +647,25 @@ export function CompanyList({
                 }}
               >
                 <Button
-                  variant={selectedType === type ? "default" : "outline"}
+                  variant={activeType === type ? "default" : "outline"}
                   size="sm"
                   onClick={() => setSelectedType(type)}
                   className={`transition-all duration-300 hover:scale-105 hover:shadow-md ${
-                    selectedType === type 
+                    activeType === type 
                       ? 'shadow-lg shadow-primary/20' 
                       : 'hover:shadow-primary/10'
                   }`}
                 >
-                  {type}
+                  {type ?? '全部类型'}
                 </Button>
               </motion.div>
             ))}
           </div>
+          <TagFilterButton
+            tags={tags}
+            selectedTagIds={activeTagIds}
+            onChange={setSelectedTagIds}
+          />
         </motion.div>
       </div>
 
@@ -536,9 +677,9 @@ export function CompanyList({
         transition={{ delay: 0.4, duration: 0.5 }}
       >
         {[
-          { icon: Building2, label: '跟踪公司', value: companies.length, delay: 0.1 },
-          { icon: TrendingUp, label: '股票类型', value: new Set(companies.map(c => c.type)).size, delay: 0.15 },
-          { icon: Users, label: '搜索结果', value: filteredCompanies.length, delay: 0.2 }
+          { icon: Building2, label: activeWatchlist ? '自选公司' : '跟踪公司', value: scopedCompanies.length, delay: 0.1 },
+          { icon: TrendingUp, label: '股票类型', value: new Set(scopedCompanies.map(c => c.type)).size, delay: 0.15 },
+          { icon: Users, label: '搜索结果', value: !activeWatchlist && companyPages.hasMore ? `${sortedCompanies.length}+` : sortedCompanies.length, delay: 0.2 }
         ].map((stat, index) => (
           <motion.div
             key={stat.label}
@@ -656,6 +797,7 @@ export function CompanyList({
                           <p className="text-sm text-muted-foreground font-mono">{company.code}</p>
                         </div>
                       </div>
+                      {/* 自选列表人人可用，菜单对所有角色显示 */}
                       <motion.div 
                         className="transition-all duration-300 flex-shrink-0"
                         whileHover={{ scale: 1.1 }}
@@ -673,33 +815,63 @@ export function CompanyList({
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end" className="animate-in slide-in-from-top-2 duration-200">
-                            <DropdownMenuItem 
-                              onClick={(e) => handleEditCompany(company, e)}
-                              className="hover:bg-secondary/50 transition-colors duration-200"
-                            >
-                              <Edit className="h-4 w-4 mr-2" />
-                              编辑信息
-                            </DropdownMenuItem>
-                            <CompanyIconUpload 
-                              company={company}
-                              onIconUpdated={onCompanyUpdated}
-                              trigger={
-                                <DropdownMenuItem
-                                  onSelect={(e) => e.preventDefault()}
-                                  className="hover:bg-secondary/50 transition-colors duration-200"
-                                >
-                                  <Image className="h-4 w-4 mr-2" />
-                                  上传Logo
-                                </DropdownMenuItem>
-                              }
-                            />
-                            <DropdownMenuItem 
-                              onClick={(e) => handleDeleteCompany(company, e)}
-                              className="text-destructive focus:text-destructive hover:bg-destructive/10 transition-colors duration-200"
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              删除
-                            </DropdownMenuItem>
+                            <DropdownMenuSub>
+                              <DropdownMenuSubTrigger
+                                onClick={(e) => e.stopPropagation()}
+                                className="hover:bg-secondary/50 transition-colors duration-200"
+                              >
+                                <Star className="h-4 w-4 mr-2" />
+                                自选列表
+                              </DropdownMenuSubTrigger>
+                              <DropdownMenuSubContent onClick={(e) => e.stopPropagation()}>
+                                {watchlists.length === 0 ? (
+                                  <DropdownMenuItem disabled>暂无自选列表，请先新建</DropdownMenuItem>
+                                ) : watchlists.map(watchlist => (
+                                  <DropdownMenuCheckboxItem
+                                    key={watchlist.id}
+                                    checked={watchlist.companyIds.includes(company.id)}
+                                    onSelect={(e) => e.preventDefault()}
+                                    onCheckedChange={() => handleToggleWatchlistCompany(watchlist, company)}
+                                  >
+                                    {watchlist.name}
+                                  </DropdownMenuCheckboxItem>
+                                ))}
+                              </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                            {(canEditCompany || canDeleteCompany) && <DropdownMenuSeparator />}
+                            {canEditCompany && (
+                              <DropdownMenuItem 
+                                onClick={(e) => handleEditCompany(company, e)}
+                                className="hover:bg-secondary/50 transition-colors duration-200"
+                              >
+                                <Edit className="h-4 w-4 mr-2" />
+                                编辑信息
+                              </DropdownMenuItem>
+                            )}
+                            {canEditCompany && (
+                              <CompanyIconUpload 
+                                company={company}
+                                onIconUpdated={onCompanyUpdated}
+                                trigger={
+                                  <DropdownMenuItem
+                                    onSelect={(e) => e.preventDefault()}
+                                    className="hover:bg-secondary/50 transition-colors duration-200"
+                                  >
+                                    <Image className="h-4 w-4 mr-2" />
+                                    上传Logo
+                                  </DropdownMenuItem>
+                                }
+                              />
+                            )}
+                            {canDeleteCompany && (
+                              <DropdownMenuItem 
+                                onClick={(e) => handleDeleteCompany(company, e)}
+                                className="text-destructive focus:text-destructive hover:bg-destructive/10 transition-colors duration-200"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                删除
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </motion.div>
@@ -714,6 +886,8 @@ export function CompanyList({
                           {company.type}
                         </Badge>
                       </motion.div>
+
+                      <TagBadges tags={tags} tagIds={company.tagIds} onTagSelect={onTagSelect} />
                       
                       <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed group-hover:text-foreground/80 transition-colors duration-300">
                         {company.description}
@@ -727,9 +901,17 @@ export function CompanyList({
         </AnimatePresence>
       </motion.div>
 
+      {!activeWatchlist && (
+        <LoadMoreTrigger
+          hasMore={companyPages.hasMore}
+          isLoading={companyPages.isLoadingMore}
+          onLoadMore={companyPages.loadMore}
+        />
+      )}
+
       {/* Empty State */}
       <AnimatePresence>
-        {filteredCompanies.length === 0 && companies.length > 0 && (
+        {sortedCompanies.length === 0 && companies.length > 0 && !isListLoading && (
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -752,8 +934,17 @@ export function CompanyList({
                 >
                   <Building2 className="h-8 w-8 text-secondary-foreground" />
                 </motion.div>
-                <h3 className="font-medium text-foreground mb-2">没有找到匹配的公司</h3>
-                <p className="text-muted-foreground mb-4">尝试调整搜索条件或筛选器</p>
+                {activeWatchlist && scopedCompanies.length === 0 ? (
+                  <>
+                    <h3 className="font-medium text-foreground mb-2">自选列表中还没有公司</h3>
+                    <p className="text-muted-foreground mb-4">切换到全部公司，在公司卡片的菜单中加入此列表</p>
+                  </>
+                ) : (
+                  <>
+                    <h3 className="font-medium text-foreground mb-2">没有找到匹配的公司</h3>
+                    <p className="text-muted-foreground mb-4">尝试调整搜索条件或筛选器</p>
+                  </>
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -782,7 +973,7 @@ export function CompanyList({
         }}
         onConfirm={handleConfirmDelete}
         title="确认删除公司"
-        description={`您确定要删除公司 "${companyToDelete?.name}" 吗？此操作将同时删除该公司的所有研究报告，且无法撤销。请输入删除密码以继续操作。`}
+        description={`您确定要删除公司 "${companyToDelete?.name}" 吗？公司及其所有研究报告将移至回收站，${TRASH_RETENTION_DAYS} 天内可恢复。请输入登录密码以继续操作。`}
         confirmButtonText="确认删除"
       />
 
@@ -796,6 +987,26 @@ export function CompanyList({
         type="company"
         onReorder={handleSortCompanies}
       />
+
+      {/* Watchlist Sort Dialog */}
+      <SortManager
+        isOpen={isWatchlistSortOpen}
+        onOpenChange={setIsWatchlistSortOpen}
+        title={`${activeWatchlist?.name ?? '自选列表'} 排序`}
+        description="调整公司在自选列表中的顺序，只对您自己生效，不影响公司列表的全局排序。"
+        items={scopedCompanies.map((company, index) => ({ ...company, order: index }))}
+        type="company"
+        onReorder={(items) => handleSortWatchlist(items as Company[])}
+      />
+
+      {/* Edit Conflict Dialog */}
+      <ConflictDialog
+        isOpen={!!conflictingCompany}
+        onOpenChange={(open) => { if (!open) setConflictingCompany(null); }}
+        fields={conflictingCompany ? getCompanyConflictFields(formData, conflictingCompany) : []}
+        onOverwrite={handleOverwriteConflict}
+        onUseLatest={handleUseLatestConflict}
+      />
     </motion.div>
   );
 }
\ No newline at end of file
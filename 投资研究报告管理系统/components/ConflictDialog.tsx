@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { Company } from '../App';
+
+export type ConflictField = {
+  label: string;
+  mine: string; // 本次要保存的值
+  theirs: string; // 服务器上的最新值
+};
+
+type CompanyFields = Pick<Company, 'name' | 'code' | 'type' | 'description'>;
+
+// 公司编辑表单与最新公司信息的对比
+export const getCompanyConflictFields = (mine: CompanyFields, theirs: CompanyFields): ConflictField[] => [
+  { label: '公司名称', mine: mine.name, theirs: theirs.name },
+  { label: '股票代码', mine: mine.code, theirs: theirs.code },
+  { label: '股票类型', mine: mine.type, theirs: theirs.type },
+  { label: '公司描述', mine: mine.description, theirs: theirs.description },
+];
+
+interface ConflictDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  fields: ConflictField[];
+  onOverwrite: () => void; // 以我的修改覆盖最新内容
+  onUseLatest: () => void; // 放弃我的修改，改用最新内容
+}
+
+// 保存时发现内容已被他人修改：列出双方不同的字段，由用户决定保留哪一份
+export function ConflictDialog({ isOpen, onOpenChange, fields, onOverwrite, onUseLatest }: ConflictDialogProps) {
+  const changedFields = fields.filter(field => field.mine !== field.theirs);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            内容已被他人修改
+          </DialogTitle>
+          <DialogDescription>
+            在您编辑期间，其他人保存了新的修改。请选择保留哪一份内容。
+          </DialogDescription>
+        </DialogHeader>
+
+        {changedFields.length > 0 ? (
+          <div className="space-y-3">
+            {changedFields.map(field => (
+              <div key={field.label} className="rounded-lg border border-border p-3 space-y-1">
+                <Badge variant="outline" className="text-xs">{field.label}</Badge>
+                <p className="text-sm text-muted-foreground break-words">最新：{field.theirs || '—'}</p>
+                <p className="text-sm text-foreground break-words">我的：{field.mine || '—'}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">对方修改的内容与您的修改相同。</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onUseLatest}>
+            使用最新内容
+          </Button>
+          <Button onClick={onOverwrite}>
+            覆盖保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
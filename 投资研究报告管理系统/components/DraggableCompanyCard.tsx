@@ -7,7 +7,7 @@ import { Card, CardContent } from './ui/card';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { CompanyIconUpload } from './CompanyIconUpload';
 import { ImageWithFallback } from './figma/ImageWithFallback';
-import { getTypeColor } from '../utils/constants';
+import { useTaxonomies } from './TaxonomyContext';
 import { motion } from 'motion/react';
 import type { Company } from '../App';
 
@@ -38,6 +38,7 @@ export function DraggableCompanyCard({
   onMoveCompany,
   isDragDisabled = false
 }: DraggableCompanyCardProps) {
+  const { getTypeColor } = useTaxonomies();
   const ref = useRef<HTMLDivElement>(null);
 
   const [{ handlerId }, drop] = useDrop<DragItem, void, { handlerId: string | symbol | null }>({
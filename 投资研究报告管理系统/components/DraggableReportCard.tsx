@@ -1,20 +1,22 @@
 import React, { useRef } from 'react';
 import { useDrag, useDrop } from 'react-dnd';
-import { FileText, Download, Edit, Trash2, MoreHorizontal, Eye, Calendar as CalendarIcon, MessageSquare } from 'lucide-react';
+import { Download, Edit, Trash2, MoreHorizontal, Eye, Calendar as CalendarIcon, MessageSquare } from 'lucide-react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Card, CardContent } from './ui/card';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { ReportComments } from './ReportComments';
-import { getCategoryColor } from '../utils/constants';
-import { formatDate } from '../utils/helpers';
+import { FileKindIcon } from './FileKindIcon';
+import { useTaxonomies } from './TaxonomyContext';
+import { formatDate, getReportFileKind } from '../utils/helpers';
 import { motion } from 'motion/react';
-import type { Report } from '../App';
+import type { CurrentUser, Report } from '../App';
 
 interface DraggableReportCardProps {
   report: Report;
   index: number;
   companyId: string;
+  currentUser: CurrentUser;
   onPreviewReport: (report: Report) => void;
   onDownloadReport: (report: Report) => void;
   onEditReport: (report: Report) => void;
@@ -34,6 +36,7 @@ export function DraggableReportCard({
   report,
   index,
   companyId,
+  currentUser,
   onPreviewReport,
   onDownloadReport,
   onEditReport,
@@ -42,6 +45,7 @@ export function DraggableReportCard({
   onMoveReport,
   isDragDisabled = false
 }: DraggableReportCardProps) {
+  const { getCategoryColor } = useTaxonomies();
   const ref = useRef<HTMLDivElement>(null);
 
   const [{ handlerId }, drop] = useDrop<DragItem, void, { handlerId: string | symbol | null }>({
@@ -161,7 +165,7 @@ export function DraggableReportCard({
                 className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0 group-hover:scale-110 transition-transform duration-300"
                 whileHover={{ rotate: 5 }}
               >
-                <FileText className="h-5 w-5 text-secondary-foreground" />
+                <FileKindIcon kind={getReportFileKind(report)} />
               </motion.div>
               <div className="flex-1 min-w-0">
                 <h4 className="font-medium text-foreground truncate mb-1 group-hover:text-primary transition-colors duration-300">
@@ -192,6 +196,7 @@ export function DraggableReportCard({
               <ReportComments
                 companyId={companyId}
                 reportId={report.id}
+                currentUser={currentUser}
                 comments={report.comments || []}
                 onCommentsUpdated={(comments) => onCommentsUpdated(report.id, comments)}
               />
@@ -0,0 +1,21 @@
+import React from 'react';
+import { FileText, FileSpreadsheet, FileType, Presentation, Image } from 'lucide-react';
+import type { FileKind } from '../App';
+
+const FILE_KIND_STYLES: Record<FileKind, { icon: typeof FileText; className: string }> = {
+  pdf: { icon: FileText, className: 'text-red-600' },
+  excel: { icon: FileSpreadsheet, className: 'text-emerald-600' },
+  word: { icon: FileType, className: 'text-blue-600' },
+  powerpoint: { icon: Presentation, className: 'text-orange-600' },
+  image: { icon: Image, className: 'text-purple-600' }
+};
+
+interface FileKindIconProps {
+  kind: FileKind;
+  className?: string;
+}
+
+export function FileKindIcon({ kind, className = 'h-5 w-5' }: FileKindIconProps) {
+  const { icon: Icon, className: colorClassName } = FILE_KIND_STYLES[kind];
+  return <Icon className={`${className} ${colorClassName}`} />;
+}
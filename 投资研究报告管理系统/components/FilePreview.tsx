@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, Download } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { ReportCommentsPanel } from './ReportComments';
+import { FileKindIcon } from './FileKindIcon';
+import { toast } from 'sonner@2.0.3';
+import { reportApi } from '../utils/api';
+import { FILE_KIND_LABELS } from '../utils/constants';
+import { getReportFileKind } from '../utils/helpers';
+import type { Comment, CurrentUser, Report } from '../App';
+
+// Office 文件通过微软在线查看器预览，需要可公开访问的签名地址
+const OFFICE_VIEWER_URL = 'https://view.officeapps.live.com/op/embed.aspx?src=';
+
+interface FilePreviewProps {
+  companyId: string;
+  report: Report | null;
+  currentUser: CurrentUser;
+  onClose: () => void;
+  onCommentsUpdated: (reportId: string, comments: Comment[]) => void;
+}
+
+// 非 PDF 文件的预览：图片直接显示，Excel/Word/PPT 嵌入在线查看器
+export function FilePreview({ companyId, report, currentUser, onClose, onCommentsUpdated }: FilePreviewProps) {
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [showComments, setShowComments] = useState(true);
+  const fileKind = report ? getReportFileKind(report) : 'pdf';
+
+  useEffect(() => {
+    if (!report) return;
+    setFileUrl(null);
+    reportApi.getDownloadUrl(companyId, report.id)
+      .then(setFileUrl)
+      .catch(error => {
+        console.error('Error loading report:', error);
+        toast.error('加载文件失败，请重试');
+        onClose();
+      });
+  }, [companyId, report?.id]);
+
+  const renderPreview = () => {
+    if (!fileUrl) {
+      return <p className="m-auto text-sm text-muted-foreground">加载中...</p>;
+    }
+    if (fileKind === 'image') {
+      return (
+        <div className="flex-1 overflow-auto bg-muted/30 p-6 flex items-start justify-center">
+          <img src={fileUrl} alt={report?.title} className="max-w-full shadow-lg" />
+        </div>
+      );
+    }
+    return (
+      <iframe
+        src={`${OFFICE_VIEWER_URL}${encodeURIComponent(fileUrl)}`}
+        title={report?.title}
+        className="flex-1 border-0 bg-white"
+      />
+    );
+  };
+
+  return (
+    <Dialog open={!!report} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[95vw] w-[95vw] h-[90vh] p-0 gap-0 overflow-hidden flex flex-col">
+        <DialogHeader className="px-6 py-4 border-b border-border">
+          <DialogTitle className="truncate pr-8 flex items-center gap-2">
+            <FileKindIcon kind={fileKind} />
+            {report?.title}
+          </DialogTitle>
+          <DialogDescription>
+            {report?.analyst} · {report?.category} · {report?.fileName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 工具栏 */}
+        <div className="flex items-center justify-between gap-4 px-6 py-2 border-b border-border bg-secondary/20">
+          <Badge variant="outline">{FILE_KIND_LABELS[fileKind]}</Badge>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => fileUrl && window.open(fileUrl, '_blank')} disabled={!fileUrl}>
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={showComments ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowComments(!showComments)}
+            >
+              <MessageSquare className="h-4 w-4 mr-1" />
+              {report?.comments?.length || 0}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {renderPreview()}
+
+          {/* 评论侧栏 */}
+          {showComments && report && (
+            <div className="w-96 flex-shrink-0 border-l border-border p-4 overflow-y-auto flex flex-col">
+              <ReportCommentsPanel
+                companyId={companyId}
+                reportId={report.id}
+                currentUser={currentUser}
+                comments={report.comments || []}
+                onCommentsUpdated={(comments) => onCommentsUpdated(report.id, comments)}
+              />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, FileText, X } from 'lucide-react';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { motion, AnimatePresence } from 'motion/react';
+import { searchApi } from '../utils/api';
+import type { Company, SearchMatch, SearchResult } from '../App';
+
+interface GlobalSearchProps {
+  companies: Company[];
+  onCompanySelect: (company: Company) => void;
+}
+
+// 按服务端返回的位置高亮命中词
+const renderSnippet = ({ snippet, highlights }: SearchMatch) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return;
+    parts.push(snippet.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-primary/15 text-foreground rounded px-0.5">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.slice(cursor));
+  return parts;
+};
+
+export function GlobalSearch({ companies, onCompanySelect }: GlobalSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 输入停顿 300ms 后再搜索
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const data = await searchApi.search(trimmed);
+        if (!cancelled) setResults(data);
+      } catch (error) {
+        console.error('Error searching reports:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // 点击外部时收起结果
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleResultClick = (result: SearchResult) => {
+    const company = companies.find(c => c.id === result.companyId);
+    if (company) {
+      onCompanySelect(company);
+    }
+    setIsOpen(false);
+  };
+
+  const showPanel = isOpen && query.trim().length > 0;
+
+  return (
+    <div ref={containerRef} className="relative w-72">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        placeholder="搜索报告全文..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setIsOpen(false);
+        }}
+        className="pl-9 pr-8 transition-all duration-300 focus:shadow-lg focus:shadow-primary/10"
+      />
+      {query && (
+        <button
+          type="button"
+          onClick={() => setQuery('')}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors duration-200"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.div
+            className="absolute right-0 top-full mt-2 w-[28rem] max-h-[28rem] overflow-y-auto rounded-xl border border-border bg-popover shadow-xl shadow-black/5 z-50"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.2 }}
+          >
+            {isSearching && results.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">搜索中...</p>
+            ) : results.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">没有找到包含"{query.trim()}"的报告</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {results.map(result => (
+                  <button
+                    key={`${result.companyId}:${result.reportId}`}
+                    type="button"
+                    onClick={() => handleResultClick(result)}
+                    className="w-full p-4 text-left hover:bg-secondary/30 transition-colors duration-200 space-y-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="text-sm font-medium text-foreground truncate">{result.title}</span>
+                      <Badge variant="outline" className="text-xs flex-shrink-0">{result.category}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {result.companyName} · {result.companyCode} · {result.analyst}
+                      {result.matchCount > 0 && ` · ${result.matchCount} 页命中`}
+                    </p>
+                    {result.matches.map(match => (
+                      <p key={match.page} className="text-xs text-muted-foreground leading-relaxed">
+                        <span className="text-foreground mr-1">第 {match.page} 页</span>
+                        {renderSnippet(match)}
+                      </p>
+                    ))}
+                  </button>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
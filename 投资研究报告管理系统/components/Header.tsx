@@ -1,49 +1,57 @@
 import React, { useState, useEffect } from 'react';
-import { Building2 } from 'lucide-react';
+import { BarChart3, Building2, Contact, LogOut, Newspaper, Shapes, Trash2, UserCircle, Users } from 'lucide-react';
 import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { UserManagement } from './UserManagement';
+import { TaxonomyManager } from './TaxonomyManager';
+import { useTaxonomies } from './TaxonomyContext';
+import { GlobalSearch } from './GlobalSearch';
+import { NotificationCenter } from './NotificationCenter';
 import { motion, AnimatePresence } from 'motion/react';
-import type { Company } from '../App';
+import { can } from '../utils/permissions';
+import type { Company, CurrentUser } from '../App';
 
 interface HeaderProps {
   companies: Company[];
+  carouselCompanies: Company[]; // 轮播展示的公司，即当前用户的自选公司
   onCompanySelect: (company: Company) => void;
+  currentUser: CurrentUser;
+  onSignOut: () => void;
+  onOpenTrash: () => void;
+  onOpenFeed: () => void;
+  onOpenAnalysts: () => void;
+  onOpenDashboard: () => void;
 }
 
-export function Header({ companies, onCompanySelect }: HeaderProps) {
+export function Header({ companies, carouselCompanies, onCompanySelect, currentUser, onSignOut, onOpenTrash, onOpenFeed, onOpenAnalysts, onOpenDashboard }: HeaderProps) {
   const [currentCompanyIndex, setCurrentCompanyIndex] = useState(0);
+  const [isUserManagementOpen, setIsUserManagementOpen] = useState(false);
+  const [isTaxonomyManagerOpen, setIsTaxonomyManagerOpen] = useState(false);
+  const { getTypeColor } = useTaxonomies();
 
   // 公司轮播功能 - 每10秒切换一次
   useEffect(() => {
-    if (companies.length === 0) return;
+    if (carouselCompanies.length === 0) return;
 
     const interval = setInterval(() => {
-      setCurrentCompanyIndex(prev => (prev + 1) % companies.length);
+      setCurrentCompanyIndex(prev => (prev + 1) % carouselCompanies.length);
     }, 10000); // 10秒切换一次
 
     return () => clearInterval(interval);
-  }, [companies.length]);
-
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'A股':
-        return 'bg-red-50 text-red-700 border-red-200';
-      case '港股':
-        return 'bg-emerald-50 text-emerald-700 border-emerald-200';
-      case '美股':
-        return 'bg-blue-50 text-blue-700 border-blue-200';
-      case '行业':
-        return 'bg-orange-50 text-orange-700 border-orange-200';
-      default:
-        return 'bg-gray-50 text-gray-700 border-gray-200';
-    }
-  };
+  }, [carouselCompanies.length]);
+
+  // 切换自选列表后从第一家公司重新开始
+  useEffect(() => {
+    setCurrentCompanyIndex(0);
+  }, [carouselCompanies.map(company => company.id).join(',')]);
 
   const handleCompanyClick = (company: Company) => {
     onCompanySelect(company);
   };
 
-  const currentCompany = companies[currentCompanyIndex];
+  const currentCompany = carouselCompanies[currentCompanyIndex];
 
   return (
     <header className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-50">
@@ -65,104 +73,231 @@ export function Header({ companies, onCompanySelect }: HeaderProps) {
             </div>
           </motion.div>
 
-          {/* 右侧公司轮播展示 */}
-          {companies.length > 0 && (
-            <div className="flex items-center gap-4">
-              <AnimatePresence mode="wait">
-                {currentCompany && (
-                  <motion.div
-                    key={currentCompany.id}
-                    initial={{ opacity: 0, x: 20, scale: 0.9 }}
-                    animate={{ opacity: 1, x: 0, scale: 1 }}
-                    exit={{ opacity: 0, x: -20, scale: 0.9 }}
-                    transition={{ duration: 0.5, ease: "easeInOut" }}
-                    className="cursor-pointer group"
-                    onClick={() => handleCompanyClick(currentCompany)}
-                  >
-                    <motion.div 
-                      className="flex items-center gap-3 p-3 rounded-xl hover:bg-secondary/30 transition-all duration-300 border border-transparent hover:border-border/50 hover:shadow-sm"
-                      whileHover={{ scale: 1.02, y: -1 }}
-                      whileTap={{ scale: 0.98 }}
+          <div className="flex items-center gap-6">
+            {/* 全局报告搜索 */}
+            <GlobalSearch companies={companies} onCompanySelect={handleCompanyClick} />
+
+            {/* 右侧公司轮播展示 */}
+            {carouselCompanies.length > 0 && (
+              <div className="flex items-center gap-4">
+                <AnimatePresence mode="wait">
+                  {currentCompany && (
+                    <motion.div
+                      key={currentCompany.id}
+                      initial={{ opacity: 0, x: 20, scale: 0.9 }}
+                      animate={{ opacity: 1, x: 0, scale: 1 }}
+                      exit={{ opacity: 0, x: -20, scale: 0.9 }}
+                      transition={{ duration: 0.5, ease: "easeInOut" }}
+                      className="cursor-pointer group"
+                      onClick={() => handleCompanyClick(currentCompany)}
                     >
-                      <div className="flex items-center gap-3">
-                        {/* 公司图标 */}
-                        <motion.div 
-                          className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden group-hover:scale-105 transition-transform duration-300"
-                          whileHover={{ rotate: 2 }}
-                        >
-                          {currentCompany.iconUrl ? (
-                            <ImageWithFallback
-                              src={currentCompany.iconUrl}
-                              alt={`${currentCompany.name} 图标`}
-                              className="w-full h-full object-cover"
-                            />
-                          ) : (
-                            <Building2 className="h-5 w-5 text-secondary-foreground" />
-                          )}
-                        </motion.div>
+                      <motion.div 
+                        className="flex items-center gap-3 p-3 rounded-xl hover:bg-secondary/30 transition-all duration-300 border border-transparent hover:border-border/50 hover:shadow-sm"
+                        whileHover={{ scale: 1.02, y: -1 }}
+                        whileTap={{ scale: 0.98 }}
+                      >
+                        <div className="flex items-center gap-3">
+                          {/* 公司图标 */}
+                          <motion.div 
+                            className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden group-hover:scale-105 transition-transform duration-300"
+                            whileHover={{ rotate: 2 }}
+                          >
+                            {currentCompany.iconUrl ? (
+                              <ImageWithFallback
+                                src={currentCompany.iconUrl}
+                                alt={`${currentCompany.name} 图标`}
+                                className="w-full h-full object-cover"
+                              />
+                            ) : (
+                              <Building2 className="h-5 w-5 text-secondary-foreground" />
+                            )}
+                          </motion.div>
                         
-                        {/* 公司信息 */}
-                        <div className="text-left">
-                          <div className="flex items-center gap-2">
-                            <h3 className="font-medium text-foreground group-hover:text-primary transition-colors duration-300">
-                              {currentCompany.name}
-                            </h3>
-                            <motion.div
-                              whileHover={{ scale: 1.05 }}
-                              transition={{ duration: 0.2 }}
-                            >
-                              <Badge 
-                                variant="outline" 
-                                className={`text-xs ${getTypeColor(currentCompany.type)} hover:shadow-sm transition-all duration-200`}
+                          {/* 公司信息 */}
+                          <div className="text-left">
+                            <div className="flex items-center gap-2">
+                              <h3 className="font-medium text-foreground group-hover:text-primary transition-colors duration-300">
+                                {currentCompany.name}
+                              </h3>
+                              <motion.div
+                                whileHover={{ scale: 1.05 }}
+                                transition={{ duration: 0.2 }}
                               >
-                                {currentCompany.type}
-                              </Badge>
-                            </motion.div>
+                                <Badge 
+                                  variant="outline" 
+                                  className={`text-xs ${getTypeColor(currentCompany.type)} hover:shadow-sm transition-all duration-200`}
+                                >
+                                  {currentCompany.type}
+                                </Badge>
+                              </motion.div>
+                            </div>
+                            <p className="text-xs text-muted-foreground font-mono mt-0.5">
+                              {currentCompany.code}
+                            </p>
                           </div>
-                          <p className="text-xs text-muted-foreground font-mono mt-0.5">
-                            {currentCompany.code}
-                          </p>
                         </div>
-                      </div>
+                      </motion.div>
                     </motion.div>
+                  )}
+                </AnimatePresence>
+
+                {/* 轮播指示器 */}
+                {carouselCompanies.length > 1 && (
+                  <motion.div 
+                    className="flex gap-1.5"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.3 }}
+                  >
+                    {carouselCompanies.slice(0, Math.min(5, carouselCompanies.length)).map((_, index) => (
+                      <motion.button
+                        key={index}
+                        className={`w-2 h-2 rounded-full transition-all duration-300 ${
+                          index === currentCompanyIndex 
+                            ? 'bg-primary w-4' 
+                            : 'bg-muted-foreground/30 hover:bg-muted-foreground/50'
+                        }`}
+                        onClick={() => setCurrentCompanyIndex(index)}
+                        whileHover={{ scale: 1.2 }}
+                        whileTap={{ scale: 0.9 }}
+                      />
+                    ))}
+                    {carouselCompanies.length > 5 && (
+                      <div className="flex items-center ml-1">
+                        <span className="text-xs text-muted-foreground">
+                          +{carouselCompanies.length - 5}
+                        </span>
+                      </div>
+                    )}
                   </motion.div>
                 )}
-              </AnimatePresence>
-
-              {/* 轮播指示器 */}
-              {companies.length > 1 && (
-                <motion.div 
-                  className="flex gap-1.5"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.3 }}
+              </div>
+            )}
+
+            {/* 报告动态 */}
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenFeed}
+                className="hover:bg-secondary/50 transition-colors duration-200 text-foreground"
+              >
+                <Newspaper className="h-4 w-4 mr-2" />
+                报告动态
+              </Button>
+            </motion.div>
+
+            {/* 数据看板 */}
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenDashboard}
+                className="hover:bg-secondary/50 transition-colors duration-200 text-foreground"
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                数据看板
+              </Button>
+            </motion.div>
+
+            {/* 分析师名录 */}
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenAnalysts}
+                className="hover:bg-secondary/50 transition-colors duration-200 text-foreground"
+              >
+                <Contact className="h-4 w-4 mr-2" />
+                分析师
+              </Button>
+            </motion.div>
+
+            {/* 通知 */}
+            <NotificationCenter companies={companies} currentUser={currentUser} onCompanySelect={handleCompanyClick} />
+
+            {/* 当前用户 */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
                 >
-                  {companies.slice(0, Math.min(5, companies.length)).map((_, index) => (
-                    <motion.button
-                      key={index}
-                      className={`w-2 h-2 rounded-full transition-all duration-300 ${
-                        index === currentCompanyIndex 
-                          ? 'bg-primary w-4' 
-                          : 'bg-muted-foreground/30 hover:bg-muted-foreground/50'
-                      }`}
-                      onClick={() => setCurrentCompanyIndex(index)}
-                      whileHover={{ scale: 1.2 }}
-                      whileTap={{ scale: 0.9 }}
-                    />
-                  ))}
-                  {companies.length > 5 && (
-                    <div className="flex items-center ml-1">
-                      <span className="text-xs text-muted-foreground">
-                        +{companies.length - 5}
-                      </span>
-                    </div>
-                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:bg-secondary/50 transition-colors duration-200 text-foreground"
+                  >
+                    <UserCircle className="h-4 w-4 mr-2" />
+                    {currentUser.name}
+                  </Button>
                 </motion.div>
-              )}
-            </div>
-          )}
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="animate-in slide-in-from-top-2 duration-200">
+                <DropdownMenuLabel className="font-normal">
+                  <p className="text-sm text-foreground">{currentUser.name}</p>
+                  <p className="text-xs text-muted-foreground">{currentUser.email}</p>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {can(currentUser, 'user:manage') && (
+                  <DropdownMenuItem
+                    onClick={() => setIsUserManagementOpen(true)}
+                    className="hover:bg-secondary/50 transition-colors duration-200"
+                  >
+                    <Users className="h-4 w-4 mr-2" />
+                    用户管理
+                  </DropdownMenuItem>
+                )}
+                {can(currentUser, 'taxonomy:manage') && (
+                  <DropdownMenuItem
+                    onClick={() => setIsTaxonomyManagerOpen(true)}
+                    className="hover:bg-secondary/50 transition-colors duration-200"
+                  >
+                    <Shapes className="h-4 w-4 mr-2" />
+                    分类管理
+                  </DropdownMenuItem>
+                )}
+                {can(currentUser, 'trash:view') && (
+                  <DropdownMenuItem
+                    onClick={onOpenTrash}
+                    className="hover:bg-secondary/50 transition-colors duration-200"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    回收站
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem
+                  onClick={onSignOut}
+                  className="hover:bg-secondary/50 transition-colors duration-200"
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  退出登录
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </div>
+
+      <UserManagement
+        isOpen={isUserManagementOpen}
+        onOpenChange={setIsUserManagementOpen}
+        currentUser={currentUser}
+      />
+
+      <TaxonomyManager
+        isOpen={isTaxonomyManagerOpen}
+        onOpenChange={setIsTaxonomyManagerOpen}
+      />
     </header>
   );
 }
\ No newline at end of file
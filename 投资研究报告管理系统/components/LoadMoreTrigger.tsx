@@ -0,0 +1,37 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// 放在分页列表末尾：滚动到附近时自动加载下一页，也可以点击按钮加载
+export function LoadMoreTrigger({ hasMore, isLoading, onLoadMore }: LoadMoreTriggerProps) {
+  const triggerRef = useRef<HTMLDivElement>(null);
+
+  // 每页加载完都重新观察，一页不足一屏时会继续加载
+  useEffect(() => {
+    const element = triggerRef.current;
+    if (!element || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={triggerRef} className="flex justify-center py-4">
+      <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoading}>
+        {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {isLoading ? '加载中...' : '加载更多'}
+      </Button>
+    </div>
+  );
+}
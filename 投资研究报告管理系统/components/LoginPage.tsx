@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Lock, Mail, Eye, EyeOff, LogIn } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent } from './ui/card';
+import { authApi } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import { motion, AnimatePresence } from 'motion/react';
+import type { CurrentUser } from '../App';
+
+interface LoginPageProps {
+  onSignedIn: (user: CurrentUser) => void;
+}
+
+export function LoginPage({ onSignedIn }: LoginPageProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email || !password) {
+      setError('请输入邮箱和密码');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const user = await authApi.signIn(email.trim(), password);
+      onSignedIn(user);
+      toast.success(`欢迎回来，${user.name}`);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError('邮箱或密码错误，请重试');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-6">
+      <motion.div
+        className="w-full max-w-md space-y-8"
+        initial={{ opacity: 0, y: 20, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{
+          duration: 0.6,
+          ease: [0.25, 0.46, 0.45, 0.94]
+        }}
+      >
+        <div className="brand-signature text-center">
+          <div className="brand-decoration">
+            <div className="brand-name">
+              Kevin
+            </div>
+            <div className="brand-subtitle">
+              Investment Research Platform
+            </div>
+          </div>
+        </div>
+
+        <Card className="relative overflow-hidden shadow-lg shadow-black/5">
+          <motion.div
+            className="absolute inset-0 bg-gradient-to-br from-primary/3 via-transparent to-secondary/3"
+            initial={{ opacity: 0 }}
+            whileHover={{ opacity: 1 }}
+            transition={{ duration: 0.3 }}
+          />
+          <CardContent className="p-6 relative z-10">
+            <motion.form
+              onSubmit={handleSubmit}
+              className="space-y-6"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2, duration: 0.4 }}
+            >
+              <div className="space-y-1 text-center">
+                <h2 className="text-xl font-medium text-foreground">登录投研平台</h2>
+                <p className="text-sm text-muted-foreground">使用团队分配的账号登录</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="login-email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  邮箱
+                </Label>
+                <Input
+                  id="login-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setError('');
+                  }}
+                  placeholder="name@company.com"
+                  className="transition-all duration-300 focus:scale-[1.02] focus:shadow-lg focus:shadow-primary/10"
+                  disabled={isSubmitting}
+                  autoFocus
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="login-password" className="flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  密码
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="login-password"
+                    type={showPassword ? "text" : "password"}
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setError('');
+                    }}
+                    placeholder="请输入密码"
+                    className={`pr-10 transition-all duration-300 focus:scale-[1.02] focus:shadow-lg focus:shadow-primary/10 ${
+                      error ? 'border-destructive focus:border-destructive' : ''
+                    }`}
+                    disabled={isSubmitting}
+                  />
+                  <motion.button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors duration-200"
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    disabled={isSubmitting}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                  </motion.button>
+                </div>
+
+                <AnimatePresence mode="wait">
+                  {error && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -10, scale: 0.95 }}
+                      animate={{ opacity: 1, y: 0, scale: 1 }}
+                      exit={{ opacity: 0, y: -10, scale: 0.95 }}
+                      transition={{ duration: 0.2 }}
+                      className="text-sm text-destructive"
+                    >
+                      {error}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+
+              <motion.div
+                whileHover={!isSubmitting ? { scale: 1.02 } : {}}
+                whileTap={!isSubmitting ? { scale: 0.98 } : {}}
+              >
+                <Button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                >
+                  {isSubmitting && (
+                    <motion.div
+                      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
+                      initial={{ x: '-100%' }}
+                      animate={{ x: '100%' }}
+                      transition={{
+                        duration: 1,
+                        repeat: Infinity,
+                        ease: "linear"
+                      }}
+                    />
+                  )}
+                  <LogIn className="h-4 w-4 mr-2" />
+                  {isSubmitting ? '登录中...' : '登录'}
+                </Button>
+              </motion.div>
+            </motion.form>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Bell, CheckCheck, FileText, Mail, MessageSquare } from 'lucide-react';
+import { Button } from './ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { notificationApi, realtimeApi } from '../utils/api';
+import { formatDate } from '../utils/helpers';
+import { toast } from 'sonner@2.0.3';
+import { motion, AnimatePresence } from 'motion/react';
+import type { AppNotification, Company, CurrentUser, DigestFrequency } from '../App';
+
+interface NotificationCenterProps {
+  companies: Company[];
+  currentUser: CurrentUser;
+  onCompanySelect: (company: Company) => void;
+}
+
+const DIGEST_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: 'off', label: '不发送' },
+  { value: 'daily', label: '每日' },
+  { value: 'weekly', label: '每周' },
+];
+
+// 通知中心：关注的公司和报告有新报告、新评论时提醒，并可设置邮件摘要
+export function NotificationCenter({ companies, currentUser, onCompanySelect }: NotificationCenterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [digest, setDigest] = useState<DigestFrequency>('off');
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const data = await notificationApi.getAll();
+      setNotifications(data.items);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    notificationApi.getSettings()
+      .then(settings => setDigest(settings.digest))
+      .catch(error => console.error('Error loading notification settings:', error));
+  }, [loadNotifications, currentUser.id]);
+
+  // 他人新增报告或评论时可能产生了给自己的通知，重新拉取
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      if ((event.action === 'report.create' || event.action === 'comment.create') && event.actorId !== currentUser.id) {
+        loadNotifications();
+      }
+    });
+  }, [loadNotifications, currentUser.id]);
+
+  useEffect(() => {
+    if (isOpen) loadNotifications();
+  }, [isOpen, loadNotifications]);
+
+  const handleMarkAllRead = async () => {
+    try {
+      const { unreadCount } = await notificationApi.markRead();
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(item => item.readAt ? item : { ...item, readAt }));
+      setUnreadCount(unreadCount);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('操作失败，请重试');
+    }
+  };
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    const company = companies.find(item => item.id === notification.companyId);
+    if (!company) {
+      toast.error('该公司已被删除');
+    } else {
+      onCompanySelect(company);
+      setIsOpen(false);
+    }
+    if (notification.readAt) return;
+    try {
+      const { unreadCount } = await notificationApi.markRead([notification.id]);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, readAt } : item));
+      setUnreadCount(unreadCount);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const handleDigestChange = async (value: DigestFrequency) => {
+    const previous = digest;
+    setDigest(value);
+    try {
+      await notificationApi.updateSettings(value);
+      toast.success(value === 'off' ? '已关闭邮件摘要' : `将通过邮件发送${value === 'daily' ? '每日' : '每周'}摘要`);
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      toast.error('保存设置失败，请重试');
+      setDigest(previous);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <motion.div
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <Button
+            variant="ghost"
+            size="sm"
+            className="relative h-9 w-9 p-0 hover:bg-secondary/50 transition-colors duration-200 text-foreground"
+            aria-label="通知"
+          >
+            <Bell className="h-4 w-4" />
+            <AnimatePresence>
+              {unreadCount > 0 && (
+                <motion.span
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  exit={{ scale: 0 }}
+                  className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white text-center"
+                >
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </motion.span>
+              )}
+            </AnimatePresence>
+          </Button>
+        </motion.div>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <div>
+            <p className="text-sm font-medium text-foreground">通知</p>
+            <p className="text-xs text-muted-foreground">{unreadCount > 0 ? `${unreadCount} 条未读` : '没有未读通知'}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+            <CheckCheck className="h-4 w-4 mr-1" />
+            全部已读
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-96">
+          {notifications.length === 0 ? (
+            <div className="px-4 py-10 text-center text-sm text-muted-foreground">
+              关注公司或报告后，新的报告和评论会出现在这里
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {notifications.map(notification => {
+                const companyName = companies.find(company => company.id === notification.companyId)?.name ?? '已删除的公司';
+                const Icon = notification.action === 'report.create' ? FileText : MessageSquare;
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpenNotification(notification)}
+                    className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-secondary/40 transition-colors duration-200 ${
+                      notification.readAt ? '' : 'bg-primary/5'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1 space-y-0.5">
+                      <p className="text-sm text-foreground">
+                        <span className="font-medium">{notification.actorName}</span>
+                        {notification.action === 'report.create' ? ' 上传了报告 ' : ' 评论了 '}
+                        <span className="font-medium">《{notification.title}》</span>
+                      </p>
+                      {notification.excerpt && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{notification.excerpt}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">{companyName} · {formatDate(notification.createdAt)}</p>
+                    </div>
+                    {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary flex-shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-border">
+          <span className="flex items-center text-xs text-muted-foreground">
+            <Mail className="h-3.5 w-3.5 mr-1.5" />
+            邮件摘要
+          </span>
+          <Select value={digest} onValueChange={(value) => handleDigestChange(value as DigestFrequency)}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { authApi } from '../utils/api';
 import { motion, AnimatePresence } from 'motion/react';
 
 interface PasswordConfirmDialogProps {
@@ -28,23 +29,21 @@ export function PasswordConfirmDialog({
   const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState('');
 
-  const correctPassword = '1111';
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!password) {
-      setError('请输入删除密码');
+      setError('请输入登录密码');
       return;
     }
 
     setIsVerifying(true);
     setError('');
 
-    // 模拟验证延迟
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // 使用当前账号重新验证身份，删除权限由服务端校验
+    const isValid = await authApi.verifyPassword(password);
 
-    if (password === correctPassword) {
+    if (isValid) {
       onConfirm();
       handleClose();
     } else {
@@ -108,7 +107,7 @@ export function PasswordConfirmDialog({
             <div className="space-y-2">
               <Label htmlFor="delete-password" className="flex items-center gap-2">
                 <Lock className="h-4 w-4" />
-                删除密码
+                登录密码
               </Label>
               <div className="relative">
                 <Input
@@ -119,7 +118,7 @@ export function PasswordConfirmDialog({
                     setPassword(e.target.value);
                     setError('');
                   }}
-                  placeholder="请输入删除密码"
+                  placeholder="请输入当前账号的登录密码"
                   className={`pr-10 transition-all duration-300 focus:scale-[1.02] focus:shadow-lg focus:shadow-primary/10 ${
                     error ? 'border-destructive focus:border-destructive' : ''
                   }`}
@@ -217,9 +216,9 @@ export function PasswordConfirmDialog({
             transition={{ delay: 0.3, duration: 0.4 }}
           >
             <div className="text-xs text-muted-foreground text-center leading-relaxed">
-              🔒 此操作需要管理员权限验证
+              🔒 此操作需要管理员权限
               <br />
-              请输入正确的删除密码以继续操作
+              请输入当前账号的登录密码以确认身份
             </div>
           </motion.div>
         </motion.div>
@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Document, Page, Thumbnail, pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import 'react-pdf/dist/Page/TextLayer.css';
+import 'react-pdf/dist/Page/AnnotationLayer.css';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Search, MessageSquare, Download, X, Highlighter } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { ReportCommentsPanel } from './ReportComments';
+import { toast } from 'sonner@2.0.3';
+import { reportApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import type { Comment, CommentAnchor, CurrentUser, Report } from '../App';
+
+pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+
+interface PdfViewerProps {
+  companyId: string;
+  report: Report | null;
+  currentUser: CurrentUser;
+  onClose: () => void;
+  onCommentsUpdated: (reportId: string, comments: Comment[]) => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function PdfViewer({ companyId, report, currentUser, onClose, onCommentsUpdated }: PdfViewerProps) {
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [matchPages, setMatchPages] = useState<number[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [showComments, setShowComments] = useState(true);
+  const [selection, setSelection] = useState<{ anchor: CommentAnchor; top: number; left: number } | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<CommentAnchor | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const canAnnotate = can(currentUser, 'comment:write');
+
+  const numPages = pdf?.numPages ?? 0;
+
+  // 复用下载接口的签名地址加载文件
+  useEffect(() => {
+    if (!report) return;
+    setFileUrl(null);
+    setPdf(null);
+    setPageNumber(1);
+    setSearchQuery('');
+    setMatchPages([]);
+    setSelection(null);
+    setPendingAnchor(null);
+    setActiveCommentId(null);
+    reportApi.getDownloadUrl(companyId, report.id)
+      .then(setFileUrl)
+      .catch(error => {
+        console.error('Error loading report:', error);
+        toast.error('加载报告失败，请重试');
+        onClose();
+      });
+  }, [companyId, report?.id]);
+
+  const goToPage = useCallback((page: number) => {
+    if (numPages === 0) return;
+    setSelection(null);
+    setPageNumber(Math.min(Math.max(page, 1), numPages));
+  }, [numPages]);
+
+  // 逐页提取文字，记录包含关键词的页码
+  const handleSearch = async () => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!pdf || !query) {
+      setMatchPages([]);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const pages: number[] = [];
+      for (let page = 1; page <= pdf.numPages; page++) {
+        const content = await (await pdf.getPage(page)).getTextContent();
+        const text = content.items.map(item => ('str' in item ? item.str : '')).join(' ');
+        if (text.toLowerCase().includes(query)) {
+          pages.push(page);
+        }
+      }
+      setMatchPages(pages);
+      if (pages.length > 0) {
+        goToPage(pages.find(page => page >= pageNumber) ?? pages[0]);
+      } else {
+        toast.info(`未找到"${searchQuery.trim()}"`);
+      }
+    } catch (error) {
+      console.error('Error searching report:', error);
+      toast.error('搜索失败，请重试');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matchPages.length === 0) return;
+    const next = direction === 1
+      ? matchPages.find(page => page > pageNumber) ?? matchPages[0]
+      : [...matchPages].reverse().find(page => page < pageNumber) ?? matchPages[matchPages.length - 1];
+    goToPage(next);
+  };
+
+  // 选中页面文字后，记录相对页面尺寸的选区位置，供添加批注
+  const handleMouseUp = () => {
+    const page = pageRef.current;
+    const current = window.getSelection();
+    if (!canAnnotate || !page || !current || current.isCollapsed || current.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const range = current.getRangeAt(0);
+    const quote = current.toString().replace(/\s+/g, ' ').trim();
+    if (!quote || !page.contains(range.commonAncestorContainer)) {
+      setSelection(null);
+      return;
+    }
+
+    const bounds = page.getBoundingClientRect();
+    const clamp = (n: number) => Math.min(Math.max(n, 0), 1);
+    const rects = Array.from(range.getClientRects())
+      .filter(rect => rect.width > 1 && rect.height > 1)
+      .slice(0, 50)
+      .map(rect => ({
+        x: clamp((rect.left - bounds.left) / bounds.width),
+        y: clamp((rect.top - bounds.top) / bounds.height),
+        width: clamp(rect.width / bounds.width),
+        height: clamp(rect.height / bounds.height)
+      }));
+    if (rects.length === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const last = rects[rects.length - 1];
+    setSelection({
+      anchor: { page: pageNumber, rects, quote },
+      top: (last.y + last.height) * bounds.height,
+      left: (last.x + last.width) * bounds.width
+    });
+  };
+
+  const handleAddAnnotation = () => {
+    if (!selection) return;
+    setPendingAnchor(selection.anchor);
+    setSelection(null);
+    setShowComments(true);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  // 定位到批注所在页并在侧栏中突出显示
+  const focusComment = (comment: Comment) => {
+    if (comment.anchor) {
+      goToPage(comment.anchor.page);
+    }
+    setActiveCommentId(comment.id);
+    setShowComments(true);
+    setTimeout(() => {
+      document.getElementById(`comment-${comment.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, 50);
+  };
+
+  const pageAnnotations = (report?.comments || []).filter(comment => !comment.parentId && comment.anchor?.page === pageNumber);
+
+  // 在文字层中高亮搜索词
+  const textRenderer = useCallback(({ str }: { str: string }) => {
+    const query = searchQuery.trim();
+    const escaped = escapeHtml(str);
+    if (!query || matchPages.length === 0) return escaped;
+    return escaped.replace(new RegExp(escapeRegExp(escapeHtml(query)), 'gi'), match => `<mark>${match}</mark>`);
+  }, [searchQuery, matchPages]);
+
+  return (
+    <Dialog open={!!report} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[95vw] w-[95vw] h-[90vh] p-0 gap-0 overflow-hidden flex flex-col">
+        <DialogHeader className="px-6 py-4 border-b border-border">
+          <DialogTitle className="truncate pr-8">{report?.title}</DialogTitle>
+          <DialogDescription>
+            {report?.analyst} · {report?.category}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 工具栏 */}
+        <div className="flex items-center justify-between gap-4 px-6 py-2 border-b border-border bg-secondary/20">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Input
+              type="number"
+              value={pageNumber}
+              min={1}
+              max={numPages}
+              onChange={(e) => goToPage(Number(e.target.value))}
+              className="w-16 h-8 text-center"
+            />
+            <span className="text-sm text-muted-foreground">/ {numPages || '-'}</span>
+            <Button variant="ghost" size="sm" onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= numPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setScale(s => Math.max(MIN_SCALE, s - SCALE_STEP))} disabled={scale <= MIN_SCALE}>
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <button
+              type="button"
+              onClick={() => setScale(1)}
+              className="text-sm text-muted-foreground hover:text-foreground w-12 text-center transition-colors duration-200"
+            >
+              {Math.round(scale * 100)}%
+            </button>
+            <Button variant="ghost" size="sm" onClick={() => setScale(s => Math.min(MAX_SCALE, s + SCALE_STEP))} disabled={scale >= MAX_SCALE}>
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="在报告中搜索..."
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setMatchPages([]);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    matchPages.length > 0 ? goToMatch(e.shiftKey ? -1 : 1) : handleSearch();
+                  }
+                }}
+                className="pl-8 pr-8 h-8 w-56"
+                disabled={!pdf || isSearching}
+              />
+              {searchQuery && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSearchQuery('');
+                    setMatchPages([]);
+                  }}
+                  className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+            {matchPages.length > 0 && (
+              <>
+                <Badge variant="secondary" className="text-xs">{matchPages.length} 页</Badge>
+                <Button variant="ghost" size="sm" onClick={() => goToMatch(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => goToMatch(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => fileUrl && window.open(fileUrl, '_blank')} disabled={!fileUrl}>
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={showComments ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowComments(!showComments)}
+            >
+              <MessageSquare className="h-4 w-4 mr-1" />
+              {report?.comments?.length || 0}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {fileUrl ? (
+            <Document
+              file={fileUrl}
+              onLoadSuccess={setPdf}
+              onLoadError={(error) => {
+                console.error('Error rendering PDF:', error);
+                toast.error('无法显示此PDF，请下载后查看');
+              }}
+              loading={<p className="m-auto text-sm text-muted-foreground">加载中...</p>}
+              className="flex flex-1 min-h-0"
+            >
+              {/* 缩略图 */}
+              <div className="w-36 flex-shrink-0 overflow-y-auto border-r border-border p-3 space-y-3 bg-secondary/10">
+                {Array.from({ length: numPages }, (_, index) => index + 1).map(page => (
+                  <button
+                    key={page}
+                    type="button"
+                    onClick={() => goToPage(page)}
+                    className={`block w-full rounded-md border-2 overflow-hidden transition-colors duration-200 ${
+                      page === pageNumber ? 'border-primary' : 'border-transparent hover:border-border'
+                    }`}
+                  >
+                    <Thumbnail pageNumber={page} width={104} />
+                    <span className={`block text-xs py-1 ${matchPages.includes(page) ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+                      {page}
+                    </span>
+                  </button>
+                ))}
+              </div>
+
+              {/* 当前页 */}
+              <div className="flex-1 overflow-auto bg-muted/30 p-6">
+                <div
+                  ref={pageRef}
+                  className="relative w-fit mx-auto shadow-lg shadow-black/10"
+                  onMouseUp={handleMouseUp}
+                >
+                  <Page
+                    pageNumber={pageNumber}
+                    scale={scale}
+                    customTextRenderer={textRenderer}
+                  />
+
+                  {/* 批注高亮，不拦截文字选择；点击左侧标记定位到评论 */}
+                  {pageAnnotations.map(comment => (
+                    <React.Fragment key={comment.id}>
+                      {comment.anchor!.rects.map((rect, index) => (
+                        <div
+                          key={index}
+                          className={`absolute pointer-events-none mix-blend-multiply z-10 ${
+                            activeCommentId === comment.id ? 'bg-amber-300/60' : 'bg-amber-200/40'
+                          }`}
+                          style={{
+                            left: `${rect.x * 100}%`,
+                            top: `${rect.y * 100}%`,
+                            width: `${rect.width * 100}%`,
+                            height: `${rect.height * 100}%`
+                          }}
+                        />
+                      ))}
+                      <button
+                        type="button"
+                        title={comment.content}
+                        onClick={() => focusComment(comment)}
+                        className="absolute z-20 -translate-x-full -ml-1 w-5 h-5 rounded-full bg-amber-400 text-white flex items-center justify-center shadow hover:scale-110 transition-transform duration-200"
+                        style={{ left: 0, top: `${comment.anchor!.rects[0].y * 100}%` }}
+                      >
+                        <MessageSquare className="h-3 w-3" />
+                      </button>
+                    </React.Fragment>
+                  ))}
+
+                  {pendingAnchor?.page === pageNumber && pendingAnchor.rects.map((rect, index) => (
+                    <div
+                      key={`pending-${index}`}
+                      className="absolute pointer-events-none mix-blend-multiply z-10 bg-primary/20"
+                      style={{
+                        left: `${rect.x * 100}%`,
+                        top: `${rect.y * 100}%`,
+                        width: `${rect.width * 100}%`,
+                        height: `${rect.height * 100}%`
+                      }}
+                    />
+                  ))}
+
+                  {selection && (
+                    <Button
+                      size="sm"
+                      onMouseUp={(e) => e.stopPropagation()}
+                      onClick={handleAddAnnotation}
+                      className="absolute z-30 mt-1 shadow-lg shadow-primary/20"
+                      style={{ top: selection.top, left: selection.left }}
+                    >
+                      <Highlighter className="h-3 w-3 mr-1" />
+                      添加批注
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </Document>
+          ) : (
+            <p className="m-auto text-sm text-muted-foreground">加载中...</p>
+          )}
+
+          {/* 评论侧栏 */}
+          {showComments && report && (
+            <div className="w-96 flex-shrink-0 border-l border-border p-4 overflow-y-auto flex flex-col">
+              <ReportCommentsPanel
+                companyId={companyId}
+                reportId={report.id}
+                currentUser={currentUser}
+                comments={report.comments || []}
+                onCommentsUpdated={(comments) => onCommentsUpdated(report.id, comments)}
+                pendingAnchor={pendingAnchor}
+                onPendingAnchorChange={setPendingAnchor}
+                activeCommentId={activeCommentId}
+                onAnchorClick={focusComment}
+              />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
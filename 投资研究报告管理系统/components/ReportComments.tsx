@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { MessageSquare, Plus, Edit2, Trash2, Send } from 'lucide-react';
+import { MessageSquare, Edit2, Trash2, Send, Reply, Highlighter, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Textarea } from './ui/textarea';
@@ -7,22 +7,144 @@ import { Badge } from './ui/badge';
 import { Card, CardContent } from './ui/card';
 import { motion, AnimatePresence } from 'motion/react';
 import { toast } from 'sonner@2.0.3';
-import { reportApi } from '../utils/api';
-import type { Comment } from '../App';
+import { commentApi, userApi } from '../utils/api';
+import { can, canModifyComment } from '../utils/permissions';
+import type { Comment, CommentAnchor, CurrentUser, UserProfile } from '../App';
 
 interface ReportCommentsProps {
   companyId: string;
   reportId: string;
+  currentUser: CurrentUser;
   comments: Comment[];
   onCommentsUpdated: (comments: Comment[]) => void;
 }
 
-export function ReportComments({ companyId, reportId, comments, onCommentsUpdated }: ReportCommentsProps) {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
+interface ReportCommentsPanelProps extends ReportCommentsProps {
+  pendingAnchor?: CommentAnchor | null; // 阅读器中选中、待发表的批注位置
+  onPendingAnchorChange?: (anchor: CommentAnchor | null) => void;
+  activeCommentId?: string | null;
+  onAnchorClick?: (comment: Comment) => void;
+}
+
+// 与服务端 comment-handlers.tsx 的提及规则一致：@ 后直到空白或标点
+const MENTION_PATTERN = /(@[^\s@,.;:!?，。；：！？、]+)/g;
+
+// 高亮评论中的 @提及
+const renderContent = (content: string) => {
+  return content.split(MENTION_PATTERN).map((part, index) =>
+    part.startsWith('@') && part.length > 1 ? (
+      <span key={index} className="text-primary font-medium">{part}</span>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+};
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: UserProfile[];
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// 输入 @ 时弹出团队成员列表，选择后插入 @姓名
+function MentionTextarea({ value, onChange, users, placeholder, disabled }: MentionTextareaProps) {
+  const [mention, setMention] = useState<{ query: string; start: number; end: number } | null>(null);
+
+  const suggestions = mention
+    ? users.filter(user => user.name.toLowerCase().includes(mention.query.toLowerCase())).slice(0, 5)
+    : [];
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    const caret = e.target.selectionStart ?? text.length;
+    const match = text.slice(0, caret).match(/@([^\s@]*)$/);
+    setMention(match ? { query: match[1], start: caret - match[0].length, end: caret } : null);
+    onChange(text);
+  };
+
+  const insertMention = (user: UserProfile) => {
+    if (!mention) return;
+    onChange(`${value.slice(0, mention.start)}@${user.name} ${value.slice(mention.end)}`);
+    setMention(null);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        placeholder={placeholder}
+        value={value}
+        onChange={handleChange}
+        onBlur={() => setMention(null)}
+        rows={3}
+        disabled={disabled}
+        className="resize-none focus:scale-[1.02] transition-all duration-300"
+      />
+      <AnimatePresence>
+        {suggestions.length > 0 && (
+          <motion.div
+            className="absolute left-0 top-full mt-1 z-50 w-56 rounded-md border border-border bg-popover shadow-lg overflow-hidden"
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            transition={{ duration: 0.15 }}
+          >
+            {suggestions.map(user => (
+              <button
+                key={user.id}
+                type="button"
+                // 用 mousedown 抢在 textarea 失焦之前插入
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+                className="w-full px-3 py-2 text-left text-sm hover:bg-secondary/50 transition-colors duration-200"
+              >
+                <span className="text-foreground">{user.name}</span>
+                {user.email && <span className="ml-2 text-xs text-muted-foreground">{user.email}</span>}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// 评论输入与列表，可单独嵌入其他视图（如报告阅读器）
+export function ReportCommentsPanel({
+  companyId,
+  reportId,
+  currentUser,
+  comments,
+  onCommentsUpdated,
+  pendingAnchor,
+  onPendingAnchorChange,
+  activeCommentId,
+  onAnchorClick
+}: ReportCommentsPanelProps) {
   const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [replyContent, setReplyContent] = useState('');
   const [editingComment, setEditingComment] = useState<Comment | null>(null);
   const [editContent, setEditContent] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const canWrite = can(currentUser, 'comment:write');
+
+  // 加载团队成员，用于 @提及
+  useEffect(() => {
+    if (!canWrite) return;
+    userApi.getAll()
+      .then(setUsers)
+      .catch(error => console.error('Error loading users:', error));
+  }, [canWrite]);
+
+  // 按根评论分组，回复按时间排在其下
+  const commentIds = new Set(comments.map(comment => comment.id));
+  const threads = comments.filter(comment => !comment.parentId || !commentIds.has(comment.parentId));
+  const repliesOf = (commentId: string) => comments.filter(comment => comment.parentId === commentId);
 
   const handleAddComment = async () => {
     if (!newComment.trim()) {
@@ -32,11 +154,13 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
 
     setIsSubmitting(true);
     try {
-      const updatedComments = await reportApi.addComment(companyId, reportId, {
-        content: newComment.trim()
+      const updatedComments = await commentApi.create(companyId, reportId, {
+        content: newComment.trim(),
+        anchor: pendingAnchor || undefined
       });
       onCommentsUpdated(updatedComments);
       setNewComment('');
+      onPendingAnchorChange?.(null);
       toast.success('评论添加成功');
     } catch (error) {
       console.error('Error adding comment:', error);
@@ -46,6 +170,30 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
     }
   };
 
+  const handleReply = async (parentId: string) => {
+    if (!replyContent.trim()) {
+      toast.error('请输入回复内容');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const updatedComments = await commentApi.create(companyId, reportId, {
+        content: replyContent.trim(),
+        parentId
+      });
+      onCommentsUpdated(updatedComments);
+      setReplyingTo(null);
+      setReplyContent('');
+      toast.success('回复成功');
+    } catch (error) {
+      console.error('Error replying to comment:', error);
+      toast.error('回复失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleEditComment = async (commentId: string) => {
     if (!editContent.trim()) {
       toast.error('请输入评论内容');
@@ -54,9 +202,7 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
 
     setIsSubmitting(true);
     try {
-      const updatedComments = await reportApi.updateComment(companyId, reportId, commentId, {
-        content: editContent.trim()
-      });
+      const updatedComments = await commentApi.update(companyId, reportId, commentId, editContent.trim());
       onCommentsUpdated(updatedComments);
       setEditingComment(null);
       setEditContent('');
@@ -71,7 +217,7 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
 
   const handleDeleteComment = async (commentId: string) => {
     try {
-      const updatedComments = await reportApi.deleteComment(companyId, reportId, commentId);
+      const updatedComments = await commentApi.delete(companyId, reportId, commentId);
       onCommentsUpdated(updatedComments);
       toast.success('评论删除成功');
     } catch (error) {
@@ -94,6 +240,333 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
     }
   };
 
+  const renderSubmitShimmer = () => isSubmitting && (
+    <motion.div
+      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
+      initial={{ x: '-100%' }}
+      animate={{ x: '100%' }}
+      transition={{
+        duration: 1,
+        repeat: Infinity,
+        ease: "linear"
+      }}
+    />
+  );
+
+  const renderComment = (comment: Comment) => {
+    if (editingComment?.id === comment.id) {
+      return (
+        <motion.div
+          className="space-y-3"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.2 }}
+        >
+          <MentionTextarea
+            value={editContent}
+            onChange={setEditContent}
+            users={users}
+            disabled={isSubmitting}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setEditingComment(null);
+                setEditContent('');
+              }}
+              disabled={isSubmitting}
+              className="hover:scale-105 transition-transform duration-200"
+            >
+              取消
+            </Button>
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button
+                size="sm"
+                onClick={() => handleEditComment(comment.id)}
+                disabled={isSubmitting || !editContent.trim()}
+                className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+              >
+                {renderSubmitShimmer()}
+                保存
+              </Button>
+            </motion.div>
+          </div>
+        </motion.div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 space-y-1">
+            <p className="text-sm font-medium text-foreground">
+              {comment.authorName || '未知用户'}
+            </p>
+            {comment.anchor && (
+              <button
+                type="button"
+                onClick={() => onAnchorClick?.(comment)}
+                disabled={!onAnchorClick}
+                className="block w-full text-left text-xs text-muted-foreground border-l-2 border-amber-400 bg-amber-50/60 rounded-r px-2 py-1 enabled:hover:bg-amber-100/60 transition-colors duration-200"
+              >
+                <span className="text-foreground mr-1">第 {comment.anchor.page} 页</span>
+                {comment.anchor.quote && <span className="line-clamp-2">“{comment.anchor.quote}”</span>}
+              </button>
+            )}
+            <p className="text-foreground leading-relaxed whitespace-pre-wrap">
+              {renderContent(comment.content)}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 ml-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+            {canWrite && (
+              <motion.div
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => {
+                    setReplyingTo(comment);
+                    setReplyContent(comment.authorName ? `@${comment.authorName} ` : '');
+                  }}
+                >
+                  <Reply className="h-3 w-3" />
+                </Button>
+              </motion.div>
+            )}
+            {canModifyComment(currentUser, comment) && (
+              <>
+                <motion.div
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                >
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => {
+                      setEditingComment(comment);
+                      setEditContent(comment.content);
+                    }}
+                  >
+                    <Edit2 className="h-3 w-3" />
+                  </Button>
+                </motion.div>
+                <motion.div
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                >
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                    onClick={() => handleDeleteComment(comment.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </motion.div>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            {formatDate(comment.createdAt)}
+            {comment.updatedAt && comment.updatedAt !== comment.createdAt && (
+              <span className="ml-2">(已编辑)</span>
+            )}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 min-h-0 space-y-4">
+      {/* 添加新评论 */}
+      {canWrite && (
+        <motion.div
+          className="space-y-3"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          {pendingAnchor && (
+            <div className="flex items-start gap-2 text-xs text-muted-foreground border-l-2 border-amber-400 bg-amber-50/60 rounded-r px-2 py-1.5">
+              <Highlighter className="h-3 w-3 mt-0.5 flex-shrink-0 text-amber-600" />
+              <p className="flex-1 line-clamp-3">
+                <span className="text-foreground mr-1">批注第 {pendingAnchor.page} 页</span>
+                {pendingAnchor.quote && `“${pendingAnchor.quote}”`}
+              </p>
+              <button
+                type="button"
+                onClick={() => onPendingAnchorChange?.(null)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+          <MentionTextarea
+            placeholder="添加您的评论，输入 @ 提及分析师..."
+            value={newComment}
+            onChange={setNewComment}
+            users={users}
+          />
+          <div className="flex justify-end">
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <Button
+                onClick={handleAddComment}
+                disabled={isSubmitting || !newComment.trim()}
+                className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+              >
+                {renderSubmitShimmer()}
+                <Send className="h-4 w-4 mr-2" />
+                {isSubmitting ? '发送中...' : '发送评论'}
+              </Button>
+            </motion.div>
+          </div>
+        </motion.div>
+      )}
+
+      {/* 评论列表 */}
+      <div className="flex-1 overflow-y-auto space-y-3 max-h-96">
+        <AnimatePresence>
+          {threads.length === 0 ? (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              transition={{ duration: 0.3 }}
+            >
+              <Card className="border-dashed border-2 hover:border-primary/20 transition-colors duration-300">
+                <CardContent className="p-8 text-center">
+                  <motion.div
+                    className="w-12 h-12 bg-secondary rounded-lg mx-auto mb-3 flex items-center justify-center"
+                    animate={{
+                      rotate: [0, 5, -5, 0],
+                      scale: [1, 1.05, 1]
+                    }}
+                    transition={{
+                      duration: 3,
+                      repeat: Infinity,
+                      ease: "easeInOut"
+                    }}
+                  >
+                    <MessageSquare className="h-6 w-6 text-secondary-foreground" />
+                  </motion.div>
+                  <h4 className="font-medium text-foreground mb-1">暂无评论</h4>
+                  <p className="text-muted-foreground text-sm">
+                    {canWrite ? '成为第一个评论此报告的人' : '还没有人评论此报告'}
+                  </p>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ) : (
+            threads.map((comment, index) => (
+              <motion.div
+                key={comment.id}
+                layout
+                initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.95 }}
+                transition={{
+                  delay: index * 0.1,
+                  duration: 0.3,
+                  ease: [0.25, 0.46, 0.45, 0.94]
+                }}
+                id={`comment-${comment.id}`}
+                className="space-y-2"
+              >
+                <Card className={`relative overflow-hidden hover:shadow-md hover:shadow-black/5 transition-all duration-300 group ${
+                  activeCommentId === comment.id ? 'ring-2 ring-amber-400' : ''
+                }`}>
+                  <motion.div
+                    className="absolute inset-0 bg-gradient-to-r from-primary/3 via-transparent to-secondary/3"
+                    initial={{ opacity: 0 }}
+                    whileHover={{ opacity: 1 }}
+                    transition={{ duration: 0.3 }}
+                  />
+                  <CardContent className="p-4 relative z-10">
+                    {renderComment(comment)}
+                  </CardContent>
+                </Card>
+
+                {/* 回复 */}
+                {(repliesOf(comment.id).length > 0 || replyingTo?.id === comment.id || replyingTo?.parentId === comment.id) && (
+                  <div className="ml-6 space-y-2 border-l-2 border-border pl-4">
+                    {repliesOf(comment.id).map(reply => (
+                      <Card key={reply.id} className="relative overflow-hidden hover:shadow-md hover:shadow-black/5 transition-all duration-300 group">
+                        <CardContent className="p-3 relative z-10">
+                          {renderComment(reply)}
+                        </CardContent>
+                      </Card>
+                    ))}
+
+                    {(replyingTo?.id === comment.id || replyingTo?.parentId === comment.id) && (
+                      <motion.div
+                        className="space-y-2"
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <MentionTextarea
+                          placeholder="写下您的回复..."
+                          value={replyContent}
+                          onChange={setReplyContent}
+                          users={users}
+                          disabled={isSubmitting}
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setReplyingTo(null);
+                              setReplyContent('');
+                            }}
+                            disabled={isSubmitting}
+                            className="hover:scale-105 transition-transform duration-200"
+                          >
+                            取消
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleReply(comment.id)}
+                            disabled={isSubmitting || !replyContent.trim()}
+                            className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                          >
+                            {renderSubmitShimmer()}
+                            <Reply className="h-3 w-3 mr-1" />
+                            回复
+                          </Button>
+                        </div>
+                      </motion.div>
+                    )}
+                  </div>
+                )}
+              </motion.div>
+            ))
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
+
+export function ReportComments({ companyId, reportId, currentUser, comments, onCommentsUpdated }: ReportCommentsProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
   return (
     <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
       <DialogTrigger asChild>
@@ -101,9 +574,9 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
         >
-          <Button 
-            variant="outline" 
-            size="sm" 
+          <Button
+            variant="outline"
+            size="sm"
             className="hover:shadow-md transition-all duration-200"
           >
             <MessageSquare className="h-4 w-4 mr-2" />
@@ -119,223 +592,18 @@ export function ReportComments({ companyId, reportId, comments, onCommentsUpdate
         <DialogHeader>
           <DialogTitle>报告评论</DialogTitle>
           <DialogDescription>
-            添加您对此报告的评论和备注，所有评论将自动同步到所有设备。
+            添加您对此报告的评论和备注，输入 @ 可提及团队成员，所有评论将自动同步到所有设备。
           </DialogDescription>
         </DialogHeader>
-        
-        <div className="flex-1 min-h-0 space-y-4">
-          {/* 添加新评论 */}
-          <motion.div 
-            className="space-y-3"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.3 }}
-          >
-            <Textarea
-              placeholder="添加您的评论..."
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              rows={3}
-              className="resize-none focus:scale-[1.02] transition-all duration-300"
-            />
-            <div className="flex justify-end">
-              <motion.div
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-              >
-                <Button 
-                  onClick={handleAddComment}
-                  disabled={isSubmitting || !newComment.trim()}
-                  className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
-                >
-                  {isSubmitting && (
-                    <motion.div
-                      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
-                      initial={{ x: '-100%' }}
-                      animate={{ x: '100%' }}
-                      transition={{ 
-                        duration: 1,
-                        repeat: Infinity,
-                        ease: "linear"
-                      }}
-                    />
-                  )}
-                  <Send className="h-4 w-4 mr-2" />
-                  {isSubmitting ? '发送中...' : '发送评论'}
-                </Button>
-              </motion.div>
-            </div>
-          </motion.div>
 
-          {/* 评论列表 */}
-          <div className="flex-1 overflow-y-auto space-y-3 max-h-96">
-            <AnimatePresence>
-              {comments.length === 0 ? (
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.9 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.9 }}
-                  transition={{ duration: 0.3 }}
-                >
-                  <Card className="border-dashed border-2 hover:border-primary/20 transition-colors duration-300">
-                    <CardContent className="p-8 text-center">
-                      <motion.div 
-                        className="w-12 h-12 bg-secondary rounded-lg mx-auto mb-3 flex items-center justify-center"
-                        animate={{ 
-                          rotate: [0, 5, -5, 0],
-                          scale: [1, 1.05, 1]
-                        }}
-                        transition={{ 
-                          duration: 3,
-                          repeat: Infinity,
-                          ease: "easeInOut"
-                        }}
-                      >
-                        <MessageSquare className="h-6 w-6 text-secondary-foreground" />
-                      </motion.div>
-                      <h4 className="font-medium text-foreground mb-1">暂无评论</h4>
-                      <p className="text-muted-foreground text-sm">
-                        成为第一个评论此报告的人
-                      </p>
-                    </CardContent>
-                  </Card>
-                </motion.div>
-              ) : (
-                comments.map((comment, index) => (
-                  <motion.div
-                    key={comment.id}
-                    layout
-                    initial={{ opacity: 0, y: 20, scale: 0.95 }}
-                    animate={{ opacity: 1, y: 0, scale: 1 }}
-                    exit={{ opacity: 0, y: -20, scale: 0.95 }}
-                    transition={{ 
-                      delay: index * 0.1,
-                      duration: 0.3,
-                      ease: [0.25, 0.46, 0.45, 0.94]
-                    }}
-                    whileHover={{ 
-                      scale: 1.01,
-                      transition: { duration: 0.2 }
-                    }}
-                  >
-                    <Card className="relative overflow-hidden hover:shadow-md hover:shadow-black/5 transition-all duration-300 group">
-                      <motion.div
-                        className="absolute inset-0 bg-gradient-to-r from-primary/3 via-transparent to-secondary/3"
-                        initial={{ opacity: 0 }}
-                        whileHover={{ opacity: 1 }}
-                        transition={{ duration: 0.3 }}
-                      />
-                      <CardContent className="p-4 relative z-10">
-                        {editingComment?.id === comment.id ? (
-                          <motion.div 
-                            className="space-y-3"
-                            initial={{ opacity: 0 }}
-                            animate={{ opacity: 1 }}
-                            transition={{ duration: 0.2 }}
-                          >
-                            <Textarea
-                              value={editContent}
-                              onChange={(e) => setEditContent(e.target.value)}
-                              rows={3}
-                              className="resize-none focus:scale-[1.02] transition-all duration-300"
-                            />
-                            <div className="flex justify-end gap-2">
-                              <Button 
-                                variant="outline" 
-                                size="sm"
-                                onClick={() => {
-                                  setEditingComment(null);
-                                  setEditContent('');
-                                }}
-                                disabled={isSubmitting}
-                                className="hover:scale-105 transition-transform duration-200"
-                              >
-                                取消
-                              </Button>
-                              <motion.div
-                                whileHover={{ scale: 1.05 }}
-                                whileTap={{ scale: 0.95 }}
-                              >
-                                <Button 
-                                  size="sm"
-                                  onClick={() => handleEditComment(comment.id)}
-                                  disabled={isSubmitting || !editContent.trim()}
-                                  className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
-                                >
-                                  {isSubmitting && (
-                                    <motion.div
-                                      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
-                                      initial={{ x: '-100%' }}
-                                      animate={{ x: '100%' }}
-                                      transition={{ 
-                                        duration: 1,
-                                        repeat: Infinity,
-                                        ease: "linear"
-                                      }}
-                                    />
-                                  )}
-                                  保存
-                                </Button>
-                              </motion.div>
-                            </div>
-                          </motion.div>
-                        ) : (
-                          <div className="space-y-2">
-                            <div className="flex items-start justify-between">
-                              <p className="text-foreground leading-relaxed flex-1">
-                                {comment.content}
-                              </p>
-                              <div className="flex items-center gap-1 ml-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                                <motion.div
-                                  whileHover={{ scale: 1.1 }}
-                                  whileTap={{ scale: 0.9 }}
-                                >
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-8 w-8 p-0"
-                                    onClick={() => {
-                                      setEditingComment(comment);
-                                      setEditContent(comment.content);
-                                    }}
-                                  >
-                                    <Edit2 className="h-3 w-3" />
-                                  </Button>
-                                </motion.div>
-                                <motion.div
-                                  whileHover={{ scale: 1.1 }}
-                                  whileTap={{ scale: 0.9 }}
-                                >
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
-                                    onClick={() => handleDeleteComment(comment.id)}
-                                  >
-                                    <Trash2 className="h-3 w-3" />
-                                  </Button>
-                                </motion.div>
-                              </div>
-                            </div>
-                            <div className="flex items-center justify-between">
-                              <p className="text-xs text-muted-foreground">
-                                {formatDate(comment.createdAt)}
-                                {comment.updatedAt && comment.updatedAt !== comment.createdAt && (
-                                  <span className="ml-2">(已编辑)</span>
-                                )}
-                              </p>
-                            </div>
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
-                  </motion.div>
-                ))
-              )}
-            </AnimatePresence>
-          </div>
-        </div>
+        <ReportCommentsPanel
+          companyId={companyId}
+          reportId={reportId}
+          currentUser={currentUser}
+          comments={comments}
+          onCommentsUpdated={onCommentsUpdated}
+        />
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, ArrowUp, Building2, Newspaper, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Card, CardContent } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FileKindIcon } from './FileKindIcon';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { usePagedList } from './usePagedList';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { realtimeApi, reportApi } from '../utils/api';
+import { formatDate, getReportFileKind } from '../utils/helpers';
+import type { Company, Report, ReportFilter } from '../App';
+
+interface ReportFeedProps {
+  companies: Company[]; // 用于显示报告所属公司
+  onBack: () => void;
+  onCompanySelect: (company: Company) => void;
+}
+
+// 下拉框的“全部”选项，值不能为空字符串
+const ALL = '__all__';
+
+// 报告动态：所有公司的报告按上传时间倒序，按日期分组
+export function ReportFeed({ companies, onBack, onCompanySelect }: ReportFeedProps) {
+  const { stockTypes, reportCategories, getTypeColor, getCategoryColor } = useTaxonomies();
+  const [companyType, setCompanyType] = useState('');
+  const [category, setCategory] = useState('');
+  const [analyst, setAnalyst] = useState('');
+  const [debouncedAnalyst, setDebouncedAnalyst] = useState('');
+  const [dateRange, setDateRange] = useState({ from: '', to: '' }); // yyyy-MM-dd
+  const [newReportCount, setNewReportCount] = useState(0); // 打开后其他人上传的报告数
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedAnalyst(analyst.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [analyst]);
+
+  // 日期范围按本地时间取整天
+  const filter: ReportFilter = {
+    companyType: companyType || undefined,
+    category: category || undefined,
+    analyst: debouncedAnalyst || undefined,
+    from: dateRange.from ? new Date(`${dateRange.from}T00:00:00`).toISOString() : undefined,
+    to: dateRange.to ? new Date(`${dateRange.to}T23:59:59.999`).toISOString() : undefined,
+    sort: 'newest'
+  };
+  const resetKey = JSON.stringify(filter);
+  const feed = usePagedList<Report>({
+    loadPage: (cursor) => reportApi.getFeed(filter, cursor),
+    resetKey
+  });
+  const { setItems, reload } = feed;
+
+  const hasFilters = !!(companyType || category || analyst || dateRange.from || dateRange.to);
+  const companiesById = new Map(companies.map(company => [company.id, company]));
+  // 已加载的报告中出现过的分析师，作为输入提示
+  const knownAnalysts = [...new Set(feed.items.map(report => report.analyst))].sort();
+
+  // 连续的同一天的报告归为一组
+  const groups = feed.items.reduce<{ date: string; reports: Report[] }[]>((result, report) => {
+    const date = formatDate(report.createdAt || '');
+    const last = result[result.length - 1];
+    if (last && last.date === date) {
+      last.reports.push(report);
+    } else {
+      result.push({ date, reports: [report] });
+    }
+    return result;
+  }, []);
+
+  const showNewReports = () => {
+    setNewReportCount(0);
+    reload();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // 换了筛选条件会重新加载第一页，之前的提示随之作废
+  useEffect(() => {
+    setNewReportCount(0);
+  }, [resetKey]);
+
+  // 新报告只提示数量，不打断正在浏览的位置；修改和删除直接同步到已加载的报告
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      switch (event.action) {
+        case 'report.create':
+        case 'report.restore':
+        case 'company.restore':
+          setNewReportCount(prev => prev + 1);
+          break;
+        case 'report.update':
+        case 'report.version':
+        case 'report.tags':
+          setItems(prev => prev.map(report => report.id === event.data.id ? { ...event.data, comments: undefined } : report));
+          break;
+        case 'report.delete':
+          setItems(prev => prev.filter(report => report.id !== event.entityId));
+          break;
+        case 'company.delete':
+          setItems(prev => prev.filter(report => report.companyId !== event.entityId));
+          break;
+        case 'taxonomy.update':
+          reload();
+          break;
+      }
+    });
+  }, [setItems, reload]);
+
+  const openCompany = (companyId: string) => {
+    const company = companiesById.get(companyId);
+    if (company) {
+      onCompanySelect(company);
+    } else {
+      toast.error('该公司已被删除');
+    }
+  };
+
+  const clearFilters = () => {
+    setCompanyType('');
+    setCategory('');
+    setAnalyst('');
+    setDateRange({ from: '', to: '' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="w-fit hover:shadow-md transition-all duration-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回列表
+        </Button>
+      </motion.div>
+
+      <div>
+        <h1 className="text-2xl font-medium text-foreground flex items-center gap-2">
+          <Newspaper className="h-6 w-6" />
+          报告动态
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          所有跟踪公司的研究报告，最新上传的在前
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <Select value={companyType || ALL} onValueChange={(value) => setCompanyType(value === ALL ? '' : value)}>
+          <SelectTrigger className="w-32 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部类型</SelectItem>
+            {stockTypes.map(type => (
+              <SelectItem key={type.id} value={type.label}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={category || ALL} onValueChange={(value) => setCategory(value === ALL ? '' : value)}>
+          <SelectTrigger className="w-32 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部类别</SelectItem>
+            {reportCategories.map(item => (
+              <SelectItem key={item.id} value={item.label}>{item.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={analyst}
+          onChange={(e) => setAnalyst(e.target.value)}
+          placeholder="分析师"
+          list="report-feed-analysts"
+          className="w-36 h-9"
+        />
+        <datalist id="report-feed-analysts">
+          {knownAnalysts.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={dateRange.from}
+            max={dateRange.to || undefined}
+            onChange={(e) => setDateRange(prev => ({ ...prev, from: e.target.value }))}
+            className="w-40 h-9"
+            aria-label="上传日期起"
+          />
+          <span className="text-sm text-muted-foreground">至</span>
+          <Input
+            type="date"
+            value={dateRange.to}
+            min={dateRange.from || undefined}
+            onChange={(e) => setDateRange(prev => ({ ...prev, to: e.target.value }))}
+            className="w-40 h-9"
+            aria-label="上传日期止"
+          />
+        </div>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            清除筛选
+          </Button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {newReportCount > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="flex justify-center"
+          >
+            <Button size="sm" onClick={showNewReports} className="shadow-lg shadow-primary/20">
+              <ArrowUp className="h-4 w-4 mr-2" />
+              有 {newReportCount} 份新报告
+            </Button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {feed.isLoading && feed.items.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+      ) : feed.items.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-12">
+          {hasFilters ? '没有符合筛选条件的报告' : '还没有研究报告'}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={group.date} className="relative pl-6 border-l border-border space-y-2">
+              <div className="absolute -left-1.5 top-1 w-3 h-3 rounded-full bg-primary" />
+              <p className="text-sm font-medium text-foreground">{group.date}</p>
+              <AnimatePresence>
+                {group.reports.map((report, index) => {
+                  const company = companiesById.get(report.companyId);
+                  return (
+                    <motion.div
+                      key={report.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{ delay: Math.min(index, 10) * 0.03, duration: 0.2 }}
+                    >
+                      <Card
+                        onClick={() => openCompany(report.companyId)}
+                        className="cursor-pointer hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                      >
+                        <CardContent className="flex items-center gap-3 px-4 py-3">
+                          <FileKindIcon kind={getReportFileKind(report)} className="h-5 w-5 flex-shrink-0" />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm text-foreground truncate">{report.title}</p>
+                            <p className="text-xs text-muted-foreground flex items-center gap-2 truncate">
+                              <Building2 className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">{company ? `${company.name} · ${company.code}` : '已删除的公司'}</span>
+                              <span>· {report.analyst}</span>
+                              {report.createdAt && (
+                                <span>· {new Date(report.createdAt).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}</span>
+                              )}
+                            </p>
+                          </div>
+                          {company && (
+                            <Badge variant="outline" className={`text-xs ${getTypeColor(company.type)}`}>
+                              {company.type}
+                            </Badge>
+                          )}
+                          <Badge className={`text-xs shadow-sm ${getCategoryColor(report.category)}`}>
+                            {report.category}
+                          </Badge>
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  );
+                })}
+              </AnimatePresence>
+            </div>
+          ))}
+
+          <LoadMoreTrigger hasMore={feed.hasMore} isLoading={feed.isLoadingMore} onLoadMore={feed.loadMore} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { History, Download, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Card, CardContent } from './ui/card';
+import { FileKindIcon } from './FileKindIcon';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { reportApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { getFileKind, getReportVersions } from '../utils/helpers';
+import { REPORT_FILE_ACCEPT } from '../utils/constants';
+import type { CurrentUser, Report } from '../App';
+
+interface ReportVersionsProps {
+  companyId: string;
+  report: Report;
+  currentUser: CurrentUser;
+  onReportUpdated: (report: Report) => void;
+}
+
+export function ReportVersions({ companyId, report, currentUser, onReportUpdated }: ReportVersionsProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const canUpload = can(currentUser, 'report:upload');
+
+  const versions = [...getReportVersions(report)].sort((a, b) => b.version - a.version);
+  const currentVersion = report.currentVersion ?? versions[0].version;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    if (!getFileKind(selected.name)) {
+      toast.error('请选择PDF、Excel、Word、PPT或图片文件');
+      return;
+    }
+    if (selected.size > 50 * 1024 * 1024) {
+      toast.error('文件大小不能超过50MB');
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file) {
+      toast.error('请选择新版本文件');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const updatedReport = await reportApi.uploadVersion(companyId, report.id, {
+        file,
+        note: note.trim() || undefined
+      });
+      onReportUpdated(updatedReport);
+      setFile(null);
+      setNote('');
+      toast.success(`已上传第 ${updatedReport.currentVersion} 版`);
+    } catch (error) {
+      console.error('Error uploading report version:', error);
+      toast.error('上传新版本失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownload = async (version: number) => {
+    try {
+      const downloadUrl = await reportApi.getDownloadUrl(companyId, report.id, version);
+      window.open(downloadUrl, '_blank');
+    } catch (error) {
+      console.error('Error downloading report version:', error);
+      toast.error('下载失败，请重试');
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    if (!dateString) return '';
+    try {
+      return new Date(dateString).toLocaleString('zh-CN', {
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    } catch (error) {
+      return dateString;
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <DialogTrigger asChild>
+        <motion.div
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <Button
+            variant="outline"
+            size="sm"
+            className="hover:shadow-md transition-all duration-200"
+          >
+            <History className="h-4 w-4 mr-2" />
+            v{currentVersion}
+          </Button>
+        </motion.div>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>版本记录</DialogTitle>
+          <DialogDescription>
+            "{report.title}" 的所有历史版本都会保留，可随时下载任意版本。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 space-y-4">
+          {/* 上传新版本 */}
+          {canUpload && (
+            <motion.div
+              className="space-y-3 rounded-lg border border-dashed border-border p-4"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3 }}
+            >
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor={`version-file-${report.id}`}>新版本文件 * (最大50MB)</Label>
+                  <Input
+                    id={`version-file-${report.id}`}
+                    type="file"
+                    accept={REPORT_FILE_ACCEPT}
+                    onChange={handleFileChange}
+                    className="mt-1.5"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`version-note-${report.id}`}>版本说明</Label>
+                  <Input
+                    id={`version-note-${report.id}`}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="如：更新盈利预测"
+                    className="mt-1.5"
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleUpload}
+                  disabled={isSubmitting || !file}
+                  className="relative overflow-hidden shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {isSubmitting ? '上传中...' : '上传新版本'}
+                </Button>
+              </div>
+            </motion.div>
+          )}
+
+          {/* 版本列表 */}
+          <div className="flex-1 overflow-y-auto space-y-3 max-h-96">
+            <AnimatePresence>
+              {versions.map((version, index) => (
+                <motion.div
+                  key={version.version}
+                  layout
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  transition={{ delay: index * 0.05, duration: 0.3 }}
+                >
+                  <Card className="hover:shadow-md hover:shadow-black/5 transition-all duration-300">
+                    <CardContent className="p-4 flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="w-9 h-9 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0">
+                          <FileKindIcon kind={version.fileKind ?? 'pdf'} className="h-4 w-4" />
+                        </div>
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-foreground">第 {version.version} 版</span>
+                            {version.version === currentVersion && (
+                              <Badge variant="secondary" className="text-xs">当前</Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {version.uploadedByName || '未知用户'} · {formatDateTime(version.uploadedAt)} · {version.fileName} · <span className="font-mono">{version.fileSize}</span>
+                          </p>
+                          {version.note && (
+                            <p className="text-sm text-foreground">{version.note}</p>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(version.version)}
+                        className="flex-shrink-0 hover:shadow-md transition-all duration-200"
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        下载
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
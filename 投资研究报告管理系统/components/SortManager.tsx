@@ -5,7 +5,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
 import { ImageWithFallback } from './figma/ImageWithFallback';
-import { getTypeColor, getCategoryColor } from '../utils/constants';
+import { useTaxonomies } from './TaxonomyContext';
 import { motion, AnimatePresence } from 'motion/react';
 import type { Company, Report } from '../App';
 
@@ -38,6 +38,7 @@ export function SortManager({
   type,
   onReorder
 }: SortManagerProps) {
+  const { getTypeColor, getCategoryColor } = useTaxonomies();
   const [sortedItems, setSortedItems] = useState<SortItem[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
 
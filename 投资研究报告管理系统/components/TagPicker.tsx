@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Check, Plus, Tag as TagIcon, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ScrollArea } from './ui/scroll-area';
+import { tagApi } from '../utils/api';
+import { getTagColor, TAG_SWATCH_CLASSES } from '../utils/constants';
+import { toast } from 'sonner@2.0.3';
+import type { Tag } from '../App';
+
+// 与服务端 tag-handlers.tsx 一致
+export const MAX_TAG_NAME_LENGTH = 30;
+
+interface TagBadgesProps {
+  tags: Tag[];
+  tagIds?: string[];
+  onTagSelect?: (tagId: string) => void; // 点击标签打开标签页
+}
+
+// 按标签列表的顺序显示标签，已删除的标签不显示
+export function TagBadges({ tags, tagIds = [], onTagSelect }: TagBadgesProps) {
+  const items = tags.filter(tag => tagIds.includes(tag.id));
+  if (items.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {items.map(tag => (
+        <Badge
+          key={tag.id}
+          variant="outline"
+          className={`text-xs shadow-sm ${getTagColor(tag.color)} ${onTagSelect ? 'cursor-pointer hover:shadow-md' : ''} transition-all duration-200`}
+          onClick={onTagSelect ? (e) => { e.stopPropagation(); onTagSelect(tag.id); } : undefined}
+        >
+          {tag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+  trigger: React.ReactNode;
+  title: string;
+  canCreate?: boolean; // 允许输入新名称直接创建标签并选中
+  onTagCreated?: (tag: Tag) => void;
+  align?: 'start' | 'end';
+}
+
+// 标签多选：用于按标签筛选，也用于给公司和报告打标签
+export function TagPicker({ tags, selectedTagIds, onChange, trigger, title, canCreate = false, onTagCreated, align = 'start' }: TagPickerProps) {
+  const [query, setQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const trimmed = query.trim();
+  const visibleTags = tags.filter(tag => tag.name.toLowerCase().includes(trimmed.toLowerCase()));
+  const hasExactMatch = tags.some(tag => tag.name.toLowerCase() === trimmed.toLowerCase());
+
+  const handleToggle = (tagId: string) => {
+    onChange(selectedTagIds.includes(tagId)
+      ? selectedTagIds.filter(id => id !== tagId)
+      : [...selectedTagIds, tagId]);
+  };
+
+  const handleCreate = async () => {
+    if (!trimmed || hasExactMatch) return;
+    if (trimmed.length > MAX_TAG_NAME_LENGTH) {
+      toast.error(`标签名称不能超过 ${MAX_TAG_NAME_LENGTH} 个字符`);
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const created = await tagApi.create(trimmed);
+      onTagCreated?.(created);
+      onChange([...selectedTagIds, created.id]);
+      setQuery('');
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      toast.error('创建标签失败，请重试');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open) => { if (!open) setQuery(''); }}>
+      <PopoverTrigger asChild>{trigger}</PopoverTrigger>
+      <PopoverContent align={align} className="w-64 p-0" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+          <span className="text-sm font-medium text-foreground">{title}</span>
+          {selectedTagIds.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange([])}>
+              <X className="h-3 w-3 mr-1" />
+              清除
+            </Button>
+          )}
+        </div>
+        <div className="p-2 border-b border-border">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && canCreate) {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            placeholder={canCreate ? '搜索或新建标签' : '搜索标签'}
+            className="h-8"
+          />
+        </div>
+        <ScrollArea className="max-h-64">
+          <div className="p-1">
+            {visibleTags.map(tag => {
+              const isSelected = selectedTagIds.includes(tag.id);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => handleToggle(tag.id)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 rounded-sm text-sm text-left hover:bg-secondary/50 transition-colors duration-200"
+                >
+                  <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${TAG_SWATCH_CLASSES[tag.color] ?? 'bg-muted'}`} />
+                  <span className="flex-1 truncate text-foreground">{tag.name}</span>
+                  {isSelected && <Check className="h-4 w-4 text-primary" />}
+                </button>
+              );
+            })}
+            {visibleTags.length === 0 && !canCreate && (
+              <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+                {tags.length === 0 ? '还没有标签' : '没有匹配的标签'}
+              </p>
+            )}
+            {canCreate && trimmed && !hasExactMatch && (
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-sm text-sm text-left text-primary hover:bg-secondary/50 transition-colors duration-200 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                新建标签“{trimmed}”
+              </button>
+            )}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface TagFilterButtonProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+// 按标签筛选，选中多个标签时只保留同时带有这些标签的项
+export function TagFilterButton({ tags, selectedTagIds, onChange }: TagFilterButtonProps) {
+  return (
+    <TagPicker
+      tags={tags}
+      selectedTagIds={selectedTagIds}
+      onChange={onChange}
+      title="按标签筛选（需同时包含）"
+      trigger={
+        <Button
+          variant={selectedTagIds.length > 0 ? 'default' : 'outline'}
+          size="sm"
+          disabled={tags.length === 0}
+          className="transition-all duration-300 hover:scale-105 hover:shadow-md"
+        >
+          <TagIcon className="h-4 w-4 mr-2" />
+          标签{selectedTagIds.length > 0 ? ` (${selectedTagIds.length})` : ''}
+        </Button>
+      }
+    />
+  );
+}
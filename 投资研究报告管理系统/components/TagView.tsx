@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Building2, Edit, Tag as TagIcon, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { FileKindIcon } from './FileKindIcon';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { usePagedList } from './usePagedList';
+import { MAX_TAG_NAME_LENGTH } from './TagPicker';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { realtimeApi, reportApi, tagApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { getTagColor, TAG_COLORS, TAG_SWATCH_CLASSES } from '../utils/constants';
+import { formatDate, getReportFileKind } from '../utils/helpers';
+import type { Company, CurrentUser, Report, Tag, TagContents } from '../App';
+
+interface TagViewProps {
+  tagId: string;
+  tags: Tag[];
+  companies: Company[]; // 用于显示报告所属公司
+  currentUser: CurrentUser;
+  onBack: () => void;
+  onTagSelect: (tagId: string) => void;
+  onCompanySelect: (company: Company) => void;
+  onTagSaved: (tag: Tag) => void;
+  onTagDeleted: (tagId: string) => void;
+}
+
+// 标签页：跨公司列出带某个标签的公司和报告
+export function TagView({ tagId, tags, companies, currentUser, onBack, onTagSelect, onCompanySelect, onTagSaved, onTagDeleted }: TagViewProps) {
+  const { getTypeColor, getCategoryColor } = useTaxonomies();
+  const [contents, setContents] = useState<TagContents | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [editForm, setEditForm] = useState({ name: '', color: 'slate' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canEditTag = can(currentUser, 'tag:edit');
+  const canDeleteTag = can(currentUser, 'tag:delete');
+
+  const tag = tags.find(item => item.id === tagId) ?? contents?.tag ?? null;
+
+  const loadContents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setContents(await tagApi.getById(tagId));
+    } catch (error) {
+      console.error('Error loading tag:', error);
+      toast.error('加载标签内容失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tagId]);
+
+  useEffect(() => {
+    loadContents();
+  }, [loadContents]);
+
+  const reports = usePagedList<Report>({
+    loadPage: (cursor) => reportApi.getFeed({ tagIds: [tagId], sort: 'newest' }, cursor),
+    resetKey: tagId
+  });
+  const { reload: reloadReports } = reports;
+
+  // 有人给公司或报告打标签、或修改报告时重新加载
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      if (event.action.endsWith('.tags') || event.action.startsWith('report.') || (event.entityType === 'tag' && event.entityId === tagId)) {
+        loadContents();
+        reloadReports();
+      }
+    });
+  }, [loadContents, reloadReports, tagId]);
+
+  const openEdit = () => {
+    if (!tag) return;
+    setEditForm({ name: tag.name, color: tag.color });
+    setIsEditOpen(true);
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = editForm.name.trim();
+    if (!name) {
+      toast.error('请输入标签名称');
+      return;
+    }
+    if (tags.some(item => item.id !== tagId && item.name.toLowerCase() === name.toLowerCase())) {
+      toast.error('已有同名的标签');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      onTagSaved(await tagApi.update(tagId, { name, color: editForm.color }));
+      setIsEditOpen(false);
+      toast.success('标签已更新');
+    } catch (error) {
+      console.error('Error updating tag:', error);
+      toast.error('更新标签失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await tagApi.delete(tagId);
+      onTagDeleted(tagId);
+      toast.success('标签已删除');
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      toast.error('删除标签失败，请重试');
+    }
+  };
+
+  const tagCompanies = contents?.companies ?? [];
+  const isEmpty = tagCompanies.length === 0 && !reports.isLoading && reports.items.length === 0;
+
+  const openReportCompany = (companyId: string) => {
+    const company = companies.find(item => item.id === companyId);
+    if (company) {
+      onCompanySelect(company);
+    } else {
+      toast.error('该公司已被删除');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="w-fit hover:shadow-md transition-all duration-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回列表
+        </Button>
+      </motion.div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-medium text-foreground flex items-center gap-2">
+            <TagIcon className="h-6 w-6" />
+            {tag?.name ?? '标签'}
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            带有此标签的公司和各公司的研究报告
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canEditTag && tag && (
+            <Button variant="outline" size="sm" onClick={openEdit} className="hover:shadow-md transition-all duration-200">
+              <Edit className="h-4 w-4 mr-2" />
+              编辑标签
+            </Button>
+          )}
+          {canDeleteTag && tag && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDeleteOpen(true)}
+              className="text-destructive hover:bg-destructive/10 hover:text-destructive transition-all duration-200"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              删除
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* 全部标签，点击切换 */}
+      <div className="flex flex-wrap gap-2">
+        {tags.map(item => (
+          <Badge
+            key={item.id}
+            variant="outline"
+            onClick={() => onTagSelect(item.id)}
+            className={`cursor-pointer text-xs shadow-sm transition-all duration-200 hover:shadow-md ${getTagColor(item.color)} ${
+              item.id === tagId ? 'ring-2 ring-primary/40' : ''
+            }`}
+          >
+            {item.name}
+            {item.companyCount !== undefined && (
+              <span className="ml-1 opacity-70">{item.companyCount + (item.reportCount ?? 0)}</span>
+            )}
+          </Badge>
+        ))}
+      </div>
+
+      {(isLoading && !contents) || (reports.isLoading && reports.items.length === 0) ? (
+        <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+      ) : isEmpty ? (
+        <p className="text-sm text-muted-foreground text-center py-12">还没有公司或报告带有此标签</p>
+      ) : (
+        <div className="space-y-6">
+          {tagCompanies.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">公司（{tagCompanies.length}）</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                <AnimatePresence>
+                  {tagCompanies.map((company, index) => (
+                    <motion.button
+                      key={company.id}
+                      type="button"
+                      onClick={() => onCompanySelect(company)}
+                      className="flex items-center gap-3 rounded-lg border border-border px-4 py-3 text-left hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{ delay: index * 0.03, duration: 0.2 }}
+                    >
+                      <div className="w-9 h-9 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
+                        {company.iconUrl ? (
+                          <ImageWithFallback src={company.iconUrl} alt={`${company.name} 图标`} className="w-full h-full object-cover" />
+                        ) : (
+                          <Building2 className="h-4 w-4 text-secondary-foreground" />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm text-foreground truncate">{company.name}</p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-2">
+                          <span className="font-mono">{company.code}</span>
+                          <Badge variant="outline" className={`text-xs ${getTypeColor(company.type)}`}>
+                            {company.type}
+                          </Badge>
+                        </p>
+                      </div>
+                    </motion.button>
+                  ))}
+                </AnimatePresence>
+              </CardContent>
+            </Card>
+          )}
+
+          {reports.items.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">报告（{contents?.tag.reportCount ?? reports.items.length}）</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <AnimatePresence>
+                  {reports.items.map((report, index) => (
+                    <motion.button
+                      key={report.id}
+                      type="button"
+                      onClick={() => openReportCompany(report.companyId)}
+                      className="w-full flex items-center gap-3 rounded-lg border border-border px-4 py-3 text-left hover:bg-secondary/40 hover:shadow-md transition-all duration-200"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{ delay: Math.min(index, 10) * 0.03, duration: 0.2 }}
+                    >
+                      <FileKindIcon kind={getReportFileKind(report)} className="h-5 w-5 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{report.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {companies.find(company => company.id === report.companyId)?.name ?? '已删除的公司'} · {report.analyst} · {formatDate(report.createdAt || '')}
+                        </p>
+                      </div>
+                      <Badge className={`text-xs shadow-sm ${getCategoryColor(report.category)}`}>
+                        {report.category}
+                      </Badge>
+                    </motion.button>
+                  ))}
+                </AnimatePresence>
+                <LoadMoreTrigger hasMore={reports.hasMore} isLoading={reports.isLoadingMore} onLoadMore={reports.loadMore} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {/* 重命名、换颜色 */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>编辑标签</DialogTitle>
+            <DialogDescription>
+              标签在所有公司和报告上共用，修改后各处同步更新。
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleEditSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="tag-name" className="block mb-2">标签名称</Label>
+              <Input
+                id="tag-name"
+                value={editForm.name}
+                maxLength={MAX_TAG_NAME_LENGTH}
+                onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="如 AI capex、GLP-1、出海"
+                autoFocus
+              />
+            </div>
+            <div>
+              <Label className="block mb-2">颜色</Label>
+              <div className="flex flex-wrap gap-2">
+                {TAG_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setEditForm(prev => ({ ...prev, color }))}
+                    className={`w-7 h-7 rounded-full transition-transform duration-200 hover:scale-110 ${TAG_SWATCH_CLASSES[color]} ${
+                      editForm.color === color ? 'ring-2 ring-offset-2 ring-primary' : ''
+                    }`}
+                    aria-label={color}
+                  />
+                ))}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)} disabled={isSubmitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? '保存中...' : '保存'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除确认 */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除标签</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定删除标签 "{tag?.name}" 吗？标签会从所有公司和报告上移除，公司和报告本身不受影响。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
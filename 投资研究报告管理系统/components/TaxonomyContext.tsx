@@ -0,0 +1,66 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { realtimeApi, taxonomyApi } from '../utils/api';
+import { getTagColor } from '../utils/constants';
+import type { Taxonomies, TaxonomyTerm } from '../App';
+
+interface TaxonomyProviderProps {
+  children: React.ReactNode;
+}
+
+interface TaxonomyContextValue extends Taxonomies {
+  getTypeColor: (type: string) => string;
+  getCategoryColor: (category: string) => string;
+  reload: () => Promise<void>;
+}
+
+// 不在分类中的名称（如加载完成前）用中性颜色显示
+const colorOf = (terms: TaxonomyTerm[], label: string) => getTagColor(terms.find(term => term.label === label)?.color ?? '');
+
+const TaxonomyContext = createContext<TaxonomyContextValue>({
+  stockTypes: [],
+  reportCategories: [],
+  getTypeColor: (type) => colorOf([], type),
+  getCategoryColor: (category) => colorOf([], category),
+  reload: async () => {}
+});
+
+// 股票类型和报告类别，筛选按钮、徽标和下拉框都从这里读取
+export const useTaxonomies = () => useContext(TaxonomyContext);
+
+export function TaxonomyProvider({ children }: TaxonomyProviderProps) {
+  const [taxonomies, setTaxonomies] = useState<Taxonomies>({ stockTypes: [], reportCategories: [] });
+
+  const reload = useCallback(async () => {
+    try {
+      setTaxonomies(await taxonomyApi.getAll());
+    } catch (error) {
+      console.error('Error loading taxonomies:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // 管理员修改分类后，所有打开的页面随之更新
+  useEffect(() => {
+    return realtimeApi.subscribe(event => {
+      if (event.entityType === 'taxonomy') {
+        reload();
+      }
+    });
+  }, [reload]);
+
+  const value: TaxonomyContextValue = {
+    ...taxonomies,
+    getTypeColor: (type) => colorOf(taxonomies.stockTypes, type),
+    getCategoryColor: (category) => colorOf(taxonomies.reportCategories, category),
+    reload
+  };
+
+  return (
+    <TaxonomyContext.Provider value={value}>
+      {children}
+    </TaxonomyContext.Provider>
+  );
+}
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Edit, Plus, Shapes, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { taxonomyApi } from '../utils/api';
+import { getTagColor, TAG_COLORS, TAG_SWATCH_CLASSES } from '../utils/constants';
+import type { TaxonomyKind, TaxonomyTerm } from '../App';
+
+// 与服务端 taxonomy-handlers.tsx 一致
+export const MAX_TERM_LABEL_LENGTH = 20;
+
+const KIND_LABELS: Record<TaxonomyKind, string> = {
+  stock_type: '股票类型',
+  report_category: '报告类别',
+};
+
+interface TaxonomyManagerProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ColorSwatchesProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+function ColorSwatches({ value, onChange }: ColorSwatchesProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {TAG_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className={`w-5 h-5 rounded-full transition-transform duration-200 hover:scale-110 ${TAG_SWATCH_CLASSES[color]} ${
+            value === color ? 'ring-2 ring-offset-1 ring-primary' : ''
+          }`}
+          aria-label={color}
+        />
+      ))}
+    </div>
+  );
+}
+
+// 管理员维护股票类型和报告类别：新增、改名、改颜色、排序和删除
+export function TaxonomyManager({ isOpen, onOpenChange }: TaxonomyManagerProps) {
+  const { stockTypes, reportCategories, reload } = useTaxonomies();
+  const [activeKind, setActiveKind] = useState<TaxonomyKind>('stock_type');
+  const [newTerm, setNewTerm] = useState({ label: '', color: 'slate' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ label: '', color: 'slate' });
+  const [deletingTerm, setDeletingTerm] = useState<TaxonomyTerm | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const termsOf = (kind: TaxonomyKind) => kind === 'stock_type' ? stockTypes : reportCategories;
+
+  // 校验名称，返回去掉首尾空格后的名称，不合法时提示并返回 null
+  const checkLabel = (kind: TaxonomyKind, value: string, exceptId?: string) => {
+    const label = value.trim();
+    if (!label) {
+      toast.error('请输入名称');
+      return null;
+    }
+    if (label.length > MAX_TERM_LABEL_LENGTH) {
+      toast.error(`名称不能超过 ${MAX_TERM_LABEL_LENGTH} 个字符`);
+      return null;
+    }
+    if (termsOf(kind).some(term => term.id !== exceptId && term.label.toLowerCase() === label.toLowerCase())) {
+      toast.error(`${KIND_LABELS[kind]}“${label}”已存在`);
+      return null;
+    }
+    return label;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = checkLabel(activeKind, newTerm.label);
+    if (!label) return;
+
+    setIsSubmitting(true);
+    try {
+      await taxonomyApi.create(activeKind, label, newTerm.color);
+      await reload();
+      setNewTerm({ label: '', color: 'slate' });
+      toast.success(`已添加${KIND_LABELS[activeKind]}“${label}”`);
+    } catch (error) {
+      console.error('Error creating taxonomy term:', error);
+      toast.error('添加失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEditing = (term: TaxonomyTerm) => {
+    setEditingId(term.id);
+    setEditForm({ label: term.label, color: term.color });
+  };
+
+  const handleUpdate = async (term: TaxonomyTerm) => {
+    const label = checkLabel(term.kind, editForm.label, term.id);
+    if (!label) return;
+
+    setIsSubmitting(true);
+    try {
+      await taxonomyApi.update(term, { label, color: editForm.color });
+      await reload();
+      setEditingId(null);
+      toast.success(label === term.label ? '已保存' : `已改名为“${label}”，相关${term.kind === 'stock_type' ? '公司' : '报告'}已同步更新`);
+    } catch (error) {
+      console.error('Error updating taxonomy term:', error);
+      toast.error('保存失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMove = async (kind: TaxonomyKind, index: number, offset: number) => {
+    const ids = termsOf(kind).map(term => term.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    try {
+      await taxonomyApi.reorder(kind, ids);
+      await reload();
+    } catch (error) {
+      console.error('Error reordering taxonomy terms:', error);
+      toast.error('调整顺序失败，请重试');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTerm) return;
+    const term = deletingTerm;
+    setDeletingTerm(null);
+
+    try {
+      await taxonomyApi.delete(term);
+      await reload();
+      toast.success(`已删除${KIND_LABELS[term.kind]}“${term.label}”`);
+    } catch (error) {
+      console.error('Error deleting taxonomy term:', error);
+      toast.error(error instanceof Error && error.message.includes('still used')
+        ? `仍有${term.kind === 'stock_type' ? '公司' : '报告'}（包括回收站中的）使用“${term.label}”，无法删除`
+        : '删除失败，请重试');
+    }
+  };
+
+  const renderTerms = (kind: TaxonomyKind) => {
+    const terms = termsOf(kind);
+
+    return (
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        <AnimatePresence>
+          {terms.map((term, index) => (
+            <motion.div
+              key={term.id}
+              className="flex items-center gap-3 rounded-lg border border-border px-3 py-2"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03, duration: 0.2 }}
+            >
+              <div className="flex flex-col">
+                <Button variant="ghost" size="sm" className="h-5 w-6 p-0" disabled={index === 0} onClick={() => handleMove(kind, index, -1)}>
+                  <ChevronUp className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-5 w-6 p-0" disabled={index === terms.length - 1} onClick={() => handleMove(kind, index, 1)}>
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </div>
+
+              {editingId === term.id ? (
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={editForm.label}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, label: e.target.value }))}
+                    maxLength={MAX_TERM_LABEL_LENGTH}
+                    className="h-8"
+                    autoFocus
+                  />
+                  <ColorSwatches value={editForm.color} onChange={(color) => setEditForm(prev => ({ ...prev, color }))} />
+                </div>
+              ) : (
+                <div className="flex-1">
+                  <Badge variant="outline" className={`text-xs shadow-sm ${getTagColor(term.color)}`}>
+                    {term.label}
+                  </Badge>
+                </div>
+              )}
+
+              {editingId === term.id ? (
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleUpdate(term)} disabled={isSubmitting}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setEditingId(null)} disabled={isSubmitting}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => startEditing(term)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive hover:text-destructive" onClick={() => setDeletingTerm(term)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+        {terms.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">还没有{KIND_LABELS[kind]}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => { onOpenChange(open); if (!open) setEditingId(null); }}>
+        <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Shapes className="h-5 w-5" />
+              分类管理
+            </DialogTitle>
+            <DialogDescription>
+              筛选按钮、徽标和下拉框按这里的顺序和颜色显示。改名会同步到已有的公司和报告；仍在使用的分类不能删除。
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs value={activeKind} onValueChange={(value) => { setActiveKind(value as TaxonomyKind); setEditingId(null); }}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="stock_type">{KIND_LABELS.stock_type}</TabsTrigger>
+              <TabsTrigger value="report_category">{KIND_LABELS.report_category}</TabsTrigger>
+            </TabsList>
+            <TabsContent value="stock_type" className="mt-4">{renderTerms('stock_type')}</TabsContent>
+            <TabsContent value="report_category" className="mt-4">{renderTerms('report_category')}</TabsContent>
+          </Tabs>
+
+          <form onSubmit={handleCreate} className="space-y-2 border-t border-border pt-4">
+            <div className="flex gap-2">
+              <Input
+                value={newTerm.label}
+                onChange={(e) => setNewTerm(prev => ({ ...prev, label: e.target.value }))}
+                placeholder={`新的${KIND_LABELS[activeKind]}`}
+                maxLength={MAX_TERM_LABEL_LENGTH}
+                disabled={isSubmitting}
+              />
+              <Button type="submit" disabled={isSubmitting || !newTerm.label.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                添加
+              </Button>
+            </div>
+            <ColorSwatches value={newTerm.color} onChange={(color) => setNewTerm(prev => ({ ...prev, color }))} />
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingTerm} onOpenChange={(open) => { if (!open) setDeletingTerm(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除{deletingTerm ? KIND_LABELS[deletingTerm.kind] : ''}“{deletingTerm?.label}”？</AlertDialogTitle>
+            <AlertDialogDescription>
+              只有没有任何{deletingTerm?.kind === 'stock_type' ? '公司' : '报告'}（包括回收站中的）使用时才能删除。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              删除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Building2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { FileKindIcon } from './FileKindIcon';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { useTaxonomies } from './TaxonomyContext';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { trashApi } from '../utils/api';
+import { can } from '../utils/permissions';
+import { TRASH_RETENTION_DAYS } from '../utils/constants';
+import { formatDate, getReportFileKind } from '../utils/helpers';
+import type { Company, CurrentUser, TrashContents, TrashedCompany, TrashedReport } from '../App';
+
+interface TrashViewProps {
+  currentUser: CurrentUser;
+  onBack: () => void;
+  onCompanyRestored: (company: Company) => void;
+}
+
+// 距离永久删除还剩的天数，不足一天按一天算
+const getDaysLeft = (expiresAt: string) => {
+  return Math.max(1, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+};
+
+export function TrashView({ currentUser, onBack, onCompanyRestored }: TrashViewProps) {
+  const { getTypeColor } = useTaxonomies();
+  const [trash, setTrash] = useState<TrashContents>({ companies: [], reports: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const canRestoreCompany = can(currentUser, 'company:delete');
+  const canRestoreReport = can(currentUser, 'report:delete');
+
+  const loadTrash = async () => {
+    setIsLoading(true);
+    try {
+      setTrash(await trashApi.getAll());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      toast.error('加载回收站失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestoreCompany = async (company: TrashedCompany) => {
+    setRestoringId(company.id);
+    try {
+      const restored = await trashApi.restoreCompany(company.id);
+      setTrash(prev => ({ ...prev, companies: prev.companies.filter(c => c.id !== company.id) }));
+      onCompanyRestored(restored);
+      toast.success(`已恢复公司 ${company.name} 及其 ${company.reportCount} 份报告`);
+    } catch (error) {
+      console.error('Error restoring company:', error);
+      toast.error('恢复公司失败，请重试');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleRestoreReport = async (report: TrashedReport) => {
+    setRestoringId(report.id);
+    try {
+      await trashApi.restoreReport(report.companyId, report.id);
+      setTrash(prev => ({ ...prev, reports: prev.reports.filter(r => r.id !== report.id) }));
+      toast.success(`已恢复报告 ${report.title}`);
+    } catch (error) {
+      console.error('Error restoring report:', error);
+      toast.error('恢复报告失败，请重试');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const isEmpty = trash.companies.length === 0 && trash.reports.length === 0;
+
+  const renderRestoreButton = (id: string, onRestore: () => void) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onRestore}
+      disabled={restoringId !== null}
+      className="hover:shadow-md transition-all duration-200"
+    >
+      <RotateCcw className="h-4 w-4 mr-2" />
+      {restoringId === id ? '恢复中...' : '恢复'}
+    </Button>
+  );
+
+  const renderExpiry = (item: { deletedAt: string; expiresAt: string }) => (
+    <p className="text-xs text-muted-foreground">
+      {formatDate(item.deletedAt)} 删除 · {getDaysLeft(item.expiresAt)} 天后永久删除
+    </p>
+  );
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="w-fit hover:shadow-md transition-all duration-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回列表
+        </Button>
+      </motion.div>
+
+      <div>
+        <h1 className="text-2xl font-medium text-foreground flex items-center gap-2">
+          <Trash2 className="h-6 w-6" />
+          回收站
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          删除的公司和报告会保留 {TRASH_RETENTION_DAYS} 天，期间可随时恢复，到期后将永久删除。
+        </p>
+      </div>
+
+      {isLoading && isEmpty ? (
+        <p className="text-sm text-muted-foreground text-center py-12">加载中...</p>
+      ) : isEmpty ? (
+        <p className="text-sm text-muted-foreground text-center py-12">回收站是空的</p>
+      ) : (
+        <div className="space-y-6">
+          {trash.companies.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">公司（{trash.companies.length}）</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <AnimatePresence>
+                  {trash.companies.map((company, index) => (
+                    <motion.div
+                      key={company.id}
+                      className="flex items-center justify-between rounded-lg border border-border px-4 py-3"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{ delay: index * 0.03, duration: 0.2 }}
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="w-9 h-9 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
+                          {company.iconUrl ? (
+                            <ImageWithFallback src={company.iconUrl} alt={`${company.name} 图标`} className="w-full h-full object-cover" />
+                          ) : (
+                            <Building2 className="h-4 w-4 text-secondary-foreground" />
+                          )}
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-sm text-foreground truncate flex items-center gap-2">
+                            {company.name}
+                            <span className="text-xs text-muted-foreground font-mono">{company.code}</span>
+                            <Badge variant="outline" className={`text-xs ${getTypeColor(company.type)}`}>
+                              {company.type}
+                            </Badge>
+                          </p>
+                          <p className="text-xs text-muted-foreground">{company.reportCount} 份报告</p>
+                          {renderExpiry(company)}
+                        </div>
+                      </div>
+                      {canRestoreCompany && renderRestoreButton(company.id, () => handleRestoreCompany(company))}
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+              </CardContent>
+            </Card>
+          )}
+
+          {trash.reports.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">报告（{trash.reports.length}）</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <AnimatePresence>
+                  {trash.reports.map((report, index) => (
+                    <motion.div
+                      key={report.id}
+                      className="flex items-center justify-between rounded-lg border border-border px-4 py-3"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{ delay: index * 0.03, duration: 0.2 }}
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <FileKindIcon kind={getReportFileKind(report)} className="h-5 w-5 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm text-foreground truncate">{report.title}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {report.companyName} · {report.analyst} · {report.category}
+                          </p>
+                          {renderExpiry(report)}
+                        </div>
+                      </div>
+                      {canRestoreReport && renderRestoreButton(report.id, () => handleRestoreReport(report))}
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
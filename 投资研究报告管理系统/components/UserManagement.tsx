@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, Users } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner@2.0.3';
+import { userApi } from '../utils/api';
+import { ROLE_LABELS, USER_ROLES } from '../utils/permissions';
+import type { CurrentUser, UserProfile, UserRole } from '../App';
+
+interface UserManagementProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUser: CurrentUser;
+}
+
+const emptyForm = { name: '', email: '', password: '', role: 'viewer' as UserRole };
+
+export function UserManagement({ isOpen, onOpenChange, currentUser }: UserManagementProps) {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadUsers = async () => {
+    setIsLoading(true);
+    try {
+      setUsers(await userApi.getAll());
+    } catch (error) {
+      console.error('Error loading users:', error);
+      toast.error('加载用户失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadUsers();
+    }
+  }, [isOpen]);
+
+  const handleRoleChange = async (user: UserProfile, role: UserRole) => {
+    try {
+      const updated = await userApi.updateRole(user.id, role);
+      setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+      toast.success(`已将 ${updated.name} 设为${ROLE_LABELS[role]}`);
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error('修改角色失败，请重试');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name || !form.email || !form.password) {
+      toast.error('请填写完整的用户信息');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const created = await userApi.create({ ...form, email: form.email.trim() });
+      setUsers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setForm(emptyForm);
+      toast.success('用户创建成功');
+    } catch (error) {
+      console.error('Error creating user:', error);
+      toast.error('创建用户失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            用户管理
+          </DialogTitle>
+          <DialogDescription>
+            创建团队账号并分配角色：查看者只读，分析师可上传和评论，投资经理可编辑公司和排序，管理员可删除和管理用户。
+          </DialogDescription>
+        </DialogHeader>
+
+        <motion.form
+          onSubmit={handleCreate}
+          className="grid grid-cols-2 gap-3"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div>
+            <Label htmlFor="user-name">姓名 *</Label>
+            <Input
+              id="user-name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="mt-1.5"
+              disabled={isSubmitting}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-email">邮箱 *</Label>
+            <Input
+              id="user-email"
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              className="mt-1.5"
+              disabled={isSubmitting}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-password">初始密码 *</Label>
+            <Input
+              id="user-password"
+              type="password"
+              value={form.password}
+              onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+              className="mt-1.5"
+              disabled={isSubmitting}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-role">角色 *</Label>
+            <Select value={form.role} onValueChange={(value) => setForm(prev => ({ ...prev, role: value as UserRole }))}>
+              <SelectTrigger id="user-role" className="mt-1.5">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map(role => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 flex justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              {isSubmitting ? '创建中...' : '创建用户'}
+            </Button>
+          </div>
+        </motion.form>
+
+        <div className="flex-1 overflow-y-auto space-y-2 max-h-80 border-t border-border pt-4">
+          {isLoading && users.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">加载中...</p>
+          ) : (
+            <AnimatePresence>
+              {users.map((user, index) => (
+                <motion.div
+                  key={user.id}
+                  className="flex items-center justify-between rounded-lg border border-border px-4 py-3"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.03, duration: 0.2 }}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">
+                      {user.name}
+                      {user.id === currentUser.id && (
+                        <Badge variant="secondary" className="ml-2 text-xs">我</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                  </div>
+                  <Select
+                    value={user.role}
+                    onValueChange={(value) => handleRoleChange(user, value as UserRole)}
+                    disabled={user.id === currentUser.id}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
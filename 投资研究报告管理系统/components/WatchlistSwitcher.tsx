@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { ArrowUpDown, Edit, ListPlus, MoreHorizontal, Star, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { watchlistApi } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+import type { Watchlist } from '../App';
+
+// 选择“全部公司”时的取值
+export const ALL_COMPANIES = 'all';
+
+const MAX_NAME_LENGTH = 50;
+
+interface WatchlistSwitcherProps {
+  watchlists: Watchlist[];
+  activeWatchlistId: string | null; // null 表示全部公司
+  onActiveWatchlistChange: (id: string | null) => void;
+  onWatchlistSaved: (watchlist: Watchlist) => void;
+  onWatchlistDeleted: (id: string) => void;
+  onSortWatchlist: () => void; // 打开当前自选列表的排序
+}
+
+// 自选列表切换器：切换、新建、重命名、删除当前用户的自选列表
+export function WatchlistSwitcher({
+  watchlists,
+  activeWatchlistId,
+  onActiveWatchlistChange,
+  onWatchlistSaved,
+  onWatchlistDeleted,
+  onSortWatchlist
+}: WatchlistSwitcherProps) {
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const activeWatchlist = watchlists.find(watchlist => watchlist.id === activeWatchlistId) ?? null;
+
+  const openNameDialog = (mode: 'create' | 'rename') => {
+    setName(mode === 'rename' ? activeWatchlist?.name ?? '' : '');
+    setNameDialog(mode);
+  };
+
+  const handleSubmitName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error('请输入列表名称');
+      return;
+    }
+    if (watchlists.some(watchlist => watchlist.name === trimmed && watchlist.id !== activeWatchlist?.id)) {
+      toast.error('已有同名的自选列表');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (nameDialog === 'rename' && activeWatchlist) {
+        onWatchlistSaved(await watchlistApi.rename(activeWatchlist.id, trimmed));
+        toast.success('自选列表已重命名');
+      } else {
+        const created = await watchlistApi.create(trimmed);
+        onWatchlistSaved(created);
+        onActiveWatchlistChange(created.id);
+        toast.success('自选列表已创建');
+      }
+      setNameDialog(null);
+    } catch (error) {
+      console.error('Error saving watchlist:', error);
+      toast.error('保存自选列表失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeWatchlist) return;
+    try {
+      await watchlistApi.delete(activeWatchlist.id);
+      onWatchlistDeleted(activeWatchlist.id);
+      toast.success('自选列表已删除');
+    } catch (error) {
+      console.error('Error deleting watchlist:', error);
+      toast.error('删除自选列表失败，请重试');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Star className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={activeWatchlistId ?? ALL_COMPANIES}
+        onValueChange={(value) => onActiveWatchlistChange(value === ALL_COMPANIES ? null : value)}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_COMPANIES}>全部公司</SelectItem>
+          {watchlists.map(watchlist => (
+            <SelectItem key={watchlist.id} value={watchlist.id}>
+              {watchlist.name}（{watchlist.companyIds.length}）
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:bg-secondary/50 transition-colors duration-200">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="animate-in slide-in-from-top-2 duration-200">
+          <DropdownMenuItem onClick={() => openNameDialog('create')}>
+            <ListPlus className="h-4 w-4 mr-2" />
+            新建自选列表
+          </DropdownMenuItem>
+          {activeWatchlist && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onSortWatchlist} disabled={activeWatchlist.companyIds.length < 2}>
+                <ArrowUpDown className="h-4 w-4 mr-2" />
+                调整列表顺序
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openNameDialog('rename')}>
+                <Edit className="h-4 w-4 mr-2" />
+                重命名
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setIsDeleteDialogOpen(true)}
+                className="text-destructive focus:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                删除列表
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* 新建 / 重命名 */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => { if (!open) setNameDialog(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialog === 'rename' ? '重命名自选列表' : '新建自选列表'}</DialogTitle>
+            <DialogDescription>
+              自选列表仅自己可见，可按自己的习惯排列公司，顶部轮播只展示当前自选列表中的公司。
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmitName} className="space-y-4">
+            <div>
+              <Label htmlFor="watchlist-name" className="block mb-2">列表名称</Label>
+              <Input
+                id="watchlist-name"
+                value={name}
+                maxLength={MAX_NAME_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="如 重点跟踪、港股互联网"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)} disabled={isSubmitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? '保存中...' : '保存'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除确认 */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除自选列表</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定删除自选列表 "{activeWatchlist?.name}" 吗？列表中的公司及其报告不受影响。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
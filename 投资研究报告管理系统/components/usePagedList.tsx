@@ -0,0 +1,70 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { toast } from 'sonner@2.0.3';
+import type { Page } from '../App';
+
+interface UsePagedListProps<T> {
+  // 加载一页，cursor 为 null 时加载第一页
+  loadPage: (cursor: string | null) => Promise<Page<T>>;
+  // 变化时从第一页重新加载，如筛选条件
+  resetKey: string;
+  enabled?: boolean;
+}
+
+// 服务端分页的列表：先加载第一页，滚动到底部时再逐页追加
+export function usePagedList<T>({ loadPage, resetKey, enabled = true }: UsePagedListProps<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled); // 第一页加载前不显示空列表
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // 重新加载后，之前发出的请求结果作废
+  const generationRef = useRef(0);
+  const loadPageRef = useRef(loadPage);
+  loadPageRef.current = loadPage;
+
+  const reload = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setIsLoading(true);
+    try {
+      const page = await loadPageRef.current(null);
+      if (generation !== generationRef.current) return;
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading page:', error);
+      toast.error('加载列表失败，请重试');
+    } finally {
+      if (generation === generationRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) reload();
+  }, [resetKey, enabled, reload]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+    const generation = generationRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await loadPageRef.current(nextCursor);
+      if (generation !== generationRef.current) return;
+      setItems(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading next page:', error);
+      toast.error('加载更多失败，请重试');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoading, isLoadingMore]);
+
+  return {
+    items,
+    setItems,
+    hasMore: nextCursor !== null,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    reload
+  };
+}
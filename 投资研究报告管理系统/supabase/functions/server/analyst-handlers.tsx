@@ -0,0 +1,268 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+
+// The analyst directory. Reports name their analyst, and an unknown name given on upload or edit
+// adds the analyst here, so picking someone new never stops an upload. Analysts keep a profile and
+// can be renamed, which moves their reports along; spellings of the same person are merged by a PM,
+// who also deletes analysts without reports.
+
+export const analystRoutes = new Hono<AuthEnv>()
+
+export const MAX_ANALYST_NAME_LENGTH = 30
+const MAX_FIELD_LENGTH = 50
+const MAX_BIO_LENGTH = 1000
+
+const analystTarget: AuditTarget = {
+  entityType: 'analyst',
+  id: (c, data) => c.req.param('id') ?? data?.id,
+  load: (_c, id) => id ? repo.analysts.get(id) : null
+}
+
+// Merging deletes the sources; the entry records the directory before and after as id to name
+const analystDirectoryTarget: AuditTarget = {
+  entityType: 'analyst',
+  id: (c) => c.req.param('id'),
+  load: async () => Object.fromEntries((await repo.analysts.list()).map(analyst => [analyst.id, analyst.name]))
+}
+
+// Trimmed, with runs of whitespace collapsed, as the analysts migration cleaned up existing names
+const parseName = (value: unknown) => typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : ''
+
+const parseText = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+// Names that probably spell the same person: width, case, spaces and dots are ignored
+const duplicateKey = (name: string) => name.normalize('NFKC').toLowerCase().replace(/[\s.·・\-_]/g, '')
+
+const checkNameFormat = (name: string): string | null => {
+  if (!name) {
+    return 'Analyst name is required'
+  }
+  if (name.length > MAX_ANALYST_NAME_LENGTH) {
+    return `Analyst name must be at most ${MAX_ANALYST_NAME_LENGTH} characters`
+  }
+  return null
+}
+
+// Names are unique regardless of case, as in the analysts_name_idx index
+const checkName = async (name: string, exceptId?: string): Promise<string | null> => {
+  const invalid = checkNameFormat(name)
+  if (invalid) {
+    return invalid
+  }
+  const existing = await repo.analysts.findByName(name)
+  if (existing && existing.id !== exceptId) {
+    return 'An analyst with this name already exists'
+  }
+  return null
+}
+
+const checkProfile = (fields: { title: string; team: string; email: string; bio: string }): string | null => {
+  if (fields.title.length > MAX_FIELD_LENGTH || fields.team.length > MAX_FIELD_LENGTH) {
+    return `Title and team must be at most ${MAX_FIELD_LENGTH} characters`
+  }
+  if (fields.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(fields.email)) {
+    return 'Invalid email'
+  }
+  if (fields.bio.length > MAX_BIO_LENGTH) {
+    return `Bio must be at most ${MAX_BIO_LENGTH} characters`
+  }
+  return null
+}
+
+// Returns an error message, or null when value can name a report's analyst. Used by the upload
+// handlers before the file arrives
+export const checkAnalystName = (value: unknown): string | null => checkNameFormat(parseName(value))
+
+// The analyst a report is filed under: the directory entry with that name regardless of case, added
+// when there is none. Returns the analyst, whose name is the spelling to store, or an error message
+export const resolveAnalyst = async (value: unknown): Promise<repo.Analyst | string> => {
+  const name = parseName(value)
+  const invalid = checkNameFormat(name)
+  if (invalid) {
+    return invalid
+  }
+
+  const existing = await repo.analysts.findByName(name)
+  if (existing) {
+    return existing
+  }
+
+  const now = new Date().toISOString()
+  const analyst: repo.Analyst = { id: crypto.randomUUID(), name, title: '', team: '', email: '', bio: '', createdAt: now, updatedAt: now }
+  try {
+    return await repo.analysts.save(analyst)
+  } catch (error) {
+    // Added by a request running alongside this one
+    const added = await repo.analysts.findByName(name)
+    if (added) {
+      return added
+    }
+    throw error
+  }
+}
+
+// All analysts by name, with how many reports they wrote on how many companies
+analystRoutes.get('/analysts', async (c) => {
+  try {
+    return c.json({ success: true, data: await repo.analysts.listUsage() })
+  } catch (error) {
+    console.error('Error fetching analysts:', error)
+    return c.json({ success: false, error: 'Failed to fetch analysts' }, 500)
+  }
+})
+
+// Groups of analysts whose names probably spell the same person, for the merge tool. Each group
+// lists the analyst with the most reports first
+analystRoutes.get('/analysts/duplicates', requireRole('pm'), async (c) => {
+  try {
+    const groups = new Map<string, repo.AnalystUsage[]>()
+    for (const analyst of await repo.analysts.listUsage()) {
+      const key = duplicateKey(analyst.name)
+      groups.set(key, [...groups.get(key) ?? [], analyst])
+    }
+
+    const data = [...groups.values()]
+      .filter(group => group.length > 1)
+      .map(group => group.sort((a, b) => b.reportCount - a.reportCount || a.name.localeCompare(b.name)))
+
+    return c.json({ success: true, data })
+  } catch (error) {
+    console.error('Error fetching duplicate analysts:', error)
+    return c.json({ success: false, error: 'Failed to fetch duplicate analysts' }, 500)
+  }
+})
+
+// An analyst's profile: the companies covered, most recently first, reports per month (UTC, oldest
+// first, months without reports left out) and per category. The reports themselves are paged through
+// GET /reports?analyst=
+analystRoutes.get('/analysts/:id', async (c) => {
+  try {
+    const analyst = await repo.analysts.get(c.req.param('id'))
+    if (!analyst) {
+      return c.json({ success: false, error: 'Analyst not found' }, 404)
+    }
+
+    return c.json({ success: true, data: { analyst, ...await repo.analysts.getActivity(analyst.name) } })
+  } catch (error) {
+    console.error('Error fetching analyst:', error)
+    return c.json({ success: false, error: 'Failed to fetch analyst' }, 500)
+  }
+})
+
+// Add an analyst ahead of their first report
+analystRoutes.post('/analysts', requireRole('analyst'), audit('analyst.create', analystTarget), async (c) => {
+  try {
+    const body = await c.req.json()
+    const name = parseName(body.name)
+    const profile = {
+      title: parseText(body.title),
+      team: parseText(body.team),
+      email: parseText(body.email),
+      bio: parseText(body.bio)
+    }
+
+    const invalid = await checkName(name) ?? checkProfile(profile)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const now = new Date().toISOString()
+    const analyst: repo.Analyst = { id: crypto.randomUUID(), name, ...profile, createdAt: now, updatedAt: now }
+    await repo.analysts.save(analyst)
+
+    return c.json({ success: true, data: analyst })
+  } catch (error) {
+    console.error('Error creating analyst:', error)
+    return c.json({ success: false, error: 'Failed to create analyst' }, 500)
+  }
+})
+
+// Edit a profile; a new name is carried over to the analyst's reports. Renaming to the name of
+// another analyst is refused, merging them is the way to combine the two
+analystRoutes.put('/analysts/:id', requireRole('analyst'), audit('analyst.update', analystTarget), async (c) => {
+  try {
+    const analyst = await repo.analysts.get(c.req.param('id'))
+    if (!analyst) {
+      return c.json({ success: false, error: 'Analyst not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const name = body.name === undefined ? analyst.name : parseName(body.name)
+    const profile = {
+      title: body.title === undefined ? analyst.title : parseText(body.title),
+      team: body.team === undefined ? analyst.team : parseText(body.team),
+      email: body.email === undefined ? analyst.email : parseText(body.email),
+      bio: body.bio === undefined ? analyst.bio : parseText(body.bio)
+    }
+
+    const invalid = await checkName(name, analyst.id) ?? checkProfile(profile)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const updated = { ...analyst, name, ...profile, updatedAt: new Date().toISOString() }
+    await repo.analysts.update(updated)
+
+    return c.json({ success: true, data: updated })
+  } catch (error) {
+    console.error('Error updating analyst:', error)
+    return c.json({ success: false, error: 'Failed to update analyst' }, 500)
+  }
+})
+
+// Fold other analysts into this one: their reports, trashed ones included, take this analyst's name
+// and the others are deleted
+analystRoutes.post('/analysts/:id/merge', requireRole('pm'), audit('analyst.merge', analystDirectoryTarget), async (c) => {
+  try {
+    const analyst = await repo.analysts.get(c.req.param('id'))
+    if (!analyst) {
+      return c.json({ success: false, error: 'Analyst not found' }, 404)
+    }
+
+    const { sourceIds } = await c.req.json()
+    const isIdList = Array.isArray(sourceIds)
+      && sourceIds.length > 0
+      && sourceIds.every(id => typeof id === 'string')
+      && new Set(sourceIds).size === sourceIds.length
+    if (!isIdList || sourceIds.includes(analyst.id)) {
+      return c.json({ success: false, error: 'sourceIds must list other analysts, each once' }, 400)
+    }
+
+    const known = new Set((await repo.analysts.list()).map(item => item.id))
+    if (sourceIds.some((id: string) => !known.has(id))) {
+      return c.json({ success: false, error: 'Analyst not found' }, 400)
+    }
+
+    const updatedAt = new Date().toISOString()
+    await repo.analysts.merge(analyst.id, sourceIds, updatedAt)
+
+    return c.json({ success: true, data: { ...analyst, updatedAt } })
+  } catch (error) {
+    console.error('Error merging analysts:', error)
+    return c.json({ success: false, error: 'Failed to merge analysts' }, 500)
+  }
+})
+
+// Delete an analyst no report names any more
+analystRoutes.delete('/analysts/:id', requireRole('pm'), audit('analyst.delete', analystTarget), async (c) => {
+  try {
+    const analyst = await repo.analysts.get(c.req.param('id'))
+    if (!analyst) {
+      return c.json({ success: false, error: 'Analyst not found' }, 404)
+    }
+
+    const usage = await repo.analysts.countUsage(analyst.name)
+    if (usage > 0) {
+      return c.json({ success: false, error: `Analyst still has ${usage} reports, counting those in the trash` }, 400)
+    }
+
+    await repo.analysts.remove(analyst.id)
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting analyst:', error)
+    return c.json({ success: false, error: 'Failed to delete analyst' }, 500)
+  }
+})
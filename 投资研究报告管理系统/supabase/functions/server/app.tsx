@@ -0,0 +1,173 @@
+import { Hono } from 'npm:hono'
+import { cors } from 'npm:hono/cors'
+import { logger } from 'npm:hono/logger'
+import { companyRoutes } from './company-handlers.tsx'
+import { reportRoutes } from './report-handlers.tsx'
+import { commentRoutes } from './comment-handlers.tsx'
+import { userRoutes } from './user-handlers.tsx'
+import { searchRoutes } from './search-handlers.tsx'
+import { uploadRoutes } from './upload-handlers.tsx'
+import { trashRoutes } from './trash-handlers.tsx'
+import { auditRoutes } from './audit-handlers.tsx'
+import { watchlistRoutes } from './watchlist-handlers.tsx'
+import { notificationRoutes } from './notification-handlers.tsx'
+import { tagRoutes } from './tag-handlers.tsx'
+import { taxonomyRoutes } from './taxonomy-handlers.tsx'
+import { analystRoutes } from './analyst-handlers.tsx'
+import { statsRoutes } from './stats-handlers.tsx'
+import { authMiddleware, requireRole } from './auth.tsx'
+import { audit } from './audit.tsx'
+import { CHUNK_MIME_TYPE, REPORT_MIME_TYPES } from './file-kinds.tsx'
+import { storage, serveLocalFile } from './storage.tsx'
+import * as repo from './repository.tsx'
+
+export const app = new Hono()
+
+// CORS middleware
+app.use('*', cors({
+  origin: '*',
+  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  // If-Match carries the revision on company and report edits
+  allowHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+}))
+
+// Logger middleware
+app.use('*', logger(console.log))
+
+// Initialize storage buckets on startup
+export const initStorage = async () => {
+  const buckets = [
+    // 50MB for reports; the bucket also holds the chunks of resumable uploads
+    { name: 'make-78971119-reports', options: { public: false, allowedMimeTypes: [...REPORT_MIME_TYPES, CHUNK_MIME_TYPE], fileSizeLimit: 50 * 1024 * 1024 } },
+    // Company icons are shown through public URLs; 5MB matches the icon upload check
+    { name: 'make-78971119-company-icons', options: { public: true, allowedMimeTypes: ['image/*'], fileSizeLimit: 5 * 1024 * 1024 } }
+  ]
+  
+  for (const bucket of buckets) {
+    try {
+      // Also keeps allowed file types in sync for buckets created by earlier deployments
+      await storage.ensureBucket(bucket.name, bucket.options)
+      console.log(`Storage bucket ready: ${bucket.name}`)
+    } catch (error) {
+      console.error(`Error initializing storage bucket ${bucket.name}:`, error)
+    }
+  }
+}
+
+// Health check
+app.get('/make-server-78971119/health', (c) => {
+  return c.json({ status: 'ok', timestamp: new Date().toISOString() })
+})
+
+// Files of the local storage backend; access is checked through the signed URL token
+app.get('/make-server-78971119/storage/:bucket/*', async (c) => {
+  const bucket = c.req.param('bucket')
+  const prefix = `/make-server-78971119/storage/${bucket}/`
+  const path = c.req.path.slice(prefix.length).split('/').map(decodeURIComponent).join('/')
+  const response = await serveLocalFile(bucket, path, {
+    expires: c.req.query('expires'),
+    token: c.req.query('token')
+  })
+  return response ?? c.json({ success: false, error: 'File not found' }, 404)
+})
+
+// Every route below requires a signed-in user
+app.use('/make-server-78971119/*', authMiddleware)
+
+// Mount route handlers
+app.route('/make-server-78971119', companyRoutes)
+app.route('/make-server-78971119', reportRoutes)
+app.route('/make-server-78971119', commentRoutes)
+app.route('/make-server-78971119', userRoutes)
+app.route('/make-server-78971119', searchRoutes)
+app.route('/make-server-78971119', uploadRoutes)
+app.route('/make-server-78971119', trashRoutes)
+app.route('/make-server-78971119', auditRoutes)
+app.route('/make-server-78971119', watchlistRoutes)
+app.route('/make-server-78971119', notificationRoutes)
+app.route('/make-server-78971119', tagRoutes)
+app.route('/make-server-78971119', taxonomyRoutes)
+app.route('/make-server-78971119', analystRoutes)
+app.route('/make-server-78971119', statsRoutes)
+
+// Initialize sample data
+// The entry lists the companies that were added or reset
+const sampleDataTarget = {
+  entityType: 'company' as const,
+  load: async () => Object.fromEntries((await repo.companies.list()).map(company => [company.id, company.name]))
+}
+
+app.post('/make-server-78971119/init-sample-data', requireRole('pm'), audit('company.seed', sampleDataTarget), async (c) => {
+  try {
+    const sampleCompanies = [
+      {
+        id: '1',
+        name: '海外TMT追踪',
+        code: 'TMT',
+        type: '行业',
+        description: 'TMT赛道，海外科技投资track【股票类型：行业报告】',
+        revision: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      },
+      {
+        id: '2',
+        name: 'Figma',
+        code: 'FIG.N',
+        type: '美股',
+        description: '协作设计软件龙头【股票类型：美股】',
+        revision: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      },
+      {
+        id: '3',
+        name: 'DraftKings',
+        code: 'DKNG',
+        type: '美股',
+        description: '美国领先的体育博彩和幻想体育平台【股票类型：美股】',
+        revision: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      },
+      {
+        id: '4',
+        name: '腾讯控股',
+        code: '0700.HK',
+        type: '港股',
+        description: '中国互联网巨头，游戏和社交平台领导者',
+        revision: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      },
+      {
+        id: '5',
+        name: '阿里巴巴',
+        code: '9988.HK',
+        type: '港股',
+        description: '中国电商和云计算领军企业',
+        revision: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      },
+      {
+        id: '6',
+        name: '台积电',
+        code: 'TSM',
+        type: '美股',
+        description: '全球最大的半导体代工制造商',
+        revision: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }
+    ]
+    
+    // Store sample companies
+    await repo.companies.saveMany(sampleCompanies)
+    
+    return c.json({ success: true, message: 'Sample data initialized' })
+  } catch (error) {
+    console.error('Error initializing sample data:', error)
+    return c.json({ success: false, error: 'Failed to initialize sample data' }, 500)
+  }
+})
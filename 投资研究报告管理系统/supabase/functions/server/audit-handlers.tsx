@@ -0,0 +1,43 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+
+export const auditRoutes = new Hono<AuthEnv>()
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+const isValidDate = (value: string) => !Number.isNaN(new Date(value).getTime())
+
+// Read the audit trail, newest first.
+// Filters: companyId, entityType, entityId, actorId, action, from and to (ISO dates) and limit
+auditRoutes.get('/audit', requireRole('pm'), async (c) => {
+  try {
+    const query = c.req.query()
+
+    const limit = query.limit ? Number(query.limit) : DEFAULT_LIMIT
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return c.json({ success: false, error: `limit must be between 1 and ${MAX_LIMIT}` }, 400)
+    }
+
+    if ((query.from && !isValidDate(query.from)) || (query.to && !isValidDate(query.to))) {
+      return c.json({ success: false, error: 'from and to must be ISO dates' }, 400)
+    }
+
+    const entries = await repo.audit.list({
+      companyId: query.companyId,
+      entityType: query.entityType,
+      entityId: query.entityId,
+      actorId: query.actorId,
+      action: query.action,
+      from: query.from && new Date(query.from).toISOString(),
+      to: query.to && new Date(query.to).toISOString(),
+      limit
+    })
+
+    return c.json({ success: true, data: entries })
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    return c.json({ success: false, error: 'Failed to fetch audit log' }, 500)
+  }
+})
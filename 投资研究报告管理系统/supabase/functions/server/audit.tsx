@@ -0,0 +1,112 @@
+import { createMiddleware } from 'npm:hono/factory'
+import type { Context } from 'npm:hono'
+import * as repo from './repository.tsx'
+import type { AuthEnv } from './auth.tsx'
+import { publish } from './realtime.tsx'
+
+// Audit trail for mutating routes. Each route names its action and how to load the entity it changes;
+// the middleware snapshots the entity before and after the handler and appends the difference.
+// Only successful requests are recorded. Upload sessions and chunks are not audited on their own;
+// completing an upload is logged as report.create. The same entry is then published to open clients,
+// see realtime.tsx.
+
+type Snapshot = Record<string, unknown> | null
+
+export type AuditTarget = {
+  entityType: 'company' | 'report' | 'comment' | 'tag' | 'taxonomy' | 'analyst' | 'user' | 'trash'
+  // Id of the entity; creations read it from the response data, which is null before the handler runs
+  id?: (c: Context<AuthEnv>, data: any) => string | undefined
+  load?: (c: Context<AuthEnv>, id: string | undefined, data: any) => Promise<Snapshot> | Snapshot
+}
+
+// Bookkeeping fields that change on every write, and nested lists that have their own entries
+const IGNORED_FIELDS = new Set(['updatedAt', 'revision', 'comments', 'versions'])
+
+export const diff = (before: Snapshot, after: Snapshot): Record<string, repo.AuditChange> => {
+  const changes: Record<string, repo.AuditChange> = {}
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue
+    const previous = before?.[field] ?? null
+    const next = after?.[field] ?? null
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next }
+    }
+  }
+  return changes
+}
+
+export const readResponseData = async (response: Response) => {
+  try {
+    return (await response.clone().json())?.data ?? null
+  } catch {
+    return null
+  }
+}
+
+export const audit = (action: string, target: AuditTarget) => createMiddleware<AuthEnv>(async (c, next) => {
+  const beforeId = target.id?.(c, null)
+  const before = target.load ? await target.load(c, beforeId, null) : null
+
+  await next()
+
+  if (!c.res.ok) return
+
+  let data: any = null
+  let entityId: string | null = null
+  let after: Snapshot = null
+  let loaded = false
+  try {
+    data = await readResponseData(c.res)
+    entityId = target.id?.(c, data) ?? null
+    after = target.load ? await target.load(c, entityId ?? undefined, data) : null
+    loaded = true
+  } catch (error) {
+    console.error(`Error loading the ${target.entityType} after ${action}:`, error)
+  }
+  const companyId = c.req.param('companyId')
+    ?? (after?.companyId as string | undefined)
+    ?? (before?.companyId as string | undefined)
+    ?? (target.entityType === 'company' ? entityId : null)
+  const user = c.get('user')
+
+  const entry: repo.AuditEntry = {
+    id: crypto.randomUUID(),
+    actorId: user.id,
+    actorName: user.name,
+    action,
+    entityType: target.entityType,
+    entityId,
+    companyId: companyId ?? null,
+    changes: diff(before, after),
+    createdAt: new Date().toISOString()
+  }
+
+  // The change itself went through; a missing entry must not turn it into an error for the caller.
+  // Without the state after the change the diff would be wrong, so no entry is written then.
+  if (loaded) {
+    try {
+      await repo.audit.append(entry)
+    } catch (error) {
+      console.error(`Error writing audit entry for ${action}:`, error)
+    }
+  }
+
+  // Published whether or not the entry was written, so open clients still refresh
+  try {
+    await publish({
+      action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      companyId: entry.companyId,
+      reportId: c.req.param('reportId') ?? (entry.entityType === 'report' ? entry.entityId : null),
+      actorId: entry.actorId,
+      actorName: entry.actorName,
+      data: data ?? after,
+      createdAt: entry.createdAt
+    })
+  } catch (error) {
+    // Clients fall back to their cache expiry and the refresh buttons
+    console.error(`Error publishing change for ${action}:`, error)
+  }
+})
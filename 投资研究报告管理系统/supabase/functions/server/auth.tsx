@@ -0,0 +1,95 @@
+import { createMiddleware } from 'npm:hono/factory'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+
+// Ordered from least to most privileged; each role inherits the ones before it
+export const ROLES = ['viewer', 'analyst', 'pm', 'admin'] as const
+
+export type Role = typeof ROLES[number]
+
+export type AuthUser = {
+  id: string
+  email: string
+  name: string
+  role: Role
+}
+
+export type AuthEnv = {
+  Variables: {
+    user: AuthUser
+    // Id of the entity a handler created, for middleware that runs after it when the response
+    // does not identify it on its own
+    createdId?: string
+  }
+}
+
+export const isRole = (value: unknown): value is Role => {
+  return ROLES.includes(value as Role)
+}
+
+// Users without a role in app_metadata are read-only
+export const getRole = (appMetadata?: Record<string, any>): Role => {
+  return isRole(appMetadata?.role) ? appMetadata!.role : 'viewer'
+}
+
+export const hasRole = (user: AuthUser | undefined, minRole: Role) => {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(minRole)
+}
+
+// Resolves a bearer token to the caller, or null when the token is invalid
+export type TokenVerifier = (token: string) => Promise<AuthUser | null>
+
+const verifySupabaseToken: TokenVerifier = async (token) => {
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data?.user) {
+    return null
+  }
+
+  const { user } = data
+  return {
+    id: user.id,
+    email: user.email ?? '',
+    name: user.user_metadata?.name || user.email || '',
+    role: getRole(user.app_metadata)
+  }
+}
+
+let verifyToken: TokenVerifier = verifySupabaseToken
+
+// The scheduled jobs in the migrations call the API with the service role key and act as an admin
+export const SCHEDULER: AuthUser = { id: 'scheduler', email: '', name: 'Scheduler', role: 'admin' }
+
+// Lets tests sign in without Supabase Auth
+export const setTokenVerifier = (verifier: TokenVerifier) => {
+  verifyToken = verifier
+}
+
+// Verify the Supabase Auth JWT sent by the client and expose the caller as c.get('user')
+export const authMiddleware = createMiddleware<AuthEnv>(async (c, next) => {
+  const token = c.req.header('Authorization')?.split(' ')[1]
+  if (!token) {
+    return c.json({ success: false, error: 'Unauthorized' }, 401)
+  }
+
+  const user = token === serviceRoleKey ? SCHEDULER : await verifyToken(token)
+  if (!user) {
+    return c.json({ success: false, error: 'Unauthorized' }, 401)
+  }
+
+  c.set('user', user)
+
+  await next()
+})
+
+// Reject callers below the given role:
+// viewer reads, analyst uploads and comments, pm edits companies and order, admin deletes companies
+export const requireRole = (minRole: Role) => createMiddleware<AuthEnv>(async (c, next) => {
+  if (!hasRole(c.get('user'), minRole)) {
+    return c.json({ success: false, error: 'Forbidden' }, 403)
+  }
+
+  await next()
+})
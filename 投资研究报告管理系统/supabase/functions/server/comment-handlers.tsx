@@ -1,41 +1,124 @@
 import { Hono } from 'npm:hono'
-import * as kv from './kv_store.tsx'
+import * as repo from './repository.tsx'
+import { hasRole, requireRole, type AuthEnv, type AuthUser } from './auth.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { notifySubscribers } from './notifications.tsx'
 
-export const commentRoutes = new Hono()
+export const commentRoutes = new Hono<AuthEnv>()
+
+const commentTarget: AuditTarget = {
+  entityType: 'comment',
+  // The routes return all of the report's comments, so a new comment's id comes from the handler
+  id: (c) => c.req.param('commentId') ?? c.get('createdId'),
+  load: (c, id) => id ? repo.comments.get(c.req.param('reportId')!, id) : null
+}
+
+// Mentions are written as @name and end at whitespace or punctuation
+const MENTION_PATTERN = /@([^\s@,.;:!?，。；：！？、]+)/g
+
+export const extractMentions = (content: string): string[] => {
+  const names = Array.from(content.matchAll(MENTION_PATTERN), match => match[1])
+  return [...new Set(names)]
+}
+
+const MAX_ANCHOR_RECTS = 50
+const MAX_QUOTE_LENGTH = 1000
+
+type AnchorRect = { x: number; y: number; width: number; height: number }
+
+// Anchors pin a comment to a page; rects are fractions of the page size so they survive zooming
+export const parseAnchor = (value: any): { page: number; rects: AnchorRect[]; quote: string } | null => {
+  if (!value || typeof value !== 'object') return null
+  const { page, rects, quote } = value
+  if (!Number.isInteger(page) || page < 1) return null
+  if (!Array.isArray(rects) || rects.length === 0 || rects.length > MAX_ANCHOR_RECTS) return null
+
+  const isFraction = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 1
+  if (!rects.every(r => r && isFraction(r.x) && isFraction(r.y) && isFraction(r.width) && isFraction(r.height))) return null
+
+  return {
+    page,
+    rects: rects.map(({ x, y, width, height }) => ({ x, y, width, height })),
+    quote: typeof quote === 'string' ? quote.trim().slice(0, MAX_QUOTE_LENGTH) : ''
+  }
+}
+
+// Only the author may change a comment; admins may moderate any of them
+const canModify = (comment: repo.Comment, user: AuthUser) => {
+  return comment.authorId === user.id || hasRole(user, 'admin')
+}
+
+// Get comments for a report
+commentRoutes.get('/reports/:companyId/:reportId/comments', async (c) => {
+  try {
+    const companyId = c.req.param('companyId')
+    const reportId = c.req.param('reportId')
+    
+    const report = await repo.reports.get(companyId, reportId)
+    if (!report) {
+      return c.json({ success: false, error: 'Report not found' }, 404)
+    }
+    
+    return c.json({ success: true, data: await repo.comments.listByReport(reportId) })
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    return c.json({ success: false, error: 'Failed to fetch comments' }, 500)
+  }
+})
 
 // Add comment to report
-commentRoutes.post('/reports/:companyId/:reportId/comments', async (c) => {
+commentRoutes.post('/reports/:companyId/:reportId/comments', requireRole('analyst'), audit('comment.create', commentTarget), notifySubscribers('comment.create'), async (c) => {
   try {
     const companyId = c.req.param('companyId')
     const reportId = c.req.param('reportId')
     const body = await c.req.json()
     
-    const { content } = body
+    const { content, parentId } = body
     if (!content || !content.trim()) {
       return c.json({ success: false, error: 'Comment content is required' }, 400)
     }
     
+    // Replies share their thread's anchor, so only top-level comments carry one
+    const anchor = body.anchor && !parentId ? parseAnchor(body.anchor) : null
+    if (body.anchor && !parentId && !anchor) {
+      return c.json({ success: false, error: 'Invalid anchor' }, 400)
+    }
+    
     // Check if report exists
-    const report = await kv.get(`report:${companyId}:${reportId}`)
+    const report = await repo.reports.get(companyId, reportId)
     if (!report) {
       return c.json({ success: false, error: 'Report not found' }, 404)
     }
     
+    // Threads are one level deep: replying to a reply attaches to its root comment
+    let threadId: string | null = null
+    if (parentId) {
+      const parent = await repo.comments.get(reportId, parentId)
+      if (!parent) {
+        return c.json({ success: false, error: 'Parent comment not found' }, 404)
+      }
+      threadId = parent.parentId || parent.id
+    }
+    
     // Create new comment
+    const user = c.get('user')
     const commentId = crypto.randomUUID()
-    const comment = {
+    const comment: repo.Comment = {
       id: commentId,
       content: content.trim(),
+      authorId: user.id,
+      authorName: user.name,
+      parentId: threadId,
+      anchor,
+      mentions: extractMentions(content),
       createdAt: new Date().toISOString()
     }
     
-    await kv.set(`comment:${companyId}:${reportId}:${commentId}`, comment)
+    await repo.comments.save(reportId, comment)
+    c.set('createdId', commentId)
     
     // Return all comments for this report
-    const allComments = await kv.getByPrefix(`comment:${companyId}:${reportId}:`)
-    const sortedComments = allComments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-    
-    return c.json({ success: true, data: sortedComments })
+    return c.json({ success: true, data: await repo.comments.listByReport(reportId) })
   } catch (error) {
     console.error('Error adding comment:', error)
     return c.json({ success: false, error: 'Failed to add comment' }, 500)
@@ -43,9 +126,8 @@ commentRoutes.post('/reports/:companyId/:reportId/comments', async (c) => {
 })
 
 // Update comment
-commentRoutes.put('/reports/:companyId/:reportId/comments/:commentId', async (c) => {
+commentRoutes.put('/reports/:companyId/:reportId/comments/:commentId', requireRole('analyst'), audit('comment.update', commentTarget), async (c) => {
   try {
-    const companyId = c.req.param('companyId')
     const reportId = c.req.param('reportId')
     const commentId = c.req.param('commentId')
     const body = await c.req.json()
@@ -56,52 +138,54 @@ commentRoutes.put('/reports/:companyId/:reportId/comments/:commentId', async (c)
     }
     
     // Get existing comment
-    const existingComment = await kv.get(`comment:${companyId}:${reportId}:${commentId}`)
+    const existingComment = await repo.comments.get(reportId, commentId)
     if (!existingComment) {
       return c.json({ success: false, error: 'Comment not found' }, 404)
     }
     
+    if (!canModify(existingComment, c.get('user'))) {
+      return c.json({ success: false, error: 'Only the author can edit this comment' }, 403)
+    }
+    
     // Update comment
     const updatedComment = {
       ...existingComment,
       content: content.trim(),
+      mentions: extractMentions(content),
       updatedAt: new Date().toISOString()
     }
     
-    await kv.set(`comment:${companyId}:${reportId}:${commentId}`, updatedComment)
+    await repo.comments.save(reportId, updatedComment)
     
     // Return all comments for this report
-    const allComments = await kv.getByPrefix(`comment:${companyId}:${reportId}:`)
-    const sortedComments = allComments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-    
-    return c.json({ success: true, data: sortedComments })
+    return c.json({ success: true, data: await repo.comments.listByReport(reportId) })
   } catch (error) {
     console.error('Error updating comment:', error)
     return c.json({ success: false, error: 'Failed to update comment' }, 500)
   }
 })
 
-// Delete comment
-commentRoutes.delete('/reports/:companyId/:reportId/comments/:commentId', async (c) => {
+// Delete comment (and its replies when it starts a thread)
+commentRoutes.delete('/reports/:companyId/:reportId/comments/:commentId', requireRole('analyst'), audit('comment.delete', commentTarget), async (c) => {
   try {
-    const companyId = c.req.param('companyId')
     const reportId = c.req.param('reportId')
     const commentId = c.req.param('commentId')
     
     // Check if comment exists
-    const existingComment = await kv.get(`comment:${companyId}:${reportId}:${commentId}`)
+    const existingComment = await repo.comments.get(reportId, commentId)
     if (!existingComment) {
       return c.json({ success: false, error: 'Comment not found' }, 404)
     }
     
-    // Delete comment
-    await kv.del(`comment:${companyId}:${reportId}:${commentId}`)
+    if (!canModify(existingComment, c.get('user'))) {
+      return c.json({ success: false, error: 'Only the author can delete this comment' }, 403)
+    }
+    
+    // Delete comment; its replies go with it through the cascade
+    await repo.comments.remove(reportId, commentId)
     
     // Return all remaining comments for this report
-    const allComments = await kv.getByPrefix(`comment:${companyId}:${reportId}:`)
-    const sortedComments = allComments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-    
-    return c.json({ success: true, data: sortedComments })
+    return c.json({ success: true, data: await repo.comments.listByReport(reportId) })
   } catch (error) {
     console.error('Error deleting comment:', error)
     return c.json({ success: false, error: 'Failed to delete comment' }, 500)
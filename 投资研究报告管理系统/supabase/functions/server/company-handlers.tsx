@@ -1,29 +1,57 @@
 import { Hono } from 'npm:hono'
-import { createClient } from 'npm:@supabase/supabase-js@2'
-import * as kv from './kv_store.tsx'
-
-const supabase = createClient(
-  Deno.env.get('SUPABASE_URL')!,
-  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-)
+import * as repo from './repository.tsx'
+import { storage } from './storage.tsx'
+import { requireRole } from './auth.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { conflict, etag, isOrderUpdateList, matchesIfMatch } from './concurrency.tsx'
+import { checkTerm } from './taxonomy-handlers.tsx'
+import { parsePageParams, queryList, queryText, wantsPage } from './pagination.tsx'
 
 export const companyRoutes = new Hono()
 
-// Get all companies
+export const companyTarget: AuditTarget = {
+  entityType: 'company',
+  id: (c, data) => c.req.param('id') ?? data?.id,
+  load: (_c, id) => id ? repo.companies.get(id) : null
+}
+
+// Reordering changes many companies at once; the entry records each company's new position
+const companyOrderTarget: AuditTarget = {
+  entityType: 'company',
+  load: async () => Object.fromEntries((await repo.companies.list()).map(company => [company.id, company.order ?? null]))
+}
+
+const COMPANY_SORTS: repo.CompanySort[] = ['order', 'newest']
+
+// Get all companies, or one page of them as { items, nextCursor }.
+// Page params: type, tag (repeatable, all must match), q (name or code), sort (order or newest), limit and cursor
 companyRoutes.get('/companies', async (c) => {
   try {
-    const companies = await kv.getByPrefix('company:')
-    
-    // Sort by order, then by creation date
-    companies.sort((a, b) => {
-      const orderA = a.order ?? 999999;
-      const orderB = b.order ?? 999999;
-      if (orderA !== orderB) {
-        return orderA - orderB;
-      }
-      return new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime();
-    });
-    
+    if (!wantsPage(c, ['type', 'tag', 'q'])) {
+      // Sorted by order, then by creation date
+      const companies = await repo.companies.list()
+
+      return c.json({ success: true, data: companies })
+    }
+
+    const page = parsePageParams(c)
+    if (typeof page === 'string') {
+      return c.json({ success: false, error: page }, 400)
+    }
+
+    const sort = (c.req.query('sort') ?? 'order') as repo.CompanySort
+    if (!COMPANY_SORTS.includes(sort)) {
+      return c.json({ success: false, error: `Unknown sort: ${sort}` }, 400)
+    }
+
+    const companies = await repo.companies.page({
+      type: queryText(c, 'type'),
+      tagIds: queryList(c, 'tag'),
+      q: queryText(c, 'q'),
+      sort,
+      ...page
+    })
+
     return c.json({ success: true, data: companies })
   } catch (error) {
     console.error('Error fetching companies:', error)
@@ -35,12 +63,13 @@ companyRoutes.get('/companies', async (c) => {
 companyRoutes.get('/companies/:id', async (c) => {
   try {
     const id = c.req.param('id')
-    const company = await kv.get(`company:${id}`)
+    const company = await repo.companies.get(id)
     
     if (!company) {
       return c.json({ success: false, error: 'Company not found' }, 404)
     }
     
+    c.header('ETag', etag(company.revision))
     return c.json({ success: true, data: company })
   } catch (error) {
     console.error('Error fetching company:', error)
@@ -49,7 +78,7 @@ companyRoutes.get('/companies/:id', async (c) => {
 })
 
 // Create company
-companyRoutes.post('/companies', async (c) => {
+companyRoutes.post('/companies', requireRole('pm'), audit('company.create', companyTarget), async (c) => {
   try {
     const body = await c.req.json()
     const { name, code, type, description } = body
@@ -58,14 +87,15 @@ companyRoutes.post('/companies', async (c) => {
       return c.json({ success: false, error: 'Missing required fields: name, code, type' }, 400)
     }
     
+    const unknownType = await checkTerm('stock_type', type)
+    if (unknownType) {
+      return c.json({ success: false, error: unknownType }, 400)
+    }
+    
     const id = crypto.randomUUID()
     
     // Get current max order
-    const companies = await kv.getByPrefix('company:')
-    const maxOrder = companies.reduce((max, company) => {
-      const order = company.order ?? 0;
-      return Math.max(max, order);
-    }, -1);
+    const maxOrder = await repo.companies.maxOrder()
     
     const company = {
       id,
@@ -74,11 +104,13 @@ companyRoutes.post('/companies', async (c) => {
       type,
       description: description || '',
       order: maxOrder + 1,
+      revision: 1,
+      tagIds: [],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     }
     
-    await kv.set(`company:${id}`, company)
+    await repo.companies.save(company)
     
     return c.json({ success: true, data: company })
   } catch (error) {
@@ -88,12 +120,12 @@ companyRoutes.post('/companies', async (c) => {
 })
 
 // Update company
-companyRoutes.put('/companies/:id', async (c) => {
+companyRoutes.put('/companies/:id', requireRole('pm'), audit('company.update', companyTarget), async (c) => {
   try {
     const id = c.req.param('id')
     const body = await c.req.json()
     
-    const existingCompany = await kv.get(`company:${id}`)
+    const existingCompany = await repo.companies.get(id)
     if (!existingCompany) {
       return c.json({ success: false, error: 'Company not found' }, 404)
     }
@@ -104,17 +136,31 @@ companyRoutes.put('/companies/:id', async (c) => {
       return c.json({ success: false, error: 'Missing required fields: name, code, type' }, 400)
     }
     
+    const unknownType = await checkTerm('stock_type', type)
+    if (unknownType) {
+      return c.json({ success: false, error: unknownType }, 400)
+    }
+    
+    if (!matchesIfMatch(c, existingCompany.revision)) {
+      return conflict(c, 'Company was changed by someone else', existingCompany)
+    }
+    
     const updatedCompany = {
       ...existingCompany,
       name,
       code,
       type,
       description: description || '',
+      revision: existingCompany.revision + 1,
       updatedAt: new Date().toISOString()
     }
     
-    await kv.set(`company:${id}`, updatedCompany)
+    // Also catches a write that lands between the read above and this one
+    if (!await repo.companies.update(updatedCompany, existingCompany.revision)) {
+      return conflict(c, 'Company was changed by someone else', await repo.companies.get(id))
+    }
     
+    c.header('ETag', etag(updatedCompany.revision))
     return c.json({ success: true, data: updatedCompany })
   } catch (error) {
     console.error('Error updating company:', error)
@@ -123,31 +169,21 @@ companyRoutes.put('/companies/:id', async (c) => {
 })
 
 // Reorder companies
-companyRoutes.post('/companies/reorder', async (c) => {
+companyRoutes.post('/companies/reorder', requireRole('pm'), audit('company.reorder', companyOrderTarget), async (c) => {
   try {
     const body = await c.req.json()
     const { orderUpdates } = body
     
-    if (!Array.isArray(orderUpdates)) {
+    if (!isOrderUpdateList(orderUpdates)) {
       return c.json({ success: false, error: 'orderUpdates must be an array' }, 400)
     }
     
-    // Update order for each company
-    const updatePromises = orderUpdates.map(async ({ id, order }) => {
-      const existingCompany = await kv.get(`company:${id}`)
-      if (existingCompany) {
-        const updatedCompany = {
-          ...existingCompany,
-          order,
-          updatedAt: new Date().toISOString()
-        }
-        await kv.set(`company:${id}`, updatedCompany)
-      }
-    })
-    
-    await Promise.all(updatePromises)
+    // All or nothing: a stale revision means someone else reordered or edited in the meantime
+    if (!await repo.companies.updateOrders(orderUpdates)) {
+      return conflict(c, 'Companies were changed by someone else', await repo.companies.list())
+    }
     
-    return c.json({ success: true })
+    return c.json({ success: true, data: await repo.companies.list() })
   } catch (error) {
     console.error('Error reordering companies:', error)
     return c.json({ success: false, error: 'Failed to reorder companies' }, 500)
@@ -155,12 +191,12 @@ companyRoutes.post('/companies/reorder', async (c) => {
 })
 
 // Upload company icon
-companyRoutes.post('/companies/:id/icon', async (c) => {
+companyRoutes.post('/companies/:id/icon', requireRole('pm'), audit('company.icon', companyTarget), async (c) => {
   try {
     const id = c.req.param('id')
     const formData = await c.req.formData()
     
-    const existingCompany = await kv.get(`company:${id}`)
+    const existingCompany = await repo.companies.get(id)
     if (!existingCompany) {
       return c.json({ success: false, error: 'Company not found' }, 404)
     }
@@ -189,39 +225,34 @@ companyRoutes.post('/companies/:id/icon', async (c) => {
       try {
         const oldPath = existingCompany.iconUrl.split('/').pop()
         if (oldPath) {
-          await supabase.storage
-            .from('make-78971119-company-icons')
-            .remove([`company-icons/${oldPath}`])
+          await storage.remove('make-78971119-company-icons', [`company-icons/${oldPath}`])
         }
       } catch (deleteError) {
         console.warn('Failed to delete old icon:', deleteError)
       }
     }
     
-    // Upload new icon to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('make-78971119-company-icons')
-      .upload(filePath, iconFile, { upsert: true })
-    
-    if (uploadError) {
+    // Upload new icon to storage
+    try {
+      await storage.upload('make-78971119-company-icons', filePath, iconFile, { upsert: true })
+    } catch (uploadError) {
       console.error('Storage upload error:', uploadError)
       return c.json({ success: false, error: 'Failed to upload icon' }, 500)
     }
     
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('make-78971119-company-icons')
-      .getPublicUrl(filePath)
-    
     // Update company with icon URL
     const updatedCompany = {
       ...existingCompany,
-      iconUrl: urlData.publicUrl,
+      iconUrl: storage.publicUrl('make-78971119-company-icons', filePath),
+      revision: existingCompany.revision + 1,
       updatedAt: new Date().toISOString()
     }
     
-    await kv.set(`company:${id}`, updatedCompany)
+    if (!await repo.companies.update(updatedCompany, existingCompany.revision)) {
+      return conflict(c, 'Company was changed by someone else', await repo.companies.get(id))
+    }
     
+    c.header('ETag', etag(updatedCompany.revision))
     return c.json({ success: true, data: updatedCompany })
   } catch (error) {
     console.error('Error uploading company icon:', error)
@@ -229,58 +260,18 @@ companyRoutes.post('/companies/:id/icon', async (c) => {
   }
 })
 
-// Delete company
-companyRoutes.delete('/companies/:id', async (c) => {
+// Delete company: it moves to the trash with its reports and can be restored for 30 days
+companyRoutes.delete('/companies/:id', requireRole('admin'), audit('company.delete', companyTarget), async (c) => {
   try {
     const id = c.req.param('id')
     
-    const company = await kv.get(`company:${id}`)
+    const company = await repo.companies.get(id)
     if (!company) {
       return c.json({ success: false, error: 'Company not found' }, 404)
     }
     
-    // Delete company icon from storage if exists
-    if (company.iconUrl) {
-      try {
-        const filePath = company.iconUrl.split('/').pop()
-        if (filePath) {
-          await supabase.storage
-            .from('make-78971119-company-icons')
-            .remove([`company-icons/${filePath}`])
-        }
-      } catch (iconError) {
-        console.warn('Failed to delete company icon:', iconError)
-      }
-    }
-    
-    // Delete all reports for this company
-    const reports = await kv.getByPrefix(`report:${id}:`)
-    
-    for (const report of reports) {
-      // Delete report file from storage
-      if (report.filePath) {
-        try {
-          await supabase.storage
-            .from('make-78971119-reports')
-            .remove([report.filePath])
-        } catch (fileError) {
-          console.warn('Failed to delete report file:', fileError)
-        }
-      }
-      
-      // Delete all comments for this report
-      const comments = await kv.getByPrefix(`comment:${id}:${report.id}:`)
-      const deleteCommentPromises = comments.map(comment => 
-        kv.del(`comment:${id}:${report.id}:${comment.id}`)
-      )
-      await Promise.all(deleteCommentPromises)
-      
-      // Delete report metadata
-      await kv.del(`report:${id}:${report.id}`)
-    }
-    
-    // Delete company
-    await kv.del(`company:${id}`)
+    // Files, comments and the search index are kept until the trash is purged
+    await repo.companies.trash(id, new Date().toISOString())
     
     return c.json({ success: true })
   } catch (error) {
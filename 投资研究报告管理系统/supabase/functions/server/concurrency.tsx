@@ -0,0 +1,29 @@
+import type { Context } from 'npm:hono'
+
+// Optimistic concurrency for companies and reports. Responses carry the entity's revision as its ETag;
+// a write sent with If-Match is refused with 409 once someone else has changed the entity, and the
+// 409 body holds the current entity so the client can show what changed. Reorders send the revision
+// of each item in the body instead, see OrderUpdate.
+
+export const etag = (revision: number) => `"${revision}"`
+
+// A missing header or * accepts any revision; weak tags compare like strong ones
+export const matchesIfMatch = (c: Context, revision: number) => {
+  const header = c.req.header('If-Match')
+  if (!header) return true
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag(revision))
+}
+
+export const conflict = (c: Context, error: string, current: unknown) => {
+  return c.json({ success: false, error, data: current }, 409)
+}
+
+// Reorder bodies are [{ id, order, revision? }]
+export const isOrderUpdateList = (value: unknown): value is { id: string; order: number; revision?: number }[] => {
+  return Array.isArray(value) && value.every(item =>
+    item && typeof item.id === 'string' && Number.isInteger(item.order) &&
+    (item.revision === undefined || Number.isInteger(item.revision)))
+}
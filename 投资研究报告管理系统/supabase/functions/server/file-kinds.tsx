@@ -0,0 +1,32 @@
+export type FileKind = 'pdf' | 'excel' | 'word' | 'powerpoint' | 'image'
+
+// Accepted research artifacts, keyed by file extension
+const FILE_TYPES: Record<string, { kind: FileKind; mimeType: string }> = {
+  pdf: { kind: 'pdf', mimeType: 'application/pdf' },
+  xlsx: { kind: 'excel', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  xls: { kind: 'excel', mimeType: 'application/vnd.ms-excel' },
+  docx: { kind: 'word', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  doc: { kind: 'word', mimeType: 'application/msword' },
+  pptx: { kind: 'powerpoint', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' },
+  ppt: { kind: 'powerpoint', mimeType: 'application/vnd.ms-powerpoint' },
+  png: { kind: 'image', mimeType: 'image/png' },
+  jpg: { kind: 'image', mimeType: 'image/jpeg' },
+  jpeg: { kind: 'image', mimeType: 'image/jpeg' },
+  gif: { kind: 'image', mimeType: 'image/gif' },
+  webp: { kind: 'image', mimeType: 'image/webp' }
+}
+
+// Allowed MIME types for the reports bucket
+export const REPORT_MIME_TYPES = [...new Set(Object.values(FILE_TYPES).map(type => type.mimeType))]
+
+// Chunks of resumable uploads are opaque bytes of any file kind until they are assembled
+export const CHUNK_MIME_TYPE = 'application/octet-stream'
+
+// Browsers report Office MIME types inconsistently, so the extension decides the kind
+export const getFileType = (fileName: string) => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  return FILE_TYPES[extension] ?? null
+}
+
+// Reports uploaded before other file kinds were allowed are all PDFs
+export const getReportFileKind = (report: any): FileKind => report.fileKind ?? 'pdf'
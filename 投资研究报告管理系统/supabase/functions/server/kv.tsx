@@ -0,0 +1,118 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+// Key-value storage with a swappable backend. The kv_store_78971119 table is the default;
+// DATA_BACKEND=memory or setKvBackend switches to another one, e.g. the in-memory store for tests.
+
+export type KvBackend = {
+  set: (key: string, value: any) => Promise<void>
+  // Stores value only while the key still holds expected, so of concurrent writers exactly one
+  // succeeds; true when it stored the value
+  setIf: (key: string, expected: any, value: any) => Promise<boolean>
+  get: (key: string) => Promise<any>
+  del: (key: string) => Promise<void>
+  mset: (keys: string[], values: any[]) => Promise<void>
+  mget: (keys: string[]) => Promise<any[]>
+  mdel: (keys: string[]) => Promise<void>
+  getByPrefix: (prefix: string) => Promise<any[]>
+}
+
+// Values are copied in and out so callers can't mutate stored data, just like a real database
+export const createMemoryKv = (): KvBackend => {
+  const store = new Map<string, any>()
+
+  return {
+    async set(key, value) {
+      store.set(key, structuredClone(value))
+    },
+    async setIf(key, expected, value) {
+      if (!store.has(key) || JSON.stringify(store.get(key)) !== JSON.stringify(expected)) {
+        return false
+      }
+      store.set(key, structuredClone(value))
+      return true
+    },
+    async get(key) {
+      return structuredClone(store.get(key))
+    },
+    async del(key) {
+      store.delete(key)
+    },
+    async mset(keys, values) {
+      keys.forEach((key, index) => store.set(key, structuredClone(values[index])))
+    },
+    async mget(keys) {
+      return keys.filter(key => store.has(key)).map(key => structuredClone(store.get(key)))
+    },
+    async mdel(keys) {
+      keys.forEach(key => store.delete(key))
+    },
+    async getByPrefix(prefix) {
+      return [...store.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([, value]) => structuredClone(value))
+    }
+  }
+}
+
+export const createSupabaseKv = (url: string, serviceRoleKey: string): KvBackend => {
+  const table = () => createClient(url, serviceRoleKey).from('kv_store_78971119')
+
+  const check = ({ error }: { error: { message: string } | null }) => {
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  return {
+    async set(key, value) {
+      check(await table().upsert({ key, value }))
+    },
+    // A conditional update: jsonb equality ignores key order and whitespace
+    async setIf(key, expected, value) {
+      const { data, error } = await table().update({ value }).eq('key', key).eq('value', JSON.stringify(expected)).select('key')
+      check({ error })
+      return (data?.length ?? 0) > 0
+    },
+    async get(key) {
+      const { data, error } = await table().select('value').eq('key', key).maybeSingle()
+      check({ error })
+      return data?.value
+    },
+    async del(key) {
+      check(await table().delete().eq('key', key))
+    },
+    async mset(keys, values) {
+      check(await table().upsert(keys.map((key, index) => ({ key, value: values[index] }))))
+    },
+    async mget(keys) {
+      const { data, error } = await table().select('value').in('key', keys)
+      check({ error })
+      return data?.map(row => row.value) ?? []
+    },
+    async mdel(keys) {
+      check(await table().delete().in('key', keys))
+    },
+    async getByPrefix(prefix) {
+      const { data, error } = await table().select('key, value').like('key', `${prefix}%`)
+      check({ error })
+      return data?.map(row => row.value) ?? []
+    }
+  }
+}
+
+let backend: KvBackend = Deno.env.get('DATA_BACKEND') === 'memory'
+  ? createMemoryKv()
+  : createSupabaseKv(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+export const setKvBackend = (next: KvBackend) => {
+  backend = next
+}
+
+export const set = (key: string, value: any) => backend.set(key, value)
+export const setIf = (key: string, expected: any, value: any) => backend.setIf(key, expected, value)
+export const get = (key: string) => backend.get(key)
+export const del = (key: string) => backend.del(key)
+export const mset = (keys: string[], values: any[]) => backend.mset(keys, values)
+export const mget = (keys: string[]) => backend.mget(keys)
+export const mdel = (keys: string[]) => backend.mdel(keys)
+export const getByPrefix = (prefix: string) => backend.getByPrefix(prefix)
@@ -0,0 +1,188 @@
+// Outgoing mail, used for notification digests. SMTP_HOST selects the SMTP sender, which connects with
+// implicit TLS on port 465 unless SMTP_SECURE=false; during development point it at a local mail catcher
+// such as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025 SMTP_SECURE=false).
+// With DATA_BACKEND=memory messages are only kept in memory. Without SMTP_HOST sending fails, so digests
+// are retried once it is set instead of being marked as sent.
+
+export type MailMessage = {
+  to: string
+  subject: string
+  text: string
+}
+
+export type MailSender = {
+  send: (message: MailMessage) => Promise<void>
+}
+
+export type SmtpOptions = {
+  host: string
+  port: number
+  from: string
+  username?: string
+  password?: string
+  // Implicit TLS, usually port 465. Otherwise the connection is upgraded with STARTTLS when the server
+  // offers it; credentials are never sent over a plain connection
+  secure?: boolean
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// btoa only takes Latin-1, so encode the UTF-8 bytes in chunks
+const toBase64 = (value: string) => {
+  const bytes = encoder.encode(value)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// Header values must stay on one line
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ')
+
+// The body is base64 encoded, which keeps it 7-bit clean and free of lines starting with a dot
+export const formatMessage = (from: string, message: MailMessage, date = new Date()) => [
+  `From: ${singleLine(from)}`,
+  `To: ${singleLine(message.to)}`,
+  `Subject: =?UTF-8?B?${toBase64(singleLine(message.subject))}?=`,
+  `Date: ${date.toUTCString()}`,
+  `Message-ID: <${crypto.randomUUID()}@${singleLine(from).split('@')[1] ?? 'localhost'}>`,
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  ...(toBase64(message.text).match(/.{1,76}/g) ?? [])
+].join('\r\n')
+
+// Reads SMTP replies; a reply can span several lines, all but the last written as "250-..."
+const createReplyReader = (conn: Deno.Conn) => {
+  let buffered = ''
+  const chunk = new Uint8Array(4096)
+
+  const readLine = async (): Promise<string> => {
+    while (!buffered.includes('\r\n')) {
+      const read = await conn.read(chunk)
+      if (read === null) {
+        throw new Error('SMTP server closed the connection')
+      }
+      buffered += decoder.decode(chunk.subarray(0, read))
+    }
+    const end = buffered.indexOf('\r\n')
+    const line = buffered.slice(0, end)
+    buffered = buffered.slice(end + 2)
+    return line
+  }
+
+  return async (): Promise<{ code: number; text: string }> => {
+    const lines: string[] = []
+    let line: string
+    do {
+      line = await readLine()
+      lines.push(line.slice(4))
+    } while (line[3] === '-')
+    return { code: Number(line.slice(0, 3)), text: lines.join('\n') }
+  }
+}
+
+// write may send only part of the buffer, which happens with long message bodies
+const writeAll = async (conn: Deno.Conn, data: Uint8Array) => {
+  let written = 0
+  while (written < data.length) {
+    written += await conn.write(data.subarray(written))
+  }
+}
+
+export const createSmtpSender = (options: SmtpOptions): MailSender => ({
+  async send(message) {
+    // Without implicit TLS the connection starts in plain text
+    const plain = options.secure ? null : await Deno.connect({ hostname: options.host, port: options.port })
+    let conn: Deno.Conn = plain ?? await Deno.connectTls({ hostname: options.host, port: options.port })
+    let readReply = createReplyReader(conn)
+
+    const expect = async (codes: number[], step: string) => {
+      const reply = await readReply()
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP ${step} failed with ${reply.code}: ${reply.text}`)
+      }
+      return reply
+    }
+
+    const command = async (line: string, codes: number[], step = line.split(' ')[0]) => {
+      await writeAll(conn, encoder.encode(`${line}\r\n`))
+      return expect(codes, step)
+    }
+
+    try {
+      await expect([220], 'greeting')
+      const greeting = await command('EHLO localhost', [250])
+      // The EHLO reply lists one extension per line
+      if (plain && greeting.text.split('\n').some(line => line.trim().toUpperCase() === 'STARTTLS')) {
+        await command('STARTTLS', [220])
+        conn = await Deno.startTls(plain, { hostname: options.host })
+        readReply = createReplyReader(conn)
+        // Extensions announced before the upgrade no longer count
+        await command('EHLO localhost', [250])
+      } else if (plain && options.username) {
+        throw new Error(`SMTP server ${options.host} does not offer STARTTLS; not sending credentials in cleartext`)
+      }
+      if (options.username) {
+        await command(`AUTH PLAIN ${toBase64(`\0${options.username}\0${options.password ?? ''}`)}`, [235], 'AUTH')
+      }
+      await command(`MAIL FROM:<${singleLine(options.from)}>`, [250])
+      await command(`RCPT TO:<${singleLine(message.to)}>`, [250, 251])
+      await command('DATA', [354])
+      await command(`${formatMessage(options.from, message)}\r\n.`, [250], 'message')
+      await command('QUIT', [221])
+    } finally {
+      conn.close()
+    }
+  }
+})
+
+export type MemorySender = MailSender & {
+  messages: MailMessage[]
+}
+
+export const createMemorySender = (): MemorySender => {
+  const messages: MailMessage[] = []
+  return {
+    messages,
+    async send(message) {
+      messages.push(structuredClone(message))
+    }
+  }
+}
+
+const createSenderFromEnv = (): MailSender => {
+  if (Deno.env.get('DATA_BACKEND') === 'memory') {
+    return createMemorySender()
+  }
+  const host = Deno.env.get('SMTP_HOST')
+  if (!host) {
+    console.warn('SMTP_HOST is not set: no mail can be sent')
+    return {
+      async send() {
+        throw new Error('SMTP_HOST is not set')
+      }
+    }
+  }
+  const secure = Deno.env.get('SMTP_SECURE') !== 'false'
+  return createSmtpSender({
+    host,
+    port: Number(Deno.env.get('SMTP_PORT') ?? (secure ? 465 : 587)),
+    from: Deno.env.get('SMTP_FROM') ?? 'no-reply@localhost',
+    username: Deno.env.get('SMTP_USERNAME'),
+    password: Deno.env.get('SMTP_PASSWORD'),
+    secure
+  })
+}
+
+let sender: MailSender = createSenderFromEnv()
+
+// Lets tests swap in their own sender
+export const setMailSender = (next: MailSender) => {
+  sender = next
+}
+
+export const sendMail = (message: MailMessage) => sender.send(message)
@@ -0,0 +1,184 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+import { isDigestFrequency, sendDigests } from './notifications.tsx'
+
+// The caller's subscriptions, notifications and digest settings. Every signed-in user, viewers included,
+// can follow companies and reports; nobody sees another user's notifications.
+
+export const notificationRoutes = new Hono<AuthEnv>()
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// List the caller's subscriptions
+notificationRoutes.get('/subscriptions', async (c) => {
+  try {
+    return c.json({ success: true, data: await repo.subscriptions.listByUser(c.get('user').id) })
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error)
+    return c.json({ success: false, error: 'Failed to fetch subscriptions' }, 500)
+  }
+})
+
+// Follow a company
+notificationRoutes.put('/subscriptions/companies/:companyId', async (c) => {
+  try {
+    const user = c.get('user')
+    const companyId = c.req.param('companyId')
+
+    if (!await repo.companies.get(companyId)) {
+      return c.json({ success: false, error: 'Company not found' }, 404)
+    }
+
+    await repo.subscriptions.save({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      companyId,
+      reportId: null,
+      createdAt: new Date().toISOString()
+    })
+
+    return c.json({ success: true, data: await repo.subscriptions.listByUser(user.id) })
+  } catch (error) {
+    console.error('Error subscribing to company:', error)
+    return c.json({ success: false, error: 'Failed to subscribe' }, 500)
+  }
+})
+
+// Stop following a company
+notificationRoutes.delete('/subscriptions/companies/:companyId', async (c) => {
+  try {
+    const user = c.get('user')
+    await repo.subscriptions.remove(user.id, c.req.param('companyId'), null)
+    return c.json({ success: true, data: await repo.subscriptions.listByUser(user.id) })
+  } catch (error) {
+    console.error('Error unsubscribing from company:', error)
+    return c.json({ success: false, error: 'Failed to unsubscribe' }, 500)
+  }
+})
+
+// Follow a single report
+notificationRoutes.put('/subscriptions/reports/:companyId/:reportId', async (c) => {
+  try {
+    const user = c.get('user')
+    const companyId = c.req.param('companyId')
+    const reportId = c.req.param('reportId')
+
+    if (!await repo.reports.get(companyId, reportId)) {
+      return c.json({ success: false, error: 'Report not found' }, 404)
+    }
+
+    await repo.subscriptions.save({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      companyId,
+      reportId,
+      createdAt: new Date().toISOString()
+    })
+
+    return c.json({ success: true, data: await repo.subscriptions.listByUser(user.id) })
+  } catch (error) {
+    console.error('Error subscribing to report:', error)
+    return c.json({ success: false, error: 'Failed to subscribe' }, 500)
+  }
+})
+
+// Stop following a report
+notificationRoutes.delete('/subscriptions/reports/:companyId/:reportId', async (c) => {
+  try {
+    const user = c.get('user')
+    await repo.subscriptions.remove(user.id, c.req.param('companyId'), c.req.param('reportId'))
+    return c.json({ success: true, data: await repo.subscriptions.listByUser(user.id) })
+  } catch (error) {
+    console.error('Error unsubscribing from report:', error)
+    return c.json({ success: false, error: 'Failed to unsubscribe' }, 500)
+  }
+})
+
+// The caller's latest notifications and how many are unread
+notificationRoutes.get('/notifications', async (c) => {
+  try {
+    const user = c.get('user')
+    const limit = Math.min(Number(c.req.query('limit')) || DEFAULT_LIMIT, MAX_LIMIT)
+    const [items, unreadCount] = await Promise.all([
+      repo.notifications.listByUser(user.id, { unreadOnly: c.req.query('unread') === 'true', limit }),
+      repo.notifications.countUnread(user.id)
+    ])
+    return c.json({ success: true, data: { items, unreadCount } })
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return c.json({ success: false, error: 'Failed to fetch notifications' }, 500)
+  }
+})
+
+// Mark the given notifications as read, or all of them when no ids are sent
+notificationRoutes.post('/notifications/read', async (c) => {
+  try {
+    const user = c.get('user')
+    const body = await c.req.json().catch(() => ({}))
+    const ids = body?.ids
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      return c.json({ success: false, error: 'ids must be an array of notification ids' }, 400)
+    }
+
+    await repo.notifications.markRead(user.id, new Date().toISOString(), ids)
+
+    return c.json({ success: true, data: { unreadCount: await repo.notifications.countUnread(user.id) } })
+  } catch (error) {
+    console.error('Error marking notifications as read:', error)
+    return c.json({ success: false, error: 'Failed to update notifications' }, 500)
+  }
+})
+
+// Digest settings; users who never saved any get no digest
+notificationRoutes.get('/notification-settings', async (c) => {
+  try {
+    const user = c.get('user')
+    const settings = await repo.notifications.getSettings(user.id)
+    return c.json({ success: true, data: { digest: settings?.digest ?? 'off', lastDigestAt: settings?.lastDigestAt ?? null } })
+  } catch (error) {
+    console.error('Error fetching notification settings:', error)
+    return c.json({ success: false, error: 'Failed to fetch notification settings' }, 500)
+  }
+})
+
+notificationRoutes.put('/notification-settings', async (c) => {
+  try {
+    const user = c.get('user')
+    const { digest } = await c.req.json()
+
+    if (!isDigestFrequency(digest)) {
+      return c.json({ success: false, error: 'digest must be off, daily or weekly' }, 400)
+    }
+    if (digest !== 'off' && !user.email) {
+      return c.json({ success: false, error: 'An email address is required for digests' }, 400)
+    }
+
+    const existing = await repo.notifications.getSettings(user.id)
+    const settings = await repo.notifications.saveSettings({
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      digest,
+      lastDigestAt: existing?.lastDigestAt ?? null,
+      updatedAt: new Date().toISOString()
+    })
+
+    return c.json({ success: true, data: { digest: settings.digest, lastDigestAt: settings.lastDigestAt } })
+  } catch (error) {
+    console.error('Error saving notification settings:', error)
+    return c.json({ success: false, error: 'Failed to save notification settings' }, 500)
+  }
+})
+
+// Run the digest job; pg_cron calls this hourly (see the digest_schedule migration), admins may run it any time
+notificationRoutes.post('/notifications/digests', requireRole('admin'), async (c) => {
+  try {
+    return c.json({ success: true, data: await sendDigests() })
+  } catch (error) {
+    console.error('Error sending digests:', error)
+    return c.json({ success: false, error: 'Failed to send digests' }, 500)
+  }
+})
@@ -0,0 +1,141 @@
+import { createMiddleware } from 'npm:hono/factory'
+import type { Context } from 'npm:hono'
+import * as repo from './repository.tsx'
+import type { AuthEnv } from './auth.tsx'
+import { readResponseData } from './audit.tsx'
+import { sendMail } from './mailer.tsx'
+
+// Notifications for followed companies and reports. New reports notify the company's subscribers,
+// new comments those of the company and of the report; the author is never notified of their own change.
+// Users can also get a daily or weekly digest of their notifications by mail, see sendDigests.
+
+const EXCERPT_LENGTH = 120
+const MAX_DIGEST_ITEMS = 200
+
+const DAY = 24 * 60 * 60 * 1000
+export const DIGEST_INTERVALS: Record<Exclude<repo.DigestFrequency, 'off'>, number> = {
+  daily: DAY,
+  weekly: 7 * DAY
+}
+
+export const isDigestFrequency = (value: unknown): value is repo.DigestFrequency => {
+  return value === 'off' || Object.hasOwn(DIGEST_INTERVALS, value as string)
+}
+
+type NotificationAction = 'report.create' | 'comment.create'
+
+// What a successful request created, read from its response: the report, or the report's comments, among
+// which the new one is found by the id the handler created
+const describeChange = async (action: NotificationAction, c: Context<AuthEnv>, data: any) => {
+  if (action === 'report.create') {
+    return data?.id ? { companyId: data.companyId as string, report: data as repo.Report, comment: null } : null
+  }
+  const companyId = c.req.param('companyId')
+  const reportId = c.req.param('reportId')
+  const createdId = c.get('createdId')
+  const comment: repo.Comment | undefined = Array.isArray(data) ? data.find(comment => comment.id === createdId) : undefined
+  const report = companyId && reportId ? await repo.reports.get(companyId, reportId) : null
+  return comment && report ? { companyId: report.companyId, report, comment } : null
+}
+
+// Runs after the route handler and notifies the subscribers when it succeeded
+export const notifySubscribers = (action: NotificationAction) => createMiddleware<AuthEnv>(async (c, next) => {
+  await next()
+
+  if (!c.res.ok) return
+
+  try {
+    const change = await describeChange(action, c, await readResponseData(c.res))
+    if (!change) return
+
+    const actor = c.get('user')
+    const subscribers = await repo.subscriptions.listSubscribers(
+      change.companyId,
+      change.comment ? change.report.id : undefined
+    )
+    // A user following both the company and the report gets one notification
+    const userIds = [...new Set(subscribers.map(subscription => subscription.userId))].filter(id => id !== actor.id)
+    const createdAt = new Date().toISOString()
+
+    await repo.notifications.addMany(userIds.map(userId => ({
+      id: crypto.randomUUID(),
+      userId,
+      action,
+      companyId: change.companyId,
+      reportId: change.report.id,
+      commentId: change.comment?.id ?? null,
+      actorId: actor.id,
+      actorName: actor.name,
+      title: change.report.title,
+      excerpt: change.comment ? change.comment.content.slice(0, EXCERPT_LENGTH) : '',
+      readAt: null,
+      createdAt
+    })))
+  } catch (error) {
+    // The report or comment was saved; missing notifications must not turn it into an error
+    console.error(`Error creating notifications for ${action}:`, error)
+  }
+})
+
+const formatDigest = (settings: repo.NotificationSettings, items: repo.Notification[], companyNames: Map<string, string>) => {
+  const label = settings.digest === 'weekly' ? '每周' : '每日'
+  const lines = items.map(item => {
+    const company = companyNames.get(item.companyId) ?? '已删除的公司'
+    return item.action === 'report.create'
+      ? `· [${company}] ${item.actorName} 上传了报告《${item.title}》`
+      : `· [${company}] ${item.actorName} 评论了《${item.title}》：${item.excerpt}`
+  })
+  return {
+    to: settings.email,
+    subject: `投资研究${label}摘要：${items.length} 条新动态`,
+    text: [`${settings.name || settings.email}，您好：`, '', `以下是您关注的公司和报告的${label}动态：`, '', ...lines].join('\n')
+  }
+}
+
+export type DigestResult = {
+  sent: number
+  failed: number
+}
+
+// Mails every user whose digest is due the notifications created since their last digest.
+// Users without new notifications get no mail; a failed mail is retried on the next run.
+// Each digest is claimed by moving lastDigestAt before it is sent, so runs that overlap send it once.
+export const sendDigests = async (now = Date.now()): Promise<DigestResult> => {
+  const result: DigestResult = { sent: 0, failed: 0 }
+  const companyNames = new Map((await repo.companies.list()).map(company => [company.id, company.name]))
+
+  for (const settings of await repo.notifications.listDigestSettings()) {
+    if (settings.digest === 'off') continue
+    const interval = DIGEST_INTERVALS[settings.digest]
+    const last = settings.lastDigestAt ? new Date(settings.lastDigestAt).getTime() : null
+    if (last !== null && now - last < interval) continue
+
+    const claimedAt = new Date(now).toISOString()
+    try {
+      if (!await repo.notifications.claimDigest(settings.userId, settings.lastDigestAt, claimedAt)) continue
+    } catch (error) {
+      console.error(`Error claiming digest of user ${settings.userId}:`, error)
+      result.failed++
+      continue
+    }
+
+    try {
+      const items = await repo.notifications.listByUser(settings.userId, {
+        since: new Date(last ?? now - interval).toISOString(),
+        limit: MAX_DIGEST_ITEMS
+      })
+      if (items.length > 0) {
+        await sendMail(formatDigest(settings, items, companyNames))
+        result.sent++
+      }
+    } catch (error) {
+      console.error(`Error sending digest to user ${settings.userId}:`, error)
+      result.failed++
+      // Hand the digest back to the next run
+      await repo.notifications.claimDigest(settings.userId, claimedAt, settings.lastDigestAt)
+        .catch(error => console.error(`Error releasing digest of user ${settings.userId}:`, error))
+    }
+  }
+
+  return result
+}
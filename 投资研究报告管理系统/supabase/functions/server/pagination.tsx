@@ -0,0 +1,60 @@
+import type { Context } from 'npm:hono'
+
+// Cursor pagination for the company and report lists. A page holds up to limit items and the cursor
+// of the next one, null on the last page. The cursor is the sort key of the last item returned
+// (see the *_SORTS specs in repository.tsx), so items added or moved while a client scrolls do not
+// shift the pages after it. Clients treat cursors as opaque strings.
+
+export const DEFAULT_PAGE_SIZE = 30
+export const MAX_PAGE_SIZE = 100
+
+export type PageParams = {
+  limit: number
+  // Sort key of the last item of the previous page, null for the first page
+  after: unknown[] | null
+}
+
+// base64url of the JSON key
+export const encodeCursor = (key: unknown[]) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(key))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export const decodeCursor = (cursor: string): unknown[] | null => {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const key = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))))
+    const isKey = Array.isArray(key) && key.every(value => value === null || typeof value === 'string' || typeof value === 'number')
+    return isKey ? key : null
+  } catch {
+    return null
+  }
+}
+
+// A request asks for a page by passing limit, cursor, sort or any of the list's filters; without them
+// the handlers return the whole list, which the reorder dialogs and client-side views rely on
+export const wantsPage = (c: Context, filters: string[]) => {
+  return ['limit', 'cursor', 'sort', ...filters].some(name => c.req.query(name) !== undefined)
+}
+
+// Repeatable params like ?tag=a&tag=b, without duplicates or empty values
+export const queryList = (c: Context, name: string) => [...new Set((c.req.queries(name) ?? []).filter(Boolean))]
+
+// Trimmed, or undefined when missing or blank
+export const queryText = (c: Context, name: string) => c.req.query(name)?.trim() || undefined
+
+// Returns the page parameters, or an error message
+export const parsePageParams = (c: Context): PageParams | string => {
+  const { limit: limitParam, cursor } = c.req.query()
+
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return `limit must be between 1 and ${MAX_PAGE_SIZE}`
+  }
+
+  if (!cursor) {
+    return { limit, after: null }
+  }
+  const after = decodeCursor(cursor)
+  return after ? { limit, after } : 'Invalid cursor'
+}
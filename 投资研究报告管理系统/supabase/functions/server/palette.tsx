@@ -0,0 +1,4 @@
+// Colour names tags and taxonomy terms pick from; the client maps each name to its own classes
+export const COLORS = ['slate', 'red', 'orange', 'amber', 'green', 'emerald', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const
+
+export const isColor = (value: unknown) => COLORS.includes(value as typeof COLORS[number])
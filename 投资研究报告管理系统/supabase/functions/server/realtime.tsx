@@ -0,0 +1,67 @@
+// Change feed for open clients. Every audited mutation is also published as a ChangeEvent
+// on the private Supabase Realtime channel `changes`; the browser applies it to the page it shows
+// and drops its cached responses. DATA_BACKEND=memory keeps the events in memory instead.
+
+export const CHANGES_TOPIC = 'changes'
+
+export type ChangeEvent = {
+  action: string
+  entityType: string
+  entityId: string | null
+  companyId: string | null
+  reportId: string | null
+  actorId: string
+  actorName: string
+  // The route's response data, or the entity after the change when the route returns none (reorders)
+  data: unknown
+  createdAt: string
+}
+
+export type ChangePublisher = {
+  publish: (event: ChangeEvent) => Promise<void>
+}
+
+// Uses the Realtime REST endpoint, so the function never has to hold a socket open
+export const createSupabasePublisher = (url: string, serviceRoleKey: string): ChangePublisher => ({
+  async publish(event) {
+    const response = await fetch(`${url}/realtime/v1/api/broadcast`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': serviceRoleKey,
+        'Authorization': `Bearer ${serviceRoleKey}`
+      },
+      body: JSON.stringify({
+        messages: [{ topic: CHANGES_TOPIC, event: 'change', payload: event, private: true }]
+      })
+    })
+    if (!response.ok) {
+      throw new Error(`Broadcast failed with ${response.status}: ${await response.text()}`)
+    }
+  }
+})
+
+export type MemoryPublisher = ChangePublisher & {
+  events: ChangeEvent[]
+}
+
+export const createMemoryPublisher = (): MemoryPublisher => {
+  const events: ChangeEvent[] = []
+  return {
+    events,
+    async publish(event) {
+      events.push(structuredClone(event))
+    }
+  }
+}
+
+let publisher: ChangePublisher = Deno.env.get('DATA_BACKEND') === 'memory'
+  ? createMemoryPublisher()
+  : createSupabasePublisher(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+// Lets tests swap in their own publisher
+export const setPublisher = (next: ChangePublisher) => {
+  publisher = next
+}
+
+export const publish = (event: ChangeEvent) => publisher.publish(event)
@@ -1,45 +1,193 @@
-import { Hono } from 'npm:hono'
-import { createClient } from 'npm:@supabase/supabase-js@2'
-import * as kv from './kv_store.tsx'
+import { Hono, type Context } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { storage } from './storage.tsx'
+import { requireRole, type AuthEnv, type AuthUser } from './auth.tsx'
+import { indexReport, removeReportIndex } from './search-index.tsx'
+import { createVersion, getReportVersions, withVersion } from './report-versions.tsx'
+import { getFileType } from './file-kinds.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { notifySubscribers } from './notifications.tsx'
+import { conflict, etag, isOrderUpdateList, matchesIfMatch } from './concurrency.tsx'
+import { checkTerm } from './taxonomy-handlers.tsx'
+import { resolveAnalyst } from './analyst-handlers.tsx'
+import { parsePageParams, queryList, queryText, wantsPage } from './pagination.tsx'
 
-const supabase = createClient(
-  Deno.env.get('SUPABASE_URL')!,
-  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-)
+export const reportRoutes = new Hono<AuthEnv>()
 
-export const reportRoutes = new Hono()
+export const reportTarget: AuditTarget = {
+  entityType: 'report',
+  id: (c, data) => c.req.param('reportId') ?? data?.id,
+  load: (c, id) => id ? repo.reports.get(c.req.param('companyId')!, id) : null
+}
 
-// Get reports for a company - OPTIMIZED to reduce N+1 queries
+// Logged against the company: the entry records each report's new position
+const reportOrderTarget: AuditTarget = {
+  entityType: 'company',
+  id: (c) => c.req.param('companyId'),
+  load: async (c) => Object.fromEntries((await repo.reports.listByCompany(c.req.param('companyId')!)).map(report => [report.id, report.order ?? null]))
+}
+
+// A date like 2026-10-19, as the edit dialog sends it, or a timestamp with a UTC offset
+const ISO_8601 = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2}))?$/
+
+// The timestamp in Date.toISOString() form, or null when value is not an ISO 8601 date or timestamp
+const parseTimestamp = (value: unknown) => {
+  const match = typeof value === 'string' ? ISO_8601.exec(value) : null
+  if (!match) {
+    return null
+  }
+  // Date rolls days like 02-30 over into the next month instead of rejecting them
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  const time = new Date(value as string).getTime()
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+type NewReportFields = {
+  title: string
+  analyst: string
+  category: string
+}
+
+// A file assembled from the chunks of a resumable upload while it streams into storage
+export type StreamedFile = { name: string; size: number; stream: ReadableStream<Uint8Array> }
+
+// Store the file and metadata of a new report; shared by direct and resumable uploads
+export const createReport = async (companyId: string, fields: NewReportFields, file: File | StreamedFile, user: AuthUser) => {
+  // Generate unique file path
+  const reportId = crypto.randomUUID()
+  const fileExtension = file.name.split('.').pop()
+  const filePath = `${companyId}/${reportId}.${fileExtension}`
+  
+  // Upload file to storage
+  try {
+    const data = file instanceof File ? file : file.stream
+    await storage.upload('make-78971119-reports', filePath, data, { contentType: getFileType(file.name)?.mimeType })
+  } catch (uploadError) {
+    console.error('Storage upload error:', uploadError)
+    throw new Error('Failed to upload file')
+  }
+  
+  // Create report metadata
+  const version = createVersion(1, file, filePath, user)
+  let report: repo.Report
+
+  // Nothing points at the uploaded file until the report is saved, so remove it when that fails
+  try {
+    // Get current max order for this company
+    const maxOrder = await repo.reports.maxOrder(companyId)
+
+    report = {
+      id: reportId,
+      companyId,
+      ...fields,
+      fileName: version.fileName,
+      fileSize: version.fileSize,
+      filePath,
+      fileKind: version.fileKind!,
+      currentVersion: 1,
+      versions: [version],
+      order: maxOrder + 1,
+      revision: 1,
+      comments: [],
+      tagIds: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+
+    await repo.reports.save(report)
+  } catch (error) {
+    await storage.remove('make-78971119-reports', [filePath])
+      .catch(removeError => console.error('Error removing uploaded file:', removeError))
+    throw error
+  }
+  
+  // Extract the PDF text for full-text search; other file kinds are found by metadata only. Text
+  // extraction needs the whole PDF, so a streamed file is read back from storage
+  if (version.fileKind === 'pdf') {
+    await indexReport(reportId, file instanceof File ? file : () => storage.download('make-78971119-reports', filePath))
+  }
+  
+  return report
+}
+
+const REPORT_SORTS: repo.ReportSort[] = ['order', 'newest', 'oldest']
+
+const REPORT_FILTERS = ['category', 'analyst', 'from', 'to', 'tag', 'q']
+
+const isValidDate = (value: string) => !Number.isNaN(new Date(value).getTime())
+
+// Returns the query for a page of reports, or an error message
+const parseReportQuery = (c: Context, sorts: repo.ReportSort[]): repo.ReportQuery | string => {
+  const page = parsePageParams(c)
+  if (typeof page === 'string') {
+    return page
+  }
+
+  const sort = (c.req.query('sort') ?? sorts[0]) as repo.ReportSort
+  if (!sorts.includes(sort)) {
+    return `Unknown sort: ${sort}`
+  }
+
+  const from = queryText(c, 'from')
+  const to = queryText(c, 'to')
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return 'from and to must be ISO dates'
+  }
+
+  return {
+    companyType: queryText(c, 'companyType'),
+    category: queryText(c, 'category'),
+    analyst: queryText(c, 'analyst'),
+    from: from && new Date(from).toISOString(),
+    to: to && new Date(to).toISOString(),
+    tagIds: queryList(c, 'tag'),
+    q: queryText(c, 'q'),
+    sort,
+    ...page
+  }
+}
+
+// The newest reports across all companies, one page as { items, nextCursor }, without comments.
+// Params: companyType and those of a company's report list below; sort is newest or oldest
+reportRoutes.get('/reports', async (c) => {
+  try {
+    const query = parseReportQuery(c, ['newest', 'oldest'])
+    if (typeof query === 'string') {
+      return c.json({ success: false, error: query }, 400)
+    }
+
+    return c.json({ success: true, data: await repo.reports.page(query) })
+  } catch (error) {
+    console.error('Error fetching report feed:', error)
+    return c.json({ success: false, error: 'Failed to fetch reports' }, 500)
+  }
+})
+
+// Get reports for a company with their comments in a single query, all of them or one page as { items, nextCursor }.
+// Page params: category, analyst, from and to (ISO dates, inclusive), tag (repeatable, all must match),
+// q (title, analyst or file name), sort (order, newest or oldest), limit and cursor
 reportRoutes.get('/companies/:companyId/reports', async (c) => {
   try {
     const companyId = c.req.param('companyId')
-    
-    // Get all reports for this company
-    const reports = await kv.getByPrefix(`report:${companyId}:`)
-    
-    // Batch load all comments for all reports in one operation
-    const commentPromises = reports.map(report => 
-      kv.getByPrefix(`comment:${companyId}:${report.id}:`)
-    )
-    
-    const commentsResults = await Promise.all(commentPromises)
-    
-    // Attach comments to reports
-    reports.forEach((report, index) => {
-      const comments = commentsResults[index]
-      report.comments = comments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-    })
-    
-    // Sort reports by order, then by creation date (newest first)
-    reports.sort((a, b) => {
-      const orderA = a.order ?? 999999;
-      const orderB = b.order ?? 999999;
-      if (orderA !== orderB) {
-        return orderA - orderB;
-      }
-      return new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime();
-    });
-    
+
+    if (!wantsPage(c, REPORT_FILTERS)) {
+      // Sorted by order, then by creation date (newest first)
+      const reports = await repo.reports.listByCompany(companyId, { withComments: true })
+
+      return c.json({ success: true, data: reports })
+    }
+
+    const query = parseReportQuery(c, REPORT_SORTS)
+    if (typeof query === 'string') {
+      return c.json({ success: false, error: query }, 400)
+    }
+
+    const reports = await repo.reports.pageByCompany(companyId, query)
+
     return c.json({ success: true, data: reports })
   } catch (error) {
     console.error('Error fetching reports:', error)
@@ -47,8 +195,18 @@ reportRoutes.get('/companies/:companyId/reports', async (c) => {
   }
 })
 
+// Counts for the filters above a company's report list, which only holds the pages loaded so far
+reportRoutes.get('/companies/:companyId/reports/stats', async (c) => {
+  try {
+    return c.json({ success: true, data: await repo.reports.getStats(c.req.param('companyId')) })
+  } catch (error) {
+    console.error('Error fetching report stats:', error)
+    return c.json({ success: false, error: 'Failed to fetch report stats' }, 500)
+  }
+})
+
 // Upload report
-reportRoutes.post('/companies/:companyId/reports', async (c) => {
+reportRoutes.post('/companies/:companyId/reports', requireRole('analyst'), audit('report.create', reportTarget), notifySubscribers('report.create'), async (c) => {
   try {
     const companyId = c.req.param('companyId')
     const formData = await c.req.formData()
@@ -62,49 +220,25 @@ reportRoutes.post('/companies/:companyId/reports', async (c) => {
       return c.json({ success: false, error: 'Missing required fields' }, 400)
     }
     
-    if (!file.type.includes('pdf')) {
-      return c.json({ success: false, error: 'Only PDF files are allowed' }, 400)
+    if (!getFileType(file.name)) {
+      return c.json({ success: false, error: 'Unsupported file type' }, 400)
     }
     
-    // Generate unique file path
-    const reportId = crypto.randomUUID()
-    const fileExtension = file.name.split('.').pop()
-    const filePath = `${companyId}/${reportId}.${fileExtension}`
-    
-    // Upload file to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('make-78971119-reports')
-      .upload(filePath, file)
+    const unknownCategory = await checkTerm('report_category', category)
+    if (unknownCategory) {
+      return c.json({ success: false, error: unknownCategory }, 400)
+    }
     
-    if (uploadError) {
-      console.error('Storage upload error:', uploadError)
-      return c.json({ success: false, error: 'Failed to upload file' }, 500)
+    if (!await repo.companies.get(companyId)) {
+      return c.json({ success: false, error: 'Company not found' }, 404)
     }
     
-    // Get current max order for this company
-    const existingReports = await kv.getByPrefix(`report:${companyId}:`)
-    const maxOrder = existingReports.reduce((max, report) => {
-      const order = report.order ?? 0;
-      return Math.max(max, order);
-    }, -1);
-    
-    // Create report metadata
-    const report = {
-      id: reportId,
-      companyId,
-      title,
-      analyst,
-      category,
-      fileName: file.name,
-      fileSize: `${(file.size / 1024 / 1024).toFixed(1)}MB`,
-      filePath,
-      order: maxOrder + 1,
-      comments: [],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+    const filedUnder = await resolveAnalyst(analyst)
+    if (typeof filedUnder === 'string') {
+      return c.json({ success: false, error: filedUnder }, 400)
     }
     
-    await kv.set(`report:${companyId}:${reportId}`, report)
+    const report = await createReport(companyId, { title, analyst: filedUnder.name, category }, file, c.get('user'))
     
     return c.json({ success: true, data: report })
   } catch (error) {
@@ -114,14 +248,14 @@ reportRoutes.post('/companies/:companyId/reports', async (c) => {
 })
 
 // Update report metadata
-reportRoutes.put('/reports/:companyId/:reportId', async (c) => {
+reportRoutes.put('/reports/:companyId/:reportId', requireRole('analyst'), audit('report.update', reportTarget), async (c) => {
   try {
     const companyId = c.req.param('companyId')
     const reportId = c.req.param('reportId')
     const body = await c.req.json()
     
     // Get existing report
-    const existingReport = await kv.get(`report:${companyId}:${reportId}`)
+    const existingReport = await repo.reports.get(companyId, reportId)
     if (!existingReport) {
       return c.json({ success: false, error: 'Report not found' }, 404)
     }
@@ -134,19 +268,42 @@ reportRoutes.put('/reports/:companyId/:reportId', async (c) => {
       return c.json({ success: false, error: 'Missing required fields: title, analyst, category' }, 400)
     }
     
+    const timestamp = createdAt ? parseTimestamp(createdAt) : existingReport.createdAt
+    if (!timestamp) {
+      return c.json({ success: false, error: 'createdAt must be an ISO 8601 date or timestamp' }, 400)
+    }
+    
+    const unknownCategory = await checkTerm('report_category', category)
+    if (unknownCategory) {
+      return c.json({ success: false, error: unknownCategory }, 400)
+    }
+    
+    if (!matchesIfMatch(c, existingReport.revision)) {
+      return conflict(c, 'Report was changed by someone else', existingReport)
+    }
+    
+    const filedUnder = await resolveAnalyst(analyst)
+    if (typeof filedUnder === 'string') {
+      return c.json({ success: false, error: filedUnder }, 400)
+    }
+    
     // Create updated report (preserving file-related fields and comments)
     const updatedReport = {
       ...existingReport,
       title,
-      analyst,
+      analyst: filedUnder.name,
       category,
-      createdAt: createdAt || existingReport.createdAt, // Allow updating creation date
+      createdAt: timestamp, // Allow updating creation date
+      revision: existingReport.revision + 1,
       updatedAt: new Date().toISOString()
     }
     
-    // Save updated report
-    await kv.set(`report:${companyId}:${reportId}`, updatedReport)
+    // Save updated report unless it changed since it was read
+    if (!await repo.reports.update(updatedReport, existingReport.revision)) {
+      return conflict(c, 'Report was changed by someone else', await repo.reports.get(companyId, reportId))
+    }
     
+    c.header('ETag', etag(updatedReport.revision))
     return c.json({ success: true, data: updatedReport })
   } catch (error) {
     console.error('Error updating report:', error)
@@ -154,33 +311,84 @@ reportRoutes.put('/reports/:companyId/:reportId', async (c) => {
   }
 })
 
+// Upload a new file version, keeping earlier files in storage
+reportRoutes.post('/reports/:companyId/:reportId/versions', requireRole('analyst'), audit('report.version', reportTarget), async (c) => {
+  try {
+    const companyId = c.req.param('companyId')
+    const reportId = c.req.param('reportId')
+    const formData = await c.req.formData()
+    
+    const file = formData.get('file') as File
+    const note = (formData.get('note') as string | null)?.trim()
+    
+    if (!file) {
+      return c.json({ success: false, error: 'Missing required fields' }, 400)
+    }
+    
+    if (!getFileType(file.name)) {
+      return c.json({ success: false, error: 'Unsupported file type' }, 400)
+    }
+    
+    const existingReport = await repo.reports.get(companyId, reportId)
+    if (!existingReport) {
+      return c.json({ success: false, error: 'Report not found' }, 404)
+    }
+    
+    const versions = getReportVersions(existingReport)
+    const nextVersion = Math.max(...versions.map(v => v.version)) + 1
+    const fileExtension = file.name.split('.').pop()
+    const filePath = `${companyId}/${reportId}-v${nextVersion}.${fileExtension}`
+    
+    try {
+      await storage.upload('make-78971119-reports', filePath, file, { contentType: getFileType(file.name)?.mimeType })
+    } catch (uploadError) {
+      console.error('Storage upload error:', uploadError)
+      return c.json({ success: false, error: 'Failed to upload file' }, 500)
+    }
+    
+    const version = createVersion(nextVersion, file, filePath, c.get('user'), note)
+    const updatedReport = {
+      ...withVersion(existingReport, version),
+      revision: existingReport.revision + 1,
+      updatedAt: new Date().toISOString()
+    }
+    
+    if (!await repo.reports.update(updatedReport, existingReport.revision)) {
+      await storage.remove('make-78971119-reports', [filePath])
+      return conflict(c, 'Report was changed by someone else', await repo.reports.get(companyId, reportId))
+    }
+    
+    // Search always reflects the latest version
+    if (version.fileKind === 'pdf') {
+      await indexReport(reportId, file)
+    } else {
+      await removeReportIndex(reportId)
+    }
+    
+    return c.json({ success: true, data: updatedReport })
+  } catch (error) {
+    console.error('Error uploading report version:', error)
+    return c.json({ success: false, error: 'Failed to upload report version' }, 500)
+  }
+})
+
 // Reorder reports
-reportRoutes.post('/companies/:companyId/reports/reorder', async (c) => {
+reportRoutes.post('/companies/:companyId/reports/reorder', requireRole('pm'), audit('report.reorder', reportOrderTarget), async (c) => {
   try {
     const companyId = c.req.param('companyId')
     const body = await c.req.json()
     const { orderUpdates } = body
     
-    if (!Array.isArray(orderUpdates)) {
+    if (!isOrderUpdateList(orderUpdates)) {
       return c.json({ success: false, error: 'orderUpdates must be an array' }, 400)
     }
     
-    // Update order for each report
-    const updatePromises = orderUpdates.map(async ({ id, order }) => {
-      const existingReport = await kv.get(`report:${companyId}:${id}`)
-      if (existingReport) {
-        const updatedReport = {
-          ...existingReport,
-          order,
-          updatedAt: new Date().toISOString()
-        }
-        await kv.set(`report:${companyId}:${id}`, updatedReport)
-      }
-    })
-    
-    await Promise.all(updatePromises)
+    // All or nothing: a stale revision means someone else reordered or edited in the meantime
+    if (!await repo.reports.updateOrders(companyId, orderUpdates)) {
+      return conflict(c, 'Reports were changed by someone else', await repo.reports.listByCompany(companyId))
+    }
     
-    return c.json({ success: true })
+    return c.json({ success: true, data: await repo.reports.listByCompany(companyId) })
   } catch (error) {
     console.error('Error reordering reports:', error)
     return c.json({ success: false, error: 'Failed to reorder reports' }, 500)
@@ -193,57 +401,51 @@ reportRoutes.get('/reports/:companyId/:reportId/download', async (c) => {
     const companyId = c.req.param('companyId')
     const reportId = c.req.param('reportId')
     
-    const report = await kv.get(`report:${companyId}:${reportId}`)
+    const report = await repo.reports.get(companyId, reportId)
     if (!report) {
       return c.json({ success: false, error: 'Report not found' }, 404)
     }
     
-    // Generate signed URL for download
-    const { data, error } = await supabase.storage
-      .from('make-78971119-reports')
-      .createSignedUrl(report.filePath, 3600) // 1 hour expiry
+    // Download the latest file unless an older version is requested
+    let filePath = report.filePath
+    const requestedVersion = c.req.query('version')
+    if (requestedVersion) {
+      const version = getReportVersions(report).find(v => v.version === Number(requestedVersion))
+      if (!version) {
+        return c.json({ success: false, error: 'Version not found' }, 404)
+      }
+      filePath = version.filePath
+    }
     
-    if (error) {
+    // Generate signed URL for download
+    let downloadUrl: string
+    try {
+      downloadUrl = await storage.signedUrl('make-78971119-reports', filePath, 3600) // 1 hour expiry
+    } catch (error) {
       console.error('Error creating signed URL:', error)
       return c.json({ success: false, error: 'Failed to generate download link' }, 500)
     }
     
-    return c.json({ success: true, downloadUrl: data.signedUrl })
+    return c.json({ success: true, data: { downloadUrl } })
   } catch (error) {
     console.error('Error generating download link:', error)
     return c.json({ success: false, error: 'Failed to generate download link' }, 500)
   }
 })
 
-// Delete report
-reportRoutes.delete('/reports/:companyId/:reportId', async (c) => {
+// Delete report: it moves to the trash and can be restored for 30 days
+reportRoutes.delete('/reports/:companyId/:reportId', requireRole('pm'), audit('report.delete', reportTarget), async (c) => {
   try {
     const companyId = c.req.param('companyId')
     const reportId = c.req.param('reportId')
     
-    const report = await kv.get(`report:${companyId}:${reportId}`)
+    const report = await repo.reports.get(companyId, reportId)
     if (!report) {
       return c.json({ success: false, error: 'Report not found' }, 404)
     }
     
-    // Delete file from storage
-    const { error: deleteError } = await supabase.storage
-      .from('make-78971119-reports')
-      .remove([report.filePath])
-    
-    if (deleteError) {
-      console.error('Error deleting file from storage:', deleteError)
-    }
-    
-    // Delete all comments for this report
-    const comments = await kv.getByPrefix(`comment:${companyId}:${reportId}:`)
-    const deleteCommentPromises = comments.map(comment => 
-      kv.del(`comment:${companyId}:${reportId}:${comment.id}`)
-    )
-    await Promise.all(deleteCommentPromises)
-    
-    // Delete report metadata
-    await kv.del(`report:${companyId}:${reportId}`)
+    // Files, comments and the search index are kept until the trash is purged
+    await repo.reports.trash(companyId, reportId, new Date().toISOString())
     
     return c.json({ success: true })
   } catch (error) {
@@ -0,0 +1,54 @@
+import type { AuthUser } from './auth.tsx'
+import { getFileType, type FileKind } from './file-kinds.tsx'
+
+export type ReportVersion = {
+  version: number
+  fileName: string
+  fileSize: string
+  filePath: string
+  fileKind?: FileKind
+  uploadedById?: string
+  uploadedByName?: string
+  uploadedAt: string
+  note?: string
+}
+
+export const formatFileSize = (size: number) => `${(size / 1024 / 1024).toFixed(1)}MB`
+
+// Reports uploaded before versioning only carry the file fields; treat them as version 1
+export const getReportVersions = (report: any): ReportVersion[] => {
+  if (Array.isArray(report.versions) && report.versions.length > 0) {
+    return report.versions
+  }
+  return [{
+    version: 1,
+    fileName: report.fileName,
+    fileSize: report.fileSize,
+    filePath: report.filePath,
+    uploadedByName: report.analyst,
+    uploadedAt: report.createdAt
+  }]
+}
+
+export const createVersion = (version: number, file: { name: string; size: number }, filePath: string, user: AuthUser, note?: string): ReportVersion => ({
+  version,
+  fileName: file.name,
+  fileSize: formatFileSize(file.size),
+  filePath,
+  fileKind: getFileType(file.name)?.kind ?? 'pdf',
+  uploadedById: user.id,
+  uploadedByName: user.name,
+  uploadedAt: new Date().toISOString(),
+  ...(note ? { note } : {})
+})
+
+// The top-level file fields always mirror the latest version
+export const withVersion = (report: any, version: ReportVersion) => ({
+  ...report,
+  fileName: version.fileName,
+  fileSize: version.fileSize,
+  filePath: version.filePath,
+  fileKind: version.fileKind,
+  currentVersion: version.version,
+  versions: [...getReportVersions(report), version]
+})
@@ -0,0 +1,2500 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import type { FileKind } from './file-kinds.tsx'
+import type { ReportVersion } from './report-versions.tsx'
+import { encodeCursor } from './pagination.tsx'
+
+// Data access for the companies, reports, comments, tags, taxonomy_terms, analysts, watchlists, notification, report_pages
+// and audit_log tables.
+// Handlers work with the camelCase objects below; rows never leave this module.
+// Lists come back ordered by sort_order (unordered rows last), newest first; page queries return
+// filtered lists one page at a time in the order the caller picks, see pagination.tsx.
+// DATA_BACKEND=memory or setRepository swaps the Supabase tables for an in-memory store.
+// Deleted companies and reports stay in the trash (deletedAt set) until purged; only the
+// listTrashed/getTrashed methods see them, and the reports of a trashed company are hidden with it.
+// Companies and reports carry a revision that every write increments; update and updateOrders only
+// write while the stored revision is still the one the caller read.
+
+export type Company = {
+  id: string
+  name: string
+  code: string
+  type: string
+  description: string
+  iconUrl?: string
+  order?: number
+  revision: number
+  // Written with tags.setCompanyTags, never by save or update
+  tagIds?: string[]
+  createdAt: string
+  updatedAt: string
+  deletedAt?: string
+}
+
+export type Comment = {
+  id: string
+  content: string
+  authorId?: string
+  authorName?: string
+  parentId: string | null
+  anchor: any
+  mentions: string[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export type Report = {
+  id: string
+  companyId: string
+  title: string
+  analyst: string
+  category: string
+  fileName: string
+  fileSize: string
+  filePath: string
+  fileKind: FileKind
+  currentVersion: number
+  versions: ReportVersion[]
+  order?: number
+  revision: number
+  comments?: Comment[]
+  // Written with tags.setReportTags, never by save or update
+  tagIds?: string[]
+  createdAt: string
+  updatedAt: string
+  deletedAt?: string
+}
+
+export type Tag = {
+  id: string
+  name: string
+  // One of the preset colour names, see palette.tsx
+  color: string
+  createdAt: string
+  updatedAt: string
+}
+
+// How many companies and reports outside the trash carry the tag
+export type TagUsage = Tag & { companyCount: number; reportCount: number }
+
+// Stock types are the values of Company.type, report categories those of Report.category
+export type TaxonomyKind = 'stock_type' | 'report_category'
+
+export type TaxonomyTerm = {
+  id: string
+  kind: TaxonomyKind
+  label: string
+  // One of the preset colour names, see palette.tsx
+  color: string
+  order: number
+  createdAt: string
+  updatedAt: string
+}
+
+// Reports name their analyst in Report.analyst
+export type Analyst = {
+  id: string
+  name: string
+  // Job title, e.g. 首席分析师
+  title: string
+  // Team or firm the analyst works for
+  team: string
+  email: string
+  bio: string
+  createdAt: string
+  updatedAt: string
+}
+
+// How many reports outside the trash the analyst wrote, on how many companies, and when the latest was
+export type AnalystUsage = Analyst & { reportCount: number; companyCount: number; latestReportAt: string | null }
+
+// An analyst's reports outside the trash per company, most recently covered first; per UTC month
+// like 2026-09, oldest first and months without reports left out; and per category
+export type AnalystActivity = {
+  reportCount: number
+  latestReportAt: string | null
+  coverage: { companyId: string; reportCount: number; latestReportAt: string }[]
+  activity: { month: string; count: number }[]
+  categories: Record<string, number>
+}
+
+// Updates without a revision are applied unchecked
+export type OrderUpdate = { id: string; order: number; revision?: number }
+
+// A user's own list of companies; companyIds is in the user's order
+export type Watchlist = {
+  id: string
+  ownerId: string
+  name: string
+  companyIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+// A user follows a whole company, or a single report of it when reportId is set
+export type Subscription = {
+  id: string
+  userId: string
+  companyId: string
+  reportId: string | null
+  createdAt: string
+}
+
+export type Notification = {
+  id: string
+  userId: string
+  // report.create or comment.create
+  action: string
+  companyId: string
+  reportId: string
+  commentId: string | null
+  actorId: string
+  actorName: string
+  // Title of the report
+  title: string
+  // Start of the comment; empty for new reports
+  excerpt: string
+  readAt: string | null
+  createdAt: string
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly'
+
+export type NotificationSettings = {
+  userId: string
+  // Digests are mailed here
+  email: string
+  name: string
+  digest: DigestFrequency
+  lastDigestAt: string | null
+  updatedAt: string
+}
+
+export type NotificationFilter = {
+  unreadOnly?: boolean
+  // ISO timestamp, exclusive
+  since?: string
+  limit: number
+}
+
+export type AuditChange = { before: unknown; after: unknown }
+
+export type AuditEntry = {
+  id: string
+  actorId: string
+  actorName: string
+  // e.g. company.update or comment.delete
+  action: string
+  entityType: string
+  entityId: string | null
+  companyId: string | null
+  changes: Record<string, AuditChange>
+  createdAt: string
+}
+
+export type AuditFilter = {
+  companyId?: string
+  entityType?: string
+  entityId?: string
+  actorId?: string
+  action?: string
+  // ISO timestamps, inclusive
+  from?: string
+  to?: string
+  limit: number
+}
+
+export type Page<T> = {
+  items: T[]
+  // Null on the last page
+  nextCursor: string | null
+}
+
+// A company's reports outside the trash; analysts in code point order
+export type CompanyReportStats = {
+  total: number
+  categories: Record<string, number>
+  analysts: string[]
+  latestReportDate: string | null
+}
+
+export type CompanySort = 'order' | 'newest'
+
+export type CompanyQuery = {
+  type?: string
+  // Companies carrying all of these tags
+  tagIds?: string[]
+  // Part of the name or code, case-insensitive
+  q?: string
+  sort: CompanySort
+  limit: number
+  // Sort key of the last company of the previous page
+  after: unknown[] | null
+}
+
+export type ReportSort = 'order' | 'newest' | 'oldest'
+
+export type ReportQuery = {
+  // Type of the report's company
+  companyType?: string
+  category?: string
+  analyst?: string
+  // ISO timestamps on createdAt, inclusive
+  from?: string
+  to?: string
+  // Reports carrying all of these tags
+  tagIds?: string[]
+  // Part of the title, analyst or file name, case-insensitive
+  q?: string
+  sort: ReportSort
+  limit: number
+  // Sort key of the last report of the previous page
+  after: unknown[] | null
+}
+
+export type CompanyRepository = {
+  list(): Promise<Company[]>
+  // Carrying the tag, in list order
+  listByTag(tagId: string): Promise<Company[]>
+  page(query: CompanyQuery): Promise<Page<Company>>
+  get(id: string): Promise<Company | null>
+  // Most recently deleted first
+  listTrashed(): Promise<Company[]>
+  getTrashed(id: string): Promise<Company | null>
+  maxOrder(): Promise<number>
+  save(company: Company): Promise<Company>
+  saveMany(items: Company[]): Promise<void>
+  // False, writing nothing, when the stored revision is no longer expectedRevision
+  update(company: Company, expectedRevision: number): Promise<boolean>
+  // False, writing nothing, when any update names a stale revision. Moved companies get a new revision
+  updateOrders(updates: OrderUpdate[]): Promise<boolean>
+  trash(id: string, deletedAt: string): Promise<void>
+  restore(id: string): Promise<void>
+  // Permanently removes the company, its reports and their comments in one statement
+  remove(id: string): Promise<void>
+}
+
+export type ReportRepository = {
+  listByCompany(companyId: string, options?: { withComments?: boolean }): Promise<Report[]>
+  // With comments, like listByCompany for the report list
+  pageByCompany(companyId: string, query: ReportQuery): Promise<Page<Report>>
+  // Across all companies, without comments
+  page(query: ReportQuery): Promise<Page<Report>>
+  getStats(companyId: string): Promise<CompanyReportStats>
+  // Reports outside the trash per company, trashed companies included; companies without any are left out
+  countByCompany(companyIds: string[]): Promise<Record<string, number>>
+  // Every report of the companies, trashed ones included, so purging can find all their files
+  listIncludingTrashed(companyIds: string[]): Promise<Report[]>
+  // Reports deleted on their own; those of a trashed company come back with it. Most recently deleted first
+  listTrashed(): Promise<Report[]>
+  get(companyId: string, reportId: string): Promise<Report | null>
+  getTrashed(companyId: string, reportId: string): Promise<Report | null>
+  maxOrder(companyId: string): Promise<number>
+  save(report: Report): Promise<Report>
+  update(report: Report, expectedRevision: number): Promise<boolean>
+  updateOrders(companyId: string, updates: OrderUpdate[]): Promise<boolean>
+  trash(companyId: string, reportId: string, deletedAt: string): Promise<void>
+  restore(companyId: string, reportId: string): Promise<void>
+  // Permanently removes the report and its comments
+  remove(companyId: string, reportId: string): Promise<void>
+}
+
+export type CommentRepository = {
+  listByReport(reportId: string): Promise<Comment[]>
+  get(reportId: string, commentId: string): Promise<Comment | null>
+  save(reportId: string, comment: Comment): Promise<Comment>
+  // Also removes the comment's replies
+  remove(reportId: string, commentId: string): Promise<void>
+}
+
+export type TagRepository = {
+  // By name
+  list(): Promise<Tag[]>
+  listUsage(): Promise<TagUsage[]>
+  get(id: string): Promise<Tag | null>
+  getUsage(id: string): Promise<TagUsage | null>
+  save(tag: Tag): Promise<Tag>
+  // Also takes the tag off every company and report
+  remove(id: string): Promise<void>
+  // Replace all tags of a company or report in one go
+  setCompanyTags(companyId: string, tagIds: string[]): Promise<void>
+  setReportTags(reportId: string, tagIds: string[]): Promise<void>
+}
+
+export type TaxonomyRepository = {
+  // By order
+  list(kind: TaxonomyKind): Promise<TaxonomyTerm[]>
+  get(id: string): Promise<TaxonomyTerm | null>
+  // Adds a new term
+  save(term: TaxonomyTerm): Promise<TaxonomyTerm>
+  // Saves label and colour. A new label is carried over to every company or report filed under
+  // the old one, trashed ones included, and those get a new revision
+  update(term: TaxonomyTerm): Promise<void>
+  remove(id: string): Promise<void>
+  // Companies or reports filed under the label, trashed ones included
+  countUsage(kind: TaxonomyKind, label: string): Promise<number>
+  // Numbers the terms of a kind in the order of ids
+  reorder(kind: TaxonomyKind, ids: string[]): Promise<void>
+}
+
+export type AnalystRepository = {
+  // By name
+  list(): Promise<Analyst[]>
+  listUsage(): Promise<AnalystUsage[]>
+  get(id: string): Promise<Analyst | null>
+  getActivity(name: string): Promise<AnalystActivity>
+  // Case-insensitive, like the analysts_name_idx index
+  findByName(name: string): Promise<Analyst | null>
+  // Adds a new analyst
+  save(analyst: Analyst): Promise<Analyst>
+  // Saves the profile. A new name is carried over to every report of the analyst, trashed ones
+  // included, and those get a new revision
+  update(analyst: Analyst): Promise<void>
+  // Moves the reports of the sources to the target's name and deletes the sources, in one transaction
+  merge(targetId: string, sourceIds: string[], updatedAt: string): Promise<void>
+  remove(id: string): Promise<void>
+  // Reports under the name, trashed ones included
+  countUsage(name: string): Promise<number>
+}
+
+// Every method is scoped to the owner, so one user can never reach another user's lists
+export type WatchlistRepository = {
+  // Oldest first
+  listByOwner(ownerId: string): Promise<Watchlist[]>
+  get(ownerId: string, id: string): Promise<Watchlist | null>
+  // Name and timestamps only; companies are written with setCompanies
+  save(watchlist: Watchlist): Promise<Watchlist>
+  // Replaces the companies and their order in one go
+  setCompanies(ownerId: string, id: string, companyIds: string[]): Promise<void>
+  remove(ownerId: string, id: string): Promise<void>
+}
+
+export type SubscriptionRepository = {
+  // Newest first
+  listByUser(userId: string): Promise<Subscription[]>
+  // Subscriptions to the company, plus those to the report when one is given
+  listSubscribers(companyId: string, reportId?: string): Promise<Subscription[]>
+  // Subscribing twice keeps the first subscription
+  save(subscription: Subscription): Promise<void>
+  remove(userId: string, companyId: string, reportId: string | null): Promise<void>
+}
+
+export type NotificationRepository = {
+  addMany(notifications: Notification[]): Promise<void>
+  // Newest first
+  listByUser(userId: string, filter: NotificationFilter): Promise<Notification[]>
+  countUnread(userId: string): Promise<number>
+  // Marks the given notifications, or all of the user's unread ones when ids is omitted
+  markRead(userId: string, readAt: string, ids?: string[]): Promise<void>
+  getSettings(userId: string): Promise<NotificationSettings | null>
+  saveSettings(settings: NotificationSettings): Promise<NotificationSettings>
+  // Settings of every user whose digest is not off
+  listDigestSettings(): Promise<NotificationSettings[]>
+  // Moves the user's lastDigestAt from previous to next; false when it no longer is previous because
+  // another digest run got there first
+  claimDigest(userId: string, previous: string | null, next: string | null): Promise<boolean>
+}
+
+// An excerpt of a page that mentions a search term; the matched words in headline are wrapped in
+// HEADLINE_START and HEADLINE_STOP
+export type SearchExcerpt = {
+  page: number
+  headline: string
+  // Whether the page has text before or after the excerpt
+  moreBefore: boolean
+  moreAfter: boolean
+}
+
+export const HEADLINE_START = '\u0002'
+export const HEADLINE_STOP = '\u0003'
+
+export type SearchHit = {
+  reportId: string
+  companyId: string
+  companyName: string
+  companyCode: string
+  title: string
+  analyst: string
+  category: string
+  createdAt: string
+  // Pages mentioning any of the terms
+  matchCount: number
+  matches: SearchExcerpt[]
+}
+
+// Extracted PDF text, one entry per page in page order
+export type SearchRepository = {
+  getPages(reportId: string): Promise<string[]>
+  // Replaces the pages of the report
+  setPages(reportId: string, pages: string[]): Promise<void>
+  removePages(reportId: string): Promise<void>
+  // Reports outside the trash where every term appears in the title, analyst, category or some page,
+  // the most matching pages first, then the newest; matches excerpts the first pages mentioning a term
+  search(terms: string[], options: { limit: number; snippets: number }): Promise<SearchHit[]>
+}
+
+// Dashboard numbers over companies, reports and comments outside the trash. Months are UTC months
+// like 2026-09, oldest first, and months without reports or comments are left out; rankings put
+// the highest count first, ties by name
+export type DashboardStats = {
+  totals: { companies: number; reports: number; analysts: number; reportsInPeriod: number; commentsInPeriod: number }
+  reportsPerMonth: { month: string; count: number }[]
+  byCategory: { category: string; count: number }[]
+  byStockType: { type: string; count: number; companyCount: number }[]
+  // analystId is null for names missing from the directory
+  topAnalysts: { analystId: string | null; name: string; count: number; companyCount: number }[]
+  commentActivity: { month: string; count: number; commenters: number }[]
+  mostDiscussed: { reportId: string; companyId: string; title: string; count: number }[]
+  // Never-covered companies first, then the longest silent
+  staleCompanies: { companyId: string; name: string; code: string; type: string; latestReportAt: string | null }[]
+}
+
+export type StatsOptions = {
+  // Start of the period that everything but the totals of companies, reports and analysts covers
+  since: string
+  // Companies whose latest report is older than this are stale
+  staleBefore: string
+  topAnalysts: number
+  mostDiscussed: number
+}
+
+export type StatsRepository = {
+  get(options: StatsOptions): Promise<DashboardStats>
+}
+
+// Append-only: entries are never updated or deleted
+export type AuditRepository = {
+  append(entry: AuditEntry): Promise<void>
+  // Newest first
+  list(filter: AuditFilter): Promise<AuditEntry[]>
+}
+
+export type Repository = {
+  companies: CompanyRepository
+  reports: ReportRepository
+  comments: CommentRepository
+  tags: TagRepository
+  taxonomies: TaxonomyRepository
+  analysts: AnalystRepository
+  watchlists: WatchlistRepository
+  subscriptions: SubscriptionRepository
+  notifications: NotificationRepository
+  search: SearchRepository
+  stats: StatsRepository
+  audit: AuditRepository
+}
+
+// Rows come back with ISO timestamps in the database's format; normalise them to Date.toISOString()
+const toIso = (value: string | null) => value ? new Date(value).toISOString() : undefined
+
+const fromCompanyRow = (row: any): Company => ({
+  id: row.id,
+  name: row.name,
+  code: row.code,
+  type: row.type,
+  description: row.description,
+  iconUrl: row.icon_url ?? undefined,
+  order: row.sort_order ?? undefined,
+  revision: row.revision,
+  ...(row.company_tags ? { tagIds: row.company_tags.map((entry: any) => entry.tag_id) } : {}),
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)!,
+  deletedAt: toIso(row.deleted_at)
+})
+
+const toCompanyRow = (company: Company) => ({
+  id: company.id,
+  name: company.name,
+  code: company.code,
+  type: company.type,
+  description: company.description,
+  icon_url: company.iconUrl ?? null,
+  sort_order: company.order ?? null,
+  revision: company.revision,
+  created_at: company.createdAt,
+  updated_at: company.updatedAt,
+  deleted_at: company.deletedAt ?? null
+})
+
+const fromCommentRow = (row: any): Comment => ({
+  id: row.id,
+  content: row.content,
+  authorId: row.author_id ?? undefined,
+  authorName: row.author_name ?? undefined,
+  parentId: row.parent_id,
+  anchor: row.anchor,
+  mentions: row.mentions,
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)
+})
+
+const toCommentRow = (reportId: string, comment: Comment) => ({
+  id: comment.id,
+  report_id: reportId,
+  parent_id: comment.parentId,
+  content: comment.content,
+  author_id: comment.authorId ?? null,
+  author_name: comment.authorName ?? null,
+  mentions: comment.mentions,
+  anchor: comment.anchor,
+  created_at: comment.createdAt,
+  updated_at: comment.updatedAt ?? null
+})
+
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+
+const fromReportRow = (row: any): Report => ({
+  id: row.id,
+  companyId: row.company_id,
+  title: row.title,
+  analyst: row.analyst,
+  category: row.category,
+  fileName: row.file_name,
+  fileSize: row.file_size,
+  filePath: row.file_path,
+  fileKind: row.file_kind,
+  currentVersion: row.current_version,
+  versions: row.versions,
+  order: row.sort_order ?? undefined,
+  revision: row.revision,
+  ...(row.comments ? { comments: row.comments.map(fromCommentRow).sort(byCreatedAt) } : {}),
+  ...(row.report_tags ? { tagIds: row.report_tags.map((entry: any) => entry.tag_id) } : {}),
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)!,
+  deletedAt: toIso(row.deleted_at)
+})
+
+const toReportRow = (report: Report) => ({
+  id: report.id,
+  company_id: report.companyId,
+  title: report.title,
+  analyst: report.analyst,
+  category: report.category,
+  file_name: report.fileName,
+  file_size: report.fileSize,
+  file_path: report.filePath,
+  file_kind: report.fileKind,
+  current_version: report.currentVersion,
+  versions: report.versions,
+  sort_order: report.order ?? null,
+  revision: report.revision,
+  created_at: report.createdAt,
+  updated_at: report.updatedAt,
+  deleted_at: report.deletedAt ?? null
+})
+
+const fromTagRow = (row: any): Tag => ({
+  id: row.id,
+  name: row.name,
+  color: row.color,
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)!
+})
+
+const fromTagUsageRow = (row: any): TagUsage => ({
+  ...fromTagRow(row),
+  companyCount: row.company_count,
+  reportCount: row.report_count
+})
+
+const toTagRow = (tag: Tag) => ({
+  id: tag.id,
+  name: tag.name,
+  color: tag.color,
+  created_at: tag.createdAt,
+  updated_at: tag.updatedAt
+})
+
+const fromTaxonomyRow = (row: any): TaxonomyTerm => ({
+  id: row.id,
+  kind: row.kind,
+  label: row.label,
+  color: row.color,
+  order: row.sort_order,
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)!
+})
+
+const toTaxonomyRow = (term: TaxonomyTerm) => ({
+  id: term.id,
+  kind: term.kind,
+  label: term.label,
+  color: term.color,
+  sort_order: term.order,
+  created_at: term.createdAt,
+  updated_at: term.updatedAt
+})
+
+const fromAnalystRow = (row: any): Analyst => ({
+  id: row.id,
+  name: row.name,
+  title: row.title,
+  team: row.team,
+  email: row.email,
+  bio: row.bio,
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)!
+})
+
+const fromAnalystUsageRow = (row: any): AnalystUsage => ({
+  ...fromAnalystRow(row),
+  reportCount: row.report_count,
+  companyCount: row.company_count,
+  latestReportAt: toIso(row.latest_report_at) ?? null
+})
+
+// The jsonb coverage carries timestamps as Postgres prints them
+const fromAnalystActivityRow = (row: any): AnalystActivity => ({
+  reportCount: row.report_count,
+  latestReportAt: toIso(row.latest_report_at) ?? null,
+  coverage: row.coverage.map((covered: any) => ({ ...covered, latestReportAt: toIso(covered.latestReportAt)! })),
+  activity: row.activity,
+  categories: row.categories
+})
+
+const toAnalystRow = (analyst: Analyst) => ({
+  id: analyst.id,
+  name: analyst.name,
+  title: analyst.title,
+  team: analyst.team,
+  email: analyst.email,
+  bio: analyst.bio,
+  created_at: analyst.createdAt,
+  updated_at: analyst.updatedAt
+})
+
+const fromWatchlistRow = (row: any): Watchlist => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  name: row.name,
+  companyIds: [...(row.watchlist_companies ?? [])]
+    .sort((a: any, b: any) => a.sort_order - b.sort_order)
+    .map((entry: any) => entry.company_id),
+  createdAt: toIso(row.created_at)!,
+  updatedAt: toIso(row.updated_at)!
+})
+
+const toWatchlistRow = (watchlist: Watchlist) => ({
+  id: watchlist.id,
+  owner_id: watchlist.ownerId,
+  name: watchlist.name,
+  created_at: watchlist.createdAt,
+  updated_at: watchlist.updatedAt
+})
+
+const fromSubscriptionRow = (row: any): Subscription => ({
+  id: row.id,
+  userId: row.user_id,
+  companyId: row.company_id,
+  reportId: row.report_id,
+  createdAt: toIso(row.created_at)!
+})
+
+const toSubscriptionRow = (subscription: Subscription) => ({
+  id: subscription.id,
+  user_id: subscription.userId,
+  company_id: subscription.companyId,
+  report_id: subscription.reportId,
+  created_at: subscription.createdAt
+})
+
+const fromNotificationRow = (row: any): Notification => ({
+  id: row.id,
+  userId: row.user_id,
+  action: row.action,
+  companyId: row.company_id,
+  reportId: row.report_id,
+  commentId: row.comment_id,
+  actorId: row.actor_id,
+  actorName: row.actor_name,
+  title: row.title,
+  excerpt: row.excerpt,
+  readAt: toIso(row.read_at) ?? null,
+  createdAt: toIso(row.created_at)!
+})
+
+const toNotificationRow = (notification: Notification) => ({
+  id: notification.id,
+  user_id: notification.userId,
+  action: notification.action,
+  company_id: notification.companyId,
+  report_id: notification.reportId,
+  comment_id: notification.commentId,
+  actor_id: notification.actorId,
+  actor_name: notification.actorName,
+  title: notification.title,
+  excerpt: notification.excerpt,
+  read_at: notification.readAt,
+  created_at: notification.createdAt
+})
+
+const fromSettingsRow = (row: any): NotificationSettings => ({
+  userId: row.user_id,
+  email: row.email,
+  name: row.name,
+  digest: row.digest,
+  lastDigestAt: toIso(row.last_digest_at) ?? null,
+  updatedAt: toIso(row.updated_at)!
+})
+
+const toSettingsRow = (settings: NotificationSettings) => ({
+  user_id: settings.userId,
+  email: settings.email,
+  name: settings.name,
+  digest: settings.digest,
+  last_digest_at: settings.lastDigestAt,
+  updated_at: settings.updatedAt
+})
+
+const fromAuditRow = (row: any): AuditEntry => ({
+  id: row.id,
+  actorId: row.actor_id,
+  actorName: row.actor_name,
+  action: row.action,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  companyId: row.company_id,
+  changes: row.changes,
+  createdAt: toIso(row.created_at)!
+})
+
+const toAuditRow = (entry: AuditEntry) => ({
+  id: entry.id,
+  actor_id: entry.actorId,
+  actor_name: entry.actorName,
+  action: entry.action,
+  entity_type: entry.entityType,
+  entity_id: entry.entityId,
+  company_id: entry.companyId,
+  changes: entry.changes,
+  created_at: entry.createdAt
+})
+
+// One column of a page query's order. Unordered rows (null sort_order) come last in either direction,
+// as in list(), and every order ends with the id so that no two rows share a sort key
+type SortKey = { column: string; field: string; ascending: boolean; nullable?: boolean }
+
+const byId: SortKey = { column: 'id', field: 'id', ascending: true }
+const byOrder: SortKey[] = [
+  { column: 'sort_order', field: 'order', ascending: true, nullable: true },
+  { column: 'created_at', field: 'createdAt', ascending: false },
+  byId
+]
+const byNewest: SortKey[] = [{ column: 'created_at', field: 'createdAt', ascending: false }, byId]
+const byOldest: SortKey[] = [{ column: 'created_at', field: 'createdAt', ascending: true }, byId]
+
+const COMPANY_SORTS: Record<CompanySort, SortKey[]> = { order: byOrder, newest: byNewest }
+const REPORT_SORTS: Record<ReportSort, SortKey[]> = { order: byOrder, newest: byNewest, oldest: byOldest }
+
+const sortKeyOf = (item: object, keys: SortKey[]) => keys.map(key => (item as Record<string, unknown>)[key.field] ?? null)
+
+// Queries fetch one item more than the limit to learn whether another page follows
+const pageOf = <T extends object,>(items: T[], keys: SortKey[], limit: number): Page<T> => {
+  const pageItems = items.slice(0, limit)
+  const last = pageItems[pageItems.length - 1]
+  return { items: pageItems, nextCursor: items.length > limit ? encodeCursor(sortKeyOf(last, keys)) : null }
+}
+
+// Database pages take the cursor from the raw columns: timestamptz values keep the microseconds that
+// toIso drops, and a truncated created_at would skip or repeat rows at page boundaries
+const pageOfRows = <T,>(rows: any[], keys: SortKey[], limit: number, fromRow: (row: any) => T): Page<T> => {
+  const page = pageOf(rows, keys.map(key => ({ ...key, field: key.column })), limit)
+  return { items: page.items.map(fromRow), nextCursor: page.nextCursor }
+}
+
+// PostgREST values are quoted so that commas, dots and parentheses in them cannot break the filter
+const quoted = (value: unknown) => `"${String(value).replace(/["\\]/g, '\\$&')}"`
+
+// Filter for the rows after key in the order of keys: k1 past v1, or k1 = v1 and k2 past v2, and so on.
+// Nothing is past a null, as nulls come last
+const afterKeyFilter = (keys: SortKey[], key: unknown[]) => {
+  const equals = (sortKey: SortKey, value: unknown) => {
+    return value === null ? `${sortKey.column}.is.null` : `${sortKey.column}.eq.${quoted(value)}`
+  }
+  const past = (sortKey: SortKey, value: unknown) => {
+    const comparison = `${sortKey.column}.${sortKey.ascending ? 'gt' : 'lt'}.${quoted(value)}`
+    return sortKey.nullable ? `or(${comparison},${sortKey.column}.is.null)` : comparison
+  }
+  const branches = keys
+    .map((sortKey, index) => (key[index] ?? null) === null ? null : [
+      ...keys.slice(0, index).map((previous, i) => equals(previous, key[i] ?? null)),
+      past(sortKey, key[index])
+    ])
+    .filter((branch): branch is string[] => branch !== null)
+    .map(branch => `and(${branch.join(',')})`)
+  // A key of nulls only comes from a forged cursor; no row follows it
+  return branches.length ? branches.join(',') : 'id.is.null'
+}
+
+// Case-insensitive substring match on any of the columns; PostgREST's * wildcard stands in for the LIKE specials
+const matchesAnyColumn = (columns: string[], q: string) => {
+  const pattern = quoted(`*${q.replace(/[%_*\\"]/g, '*')}*`)
+  return columns.map(column => `${column}.ilike.${pattern}`).join(',')
+}
+
+// A query takes a single or filter, so several groups that must all hold are nested in one
+const allOf = (groups: string[]) => groups.length === 1 ? groups[0] : `and(${groups.map(group => `or(${group})`).join(',')})`
+
+// Chinese, Japanese and Korean ideographs, which report_search_text treats as words of their own
+const CJK_CHARACTERS = '\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff'
+
+// Drops the spaces report_search_text put around ideographs from a search_reports headline
+const joinIdeographs = (headline: string) => {
+  const spaced = new RegExp(` ?(${HEADLINE_START}?[${CJK_CHARACTERS}]${HEADLINE_STOP}?) ?`, 'g')
+  return headline.replace(spaced, '$1').trim()
+}
+
+// Surface PostgREST errors as exceptions so handlers keep their try/catch style
+const unwrap = <T,>({ data, error }: { data: T | null; error: { message: string } | null }): T => {
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data as T
+}
+
+export const createSupabaseRepository = (url: string, serviceRoleKey: string): Repository => {
+  const supabase = createClient(url, serviceRoleKey)
+
+  // Tags come back with every company and report
+  const companyColumns = '*, company_tags(tag_id)'
+  const reportColumns = '*, report_tags(tag_id)'
+
+  const companies: CompanyRepository = {
+    async list(): Promise<Company[]> {
+      const rows = unwrap(await supabase
+        .from('companies')
+        .select(companyColumns)
+        .is('deleted_at', null)
+        .order('sort_order', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false }))
+      return rows.map(fromCompanyRow)
+    },
+
+    // The inner join on company_tags keeps the companies carrying the tag; company_tags itself still
+    // comes back with all of a company's tags
+    async listByTag(tagId: string): Promise<Company[]> {
+      const rows = unwrap(await supabase
+        .from('companies')
+        .select(`${companyColumns}, tagged:company_tags!inner(tag_id)`)
+        .eq('tagged.tag_id', tagId)
+        .is('deleted_at', null)
+        .order('sort_order', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false }))
+      return rows.map(fromCompanyRow)
+    },
+
+    async page(query: CompanyQuery): Promise<Page<Company>> {
+      const keys = COMPANY_SORTS[query.sort]
+      let request = supabase.from('companies').select(companyColumns).is('deleted_at', null)
+      if (query.type) request = request.eq('type', query.type)
+      // Companies carrying every tag; tag_ids is computed in the database, see the tag filter migration
+      if (query.tagIds?.length) request = request.contains('tag_ids', query.tagIds)
+      const groups = [
+        ...query.q ? [matchesAnyColumn(['name', 'code'], query.q)] : [],
+        ...query.after ? [afterKeyFilter(keys, query.after)] : []
+      ]
+      if (groups.length) request = request.or(allOf(groups))
+      for (const key of keys) {
+        request = request.order(key.column, { ascending: key.ascending, nullsFirst: false })
+      }
+      const rows = unwrap(await request.limit(query.limit + 1))
+      return pageOfRows(rows, keys, query.limit, fromCompanyRow)
+    },
+
+    async get(id: string): Promise<Company | null> {
+      const row = unwrap(await supabase.from('companies').select(companyColumns).eq('id', id).is('deleted_at', null).maybeSingle())
+      return row ? fromCompanyRow(row) : null
+    },
+
+    async listTrashed(): Promise<Company[]> {
+      const rows = unwrap(await supabase
+        .from('companies')
+        .select(companyColumns)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false }))
+      return rows.map(fromCompanyRow)
+    },
+
+    async getTrashed(id: string): Promise<Company | null> {
+      const row = unwrap(await supabase.from('companies').select(companyColumns).eq('id', id).not('deleted_at', 'is', null).maybeSingle())
+      return row ? fromCompanyRow(row) : null
+    },
+
+    async maxOrder(): Promise<number> {
+      const row = unwrap<{ sort_order: number | null } | null>(await supabase
+        .from('companies')
+        .select('sort_order')
+        .order('sort_order', { ascending: false, nullsFirst: false })
+        .limit(1)
+        .maybeSingle())
+      return row?.sort_order ?? -1
+    },
+
+    async save(company: Company): Promise<Company> {
+      unwrap(await supabase.from('companies').upsert(toCompanyRow(company)))
+      return company
+    },
+
+    async saveMany(items: Company[]): Promise<void> {
+      unwrap(await supabase.from('companies').upsert(items.map(toCompanyRow)))
+    },
+
+    async update(company: Company, expectedRevision: number): Promise<boolean> {
+      const rows = unwrap(await supabase
+        .from('companies')
+        .update(toCompanyRow(company))
+        .eq('id', company.id)
+        .eq('revision', expectedRevision)
+        .is('deleted_at', null)
+        .select('id'))
+      return rows.length > 0
+    },
+
+    // Checked and applied in one transaction, see the revisions migration
+    async updateOrders(updates: OrderUpdate[]): Promise<boolean> {
+      return unwrap<boolean>(await supabase.rpc('reorder_companies', { updates, updated_at: new Date().toISOString() }))
+    },
+
+    async trash(id: string, deletedAt: string): Promise<void> {
+      unwrap(await supabase.from('companies').update({ deleted_at: deletedAt }).eq('id', id))
+    },
+
+    async restore(id: string): Promise<void> {
+      unwrap(await supabase.from('companies').update({ deleted_at: null }).eq('id', id))
+    },
+
+    // Reports and comments are removed by the foreign key cascade
+    async remove(id: string): Promise<void> {
+      unwrap(await supabase.from('companies').delete().eq('id', id))
+    }
+  }
+
+  // Joining the company filters out reports hidden with a trashed company
+  const withCompany = 'companies!inner(deleted_at)'
+
+  // Reports of one company with their comments, or of all companies without. The company join
+  // hides reports of trashed companies and filters by company type
+  const pageReports = async (query: ReportQuery, companyId?: string): Promise<Page<Report>> => {
+    const keys = REPORT_SORTS[query.sort]
+    const company = 'companies!inner(deleted_at, type)'
+    let request = supabase
+      .from('reports')
+      .select(companyId ? `${reportColumns}, comments(*), ${company}` : `${reportColumns}, ${company}`)
+      .is('deleted_at', null)
+      .is('companies.deleted_at', null)
+    if (companyId) request = request.eq('company_id', companyId)
+    if (query.companyType) request = request.eq('companies.type', query.companyType)
+    if (query.category) request = request.eq('category', query.category)
+    if (query.analyst) request = request.eq('analyst', query.analyst)
+    if (query.from) request = request.gte('created_at', query.from)
+    if (query.to) request = request.lte('created_at', query.to)
+    if (query.tagIds?.length) request = request.contains('tag_ids', query.tagIds)
+    const groups = [
+      ...query.q ? [matchesAnyColumn(['title', 'analyst', 'file_name'], query.q)] : [],
+      ...query.after ? [afterKeyFilter(keys, query.after)] : []
+    ]
+    if (groups.length) request = request.or(allOf(groups))
+    for (const key of keys) {
+      request = request.order(key.column, { ascending: key.ascending, nullsFirst: false })
+    }
+    const rows = unwrap(await request.limit(query.limit + 1))
+    return pageOfRows(rows, keys, query.limit, fromReportRow)
+  }
+
+  const reports: ReportRepository = {
+    // Comments are loaded in the same query instead of once per report
+    async listByCompany(companyId, { withComments = false } = {}) {
+      const rows = unwrap(await supabase
+        .from('reports')
+        .select(withComments ? `${reportColumns}, comments(*), ${withCompany}` : `${reportColumns}, ${withCompany}`)
+        .eq('company_id', companyId)
+        .is('deleted_at', null)
+        .is('companies.deleted_at', null)
+        .order('sort_order', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false }))
+      return rows.map(fromReportRow)
+    },
+
+    async pageByCompany(companyId: string, query: ReportQuery): Promise<Page<Report>> {
+      return pageReports(query, companyId)
+    },
+
+    async page(query: ReportQuery): Promise<Page<Report>> {
+      return pageReports(query)
+    },
+
+    async getStats(companyId: string): Promise<CompanyReportStats> {
+      const [row] = unwrap<any[]>(await supabase.rpc('company_report_stats', { company_id: companyId }))
+      return {
+        total: row.total,
+        categories: row.categories,
+        analysts: row.analysts,
+        latestReportDate: toIso(row.latest_report_at) ?? null
+      }
+    },
+
+    async countByCompany(companyIds: string[]): Promise<Record<string, number>> {
+      if (!companyIds.length) return {}
+      const rows = unwrap<any[]>(await supabase.rpc('report_counts', { company_ids: companyIds }))
+      return Object.fromEntries(rows.map(row => [row.company_id, row.report_count]))
+    },
+
+    async listIncludingTrashed(companyIds: string[]): Promise<Report[]> {
+      if (!companyIds.length) return []
+      const rows = unwrap(await supabase.from('reports').select(reportColumns).in('company_id', companyIds))
+      return rows.map(fromReportRow)
+    },
+
+    async listTrashed(): Promise<Report[]> {
+      const rows = unwrap(await supabase
+        .from('reports')
+        .select(`${reportColumns}, ${withCompany}`)
+        .not('deleted_at', 'is', null)
+        .is('companies.deleted_at', null)
+        .order('deleted_at', { ascending: false }))
+      return rows.map(fromReportRow)
+    },
+
+    async get(companyId: string, reportId: string): Promise<Report | null> {
+      const row = unwrap(await supabase
+        .from('reports')
+        .select(`${reportColumns}, ${withCompany}`)
+        .eq('company_id', companyId)
+        .eq('id', reportId)
+        .is('deleted_at', null)
+        .is('companies.deleted_at', null)
+        .maybeSingle())
+      return row ? fromReportRow(row) : null
+    },
+
+    async getTrashed(companyId: string, reportId: string): Promise<Report | null> {
+      const row = unwrap(await supabase
+        .from('reports')
+        .select(reportColumns)
+        .eq('company_id', companyId)
+        .eq('id', reportId)
+        .not('deleted_at', 'is', null)
+        .maybeSingle())
+      return row ? fromReportRow(row) : null
+    },
+
+    async maxOrder(companyId: string): Promise<number> {
+      const row = unwrap<{ sort_order: number | null } | null>(await supabase
+        .from('reports')
+        .select('sort_order')
+        .eq('company_id', companyId)
+        .order('sort_order', { ascending: false, nullsFirst: false })
+        .limit(1)
+        .maybeSingle())
+      return row?.sort_order ?? -1
+    },
+
+    async save(report: Report): Promise<Report> {
+      unwrap(await supabase.from('reports').upsert(toReportRow(report)))
+      return report
+    },
+
+    async update(report: Report, expectedRevision: number): Promise<boolean> {
+      const rows = unwrap(await supabase
+        .from('reports')
+        .update(toReportRow(report))
+        .eq('company_id', report.companyId)
+        .eq('id', report.id)
+        .eq('revision', expectedRevision)
+        .is('deleted_at', null)
+        .select('id'))
+      return rows.length > 0
+    },
+
+    async updateOrders(companyId: string, updates: OrderUpdate[]): Promise<boolean> {
+      return unwrap<boolean>(await supabase.rpc('reorder_reports', {
+        company_id: companyId,
+        updates,
+        updated_at: new Date().toISOString()
+      }))
+    },
+
+    async trash(companyId: string, reportId: string, deletedAt: string): Promise<void> {
+      unwrap(await supabase.from('reports').update({ deleted_at: deletedAt }).eq('company_id', companyId).eq('id', reportId))
+    },
+
+    async restore(companyId: string, reportId: string): Promise<void> {
+      unwrap(await supabase.from('reports').update({ deleted_at: null }).eq('company_id', companyId).eq('id', reportId))
+    },
+
+    // Comments are removed by the foreign key cascade
+    async remove(companyId: string, reportId: string): Promise<void> {
+      unwrap(await supabase.from('reports').delete().eq('company_id', companyId).eq('id', reportId))
+    }
+  }
+
+  const comments: CommentRepository = {
+    async listByReport(reportId: string): Promise<Comment[]> {
+      const rows = unwrap(await supabase.from('comments').select('*').eq('report_id', reportId))
+      return rows.map(fromCommentRow).sort(byCreatedAt)
+    },
+
+    async get(reportId: string, commentId: string): Promise<Comment | null> {
+      const row = unwrap(await supabase
+        .from('comments')
+        .select('*')
+        .eq('report_id', reportId)
+        .eq('id', commentId)
+        .maybeSingle())
+      return row ? fromCommentRow(row) : null
+    },
+
+    async save(reportId: string, comment: Comment): Promise<Comment> {
+      unwrap(await supabase.from('comments').upsert(toCommentRow(reportId, comment)))
+      return comment
+    },
+
+    // Replies are removed by the foreign key cascade
+    async remove(reportId: string, commentId: string): Promise<void> {
+      unwrap(await supabase.from('comments').delete().eq('report_id', reportId).eq('id', commentId))
+    }
+  }
+
+  const tags: TagRepository = {
+    async list(): Promise<Tag[]> {
+      const rows = unwrap(await supabase.from('tags').select('*').order('name', { ascending: true }))
+      return rows.map(fromTagRow)
+    },
+
+    async listUsage(): Promise<TagUsage[]> {
+      return unwrap<any[]>(await supabase.rpc('tag_usage')).map(fromTagUsageRow)
+    },
+
+    async get(id: string): Promise<Tag | null> {
+      const row = unwrap(await supabase.from('tags').select('*').eq('id', id).maybeSingle())
+      return row ? fromTagRow(row) : null
+    },
+
+    async getUsage(id: string): Promise<TagUsage | null> {
+      const [row] = unwrap<any[]>(await supabase.rpc('tag_usage', { only_tag: id }))
+      return row ? fromTagUsageRow(row) : null
+    },
+
+    async save(tag: Tag): Promise<Tag> {
+      unwrap(await supabase.from('tags').upsert(toTagRow(tag)))
+      return tag
+    },
+
+    // Taken off companies and reports by the foreign key cascade
+    async remove(id: string): Promise<void> {
+      unwrap(await supabase.from('tags').delete().eq('id', id))
+    },
+
+    async setCompanyTags(companyId: string, tagIds: string[]): Promise<void> {
+      unwrap(await supabase.rpc('set_company_tags', { company_id: companyId, tag_ids: tagIds }))
+    },
+
+    async setReportTags(reportId: string, tagIds: string[]): Promise<void> {
+      unwrap(await supabase.rpc('set_report_tags', { report_id: reportId, tag_ids: tagIds }))
+    }
+  }
+
+  const taxonomies: TaxonomyRepository = {
+    async list(kind: TaxonomyKind): Promise<TaxonomyTerm[]> {
+      const rows = unwrap(await supabase
+        .from('taxonomy_terms')
+        .select('*')
+        .eq('kind', kind)
+        .order('sort_order', { ascending: true }))
+      return rows.map(fromTaxonomyRow)
+    },
+
+    async get(id: string): Promise<TaxonomyTerm | null> {
+      const row = unwrap(await supabase.from('taxonomy_terms').select('*').eq('id', id).maybeSingle())
+      return row ? fromTaxonomyRow(row) : null
+    },
+
+    async save(term: TaxonomyTerm): Promise<TaxonomyTerm> {
+      unwrap(await supabase.from('taxonomy_terms').insert(toTaxonomyRow(term)))
+      return term
+    },
+
+    // Relabelled in one transaction with the rows filed under the term, see the taxonomies migration
+    async update(term: TaxonomyTerm): Promise<void> {
+      unwrap(await supabase.rpc('update_taxonomy_term', {
+        term_id: term.id,
+        new_label: term.label,
+        new_color: term.color,
+        updated_at: term.updatedAt
+      }))
+    },
+
+    async remove(id: string): Promise<void> {
+      unwrap(await supabase.from('taxonomy_terms').delete().eq('id', id))
+    },
+
+    async countUsage(kind: TaxonomyKind, label: string): Promise<number> {
+      const [table, column] = kind === 'stock_type' ? ['companies', 'type'] : ['reports', 'category']
+      const { count, error } = await supabase
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq(column, label)
+      if (error) {
+        throw new Error(error.message)
+      }
+      return count ?? 0
+    },
+
+    async reorder(kind: TaxonomyKind, ids: string[]): Promise<void> {
+      unwrap(await supabase.rpc('reorder_taxonomy_terms', { term_kind: kind, term_ids: ids }))
+    }
+  }
+
+  const analysts: AnalystRepository = {
+    async list(): Promise<Analyst[]> {
+      const rows = unwrap(await supabase.from('analysts').select('*').order('name', { ascending: true }))
+      return rows.map(fromAnalystRow)
+    },
+
+    async listUsage(): Promise<AnalystUsage[]> {
+      return unwrap<any[]>(await supabase.rpc('analyst_usage')).map(fromAnalystUsageRow)
+    },
+
+    async get(id: string): Promise<Analyst | null> {
+      const row = unwrap(await supabase.from('analysts').select('*').eq('id', id).maybeSingle())
+      return row ? fromAnalystRow(row) : null
+    },
+
+    async getActivity(name: string): Promise<AnalystActivity> {
+      const [row] = unwrap<any[]>(await supabase.rpc('analyst_profile', { analyst_name: name }))
+      return fromAnalystActivityRow(row)
+    },
+
+    // ilike without wildcards, with the pattern characters escaped
+    async findByName(name: string): Promise<Analyst | null> {
+      const pattern = name.replace(/[\\%_]/g, char => `\\${char}`)
+      const rows = unwrap(await supabase.from('analysts').select('*').ilike('name', pattern).limit(1))
+      return rows.length ? fromAnalystRow(rows[0]) : null
+    },
+
+    async save(analyst: Analyst): Promise<Analyst> {
+      unwrap(await supabase.from('analysts').insert(toAnalystRow(analyst)))
+      return analyst
+    },
+
+    // Renamed in one transaction with the analyst's reports, see the analysts migration
+    async update(analyst: Analyst): Promise<void> {
+      unwrap(await supabase.rpc('update_analyst', {
+        analyst_id: analyst.id,
+        new_name: analyst.name,
+        new_title: analyst.title,
+        new_team: analyst.team,
+        new_email: analyst.email,
+        new_bio: analyst.bio,
+        updated_at: analyst.updatedAt
+      }))
+    },
+
+    async merge(targetId: string, sourceIds: string[], updatedAt: string): Promise<void> {
+      unwrap(await supabase.rpc('merge_analysts', { target_id: targetId, source_ids: sourceIds, updated_at: updatedAt }))
+    },
+
+    async remove(id: string): Promise<void> {
+      unwrap(await supabase.from('analysts').delete().eq('id', id))
+    },
+
+    async countUsage(name: string): Promise<number> {
+      const { count, error } = await supabase
+        .from('reports')
+        .select('id', { count: 'exact', head: true })
+        .eq('analyst', name)
+      if (error) {
+        throw new Error(error.message)
+      }
+      return count ?? 0
+    }
+  }
+
+  const watchlists: WatchlistRepository = {
+    async listByOwner(ownerId: string): Promise<Watchlist[]> {
+      const rows = unwrap(await supabase
+        .from('watchlists')
+        .select('*, watchlist_companies(company_id, sort_order)')
+        .eq('owner_id', ownerId)
+        .order('created_at', { ascending: true }))
+      return rows.map(fromWatchlistRow)
+    },
+
+    async get(ownerId: string, id: string): Promise<Watchlist | null> {
+      const row = unwrap(await supabase
+        .from('watchlists')
+        .select('*, watchlist_companies(company_id, sort_order)')
+        .eq('owner_id', ownerId)
+        .eq('id', id)
+        .maybeSingle())
+      return row ? fromWatchlistRow(row) : null
+    },
+
+    async save(watchlist: Watchlist): Promise<Watchlist> {
+      unwrap(await supabase.from('watchlists').upsert(toWatchlistRow(watchlist)))
+      return watchlist
+    },
+
+    // Checked against the owner first: the function itself trusts the id it is given
+    async setCompanies(ownerId: string, id: string, companyIds: string[]): Promise<void> {
+      if (!await watchlists.get(ownerId, id)) return
+      unwrap(await supabase.rpc('set_watchlist_companies', {
+        watchlist_id: id,
+        company_ids: companyIds,
+        updated_at: new Date().toISOString()
+      }))
+    },
+
+    // Memberships are removed by the foreign key cascade
+    async remove(ownerId: string, id: string): Promise<void> {
+      unwrap(await supabase.from('watchlists').delete().eq('owner_id', ownerId).eq('id', id))
+    }
+  }
+
+  const subscriptions: SubscriptionRepository = {
+    async listByUser(userId: string): Promise<Subscription[]> {
+      const rows = unwrap(await supabase
+        .from('subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false }))
+      return rows.map(fromSubscriptionRow)
+    },
+
+    async listSubscribers(companyId: string, reportId?: string): Promise<Subscription[]> {
+      let query = supabase.from('subscriptions').select('*').eq('company_id', companyId)
+      query = reportId ? query.or(`report_id.is.null,report_id.eq.${reportId}`) : query.is('report_id', null)
+      const rows = unwrap(await query)
+      return rows.map(fromSubscriptionRow)
+    },
+
+    async save(subscription: Subscription): Promise<void> {
+      unwrap(await supabase
+        .from('subscriptions')
+        .upsert(toSubscriptionRow(subscription), { onConflict: 'user_id,company_id,report_id', ignoreDuplicates: true }))
+    },
+
+    async remove(userId: string, companyId: string, reportId: string | null): Promise<void> {
+      const query = supabase.from('subscriptions').delete().eq('user_id', userId).eq('company_id', companyId)
+      unwrap(await (reportId ? query.eq('report_id', reportId) : query.is('report_id', null)))
+    }
+  }
+
+  const notifications: NotificationRepository = {
+    async addMany(items: Notification[]): Promise<void> {
+      if (items.length === 0) return
+      unwrap(await supabase.from('notifications').insert(items.map(toNotificationRow)))
+    },
+
+    async listByUser(userId: string, filter: NotificationFilter): Promise<Notification[]> {
+      let query = supabase.from('notifications').select('*').eq('user_id', userId)
+      if (filter.unreadOnly) query = query.is('read_at', null)
+      if (filter.since) query = query.gt('created_at', filter.since)
+      const rows = unwrap(await query.order('created_at', { ascending: false }).limit(filter.limit))
+      return rows.map(fromNotificationRow)
+    },
+
+    async countUnread(userId: string): Promise<number> {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+      if (error) {
+        throw new Error(error.message)
+      }
+      return count ?? 0
+    },
+
+    async markRead(userId: string, readAt: string, ids?: string[]): Promise<void> {
+      let query = supabase.from('notifications').update({ read_at: readAt }).eq('user_id', userId).is('read_at', null)
+      if (ids) query = query.in('id', ids)
+      unwrap(await query)
+    },
+
+    async getSettings(userId: string): Promise<NotificationSettings | null> {
+      const row = unwrap(await supabase.from('notification_settings').select('*').eq('user_id', userId).maybeSingle())
+      return row ? fromSettingsRow(row) : null
+    },
+
+    async saveSettings(settings: NotificationSettings): Promise<NotificationSettings> {
+      unwrap(await supabase.from('notification_settings').upsert(toSettingsRow(settings)))
+      return settings
+    },
+
+    async listDigestSettings(): Promise<NotificationSettings[]> {
+      const rows = unwrap(await supabase.from('notification_settings').select('*').neq('digest', 'off'))
+      return rows.map(fromSettingsRow)
+    },
+
+    async claimDigest(userId: string, previous: string | null, next: string | null): Promise<boolean> {
+      const query = supabase.from('notification_settings').update({ last_digest_at: next }).eq('user_id', userId)
+      const claimed = previous === null ? query.is('last_digest_at', null) : query.eq('last_digest_at', previous)
+      return unwrap(await claimed.select('user_id')).length > 0
+    }
+  }
+
+  const search: SearchRepository = {
+    async getPages(reportId) {
+      const rows = unwrap<any[]>(await supabase.from('report_pages').select('content').eq('report_id', reportId).order('page'))
+      return rows.map(row => row.content)
+    },
+
+    async setPages(reportId, pages) {
+      if (pages.length > 0) {
+        unwrap(await supabase.from('report_pages').upsert(pages.map((content, index) => ({ report_id: reportId, page: index + 1, content }))))
+      }
+      unwrap(await supabase.from('report_pages').delete().eq('report_id', reportId).gt('page', pages.length))
+    },
+
+    async removePages(reportId) {
+      unwrap(await supabase.from('report_pages').delete().eq('report_id', reportId))
+    },
+
+    async search(terms, { limit, snippets }) {
+      // Quoted, a term is a phrase: websearch_to_tsquery reads or and a leading - as operators otherwise
+      const rows = unwrap<any[]>(await supabase.rpc('search_reports', {
+        terms: terms.map(term => `"${term.replace(/"/g, ' ')}"`),
+        max_results: limit,
+        max_snippets: snippets
+      }))
+      return rows.map(row => ({
+        reportId: row.report_id,
+        companyId: row.company_id,
+        companyName: row.company_name,
+        companyCode: row.company_code,
+        title: row.title,
+        analyst: row.analyst,
+        category: row.category,
+        createdAt: toIso(row.created_at)!,
+        matchCount: row.match_count,
+        matches: row.matches.map((match: SearchExcerpt) => ({ ...match, headline: joinIdeographs(match.headline) }))
+      }))
+    }
+  }
+
+  // Grouped in the database by dashboard_stats, see the stats migration
+  const stats: StatsRepository = {
+    async get(options: StatsOptions): Promise<DashboardStats> {
+      const data = unwrap<DashboardStats>(await supabase.rpc('dashboard_stats', {
+        since: options.since,
+        stale_before: options.staleBefore,
+        top_analysts: options.topAnalysts,
+        most_discussed: options.mostDiscussed
+      }))
+      return {
+        ...data,
+        staleCompanies: data.staleCompanies.map(company => ({ ...company, latestReportAt: toIso(company.latestReportAt) ?? null }))
+      }
+    }
+  }
+
+  const audit: AuditRepository = {
+    async append(entry: AuditEntry): Promise<void> {
+      unwrap(await supabase.from('audit_log').insert(toAuditRow(entry)))
+    },
+
+    async list(filter: AuditFilter): Promise<AuditEntry[]> {
+      let query = supabase.from('audit_log').select('*')
+      if (filter.companyId) query = query.eq('company_id', filter.companyId)
+      if (filter.entityType) query = query.eq('entity_type', filter.entityType)
+      if (filter.entityId) query = query.eq('entity_id', filter.entityId)
+      if (filter.actorId) query = query.eq('actor_id', filter.actorId)
+      if (filter.action) query = query.eq('action', filter.action)
+      if (filter.from) query = query.gte('created_at', filter.from)
+      if (filter.to) query = query.lte('created_at', filter.to)
+      const rows = unwrap(await query.order('created_at', { ascending: false }).limit(filter.limit))
+      return rows.map(fromAuditRow)
+    }
+  }
+
+  return { companies, reports, comments, tags, taxonomies, analysts, watchlists, subscriptions, notifications, search, stats, audit }
+}
+
+// Same ordering as the SQL queries: by order with unordered items last, then newest first
+const sortOrdered = <T extends { order?: number; createdAt: string }>(items: T[]) => {
+  return items.sort((a, b) => {
+    const orderA = a.order ?? Number.MAX_SAFE_INTEGER
+    const orderB = b.order ?? Number.MAX_SAFE_INTEGER
+    if (orderA !== orderB) {
+      return orderA - orderB
+    }
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  })
+}
+
+// Same order as the page queries, nulls last in either direction
+const compareSortKeys = (keys: SortKey[]) => (a: unknown[], b: unknown[]) => {
+  for (let i = 0; i < keys.length; i++) {
+    if (a[i] === b[i]) continue
+    if (a[i] === null) return 1
+    if (b[i] === null) return -1
+    const comparison = (a[i] as string | number) < (b[i] as string | number) ? -1 : 1
+    return keys[i].ascending ? comparison : -comparison
+  }
+  return 0
+}
+
+const pageAfter = <T extends object,>(items: T[], keys: SortKey[], { limit, after }: { limit: number; after: unknown[] | null }) => {
+  const compare = compareSortKeys(keys)
+  const rest = items
+    .map(item => ({ item, key: sortKeyOf(item, keys) }))
+    .filter(entry => !after || compare(entry.key, after) > 0)
+    .sort((a, b) => compare(a.key, b.key))
+  return pageOf(rest.map(entry => entry.item), keys, limit)
+}
+
+const matchesText = (values: string[], q?: string) => !q || values.some(value => value.toLowerCase().includes(q.toLowerCase()))
+
+// Words as report_search_text and the simple text search configuration split them: lower-cased, with
+// every ideograph a word of its own
+const searchWords = (text: string) => {
+  return text.toLowerCase().replace(new RegExp(`[${CJK_CHARACTERS}]`, 'g'), ' $& ').split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+// Whether the term's words appear in a row among words
+const containsWords = (words: string[], term: string[]) => {
+  return words.some((_, start) => term.every((word, offset) => words[start + offset] === word))
+}
+
+// Matches a term's words in the original text; words are letters and digits only, so they need no escaping.
+// Outside ideographs a match has to start and end at a word boundary.
+const termPattern = (term: string[]) => {
+  const ideograph = new RegExp(`^[${CJK_CHARACTERS}]$`)
+  const wordCharacter = `(?![${CJK_CHARACTERS}])[\\p{L}\\p{N}]`
+  const before = ideograph.test(term[0]) ? '' : `(?<!${wordCharacter})`
+  const after = ideograph.test(term[term.length - 1]) ? '' : `(?!${wordCharacter})`
+  return new RegExp(`${before}${term.join('[^\\p{L}\\p{N}]*')}${after}`, 'giu')
+}
+
+// Characters of context kept before the first match of a headline (twice as many follow it)
+const HEADLINE_RADIUS = 60
+
+// Stands in for ts_headline: an excerpt around the first match with every match inside it marked
+const headlineOf = (page: number, content: string, terms: string[][]): SearchExcerpt => {
+  const found = terms
+    .flatMap(term => [...content.matchAll(termPattern(term))].map(match => [match.index!, match.index! + match[0].length]))
+    .sort((a, b) => a[0] - b[0] || b[1] - a[1])
+  const start = Math.max(0, (found[0]?.[0] ?? 0) - HEADLINE_RADIUS)
+  const end = Math.min(content.length, start + HEADLINE_RADIUS * 3)
+  let headline = ''
+  let position = start
+  for (const [from, to] of found) {
+    if (from >= position && to <= end) {
+      headline += `${content.slice(position, from)}${HEADLINE_START}${content.slice(from, to)}${HEADLINE_STOP}`
+      position = to
+    }
+  }
+  headline += content.slice(position, end)
+  return { page, headline, moreBefore: start > 0, moreAfter: end < content.length }
+}
+
+const hasAllTags = (item: { tagIds?: string[] }, tagIds?: string[]) => !tagIds?.length || tagIds.every(id => item.tagIds?.includes(id))
+
+const maxOrderOf = (items: { order?: number }[]) => {
+  return items.reduce((max, item) => Math.max(max, item.order ?? -1), -1)
+}
+
+const byDeletedAt = (a: { deletedAt?: string }, b: { deletedAt?: string }) => {
+  return new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()
+}
+
+// Same all-or-nothing semantics as the reorder_* functions in the revisions migration
+const applyOrderUpdates = <T extends { order?: number; revision: number; updatedAt: string }>(
+  store: Map<string, T>,
+  updates: OrderUpdate[],
+  belongs: (item: T) => boolean
+) => {
+  const targets = updates
+    .map(update => ({ update, item: store.get(update.id) }))
+    .filter((target): target is { update: OrderUpdate; item: T } => !!target.item && belongs(target.item))
+  if (targets.some(({ update, item }) => update.revision !== undefined && update.revision !== item.revision)) {
+    return false
+  }
+  const updatedAt = new Date().toISOString()
+  for (const { update, item } of targets) {
+    if (item.order !== update.order) {
+      store.set(update.id, { ...item, order: update.order, revision: item.revision + 1, updatedAt })
+    }
+  }
+  return true
+}
+
+// The terms the taxonomies migration seeds: [id, kind, label, color]
+const DEFAULT_TAXONOMY_TERMS: [string, TaxonomyKind, string, string][] = [
+  ['a-share', 'stock_type', 'A股', 'red'],
+  ['hk-share', 'stock_type', '港股', 'emerald'],
+  ['us-share', 'stock_type', '美股', 'blue'],
+  ['industry', 'stock_type', '行业', 'orange'],
+  ['meeting-notes', 'report_category', '会议纪要', 'purple'],
+  ['initiation', 'report_category', '首次覆盖', 'green'],
+  ['tracking', 'report_category', '跟踪', 'amber']
+]
+
+// In-memory store with the same foreign keys and cascades as the SQL schema, for tests and offline development
+export const createMemoryRepository = (): Repository => {
+  const companyStore = new Map<string, Company>()
+  const auditLog: AuditEntry[] = []
+  const reportStore = new Map<string, Report>()
+  const commentStore = new Map<string, { reportId: string; comment: Comment }>()
+  const tagStore = new Map<string, Tag>()
+  // Company or report id to tag ids, like the company_tags and report_tags tables
+  const companyTagStore = new Map<string, string[]>()
+  const reportTagStore = new Map<string, string[]>()
+  const taxonomyStore = new Map<string, TaxonomyTerm>()
+  const analystStore = new Map<string, Analyst>()
+  const watchlistStore = new Map<string, Watchlist>()
+  const subscriptionStore = new Map<string, Subscription>()
+  const notificationStore = new Map<string, Notification>()
+  const settingsStore = new Map<string, NotificationSettings>()
+  // Report id to page texts, like the report_pages table
+  const pageStore = new Map<string, string[]>()
+
+  const violatesForeignKey = (table: string) => new Error(`insert or update on table "${table}" violates foreign key constraint`)
+
+  // Tags are kept apart from the entities and attached on the way out, as the SQL queries join them
+  const companyOut = (company: Company): Company => ({ ...structuredClone(company), tagIds: [...companyTagStore.get(company.id) ?? []] })
+  const reportOut = (report: Report): Report => ({ ...structuredClone(report), tagIds: [...reportTagStore.get(report.id) ?? []] })
+
+  const commentsOf = (reportId: string) => {
+    return [...commentStore.values()]
+      .filter(entry => entry.reportId === reportId)
+      .map(entry => structuredClone(entry.comment))
+      .sort(byCreatedAt)
+  }
+
+  // Mirrors the on delete cascade of subscriptions and notifications
+  const removeNotificationsWhere = (matches: (item: { companyId: string; reportId: string | null; commentId?: string | null }) => boolean) => {
+    for (const [id, subscription] of subscriptionStore) {
+      if (matches(subscription)) subscriptionStore.delete(id)
+    }
+    for (const [id, notification] of notificationStore) {
+      if (matches(notification)) notificationStore.delete(id)
+    }
+  }
+
+  const removeComment = (commentId: string) => {
+    commentStore.delete(commentId)
+    removeNotificationsWhere(item => item.commentId === commentId)
+    for (const [id, entry] of commentStore) {
+      if (entry.comment.parentId === commentId) removeComment(id)
+    }
+  }
+
+  const isActiveCompany = (companyId: string) => {
+    const company = companyStore.get(companyId)
+    return !!company && !company.deletedAt
+  }
+
+  const isVisibleReport = (report: Report) => !report.deletedAt && isActiveCompany(report.companyId)
+
+  const removeReport = (reportId: string) => {
+    reportStore.delete(reportId)
+    reportTagStore.delete(reportId)
+    pageStore.delete(reportId)
+    removeNotificationsWhere(item => item.reportId === reportId)
+    for (const [id, entry] of commentStore) {
+      if (entry.reportId === reportId) commentStore.delete(id)
+    }
+  }
+
+  // Visible reports of the analyst, newest first
+  const reportsBy = (name: string) => [...reportStore.values()]
+    .filter(report => report.analyst === name && isVisibleReport(report))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+  const usageOf = (tag: Tag): TagUsage => ({
+    ...tag,
+    companyCount: [...companyStore.values()].filter(company => !company.deletedAt && companyTagStore.get(company.id)?.includes(tag.id)).length,
+    reportCount: [...reportStore.values()].filter(report => isVisibleReport(report) && reportTagStore.get(report.id)?.includes(tag.id)).length
+  })
+
+  const pageReports = (query: ReportQuery, companyId?: string) => {
+    const items = [...reportStore.values()]
+      .filter(report => (!companyId || report.companyId === companyId) && isVisibleReport(report))
+      .filter(report => !query.companyType || companyStore.get(report.companyId)?.type === query.companyType)
+      .filter(report => (!query.category || report.category === query.category) && (!query.analyst || report.analyst === query.analyst))
+      .filter(report => (!query.from || report.createdAt >= query.from) && (!query.to || report.createdAt <= query.to))
+      .map(report => companyId ? { ...reportOut(report), comments: commentsOf(report.id) } : reportOut(report))
+      .filter(report => hasAllTags(report, query.tagIds) && matchesText([report.title, report.analyst, report.fileName], query.q))
+    return pageAfter(items, REPORT_SORTS[query.sort], query)
+  }
+
+  const companies: CompanyRepository = {
+    async list() {
+      return sortOrdered([...companyStore.values()]
+        .filter(company => !company.deletedAt)
+        .map(companyOut))
+    },
+
+    async listByTag(tagId) {
+      return (await companies.list()).filter(company => company.tagIds?.includes(tagId))
+    },
+
+    async page(query) {
+      const items = [...companyStore.values()]
+        .filter(company => !company.deletedAt && (!query.type || company.type === query.type))
+        .map(companyOut)
+        .filter(company => hasAllTags(company, query.tagIds) && matchesText([company.name, company.code], query.q))
+      return pageAfter(items, COMPANY_SORTS[query.sort], query)
+    },
+
+    async get(id) {
+      const company = companyStore.get(id)
+      return company && !company.deletedAt ? companyOut(company) : null
+    },
+
+    async listTrashed() {
+      return [...companyStore.values()]
+        .filter(company => company.deletedAt)
+        .map(companyOut)
+        .sort(byDeletedAt)
+    },
+
+    async getTrashed(id) {
+      const company = companyStore.get(id)
+      return company?.deletedAt ? companyOut(company) : null
+    },
+
+    async maxOrder() {
+      return maxOrderOf([...companyStore.values()])
+    },
+
+    async save(company) {
+      const { tagIds: _tagIds, ...stored } = company
+      companyStore.set(company.id, structuredClone(stored))
+      return company
+    },
+
+    async saveMany(items) {
+      items.forEach(({ tagIds: _tagIds, ...company }) => companyStore.set(company.id, structuredClone(company)))
+    },
+
+    async update(company, expectedRevision) {
+      const stored = companyStore.get(company.id)
+      if (!stored || stored.deletedAt || stored.revision !== expectedRevision) return false
+      const { tagIds: _tagIds, ...next } = company
+      companyStore.set(company.id, structuredClone(next))
+      return true
+    },
+
+    async updateOrders(updates) {
+      return applyOrderUpdates(companyStore, updates, () => true)
+    },
+
+    async trash(id, deletedAt) {
+      const company = companyStore.get(id)
+      if (company) companyStore.set(id, { ...company, deletedAt })
+    },
+
+    async restore(id) {
+      const company = companyStore.get(id)
+      if (company) companyStore.set(id, { ...company, deletedAt: undefined })
+    },
+
+    async remove(id) {
+      companyStore.delete(id)
+      companyTagStore.delete(id)
+      for (const report of [...reportStore.values()]) {
+        if (report.companyId === id) removeReport(report.id)
+      }
+      for (const watchlist of watchlistStore.values()) {
+        watchlist.companyIds = watchlist.companyIds.filter(companyId => companyId !== id)
+      }
+      removeNotificationsWhere(item => item.companyId === id)
+    }
+  }
+
+  const reports: ReportRepository = {
+    async listByCompany(companyId, { withComments = false } = {}) {
+      const items = [...reportStore.values()]
+        .filter(report => report.companyId === companyId && isVisibleReport(report))
+        .map(report => withComments ? { ...reportOut(report), comments: commentsOf(report.id) } : reportOut(report))
+      return sortOrdered(items)
+    },
+
+    async pageByCompany(companyId, query) {
+      return pageReports(query, companyId)
+    },
+
+    async page(query) {
+      return pageReports(query)
+    },
+
+    async getStats(companyId) {
+      const own = [...reportStore.values()].filter(report => report.companyId === companyId && isVisibleReport(report))
+      const categories: Record<string, number> = {}
+      own.forEach(report => { categories[report.category] = (categories[report.category] ?? 0) + 1 })
+      return {
+        total: own.length,
+        categories,
+        analysts: [...new Set(own.map(report => report.analyst))].sort(),
+        latestReportDate: own.reduce<string | null>((max, report) => !max || report.createdAt > max ? report.createdAt : max, null)
+      }
+    },
+
+    async countByCompany(companyIds) {
+      const counts: Record<string, number> = {}
+      for (const report of reportStore.values()) {
+        if (report.deletedAt || !companyIds.includes(report.companyId)) continue
+        counts[report.companyId] = (counts[report.companyId] ?? 0) + 1
+      }
+      return counts
+    },
+
+    async listIncludingTrashed(companyIds) {
+      return [...reportStore.values()]
+        .filter(report => companyIds.includes(report.companyId))
+        .map(reportOut)
+    },
+
+    async listTrashed() {
+      return [...reportStore.values()]
+        .filter(report => report.deletedAt && isActiveCompany(report.companyId))
+        .map(reportOut)
+        .sort(byDeletedAt)
+    },
+
+    async get(companyId, reportId) {
+      const report = reportStore.get(reportId)
+      return report && report.companyId === companyId && isVisibleReport(report) ? reportOut(report) : null
+    },
+
+    async getTrashed(companyId, reportId) {
+      const report = reportStore.get(reportId)
+      return report && report.companyId === companyId && report.deletedAt ? reportOut(report) : null
+    },
+
+    async maxOrder(companyId) {
+      return maxOrderOf([...reportStore.values()].filter(report => report.companyId === companyId))
+    },
+
+    async save(report) {
+      if (!companyStore.has(report.companyId)) {
+        throw violatesForeignKey('reports')
+      }
+      const { comments: _comments, tagIds: _tagIds, ...stored } = report
+      reportStore.set(report.id, structuredClone(stored))
+      return report
+    },
+
+    async update(report, expectedRevision) {
+      const stored = reportStore.get(report.id)
+      if (!stored || stored.companyId !== report.companyId || stored.deletedAt || stored.revision !== expectedRevision) {
+        return false
+      }
+      const { comments: _comments, tagIds: _tagIds, ...next } = report
+      reportStore.set(report.id, structuredClone(next))
+      return true
+    },
+
+    async updateOrders(companyId, updates) {
+      return applyOrderUpdates(reportStore, updates, report => report.companyId === companyId)
+    },
+
+    async trash(companyId, reportId, deletedAt) {
+      const report = reportStore.get(reportId)
+      if (report && report.companyId === companyId) reportStore.set(reportId, { ...report, deletedAt })
+    },
+
+    async restore(companyId, reportId) {
+      const report = reportStore.get(reportId)
+      if (report && report.companyId === companyId) reportStore.set(reportId, { ...report, deletedAt: undefined })
+    },
+
+    async remove(companyId, reportId) {
+      if (reportStore.get(reportId)?.companyId === companyId) {
+        removeReport(reportId)
+      }
+    }
+  }
+
+  const comments: CommentRepository = {
+    async listByReport(reportId) {
+      return commentsOf(reportId)
+    },
+
+    async get(reportId, commentId) {
+      const entry = commentStore.get(commentId)
+      return entry && entry.reportId === reportId ? structuredClone(entry.comment) : null
+    },
+
+    async save(reportId, comment) {
+      if (!reportStore.has(reportId) || (comment.parentId && !commentStore.has(comment.parentId))) {
+        throw violatesForeignKey('comments')
+      }
+      commentStore.set(comment.id, { reportId, comment: structuredClone(comment) })
+      return comment
+    },
+
+    async remove(reportId, commentId) {
+      if (commentStore.get(commentId)?.reportId === reportId) {
+        removeComment(commentId)
+      }
+    }
+  }
+
+  const audit: AuditRepository = {
+    async append(entry) {
+      auditLog.push(structuredClone(entry))
+    },
+
+    async list(filter) {
+      const time = (value: string) => new Date(value).getTime()
+      return auditLog
+        .filter(entry => !filter.companyId || entry.companyId === filter.companyId)
+        .filter(entry => !filter.entityType || entry.entityType === filter.entityType)
+        .filter(entry => !filter.entityId || entry.entityId === filter.entityId)
+        .filter(entry => !filter.actorId || entry.actorId === filter.actorId)
+        .filter(entry => !filter.action || entry.action === filter.action)
+        .filter(entry => !filter.from || time(entry.createdAt) >= time(filter.from))
+        .filter(entry => !filter.to || time(entry.createdAt) <= time(filter.to))
+        .map(entry => structuredClone(entry))
+        .reverse()
+        .slice(0, filter.limit)
+    }
+  }
+
+  const checkTags = (table: string, tagIds: string[]) => {
+    if (tagIds.some(id => !tagStore.has(id))) {
+      throw violatesForeignKey(table)
+    }
+  }
+
+  const tags: TagRepository = {
+    async list() {
+      return [...tagStore.values()]
+        .map(tag => structuredClone(tag))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    },
+
+    async listUsage() {
+      return (await tags.list()).map(usageOf)
+    },
+
+    async get(id) {
+      const tag = tagStore.get(id)
+      return tag ? structuredClone(tag) : null
+    },
+
+    async getUsage(id) {
+      const tag = tagStore.get(id)
+      return tag ? usageOf(structuredClone(tag)) : null
+    },
+
+    async save(tag) {
+      const duplicate = [...tagStore.values()].some(existing => existing.id !== tag.id && existing.name.toLowerCase() === tag.name.toLowerCase())
+      if (duplicate) {
+        throw new Error('duplicate key value violates unique constraint "tags_name_idx"')
+      }
+      tagStore.set(tag.id, structuredClone(tag))
+      return tag
+    },
+
+    async remove(id) {
+      tagStore.delete(id)
+      for (const store of [companyTagStore, reportTagStore]) {
+        for (const [entityId, tagIds] of store) {
+          store.set(entityId, tagIds.filter(tagId => tagId !== id))
+        }
+      }
+    },
+
+    async setCompanyTags(companyId, tagIds) {
+      if (!companyStore.has(companyId)) throw violatesForeignKey('company_tags')
+      checkTags('company_tags', tagIds)
+      companyTagStore.set(companyId, [...tagIds])
+    },
+
+    async setReportTags(reportId, tagIds) {
+      if (!reportStore.has(reportId)) throw violatesForeignKey('report_tags')
+      checkTags('report_tags', tagIds)
+      reportTagStore.set(reportId, [...tagIds])
+    }
+  }
+
+  const seededAt = new Date().toISOString()
+  for (const [id, kind, label, color] of DEFAULT_TAXONOMY_TERMS) {
+    const order = [...taxonomyStore.values()].filter(term => term.kind === kind).length + 1
+    taxonomyStore.set(id, { id, kind, label, color, order, createdAt: seededAt, updatedAt: seededAt })
+  }
+
+  const taxonomies: TaxonomyRepository = {
+    async list(kind) {
+      return [...taxonomyStore.values()]
+        .filter(term => term.kind === kind)
+        .map(term => structuredClone(term))
+        .sort((a, b) => a.order - b.order)
+    },
+
+    async get(id) {
+      const term = taxonomyStore.get(id)
+      return term ? structuredClone(term) : null
+    },
+
+    async save(term) {
+      const duplicate = [...taxonomyStore.values()].some(existing => existing.id !== term.id && existing.kind === term.kind && existing.label.toLowerCase() === term.label.toLowerCase())
+      if (duplicate) {
+        throw new Error('duplicate key value violates unique constraint "taxonomy_terms_label_idx"')
+      }
+      taxonomyStore.set(term.id, structuredClone(term))
+      return term
+    },
+
+    async update(term) {
+      const stored = taxonomyStore.get(term.id)
+      if (!stored) return
+      await taxonomies.save({ ...stored, label: term.label, color: term.color, updatedAt: term.updatedAt })
+      if (stored.label === term.label) return
+
+      if (stored.kind === 'stock_type') {
+        for (const [id, company] of companyStore) {
+          if (company.type === stored.label) {
+            companyStore.set(id, { ...company, type: term.label, revision: company.revision + 1, updatedAt: term.updatedAt })
+          }
+        }
+      } else {
+        for (const [id, report] of reportStore) {
+          if (report.category === stored.label) {
+            reportStore.set(id, { ...report, category: term.label, revision: report.revision + 1, updatedAt: term.updatedAt })
+          }
+        }
+      }
+    },
+
+    async remove(id) {
+      taxonomyStore.delete(id)
+    },
+
+    async countUsage(kind, label) {
+      return kind === 'stock_type'
+        ? [...companyStore.values()].filter(company => company.type === label).length
+        : [...reportStore.values()].filter(report => report.category === label).length
+    },
+
+    async reorder(kind, ids) {
+      ids.forEach((id, index) => {
+        const term = taxonomyStore.get(id)
+        if (term?.kind === kind) {
+          taxonomyStore.set(id, { ...term, order: index + 1 })
+        }
+      })
+    }
+  }
+
+  const analysts: AnalystRepository = {
+    async list() {
+      return [...analystStore.values()]
+        .map(analyst => structuredClone(analyst))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    },
+
+    async listUsage() {
+      return (await analysts.list()).map(analyst => {
+        const own = reportsBy(analyst.name)
+        return {
+          ...analyst,
+          reportCount: own.length,
+          companyCount: new Set(own.map(report => report.companyId)).size,
+          latestReportAt: own[0]?.createdAt ?? null
+        }
+      })
+    },
+
+    async get(id) {
+      const analyst = analystStore.get(id)
+      return analyst ? structuredClone(analyst) : null
+    },
+
+    async getActivity(name) {
+      const own = reportsBy(name)
+      const coverage = new Map<string, AnalystActivity['coverage'][number]>()
+      const months = new Map<string, number>()
+      const categories: Record<string, number> = {}
+      for (const report of own) {
+        const covered = coverage.get(report.companyId)
+        coverage.set(report.companyId, covered
+          ? { ...covered, reportCount: covered.reportCount + 1 }
+          : { companyId: report.companyId, reportCount: 1, latestReportAt: report.createdAt })
+        const month = report.createdAt.slice(0, 7)
+        months.set(month, (months.get(month) ?? 0) + 1)
+        categories[report.category] = (categories[report.category] ?? 0) + 1
+      }
+      return {
+        reportCount: own.length,
+        latestReportAt: own[0]?.createdAt ?? null,
+        coverage: [...coverage.values()],
+        activity: [...months.entries()]
+          .map(([month, count]) => ({ month, count }))
+          .sort((a, b) => a.month.localeCompare(b.month)),
+        categories
+      }
+    },
+
+    async findByName(name) {
+      const analyst = [...analystStore.values()].find(existing => existing.name.toLowerCase() === name.toLowerCase())
+      return analyst ? structuredClone(analyst) : null
+    },
+
+    async save(analyst) {
+      const duplicate = [...analystStore.values()].some(existing => existing.id !== analyst.id && existing.name.toLowerCase() === analyst.name.toLowerCase())
+      if (duplicate) {
+        throw new Error('duplicate key value violates unique constraint "analysts_name_idx"')
+      }
+      analystStore.set(analyst.id, structuredClone(analyst))
+      return analyst
+    },
+
+    async update(analyst) {
+      const stored = analystStore.get(analyst.id)
+      if (!stored) return
+      await analysts.save({ ...analyst, createdAt: stored.createdAt })
+      if (stored.name === analyst.name) return
+
+      for (const [id, report] of reportStore) {
+        if (report.analyst === stored.name) {
+          reportStore.set(id, { ...report, analyst: analyst.name, revision: report.revision + 1, updatedAt: analyst.updatedAt })
+        }
+      }
+    },
+
+    async merge(targetId, sourceIds, updatedAt) {
+      const target = analystStore.get(targetId)
+      if (!target) return
+      const sources = sourceIds
+        .filter(id => id !== targetId)
+        .map(id => analystStore.get(id))
+        .filter((source): source is Analyst => !!source)
+      const sourceNames = new Set(sources.map(source => source.name))
+
+      for (const [id, report] of reportStore) {
+        if (sourceNames.has(report.analyst)) {
+          reportStore.set(id, { ...report, analyst: target.name, revision: report.revision + 1, updatedAt })
+        }
+      }
+      for (const source of sources) {
+        analystStore.delete(source.id)
+      }
+      analystStore.set(targetId, { ...target, updatedAt })
+    },
+
+    async remove(id) {
+      analystStore.delete(id)
+    },
+
+    async countUsage(name) {
+      return [...reportStore.values()].filter(report => report.analyst === name).length
+    }
+  }
+
+  const ownedWatchlist = (ownerId: string, id: string) => {
+    const watchlist = watchlistStore.get(id)
+    return watchlist && watchlist.ownerId === ownerId ? watchlist : null
+  }
+
+  const watchlists: WatchlistRepository = {
+    async listByOwner(ownerId) {
+      return [...watchlistStore.values()]
+        .filter(watchlist => watchlist.ownerId === ownerId)
+        .map(watchlist => structuredClone(watchlist))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    },
+
+    async get(ownerId, id) {
+      const watchlist = ownedWatchlist(ownerId, id)
+      return watchlist ? structuredClone(watchlist) : null
+    },
+
+    async save(watchlist) {
+      const companyIds = watchlistStore.get(watchlist.id)?.companyIds ?? []
+      watchlistStore.set(watchlist.id, { ...structuredClone(watchlist), companyIds })
+      return watchlist
+    },
+
+    async setCompanies(ownerId, id, companyIds) {
+      const watchlist = ownedWatchlist(ownerId, id)
+      if (!watchlist) return
+      if (companyIds.some(companyId => !companyStore.has(companyId))) {
+        throw violatesForeignKey('watchlist_companies')
+      }
+      watchlistStore.set(id, { ...watchlist, companyIds: [...companyIds], updatedAt: new Date().toISOString() })
+    },
+
+    async remove(ownerId, id) {
+      if (ownedWatchlist(ownerId, id)) watchlistStore.delete(id)
+    }
+  }
+
+  const subscriptions: SubscriptionRepository = {
+    async listByUser(userId) {
+      return [...subscriptionStore.values()]
+        .filter(subscription => subscription.userId === userId)
+        .map(subscription => structuredClone(subscription))
+        .sort(byCreatedAt)
+        .reverse()
+    },
+
+    async listSubscribers(companyId, reportId) {
+      return [...subscriptionStore.values()]
+        .filter(subscription => subscription.companyId === companyId
+          && (subscription.reportId === null || subscription.reportId === reportId))
+        .map(subscription => structuredClone(subscription))
+    },
+
+    async save(subscription) {
+      if (!companyStore.has(subscription.companyId) || (subscription.reportId && !reportStore.has(subscription.reportId))) {
+        throw violatesForeignKey('subscriptions')
+      }
+      const exists = [...subscriptionStore.values()].some(existing => existing.userId === subscription.userId
+        && existing.companyId === subscription.companyId
+        && existing.reportId === subscription.reportId)
+      if (!exists) subscriptionStore.set(subscription.id, structuredClone(subscription))
+    },
+
+    async remove(userId, companyId, reportId) {
+      for (const [id, subscription] of subscriptionStore) {
+        if (subscription.userId === userId && subscription.companyId === companyId && subscription.reportId === reportId) {
+          subscriptionStore.delete(id)
+        }
+      }
+    }
+  }
+
+  const notifications: NotificationRepository = {
+    async addMany(items) {
+      if (items.some(item => !reportStore.has(item.reportId) || (item.commentId && !commentStore.has(item.commentId)))) {
+        throw violatesForeignKey('notifications')
+      }
+      items.forEach(item => notificationStore.set(item.id, structuredClone(item)))
+    },
+
+    async listByUser(userId, { unreadOnly, since, limit }) {
+      return [...notificationStore.values()]
+        .filter(notification => notification.userId === userId
+          && (!unreadOnly || !notification.readAt)
+          && (!since || notification.createdAt > since))
+        .sort(byCreatedAt)
+        .reverse()
+        .slice(0, limit)
+        .map(notification => structuredClone(notification))
+    },
+
+    async countUnread(userId) {
+      return [...notificationStore.values()].filter(notification => notification.userId === userId && !notification.readAt).length
+    },
+
+    async markRead(userId, readAt, ids) {
+      for (const notification of notificationStore.values()) {
+        if (notification.userId === userId && !notification.readAt && (!ids || ids.includes(notification.id))) {
+          notification.readAt = readAt
+        }
+      }
+    },
+
+    async getSettings(userId) {
+      const settings = settingsStore.get(userId)
+      return settings ? structuredClone(settings) : null
+    },
+
+    async saveSettings(settings) {
+      settingsStore.set(settings.userId, structuredClone(settings))
+      return settings
+    },
+
+    async listDigestSettings() {
+      return [...settingsStore.values()]
+        .filter(settings => settings.digest !== 'off')
+        .map(settings => structuredClone(settings))
+    },
+
+    async claimDigest(userId, previous, next) {
+      const settings = settingsStore.get(userId)
+      if (!settings || settings.lastDigestAt !== previous) {
+        return false
+      }
+      settingsStore.set(userId, { ...settings, lastDigestAt: next })
+      return true
+    }
+  }
+
+  const search: SearchRepository = {
+    async getPages(reportId) {
+      return [...pageStore.get(reportId) ?? []]
+    },
+
+    async setPages(reportId, pages) {
+      if (!reportStore.has(reportId)) {
+        throw violatesForeignKey('report_pages')
+      }
+      pageStore.set(reportId, [...pages])
+    },
+
+    async removePages(reportId) {
+      pageStore.delete(reportId)
+    },
+
+    async search(terms, { limit, snippets }) {
+      const termWords = terms.map(searchWords).filter(words => words.length > 0)
+      if (termWords.length === 0) {
+        return []
+      }
+      const hits: SearchHit[] = []
+      for (const report of reportStore.values()) {
+        if (!isVisibleReport(report)) continue
+        const metadata = searchWords(`${report.title} ${report.analyst} ${report.category}`)
+        const pages = (pageStore.get(report.id) ?? []).map((content, index) => ({ page: index + 1, content, words: searchWords(content) }))
+        const found = (term: string[]) => containsWords(metadata, term) || pages.some(page => containsWords(page.words, term))
+        if (!termWords.every(found)) continue
+        const matching = pages.filter(page => termWords.some(term => containsWords(page.words, term)))
+        const company = companyStore.get(report.companyId)!
+        hits.push({
+          reportId: report.id,
+          companyId: report.companyId,
+          companyName: company.name,
+          companyCode: company.code,
+          title: report.title,
+          analyst: report.analyst,
+          category: report.category,
+          createdAt: report.createdAt,
+          matchCount: matching.length,
+          matches: matching.slice(0, snippets).map(page => headlineOf(page.page, page.content, termWords))
+        })
+      }
+      return hits
+        .sort((a, b) => b.matchCount - a.matchCount || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, limit)
+    }
+  }
+
+  const stats: StatsRepository = {
+    async get({ since, staleBefore, topAnalysts, mostDiscussed }) {
+      const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1)
+      const collect = (sets: Map<string, Set<string>>, key: string, value: string) => sets.set(key, (sets.get(key) ?? new Set()).add(value))
+      const ranked = (counts: Map<string, number>) => [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      const monthly = (counts: Map<string, number>) => [...counts.keys()].sort()
+
+      const visibleCompanies = [...companyStore.values()].filter(company => !company.deletedAt)
+      const visibleReports = [...reportStore.values()].filter(isVisibleReport)
+      const inPeriod = visibleReports.filter(report => report.createdAt >= since)
+      const comments = [...commentStore.values()].filter(entry => {
+        const report = reportStore.get(entry.reportId)
+        return entry.comment.createdAt >= since && !!report && isVisibleReport(report)
+      })
+
+      const reportMonths = new Map<string, number>()
+      const categories = new Map<string, number>()
+      const stockTypes = new Map<string, number>()
+      const stockTypeCompanies = new Map<string, Set<string>>()
+      const analystReports = new Map<string, number>()
+      const analystCompanies = new Map<string, Set<string>>()
+      for (const report of inPeriod) {
+        const type = companyStore.get(report.companyId)!.type
+        increment(reportMonths, report.createdAt.slice(0, 7))
+        increment(categories, report.category)
+        increment(stockTypes, type)
+        collect(stockTypeCompanies, type, report.companyId)
+        increment(analystReports, report.analyst)
+        collect(analystCompanies, report.analyst, report.companyId)
+      }
+
+      const commentMonths = new Map<string, number>()
+      const commenters = new Map<string, Set<string>>()
+      const reportComments = new Map<string, number>()
+      for (const { reportId, comment } of comments) {
+        const month = comment.createdAt.slice(0, 7)
+        increment(commentMonths, month)
+        if (comment.authorId) {
+          collect(commenters, month, comment.authorId)
+        }
+        increment(reportComments, reportId)
+      }
+
+      const latestReportAt = new Map<string, string>()
+      for (const report of visibleReports) {
+        if (report.createdAt > (latestReportAt.get(report.companyId) ?? '')) {
+          latestReportAt.set(report.companyId, report.createdAt)
+        }
+      }
+
+      return {
+        totals: {
+          companies: visibleCompanies.length,
+          reports: visibleReports.length,
+          analysts: analystStore.size,
+          reportsInPeriod: inPeriod.length,
+          commentsInPeriod: comments.length
+        },
+        reportsPerMonth: monthly(reportMonths).map(month => ({ month, count: reportMonths.get(month)! })),
+        byCategory: ranked(categories).map(([category, count]) => ({ category, count })),
+        byStockType: ranked(stockTypes).map(([type, count]) => ({ type, count, companyCount: stockTypeCompanies.get(type)!.size })),
+        topAnalysts: ranked(analystReports).slice(0, topAnalysts).map(([name, count]) => ({
+          analystId: [...analystStore.values()].find(analyst => analyst.name === name)?.id ?? null,
+          name,
+          count,
+          companyCount: analystCompanies.get(name)!.size
+        })),
+        commentActivity: monthly(commentMonths).map(month => ({
+          month,
+          count: commentMonths.get(month)!,
+          commenters: commenters.get(month)?.size ?? 0
+        })),
+        mostDiscussed: ranked(reportComments).slice(0, mostDiscussed).map(([reportId, count]) => {
+          const report = reportStore.get(reportId)!
+          return { reportId, companyId: report.companyId, title: report.title, count }
+        }),
+        staleCompanies: visibleCompanies
+          .filter(company => (latestReportAt.get(company.id) ?? '') < staleBefore)
+          .map(company => ({
+            companyId: company.id,
+            name: company.name,
+            code: company.code,
+            type: company.type,
+            latestReportAt: latestReportAt.get(company.id) ?? null
+          }))
+          .sort((a, b) => (a.latestReportAt ?? '').localeCompare(b.latestReportAt ?? '') || a.name.localeCompare(b.name))
+      }
+    }
+  }
+
+  return { companies, reports, comments, tags, taxonomies, analysts, watchlists, subscriptions, notifications, search, stats, audit }
+}
+
+const createRepositoryFromEnv = (): Repository => {
+  if (Deno.env.get('DATA_BACKEND') === 'memory') {
+    return createMemoryRepository()
+  }
+  return createSupabaseRepository(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+}
+
+const defaultRepository = createRepositoryFromEnv()
+
+export let companies = defaultRepository.companies
+export let reports = defaultRepository.reports
+export let comments = defaultRepository.comments
+export let tags = defaultRepository.tags
+export let taxonomies = defaultRepository.taxonomies
+export let analysts = defaultRepository.analysts
+export let watchlists = defaultRepository.watchlists
+export let subscriptions = defaultRepository.subscriptions
+export let notifications = defaultRepository.notifications
+export let search = defaultRepository.search
+export let stats = defaultRepository.stats
+export let audit = defaultRepository.audit
+
+// Lets tests swap in their own backend
+export const setRepository = (repository: Repository) => {
+  companies = repository.companies
+  reports = repository.reports
+  comments = repository.comments
+  tags = repository.tags
+  taxonomies = repository.taxonomies
+  analysts = repository.analysts
+  watchlists = repository.watchlists
+  subscriptions = repository.subscriptions
+  notifications = repository.notifications
+  search = repository.search
+  stats = repository.stats
+  audit = repository.audit
+}
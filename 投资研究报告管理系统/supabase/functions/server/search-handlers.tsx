@@ -0,0 +1,29 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { parseTerms, toSearchMatch } from './search-index.tsx'
+
+export const searchRoutes = new Hono()
+
+const MAX_RESULTS = 50
+const MAX_SNIPPETS_PER_REPORT = 3
+
+// Search report titles, analysts and extracted PDF text across all companies; reports with more
+// matching pages come first, then the newest
+searchRoutes.get('/search', async (c) => {
+  try {
+    const terms = parseTerms(c.req.query('q') || '')
+    if (terms.length === 0) {
+      return c.json({ success: false, error: 'Search query is required' }, 400)
+    }
+
+    const hits = await repo.search.search(terms, { limit: MAX_RESULTS, snippets: MAX_SNIPPETS_PER_REPORT })
+
+    return c.json({
+      success: true,
+      data: hits.map(hit => ({ ...hit, matches: hit.matches.map(toSearchMatch) }))
+    })
+  } catch (error) {
+    console.error('Error searching reports:', error)
+    return c.json({ success: false, error: 'Failed to search reports' }, 500)
+  }
+})
@@ -0,0 +1,60 @@
+import { extractText, getDocumentProxy } from 'npm:unpdf'
+import * as repo from './repository.tsx'
+
+export type SearchMatch = {
+  page: number
+  snippet: string
+  // [start, end) offsets of the matched terms inside snippet
+  highlights: [number, number][]
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Extract the text of every page, in page order
+export const extractPdfPages = async (data: ArrayBuffer): Promise<string[]> => {
+  const pdf = await getDocumentProxy(new Uint8Array(data))
+  const { text } = await extractText(pdf, { mergePages: false })
+  return text.map(normalize)
+}
+
+// Store the page texts of an uploaded PDF, given as the file or a way to read it back from storage;
+// failures are logged so uploads still succeed
+export const indexReport = async (reportId: string, file: Blob | (() => Promise<Blob>)) => {
+  try {
+    const pdf = file instanceof Blob ? file : await file()
+    await repo.search.setPages(reportId, await extractPdfPages(await pdf.arrayBuffer()))
+  } catch (error) {
+    console.error(`Error indexing report ${reportId}:`, error)
+  }
+}
+
+export const removeReportIndex = async (reportId: string) => {
+  await repo.search.removePages(reportId)
+}
+
+export const parseTerms = (query: string) => {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))]
+}
+
+// Turn a search excerpt into a snippet with the offsets of its matched words; matches that touch,
+// like the characters of a Chinese term, become one highlight
+export const toSearchMatch = ({ page, headline, moreBefore, moreAfter }: repo.SearchExcerpt): SearchMatch => {
+  let snippet = moreBefore ? '…' : ''
+  const highlights: [number, number][] = []
+  let start = 0
+  for (const character of headline) {
+    if (character === repo.HEADLINE_START) {
+      start = snippet.length
+    } else if (character === repo.HEADLINE_STOP) {
+      const last = highlights[highlights.length - 1]
+      if (last && last[1] === start) {
+        last[1] = snippet.length
+      } else {
+        highlights.push([start, snippet.length])
+      }
+    } else {
+      snippet += character
+    }
+  }
+  return { page, snippet: moreAfter ? `${snippet}…` : snippet, highlights }
+}
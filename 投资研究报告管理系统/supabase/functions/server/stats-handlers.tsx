@@ -0,0 +1,80 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import type { AuthEnv } from './auth.tsx'
+
+// Aggregates for the analytics dashboard, so clients chart research output without loading every
+// report. The database does the counting, see repo.stats; months are UTC calendar months, as on the
+// analyst profiles.
+
+export const statsRoutes = new Hono<AuthEnv>()
+
+const DEFAULT_MONTHS = 12
+const MAX_MONTHS = 36
+const DEFAULT_STALE_DAYS = 90
+const MAX_STALE_DAYS = 3650
+const TOP_ANALYSTS = 10
+const MOST_DISCUSSED = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Returns the integer query param, its default when missing, or an error message
+const parseCount = (value: string | undefined, name: string, fallback: number, max: number): number | string => {
+  if (value === undefined || value === '') {
+    return fallback
+  }
+  const count = Number(value)
+  return Number.isInteger(count) && count >= 1 && count <= max ? count : `${name} must be between 1 and ${max}`
+}
+
+// The last count months up to the current one, oldest first, like 2026-09
+const recentMonths = (now: Date, count: number) => {
+  return Array.from({ length: count }, (_, index) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (count - 1 - index), 1)).toISOString().slice(0, 7)
+  )
+}
+
+// Dashboard numbers over reports and comments outside the trash:
+// - totals: companies, reports and directory analysts overall, reports and comments in the period
+// - reportsPerMonth and commentActivity: one entry per month of the period, empty months included
+// - byCategory, byStockType and topAnalysts: reports in the period, most first
+// - mostDiscussed: reports with the most comments in the period
+// - staleCompanies: companies without a report in the last staleDays days, never-covered ones first,
+//   then the longest silent
+// The period is the last `months` months, the current one included.
+statsRoutes.get('/stats', async (c) => {
+  try {
+    const months = parseCount(c.req.query('months'), 'months', DEFAULT_MONTHS, MAX_MONTHS)
+    if (typeof months === 'string') {
+      return c.json({ success: false, error: months }, 400)
+    }
+    const staleDays = parseCount(c.req.query('staleDays'), 'staleDays', DEFAULT_STALE_DAYS, MAX_STALE_DAYS)
+    if (typeof staleDays === 'string') {
+      return c.json({ success: false, error: staleDays }, 400)
+    }
+
+    const now = new Date()
+    const period = recentMonths(now, months)
+    const stats = await repo.stats.get({
+      since: `${period[0]}-01T00:00:00.000Z`,
+      staleBefore: new Date(now.getTime() - staleDays * DAY_MS).toISOString(),
+      topAnalysts: TOP_ANALYSTS,
+      mostDiscussed: MOST_DISCUSSED
+    })
+
+    const reportMonths = new Map(stats.reportsPerMonth.map(entry => [entry.month, entry]))
+    const commentMonths = new Map(stats.commentActivity.map(entry => [entry.month, entry]))
+
+    return c.json({
+      success: true,
+      data: {
+        months,
+        staleDays,
+        ...stats,
+        reportsPerMonth: period.map(month => reportMonths.get(month) ?? { month, count: 0 }),
+        commentActivity: period.map(month => commentMonths.get(month) ?? { month, count: 0, commenters: 0 })
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching stats:', error)
+    return c.json({ success: false, error: 'Failed to fetch stats' }, 500)
+  }
+})
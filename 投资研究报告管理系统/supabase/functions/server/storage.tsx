@@ -0,0 +1,240 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { getFileType } from './file-kinds.tsx'
+
+// File storage behind a small interface so the server can run against Supabase Storage
+// or, with STORAGE_BACKEND=local, against a directory on disk for offline development and tests.
+// Every method throws on failure.
+
+export type BucketOptions = {
+  public: boolean
+  allowedMimeTypes: string[]
+  fileSizeLimit: number
+}
+
+export type UploadOptions = {
+  contentType?: string
+  upsert?: boolean
+}
+
+export interface StorageProvider {
+  // Create the bucket, or bring an existing one's options up to date
+  ensureBucket(bucket: string, options: BucketOptions): Promise<void>
+  // A stream is sent as it is read, so large files never sit in memory whole
+  upload(bucket: string, path: string, data: Blob | ArrayBuffer | ReadableStream<Uint8Array>, options?: UploadOptions): Promise<void>
+  download(bucket: string, path: string): Promise<Blob>
+  remove(bucket: string, paths: string[]): Promise<void>
+  // Time-limited URL for a private file
+  signedUrl(bucket: string, path: string, expiresInSeconds: number): Promise<string>
+  publicUrl(bucket: string, path: string): string
+  // Names of the files directly inside a folder
+  list(bucket: string, folder: string): Promise<string[]>
+}
+
+export const createSupabaseStorage = (url: string, serviceRoleKey: string): StorageProvider => {
+  const supabase = createClient(url, serviceRoleKey)
+
+  const check = (error: { message: string } | null) => {
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  return {
+    async ensureBucket(bucket, options) {
+      const { data: existingBuckets, error } = await supabase.storage.listBuckets()
+      check(error)
+      if (existingBuckets?.some(b => b.name === bucket)) {
+        check((await supabase.storage.updateBucket(bucket, options)).error)
+      } else {
+        check((await supabase.storage.createBucket(bucket, options)).error)
+      }
+    },
+
+    async upload(bucket, path, data, options = {}) {
+      // fetch only sends a stream body with half duplex
+      const fileOptions = data instanceof ReadableStream ? { ...options, duplex: 'half' } : options
+      check((await supabase.storage.from(bucket).upload(path, data, fileOptions)).error)
+    },
+
+    async download(bucket, path) {
+      const { data, error } = await supabase.storage.from(bucket).download(path)
+      check(error)
+      return data!
+    },
+
+    async remove(bucket, paths) {
+      check((await supabase.storage.from(bucket).remove(paths)).error)
+    },
+
+    async signedUrl(bucket, path, expiresInSeconds) {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds)
+      check(error)
+      return data!.signedUrl
+    },
+
+    publicUrl(bucket, path) {
+      return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+    },
+
+    async list(bucket, folder) {
+      const { data, error } = await supabase.storage.from(bucket).list(folder, { limit: 1000 })
+      check(error)
+      return (data || []).map(file => file.name)
+    }
+  }
+}
+
+// Signs local file URLs so "signed" links expire like Supabase ones do
+const sign = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export type LocalStorageOptions = {
+  // Directory holding one sub-directory per bucket
+  rootDir: string
+  // Absolute URL the files are served from, see serveLocalFile
+  baseUrl: string
+  secret: string
+}
+
+export type LocalStorageProvider = StorageProvider & {
+  // Resolve a signed or public URL back to the file, or null when the link is invalid or expired
+  resolve(bucket: string, path: string, query: { expires?: string; token?: string }): Promise<string | null>
+}
+
+export const createLocalStorage = ({ rootDir, baseUrl, secret }: LocalStorageOptions): LocalStorageProvider => {
+  const buckets = new Map<string, BucketOptions>()
+
+  // Keys come from our own handlers, but never let one escape the bucket directory
+  const filePath = (bucket: string, path: string) => {
+    const segments = [bucket, ...path.split('/')]
+    if (segments.some(segment => !segment || segment === '.' || segment === '..')) {
+      throw new Error(`Invalid storage path: ${bucket}/${path}`)
+    }
+    return `${rootDir}/${segments.join('/')}`
+  }
+
+  const exists = async (path: string) => {
+    try {
+      await Deno.stat(path)
+      return true
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return false
+      throw error
+    }
+  }
+
+  const fileUrl = (bucket: string, path: string) => `${baseUrl}/${bucket}/${path.split('/').map(encodeURIComponent).join('/')}`
+
+  return {
+    async ensureBucket(bucket, options) {
+      await Deno.mkdir(`${rootDir}/${bucket}`, { recursive: true })
+      buckets.set(bucket, options)
+    },
+
+    async upload(bucket, path, data, options = {}) {
+      const target = filePath(bucket, path)
+      if (!options.upsert && await exists(target)) {
+        throw new Error('The resource already exists')
+      }
+      const bytes = data instanceof ArrayBuffer ? data : await new Response(data).arrayBuffer()
+      const limit = buckets.get(bucket)?.fileSizeLimit
+      if (limit && bytes.byteLength > limit) {
+        throw new Error('The object exceeded the maximum allowed size')
+      }
+      await Deno.mkdir(target.slice(0, target.lastIndexOf('/')), { recursive: true })
+      await Deno.writeFile(target, new Uint8Array(bytes))
+    },
+
+    async download(bucket, path) {
+      return new Blob([await Deno.readFile(filePath(bucket, path))])
+    },
+
+    async remove(bucket, paths) {
+      for (const path of paths) {
+        try {
+          await Deno.remove(filePath(bucket, path))
+        } catch (error) {
+          // Supabase ignores missing files as well
+          if (!(error instanceof Deno.errors.NotFound)) throw error
+        }
+      }
+    },
+
+    async signedUrl(bucket, path, expiresInSeconds) {
+      if (!await exists(filePath(bucket, path))) {
+        throw new Error('Object not found')
+      }
+      const expires = String(Date.now() + expiresInSeconds * 1000)
+      const token = await sign(secret, `${bucket}/${path}:${expires}`)
+      return `${fileUrl(bucket, path)}?expires=${expires}&token=${token}`
+    },
+
+    publicUrl(bucket, path) {
+      return fileUrl(bucket, path)
+    },
+
+    async list(bucket, folder) {
+      const names: string[] = []
+      try {
+        for await (const entry of Deno.readDir(filePath(bucket, folder))) {
+          if (entry.isFile) names.push(entry.name)
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error
+      }
+      return names.sort()
+    },
+
+    async resolve(bucket, path, query) {
+      const isPublic = buckets.get(bucket)?.public ?? false
+      if (!isPublic) {
+        const expires = Number(query.expires)
+        if (!query.token || !expires || expires < Date.now()) return null
+        if (query.token !== await sign(secret, `${bucket}/${path}:${query.expires}`)) return null
+      }
+      const target = filePath(bucket, path)
+      return await exists(target) ? target : null
+    }
+  }
+}
+
+const createStorageFromEnv = (): StorageProvider => {
+  if (Deno.env.get('STORAGE_BACKEND') === 'local') {
+    return createLocalStorage({
+      rootDir: Deno.env.get('LOCAL_STORAGE_DIR') || './.storage',
+      baseUrl: Deno.env.get('LOCAL_STORAGE_URL') || 'http://localhost:8000/make-server-78971119/storage',
+      secret: Deno.env.get('LOCAL_STORAGE_SECRET') || 'local-development-secret'
+    })
+  }
+  return createSupabaseStorage(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+}
+
+export let storage: StorageProvider = createStorageFromEnv()
+
+// Lets tests swap in their own provider
+export const setStorage = (provider: StorageProvider) => {
+  storage = provider
+}
+
+const isLocalStorage = (provider: StorageProvider): provider is LocalStorageProvider => 'resolve' in provider
+
+// Serves files of the local backend at LOCAL_STORAGE_URL; Supabase serves its own URLs
+export const serveLocalFile = async (bucket: string, path: string, query: { expires?: string; token?: string }) => {
+  if (!isLocalStorage(storage)) return null
+  const target = await storage.resolve(bucket, path, query)
+  if (!target) return null
+  const contentType = getFileType(path)?.mimeType || 'application/octet-stream'
+  return new Response(await Deno.readFile(target), { headers: { 'Content-Type': contentType } })
+}
@@ -0,0 +1,204 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { companyTarget } from './company-handlers.tsx'
+import { reportTarget } from './report-handlers.tsx'
+import { COLORS, isColor } from './palette.tsx'
+
+// Free-form tags shared by companies and reports, e.g. themes like "AI capex", regions or event types.
+// Analysts create and rename tags and tag reports; tagging companies follows company editing and
+// needs a PM, as does deleting a tag, which takes it off everything it was on.
+
+export const tagRoutes = new Hono<AuthEnv>()
+
+export const MAX_TAG_NAME_LENGTH = 30
+
+const tagTarget: AuditTarget = {
+  entityType: 'tag',
+  id: (c, data) => c.req.param('id') ?? data?.id,
+  load: (_c, id) => id ? repo.tags.get(id) : null
+}
+
+const parseName = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+// Names are unique regardless of case, as in the tags_name_idx index
+const checkName = async (name: string, exceptId?: string): Promise<string | null> => {
+  if (!name) {
+    return 'Tag name is required'
+  }
+  if (name.length > MAX_TAG_NAME_LENGTH) {
+    return `Tag name must be at most ${MAX_TAG_NAME_LENGTH} characters`
+  }
+  const existing = await repo.tags.list()
+  if (existing.some(tag => tag.name.toLowerCase() === name.toLowerCase() && tag.id !== exceptId)) {
+    return 'A tag with this name already exists'
+  }
+  return null
+}
+
+// Returns an error message, or null when the ids name distinct, existing tags
+const checkTagIds = async (value: unknown): Promise<string | null> => {
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) {
+    return 'tagIds must be an array of tag ids'
+  }
+  if (new Set(value).size !== value.length) {
+    return 'tagIds must not contain duplicates'
+  }
+  const known = new Set((await repo.tags.list()).map(tag => tag.id))
+  if (value.some(id => !known.has(id))) {
+    return 'Tag not found'
+  }
+  return null
+}
+
+// List all tags with how many companies and reports carry each
+tagRoutes.get('/tags', async (c) => {
+  try {
+    return c.json({ success: true, data: await repo.tags.listUsage() })
+  } catch (error) {
+    console.error('Error fetching tags:', error)
+    return c.json({ success: false, error: 'Failed to fetch tags' }, 500)
+  }
+})
+
+// A tag with its counts and companies; its reports across all companies are paged from GET /reports?tag=
+tagRoutes.get('/tags/:id', async (c) => {
+  try {
+    const id = c.req.param('id')
+    const [tag, companies] = await Promise.all([repo.tags.getUsage(id), repo.companies.listByTag(id)])
+    if (!tag) {
+      return c.json({ success: false, error: 'Tag not found' }, 404)
+    }
+
+    return c.json({ success: true, data: { tag, companies } })
+  } catch (error) {
+    console.error('Error fetching tag:', error)
+    return c.json({ success: false, error: 'Failed to fetch tag' }, 500)
+  }
+})
+
+// Create a tag
+tagRoutes.post('/tags', requireRole('analyst'), audit('tag.create', tagTarget), async (c) => {
+  try {
+    const body = await c.req.json()
+    const name = parseName(body.name)
+    const color = body.color ?? COLORS[0]
+
+    const invalid = await checkName(name) ?? (isColor(color) ? null : 'Unknown tag color')
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const now = new Date().toISOString()
+    const tag: repo.Tag = {
+      id: crypto.randomUUID(),
+      name,
+      color,
+      createdAt: now,
+      updatedAt: now
+    }
+    await repo.tags.save(tag)
+
+    return c.json({ success: true, data: tag })
+  } catch (error) {
+    console.error('Error creating tag:', error)
+    return c.json({ success: false, error: 'Failed to create tag' }, 500)
+  }
+})
+
+// Rename or recolor a tag
+tagRoutes.put('/tags/:id', requireRole('analyst'), audit('tag.update', tagTarget), async (c) => {
+  try {
+    const id = c.req.param('id')
+    const body = await c.req.json()
+
+    const tag = await repo.tags.get(id)
+    if (!tag) {
+      return c.json({ success: false, error: 'Tag not found' }, 404)
+    }
+
+    const name = body.name === undefined ? tag.name : parseName(body.name)
+    const color = body.color ?? tag.color
+
+    const invalid = await checkName(name, id) ?? (isColor(color) ? null : 'Unknown tag color')
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const updated = { ...tag, name, color, updatedAt: new Date().toISOString() }
+    await repo.tags.save(updated)
+
+    return c.json({ success: true, data: updated })
+  } catch (error) {
+    console.error('Error updating tag:', error)
+    return c.json({ success: false, error: 'Failed to update tag' }, 500)
+  }
+})
+
+// Delete a tag; the companies and reports it was on are untouched
+tagRoutes.delete('/tags/:id', requireRole('pm'), audit('tag.delete', tagTarget), async (c) => {
+  try {
+    const id = c.req.param('id')
+
+    if (!await repo.tags.get(id)) {
+      return c.json({ success: false, error: 'Tag not found' }, 404)
+    }
+
+    await repo.tags.remove(id)
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting tag:', error)
+    return c.json({ success: false, error: 'Failed to delete tag' }, 500)
+  }
+})
+
+// Replace the tags of a company. Tags are not part of the company's revision, so no If-Match is needed
+tagRoutes.put('/companies/:id/tags', requireRole('pm'), audit('company.tags', companyTarget), async (c) => {
+  try {
+    const id = c.req.param('id')
+    const body = await c.req.json()
+
+    if (!await repo.companies.get(id)) {
+      return c.json({ success: false, error: 'Company not found' }, 404)
+    }
+
+    const invalid = await checkTagIds(body.tagIds)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    await repo.tags.setCompanyTags(id, body.tagIds)
+
+    return c.json({ success: true, data: await repo.companies.get(id) })
+  } catch (error) {
+    console.error('Error updating company tags:', error)
+    return c.json({ success: false, error: 'Failed to update company tags' }, 500)
+  }
+})
+
+// Replace the tags of a report
+tagRoutes.put('/reports/:companyId/:reportId/tags', requireRole('analyst'), audit('report.tags', reportTarget), async (c) => {
+  try {
+    const companyId = c.req.param('companyId')
+    const reportId = c.req.param('reportId')
+    const body = await c.req.json()
+
+    if (!await repo.reports.get(companyId, reportId)) {
+      return c.json({ success: false, error: 'Report not found' }, 404)
+    }
+
+    const invalid = await checkTagIds(body.tagIds)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    await repo.tags.setReportTags(reportId, body.tagIds)
+
+    return c.json({ success: true, data: await repo.reports.get(companyId, reportId) })
+  } catch (error) {
+    console.error('Error updating report tags:', error)
+    return c.json({ success: false, error: 'Failed to update report tags' }, 500)
+  }
+})
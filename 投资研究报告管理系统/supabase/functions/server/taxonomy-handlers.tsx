@@ -0,0 +1,190 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { COLORS, isColor } from './palette.tsx'
+
+// The stock types companies are filed under and the categories of reports. Everyone reads them to
+// render filters, badges and select boxes; only admins add, relabel, recolor, reorder or delete terms.
+// Companies and reports store the label itself, so relabelling a term moves everything filed under it,
+// and a term that is still in use, even in the trash, cannot be deleted.
+
+export const taxonomyRoutes = new Hono<AuthEnv>()
+
+export const MAX_TERM_LABEL_LENGTH = 20
+
+const TAXONOMY_KINDS: repo.TaxonomyKind[] = ['stock_type', 'report_category']
+
+const isTaxonomyKind = (value: unknown): value is repo.TaxonomyKind => TAXONOMY_KINDS.includes(value as repo.TaxonomyKind)
+
+const termTarget: AuditTarget = {
+  entityType: 'taxonomy',
+  id: (c, data) => c.req.param('id') ?? data?.id,
+  load: (_c, id) => id ? repo.taxonomies.get(id) : null
+}
+
+// Reordering renumbers all terms of a kind; the entry records each term's new position
+const termOrderTarget: AuditTarget = {
+  entityType: 'taxonomy',
+  load: async (c) => {
+    const kind = c.req.param('kind')
+    if (!isTaxonomyKind(kind)) return null
+    return Object.fromEntries((await repo.taxonomies.list(kind)).map(term => [term.id, term.order]))
+  }
+}
+
+// Returns an error message, or null when label is a term of the kind. Used by the company and report handlers
+export const checkTerm = async (kind: repo.TaxonomyKind, label: string): Promise<string | null> => {
+  const terms = await repo.taxonomies.list(kind)
+  if (terms.some(term => term.label === label)) {
+    return null
+  }
+  return kind === 'stock_type' ? `Unknown stock type: ${label}` : `Unknown report category: ${label}`
+}
+
+const parseLabel = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+// Labels are unique within a kind regardless of case, as in the taxonomy_terms_label_idx index
+const checkLabel = async (kind: repo.TaxonomyKind, label: string, exceptId?: string): Promise<string | null> => {
+  if (!label) {
+    return 'Label is required'
+  }
+  if (label.length > MAX_TERM_LABEL_LENGTH) {
+    return `Label must be at most ${MAX_TERM_LABEL_LENGTH} characters`
+  }
+  const existing = await repo.taxonomies.list(kind)
+  if (existing.some(term => term.label.toLowerCase() === label.toLowerCase() && term.id !== exceptId)) {
+    return 'A term with this label already exists'
+  }
+  return null
+}
+
+// Both taxonomies, each in its own order
+taxonomyRoutes.get('/taxonomies', async (c) => {
+  try {
+    const [stockTypes, reportCategories] = await Promise.all([
+      repo.taxonomies.list('stock_type'),
+      repo.taxonomies.list('report_category')
+    ])
+
+    return c.json({ success: true, data: { stockTypes, reportCategories } })
+  } catch (error) {
+    console.error('Error fetching taxonomies:', error)
+    return c.json({ success: false, error: 'Failed to fetch taxonomies' }, 500)
+  }
+})
+
+// Add a term at the end of its taxonomy
+taxonomyRoutes.post('/taxonomies/:kind', requireRole('admin'), audit('taxonomy.create', termTarget), async (c) => {
+  try {
+    const kind = c.req.param('kind')
+    if (!isTaxonomyKind(kind)) {
+      return c.json({ success: false, error: 'Taxonomy not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const label = parseLabel(body.label)
+    const color = body.color ?? COLORS[0]
+
+    const invalid = await checkLabel(kind, label) ?? (isColor(color) ? null : 'Unknown color')
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const existing = await repo.taxonomies.list(kind)
+    const now = new Date().toISOString()
+    const term: repo.TaxonomyTerm = {
+      id: crypto.randomUUID(),
+      kind,
+      label,
+      color,
+      order: Math.max(0, ...existing.map(item => item.order)) + 1,
+      createdAt: now,
+      updatedAt: now
+    }
+    await repo.taxonomies.save(term)
+
+    return c.json({ success: true, data: term })
+  } catch (error) {
+    console.error('Error creating taxonomy term:', error)
+    return c.json({ success: false, error: 'Failed to create taxonomy term' }, 500)
+  }
+})
+
+// Set the order of all terms of a taxonomy
+taxonomyRoutes.post('/taxonomies/:kind/reorder', requireRole('admin'), audit('taxonomy.reorder', termOrderTarget), async (c) => {
+  try {
+    const kind = c.req.param('kind')
+    if (!isTaxonomyKind(kind)) {
+      return c.json({ success: false, error: 'Taxonomy not found' }, 404)
+    }
+
+    const { ids } = await c.req.json()
+    const existing = await repo.taxonomies.list(kind)
+
+    const isPermutation = Array.isArray(ids)
+      && ids.length === existing.length
+      && new Set(ids).size === ids.length
+      && existing.every(term => ids.includes(term.id))
+    if (!isPermutation) {
+      return c.json({ success: false, error: 'ids must list every term of the taxonomy once' }, 400)
+    }
+
+    await repo.taxonomies.reorder(kind, ids)
+
+    return c.json({ success: true, data: await repo.taxonomies.list(kind) })
+  } catch (error) {
+    console.error('Error reordering taxonomy terms:', error)
+    return c.json({ success: false, error: 'Failed to reorder taxonomy terms' }, 500)
+  }
+})
+
+// Relabel or recolor a term; a new label is carried over to the companies or reports filed under it
+taxonomyRoutes.put('/taxonomies/:kind/:id', requireRole('admin'), audit('taxonomy.update', termTarget), async (c) => {
+  try {
+    const term = await repo.taxonomies.get(c.req.param('id'))
+    if (!term || term.kind !== c.req.param('kind')) {
+      return c.json({ success: false, error: 'Term not found' }, 404)
+    }
+
+    const body = await c.req.json()
+    const label = body.label === undefined ? term.label : parseLabel(body.label)
+    const color = body.color ?? term.color
+
+    const invalid = await checkLabel(term.kind, label, term.id) ?? (isColor(color) ? null : 'Unknown color')
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const updated = { ...term, label, color, updatedAt: new Date().toISOString() }
+    await repo.taxonomies.update(updated)
+
+    return c.json({ success: true, data: updated })
+  } catch (error) {
+    console.error('Error updating taxonomy term:', error)
+    return c.json({ success: false, error: 'Failed to update taxonomy term' }, 500)
+  }
+})
+
+// Delete a term nothing is filed under any more
+taxonomyRoutes.delete('/taxonomies/:kind/:id', requireRole('admin'), audit('taxonomy.delete', termTarget), async (c) => {
+  try {
+    const term = await repo.taxonomies.get(c.req.param('id'))
+    if (!term || term.kind !== c.req.param('kind')) {
+      return c.json({ success: false, error: 'Term not found' }, 404)
+    }
+
+    const usage = await repo.taxonomies.countUsage(term.kind, term.label)
+    if (usage > 0) {
+      const items = term.kind === 'stock_type' ? 'companies' : 'reports'
+      return c.json({ success: false, error: `Term is still used by ${usage} ${items}, counting those in the trash` }, 400)
+    }
+
+    await repo.taxonomies.remove(term.id)
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting taxonomy term:', error)
+    return c.json({ success: false, error: 'Failed to delete taxonomy term' }, 500)
+  }
+})
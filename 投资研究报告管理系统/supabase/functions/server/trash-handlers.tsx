@@ -0,0 +1,165 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import { storage } from './storage.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+import { getReportVersions } from './report-versions.tsx'
+import { audit } from './audit.tsx'
+import { companyTarget } from './company-handlers.tsx'
+import { reportTarget } from './report-handlers.tsx'
+
+export const trashRoutes = new Hono<AuthEnv>()
+
+export const TRASH_RETENTION_DAYS = 30
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+const expiresAt = (item: { deletedAt?: string }) => new Date(new Date(item.deletedAt!).getTime() + RETENTION_MS).toISOString()
+
+const isExpired = (item: { deletedAt?: string }, now = Date.now()) => new Date(expiresAt(item)).getTime() <= now
+
+// Files go first: if storage fails the rows stay in the trash and the next purge retries, so nothing is
+// left behind without a row pointing at it. Search text goes with the report row.
+const purgeReportFiles = async (report: repo.Report) => {
+  await storage.remove('make-78971119-reports', getReportVersions(report).map(v => v.filePath))
+}
+
+// reports: every report of the company, trashed ones included
+const purgeCompany = async (company: repo.Company, reports: repo.Report[]) => {
+  if (company.iconUrl) {
+    const fileName = company.iconUrl.split('/').pop()
+    if (fileName) {
+      await storage.remove('make-78971119-company-icons', [`company-icons/${fileName}`])
+    }
+  }
+  for (const report of reports) {
+    await purgeReportFiles(report)
+  }
+  // Reports and comments go with the company in the same statement
+  await repo.companies.remove(company.id)
+}
+
+const purgeReport = async (report: repo.Report) => {
+  await purgeReportFiles(report)
+  await repo.reports.remove(report.companyId, report.id)
+}
+
+// Permanently delete everything that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async (now = Date.now()) => {
+  const result = { companies: 0, reports: 0, failed: 0 }
+
+  const expiredCompanies = (await repo.companies.listTrashed()).filter(company => isExpired(company, now))
+  const reportsByCompany = Map.groupBy(
+    await repo.reports.listIncludingTrashed(expiredCompanies.map(company => company.id)),
+    report => report.companyId
+  )
+
+  for (const company of expiredCompanies) {
+    try {
+      await purgeCompany(company, reportsByCompany.get(company.id) ?? [])
+      result.companies++
+    } catch (error) {
+      console.error(`Error purging company ${company.id}:`, error)
+      result.failed++
+    }
+  }
+
+  for (const report of await repo.reports.listTrashed()) {
+    if (!isExpired(report, now)) continue
+    try {
+      await purgeReport(report)
+      result.reports++
+    } catch (error) {
+      console.error(`Error purging report ${report.id}:`, error)
+      result.failed++
+    }
+  }
+
+  return result
+}
+
+// List the trash with the date each item will be purged
+trashRoutes.get('/trash', requireRole('pm'), async (c) => {
+  try {
+    const [trashedCompanies, trashedReports, companies] = await Promise.all([
+      repo.companies.listTrashed(),
+      repo.reports.listTrashed(),
+      repo.companies.list()
+    ])
+    const companyById = new Map(companies.map(company => [company.id, company]))
+
+    const listedCompanies = trashedCompanies.filter(company => !isExpired(company))
+    const reportCounts = await repo.reports.countByCompany(listedCompanies.map(company => company.id))
+    const companyItems = listedCompanies.map(company => ({
+      ...company,
+      reportCount: reportCounts[company.id] ?? 0,
+      expiresAt: expiresAt(company)
+    }))
+
+    const reportItems = trashedReports
+      .filter(report => !isExpired(report))
+      .map(report => ({
+        ...report,
+        companyName: companyById.get(report.companyId)?.name ?? '',
+        companyCode: companyById.get(report.companyId)?.code ?? '',
+        expiresAt: expiresAt(report)
+      }))
+
+    return c.json({ success: true, data: { companies: companyItems, reports: reportItems } })
+  } catch (error) {
+    console.error('Error fetching trash:', error)
+    return c.json({ success: false, error: 'Failed to fetch trash' }, 500)
+  }
+})
+
+// Restore a company together with the reports it had when it was deleted
+trashRoutes.post('/trash/companies/:id/restore', requireRole('admin'), audit('company.restore', companyTarget), async (c) => {
+  try {
+    const id = c.req.param('id')
+
+    const company = await repo.companies.getTrashed(id)
+    if (!company || isExpired(company)) {
+      return c.json({ success: false, error: 'Company not found in trash' }, 404)
+    }
+
+    await repo.companies.restore(id)
+
+    return c.json({ success: true, data: await repo.companies.get(id) })
+  } catch (error) {
+    console.error('Error restoring company:', error)
+    return c.json({ success: false, error: 'Failed to restore company' }, 500)
+  }
+})
+
+// Restore a report with its files, versions and comments
+trashRoutes.post('/trash/reports/:companyId/:reportId/restore', requireRole('pm'), audit('report.restore', reportTarget), async (c) => {
+  try {
+    const companyId = c.req.param('companyId')
+    const reportId = c.req.param('reportId')
+
+    const report = await repo.reports.getTrashed(companyId, reportId)
+    if (!report || isExpired(report)) {
+      return c.json({ success: false, error: 'Report not found in trash' }, 404)
+    }
+
+    if (!await repo.companies.get(companyId)) {
+      return c.json({ success: false, error: 'Restore the company first' }, 409)
+    }
+
+    await repo.reports.restore(companyId, reportId)
+
+    return c.json({ success: true, data: await repo.reports.get(companyId, reportId) })
+  } catch (error) {
+    console.error('Error restoring report:', error)
+    return c.json({ success: false, error: 'Failed to restore report' }, 500)
+  }
+})
+
+// Run the purge job; pg_cron calls this daily (see the trash_purge_schedule migration), admins may run it any time
+trashRoutes.post('/trash/purge', requireRole('admin'), audit('trash.purge', { entityType: 'trash', load: (_c, _id, data) => data }), async (c) => {
+  try {
+    return c.json({ success: true, data: await purgeExpiredTrash() })
+  } catch (error) {
+    console.error('Error purging trash:', error)
+    return c.json({ success: false, error: 'Failed to purge trash' }, 500)
+  }
+})
@@ -0,0 +1,342 @@
+import { Hono } from 'npm:hono'
+import { createMiddleware } from 'npm:hono/factory'
+import * as kv from './kv.tsx'
+import * as repo from './repository.tsx'
+import { requireRole, type AuthEnv } from './auth.tsx'
+import { createReport, type StreamedFile } from './report-handlers.tsx'
+import { checkTerm } from './taxonomy-handlers.tsx'
+import { checkAnalystName, resolveAnalyst } from './analyst-handlers.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { notifySubscribers } from './notifications.tsx'
+import { CHUNK_MIME_TYPE, getFileType } from './file-kinds.tsx'
+import { storage } from './storage.tsx'
+
+export const uploadRoutes = new Hono<AuthEnv>()
+
+const BUCKET = 'make-78971119-reports'
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+// Small enough to stay well under the edge function request body limit
+const CHUNK_SIZE = 5 * 1024 * 1024
+// Abandoned sessions and their chunks are cleaned up after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+// A claim older than this belongs to a completion that died with its function instance
+const COMPLETION_TIMEOUT_MS = 10 * 60 * 1000
+
+type UploadSession = {
+  id: string
+  companyId: string
+  userId: string
+  fileName: string
+  fileSize: number
+  chunkSize: number
+  totalChunks: number
+  title: string
+  analyst: string
+  category: string
+  createdAt: string
+  expiresAt: string
+  // Set by the request assembling the chunks, so a concurrent complete backs off
+  completingAt?: string
+  // The report created from the upload; the session is kept until it expires, so a repeated
+  // complete returns this report
+  reportId?: string
+}
+
+const sessionKey = (uploadId: string) => `upload-session:${uploadId}`
+const chunkDir = (uploadId: string) => `uploads/${uploadId}`
+const chunkPath = (uploadId: string, index: number) => `${chunkDir(uploadId)}/${index}`
+
+const isExpired = (session: UploadSession) => new Date(session.expiresAt).getTime() < Date.now()
+
+const isCompleting = (session: UploadSession) => !!session.completingAt && Date.now() - new Date(session.completingAt).getTime() < COMPLETION_TIMEOUT_MS
+
+// Storage is the source of truth for which chunks arrived, so a lost response never skips a chunk
+const listReceivedChunks = async (uploadId: string): Promise<number[]> => {
+  const names = await storage.list(BUCKET, chunkDir(uploadId))
+  return names
+    .map(name => Number(name))
+    .filter(index => Number.isInteger(index))
+    .sort((a, b) => a - b)
+}
+
+const allChunks = (session: UploadSession) => Array.from({ length: session.totalChunks }, (_, index) => index)
+
+const removeChunks = async (session: UploadSession) => {
+  try {
+    await storage.remove(BUCKET, allChunks(session).map(index => chunkPath(session.id, index)))
+  } catch (error) {
+    console.error(`Error removing chunks for upload ${session.id}:`, error)
+  }
+}
+
+const removeSession = async (session: UploadSession) => {
+  await removeChunks(session)
+  await kv.del(sessionKey(session.id))
+}
+
+const removeExpiredSessions = async () => {
+  const sessions: UploadSession[] = await kv.getByPrefix('upload-session:')
+  await Promise.all(sessions.filter(isExpired).map(removeSession))
+}
+
+const expectedChunkSize = (session: UploadSession, index: number) => {
+  if (index < session.totalChunks - 1) {
+    return session.chunkSize
+  }
+  return session.fileSize - session.chunkSize * (session.totalChunks - 1)
+}
+
+// The uploaded file, read one chunk at a time as storage consumes it, so at most one chunk is held in
+// memory. A chunk of the wrong size fails the stream and with it the upload of the assembled file.
+const assembleChunks = (session: UploadSession): StreamedFile => {
+  let index = 0
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index === session.totalChunks) {
+        controller.close()
+        return
+      }
+      const chunk = new Uint8Array(await (await storage.download(BUCKET, chunkPath(session.id, index))).arrayBuffer())
+      if (chunk.byteLength !== expectedChunkSize(session, index)) {
+        throw new Error(`Chunk ${index} of upload ${session.id} has ${chunk.byteLength} bytes`)
+      }
+      index++
+      controller.enqueue(chunk)
+    }
+  })
+  return { name: session.fileName, size: session.fileSize, stream }
+}
+
+const toStatus = (session: UploadSession, receivedChunks: number[]) => ({
+  uploadId: session.id,
+  chunkSize: session.chunkSize,
+  totalChunks: session.totalChunks,
+  receivedChunks
+})
+
+// Sessions are only visible to the user who started them
+const loadSession = async (uploadId: string, userId: string): Promise<UploadSession | null> => {
+  const session: UploadSession | null = await kv.get(sessionKey(uploadId))
+  if (!session || session.userId !== userId || isExpired(session)) {
+    return null
+  }
+  return session
+}
+
+// Start a resumable upload
+uploadRoutes.post('/companies/:companyId/uploads', requireRole('analyst'), async (c) => {
+  try {
+    const companyId = c.req.param('companyId')
+    const body = await c.req.json()
+    const { fileName, fileSize, title, analyst, category } = body
+
+    if (!fileName || !fileSize || !title || !analyst || !category) {
+      return c.json({ success: false, error: 'Missing required fields' }, 400)
+    }
+
+    if (!getFileType(String(fileName))) {
+      return c.json({ success: false, error: 'Unsupported file type' }, 400)
+    }
+
+    const unknownCategory = await checkTerm('report_category', category)
+    if (unknownCategory) {
+      return c.json({ success: false, error: unknownCategory }, 400)
+    }
+
+    const invalidAnalyst = checkAnalystName(analyst)
+    if (invalidAnalyst) {
+      return c.json({ success: false, error: invalidAnalyst }, 400)
+    }
+
+    if (!Number.isInteger(fileSize) || fileSize <= 0 || fileSize > MAX_FILE_SIZE) {
+      return c.json({ success: false, error: 'File size must be between 1 byte and 50MB' }, 400)
+    }
+
+    const company = await repo.companies.get(companyId)
+    if (!company) {
+      return c.json({ success: false, error: 'Company not found' }, 404)
+    }
+
+    await removeExpiredSessions()
+
+    const now = Date.now()
+    const session: UploadSession = {
+      id: crypto.randomUUID(),
+      companyId,
+      userId: c.get('user').id,
+      fileName,
+      fileSize,
+      chunkSize: CHUNK_SIZE,
+      totalChunks: Math.ceil(fileSize / CHUNK_SIZE),
+      title,
+      analyst,
+      category,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+    }
+
+    await kv.set(sessionKey(session.id), session)
+
+    return c.json({ success: true, data: toStatus(session, []) })
+  } catch (error) {
+    console.error('Error starting upload:', error)
+    return c.json({ success: false, error: 'Failed to start upload' }, 500)
+  }
+})
+
+// Get the chunks received so far, used to resume an interrupted upload
+uploadRoutes.get('/uploads/:uploadId', requireRole('analyst'), async (c) => {
+  try {
+    const session = await loadSession(c.req.param('uploadId'), c.get('user').id)
+    if (!session) {
+      return c.json({ success: false, error: 'Upload not found' }, 404)
+    }
+
+    // A completed upload reports every chunk, so a client resuming it goes straight to complete
+    const receivedChunks = session.reportId ? allChunks(session) : await listReceivedChunks(session.id)
+    return c.json({ success: true, data: toStatus(session, receivedChunks) })
+  } catch (error) {
+    console.error('Error fetching upload status:', error)
+    return c.json({ success: false, error: 'Failed to fetch upload status' }, 500)
+  }
+})
+
+// Upload one chunk; re-sending a chunk overwrites it
+uploadRoutes.put('/uploads/:uploadId/chunks/:index', requireRole('analyst'), async (c) => {
+  try {
+    const session = await loadSession(c.req.param('uploadId'), c.get('user').id)
+    if (!session) {
+      return c.json({ success: false, error: 'Upload not found' }, 404)
+    }
+    if (session.reportId || isCompleting(session)) {
+      return c.json({ success: false, error: 'Upload is already complete' }, 409)
+    }
+
+    const index = Number(c.req.param('index'))
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      return c.json({ success: false, error: 'Invalid chunk index' }, 400)
+    }
+
+    const chunk = await c.req.arrayBuffer()
+    if (chunk.byteLength !== expectedChunkSize(session, index)) {
+      return c.json({ success: false, error: 'Unexpected chunk size' }, 400)
+    }
+
+    try {
+      await storage.upload(BUCKET, chunkPath(session.id, index), chunk, { contentType: CHUNK_MIME_TYPE, upsert: true })
+    } catch (uploadError) {
+      console.error('Storage chunk upload error:', uploadError)
+      return c.json({ success: false, error: 'Failed to store chunk' }, 500)
+    }
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error uploading chunk:', error)
+    return c.json({ success: false, error: 'Failed to upload chunk' }, 500)
+  }
+})
+
+// The route has no company in its path; the created report carries it
+const completedUploadTarget: AuditTarget = {
+  entityType: 'report',
+  id: (_c, data) => data?.id,
+  load: (_c, id, data) => id ? repo.reports.get(data.companyId, id) : null
+}
+
+// A repeated complete, e.g. after the response to the first was lost, returns the report created then.
+// It answers ahead of the audit and notification middlewares, which record the report only once.
+const returnCompletedUpload = createMiddleware<AuthEnv>(async (c, next) => {
+  try {
+    const session = await loadSession(c.req.param('uploadId')!, c.get('user').id)
+    if (!session?.reportId) {
+      return next()
+    }
+    const report = await repo.reports.get(session.companyId, session.reportId)
+    if (!report) {
+      return c.json({ success: false, error: 'Report not found' }, 404)
+    }
+    return c.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Error completing upload:', error)
+    return c.json({ success: false, error: 'Failed to complete upload' }, 500)
+  }
+})
+
+// Assemble the chunks into the report file and create the report. The session is claimed first, so
+// of concurrent completes only one creates a report; the others get a 409 and can try again later.
+uploadRoutes.post('/uploads/:uploadId/complete', requireRole('analyst'), returnCompletedUpload, audit('report.create', completedUploadTarget), notifySubscribers('report.create'), async (c) => {
+  try {
+    const session = await loadSession(c.req.param('uploadId'), c.get('user').id)
+    if (!session) {
+      return c.json({ success: false, error: 'Upload not found' }, 404)
+    }
+    // Completed by a concurrent request since returnCompletedUpload looked
+    if (session.reportId || isCompleting(session)) {
+      return c.json({ success: false, error: 'Upload is already being completed' }, 409)
+    }
+
+    const receivedChunks = await listReceivedChunks(session.id)
+    if (receivedChunks.length !== session.totalChunks) {
+      return c.json({ success: false, error: 'Upload is incomplete', data: toStatus(session, receivedChunks) }, 409)
+    }
+
+    // The company may have been moved to the trash while the upload was running
+    if (!await repo.companies.get(session.companyId)) {
+      return c.json({ success: false, error: 'Company not found' }, 404)
+    }
+
+    // Likewise the category may have been relabelled or deleted
+    const unknownCategory = await checkTerm('report_category', session.category)
+    if (unknownCategory) {
+      return c.json({ success: false, error: unknownCategory }, 400)
+    }
+
+    // Resolved only now, so an abandoned upload adds no analyst
+    const filedUnder = await resolveAnalyst(session.analyst)
+    if (typeof filedUnder === 'string') {
+      return c.json({ success: false, error: filedUnder }, 400)
+    }
+
+    if (!await kv.setIf(sessionKey(session.id), session, { ...session, completingAt: new Date().toISOString() })) {
+      return c.json({ success: false, error: 'Upload is already being completed' }, 409)
+    }
+
+    let report: repo.Report
+    try {
+      report = await createReport(session.companyId, {
+        title: session.title,
+        analyst: filedUnder.name,
+        category: session.category
+      }, assembleChunks(session), c.get('user'))
+    } catch (error) {
+      // Released, so the client can complete the upload again
+      await kv.set(sessionKey(session.id), session)
+      throw error
+    }
+
+    await kv.set(sessionKey(session.id), { ...session, reportId: report.id })
+    await removeChunks(session)
+
+    return c.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Error completing upload:', error)
+    return c.json({ success: false, error: 'Failed to complete upload' }, 500)
+  }
+})
+
+// Abort an upload and discard its chunks
+uploadRoutes.delete('/uploads/:uploadId', requireRole('analyst'), async (c) => {
+  try {
+    const session = await loadSession(c.req.param('uploadId'), c.get('user').id)
+    if (!session) {
+      return c.json({ success: false, error: 'Upload not found' }, 404)
+    }
+
+    await removeSession(session)
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error aborting upload:', error)
+    return c.json({ success: false, error: 'Failed to abort upload' }, 500)
+  }
+})
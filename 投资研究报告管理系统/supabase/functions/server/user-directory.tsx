@@ -0,0 +1,130 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { getRole, type Role } from './auth.tsx'
+
+// User accounts behind a small interface so the user routes can run against Supabase Auth or, with
+// DATA_BACKEND=memory, against accounts kept in memory for offline development and tests.
+
+export type UserProfile = {
+  id: string
+  email: string
+  name: string
+  role: Role
+  createdAt: string
+}
+
+export type NewUser = {
+  email: string
+  password: string
+  name: string
+  role: Role
+}
+
+export type UserDirectory = {
+  // By name
+  list(): Promise<UserProfile[]>
+  get(id: string): Promise<UserProfile | null>
+  // Returns the new user, or the reason it could not be created, e.g. an email already in use
+  create(user: NewUser): Promise<UserProfile | string>
+  // Null when there is no such user
+  setRole(id: string, role: Role): Promise<UserProfile | null>
+}
+
+const byName = (a: UserProfile, b: UserProfile) => a.name.localeCompare(b.name)
+
+const toUserProfile = (user: any): UserProfile => ({
+  id: user.id,
+  email: user.email ?? '',
+  name: user.user_metadata?.name || user.email || '',
+  role: getRole(user.app_metadata),
+  createdAt: user.created_at
+})
+
+export const createSupabaseUserDirectory = (url: string, serviceRoleKey: string): UserDirectory => {
+  const supabase = createClient(url, serviceRoleKey)
+
+  return {
+    async list() {
+      const { data, error } = await supabase.auth.admin.listUsers({ perPage: 1000 })
+      if (error) {
+        throw new Error(error.message)
+      }
+      return data.users.map(toUserProfile).sort(byName)
+    },
+
+    async get(id) {
+      const { data } = await supabase.auth.admin.getUserById(id)
+      return data?.user ? toUserProfile(data.user) : null
+    },
+
+    async create({ email, password, name, role }) {
+      const { data, error } = await supabase.auth.admin.createUser({
+        email,
+        password,
+        user_metadata: { name },
+        app_metadata: { role },
+        // Automatically confirm the user's email since an email server hasn't been configured.
+        email_confirm: true
+      })
+      if (error) {
+        console.error('Error creating user:', error)
+        return error.message
+      }
+      return toUserProfile(data.user)
+    },
+
+    async setRole(id, role) {
+      const { data, error } = await supabase.auth.admin.updateUserById(id, { app_metadata: { role } })
+      if (error) {
+        console.error('Error updating user role:', error)
+        return null
+      }
+      return toUserProfile(data.user)
+    }
+  }
+}
+
+// Passwords are not kept; nobody signs in against this directory
+export const createMemoryUserDirectory = (initial: UserProfile[] = []): UserDirectory => {
+  const users = new Map(initial.map(user => [user.id, structuredClone(user)]))
+
+  return {
+    async list() {
+      return [...users.values()].map(user => structuredClone(user)).sort(byName)
+    },
+
+    async get(id) {
+      const user = users.get(id)
+      return user ? structuredClone(user) : null
+    },
+
+    async create({ email, name, role }) {
+      if ([...users.values()].some(user => user.email.toLowerCase() === email.toLowerCase())) {
+        return 'A user with this email address has already been registered'
+      }
+      const user: UserProfile = { id: crypto.randomUUID(), email, name, role, createdAt: new Date().toISOString() }
+      users.set(user.id, user)
+      return structuredClone(user)
+    },
+
+    async setRole(id, role) {
+      const user = users.get(id)
+      if (!user) return null
+      user.role = role
+      return structuredClone(user)
+    }
+  }
+}
+
+let directory: UserDirectory = Deno.env.get('DATA_BACKEND') === 'memory'
+  ? createMemoryUserDirectory()
+  : createSupabaseUserDirectory(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+// Lets tests swap in their own directory
+export const setUserDirectory = (next: UserDirectory) => {
+  directory = next
+}
+
+export const listUsers = () => directory.list()
+export const getUser = (id: string) => directory.get(id)
+export const createUser = (user: NewUser) => directory.create(user)
+export const setUserRole = (id: string, role: Role) => directory.setRole(id, role)
@@ -0,0 +1,83 @@
+import { Hono } from 'npm:hono'
+import { hasRole, isRole, requireRole, type AuthEnv } from './auth.tsx'
+import { audit, type AuditTarget } from './audit.tsx'
+import { createUser, getUser, listUsers, setUserRole } from './user-directory.tsx'
+
+export const userRoutes = new Hono<AuthEnv>()
+
+const userTarget: AuditTarget = {
+  entityType: 'user',
+  id: (c, data) => c.req.param('id') ?? data?.id,
+  load: async (_c, id) => {
+    return id ? await getUser(id) : null
+  }
+}
+
+// List users (any signed-in user may see the team directory, but only admins see email addresses)
+userRoutes.get('/users', async (c) => {
+  try {
+    const users = await listUsers()
+    if (hasRole(c.get('user'), 'admin')) {
+      return c.json({ success: true, data: users })
+    }
+
+    return c.json({ success: true, data: users.map(({ email: _email, ...user }) => user) })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return c.json({ success: false, error: 'Failed to fetch users' }, 500)
+  }
+})
+
+// Create user account
+userRoutes.post('/users', requireRole('admin'), audit('user.create', userTarget), async (c) => {
+  try {
+    const body = await c.req.json()
+    const { email, password, name, role } = body
+
+    if (!email || !password || !name) {
+      return c.json({ success: false, error: 'Missing required fields: email, password, name' }, 400)
+    }
+
+    if (role !== undefined && !isRole(role)) {
+      return c.json({ success: false, error: 'Invalid role' }, 400)
+    }
+
+    const user = await createUser({ email, password, name, role: role || 'viewer' })
+    if (typeof user === 'string') {
+      return c.json({ success: false, error: user }, 400)
+    }
+
+    return c.json({ success: true, data: user })
+  } catch (error) {
+    console.error('Error creating user:', error)
+    return c.json({ success: false, error: 'Failed to create user' }, 500)
+  }
+})
+
+// Change user role
+userRoutes.put('/users/:id/role', requireRole('admin'), audit('user.role', userTarget), async (c) => {
+  try {
+    const id = c.req.param('id')
+    const body = await c.req.json()
+    const { role } = body
+
+    if (!isRole(role)) {
+      return c.json({ success: false, error: 'Invalid role' }, 400)
+    }
+
+    // Keep at least the acting admin able to manage roles
+    if (id === c.get('user').id) {
+      return c.json({ success: false, error: 'Cannot change your own role' }, 400)
+    }
+
+    const user = await setUserRole(id, role)
+    if (!user) {
+      return c.json({ success: false, error: 'User not found' }, 404)
+    }
+
+    return c.json({ success: true, data: user })
+  } catch (error) {
+    console.error('Error updating user role:', error)
+    return c.json({ success: false, error: 'Failed to update user role' }, 500)
+  }
+})
@@ -0,0 +1,155 @@
+import { Hono } from 'npm:hono'
+import * as repo from './repository.tsx'
+import type { AuthEnv } from './auth.tsx'
+
+// Personal watchlists. Every signed-in user, viewers included, keeps their own lists;
+// nobody can see or change another user's. They are not audited or broadcast.
+
+export const watchlistRoutes = new Hono<AuthEnv>()
+
+export const MAX_WATCHLIST_NAME_LENGTH = 50
+
+const parseName = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+// Returns an error message, or null when the ids name distinct, existing companies
+const checkCompanyIds = async (value: unknown): Promise<string | null> => {
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) {
+    return 'companyIds must be an array of company ids'
+  }
+  if (new Set(value).size !== value.length) {
+    return 'companyIds must not contain duplicates'
+  }
+  const known = new Set((await repo.companies.list()).map(company => company.id))
+  if (value.some(id => !known.has(id))) {
+    return 'Company not found'
+  }
+  return null
+}
+
+const checkName = async (ownerId: string, name: string, exceptId?: string): Promise<string | null> => {
+  if (!name) {
+    return 'Watchlist name is required'
+  }
+  if (name.length > MAX_WATCHLIST_NAME_LENGTH) {
+    return `Watchlist name must be at most ${MAX_WATCHLIST_NAME_LENGTH} characters`
+  }
+  const existing = await repo.watchlists.listByOwner(ownerId)
+  if (existing.some(watchlist => watchlist.name === name && watchlist.id !== exceptId)) {
+    return 'A watchlist with this name already exists'
+  }
+  return null
+}
+
+// List the caller's watchlists
+watchlistRoutes.get('/watchlists', async (c) => {
+  try {
+    return c.json({ success: true, data: await repo.watchlists.listByOwner(c.get('user').id) })
+  } catch (error) {
+    console.error('Error fetching watchlists:', error)
+    return c.json({ success: false, error: 'Failed to fetch watchlists' }, 500)
+  }
+})
+
+// Create a watchlist, optionally with its first companies
+watchlistRoutes.post('/watchlists', async (c) => {
+  try {
+    const user = c.get('user')
+    const body = await c.req.json()
+    const name = parseName(body.name)
+    const companyIds = body.companyIds ?? []
+
+    const invalid = await checkName(user.id, name) ?? await checkCompanyIds(companyIds)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const now = new Date().toISOString()
+    const watchlist: repo.Watchlist = {
+      id: crypto.randomUUID(),
+      ownerId: user.id,
+      name,
+      companyIds: [],
+      createdAt: now,
+      updatedAt: now
+    }
+    await repo.watchlists.save(watchlist)
+    await repo.watchlists.setCompanies(user.id, watchlist.id, companyIds)
+
+    return c.json({ success: true, data: await repo.watchlists.get(user.id, watchlist.id) })
+  } catch (error) {
+    console.error('Error creating watchlist:', error)
+    return c.json({ success: false, error: 'Failed to create watchlist' }, 500)
+  }
+})
+
+// Rename a watchlist
+watchlistRoutes.put('/watchlists/:id', async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const body = await c.req.json()
+
+    const watchlist = await repo.watchlists.get(user.id, id)
+    if (!watchlist) {
+      return c.json({ success: false, error: 'Watchlist not found' }, 404)
+    }
+
+    const name = parseName(body.name)
+    const invalid = await checkName(user.id, name, id)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const updated = { ...watchlist, name, updatedAt: new Date().toISOString() }
+    await repo.watchlists.save(updated)
+
+    return c.json({ success: true, data: updated })
+  } catch (error) {
+    console.error('Error renaming watchlist:', error)
+    return c.json({ success: false, error: 'Failed to rename watchlist' }, 500)
+  }
+})
+
+// Replace the companies of a watchlist; their order in the array is the watchlist's order
+watchlistRoutes.put('/watchlists/:id/companies', async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+    const body = await c.req.json()
+
+    if (!await repo.watchlists.get(user.id, id)) {
+      return c.json({ success: false, error: 'Watchlist not found' }, 404)
+    }
+
+    const invalid = await checkCompanyIds(body.companyIds)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    await repo.watchlists.setCompanies(user.id, id, body.companyIds)
+
+    return c.json({ success: true, data: await repo.watchlists.get(user.id, id) })
+  } catch (error) {
+    console.error('Error updating watchlist companies:', error)
+    return c.json({ success: false, error: 'Failed to update watchlist' }, 500)
+  }
+})
+
+// Delete a watchlist; the companies themselves are untouched
+watchlistRoutes.delete('/watchlists/:id', async (c) => {
+  try {
+    const user = c.get('user')
+    const id = c.req.param('id')
+
+    if (!await repo.watchlists.get(user.id, id)) {
+      return c.json({ success: false, error: 'Watchlist not found' }, 404)
+    }
+
+    await repo.watchlists.remove(user.id, id)
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting watchlist:', error)
+    return c.json({ success: false, error: 'Failed to delete watchlist' }, 500)
+  }
+})
@@ -0,0 +1,142 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+
+const names = (analysts: { name: string }[]) => analysts.map(analyst => analyst.name)
+
+const reportOf = async (companyId: string, reportId: string) => {
+  const { body } = await request('GET', `/companies/${companyId}/reports`)
+  return body.data.find((report: any) => report.id === reportId)
+}
+
+const findAnalyst = async (name: string) => {
+  const { body } = await request('GET', '/analysts', { as: 'viewer' })
+  return body.data.find((analyst: any) => analyst.name === name)
+}
+
+Deno.test('reports file new analyst names in the directory, reusing existing ones regardless of case', withApp(async () => {
+  const company = await createCompany()
+  const first = await uploadReport(company.id, { analyst: ' Jane  Doe ' })
+  const second = await uploadReport(company.id, { analyst: 'jane doe' })
+  await uploadReport(company.id, { analyst: '张三' })
+
+  const { status, body } = await request('GET', '/analysts', { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(names(body.data), ['Jane Doe', '张三'])
+  assertEquals([first.analyst, second.analyst], ['Jane Doe', 'Jane Doe'])
+  assertEquals([body.data[0].reportCount, body.data[0].companyCount], [2, 1])
+  assertEquals(body.data[0].latestReportAt, second.createdAt)
+}))
+
+Deno.test('editing a report files it under the picked analyst', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  const { body } = await request('PUT', `/reports/${company.id}/${report.id}`, {
+    as: 'analyst',
+    json: { title: report.title, analyst: '李四', category: report.category }
+  })
+  const tooLong = await request('PUT', `/reports/${company.id}/${report.id}`, {
+    as: 'analyst',
+    json: { title: report.title, analyst: 'x'.repeat(31), category: report.category }
+  })
+
+  assertEquals(body.data.analyst, '李四')
+  assertEquals(tooLong.status, 400)
+  assertEquals(names((await request('GET', '/analysts')).body.data), ['张三', '李四'])
+}))
+
+Deno.test('GET /analysts/:id returns coverage, monthly activity and categories', withApp(async () => {
+  const figma = await createCompany()
+  const arm = await createCompany({ name: 'Arm', code: 'ARM' })
+  const dated = async (companyId: string, createdAt: string, category = '跟踪') => {
+    const report = await uploadReport(companyId, { category })
+    await request('PUT', `/reports/${companyId}/${report.id}`, { json: { title: report.title, analyst: '张三', category, createdAt } })
+  }
+  await dated(figma.id, '2026-08-03T00:00:00.000Z', '首次覆盖')
+  await dated(figma.id, '2026-09-10T00:00:00.000Z')
+  await dated(arm.id, '2026-09-20T00:00:00.000Z')
+  await uploadReport(arm.id, { analyst: '李四' })
+  const analyst = await findAnalyst('张三')
+
+  const { status, body } = await request('GET', `/analysts/${analyst.id}`, { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.analyst.name, body.data.reportCount, body.data.latestReportAt], ['张三', 3, '2026-09-20T00:00:00.000Z'])
+  assertEquals(body.data.coverage, [
+    { companyId: arm.id, reportCount: 1, latestReportAt: '2026-09-20T00:00:00.000Z' },
+    { companyId: figma.id, reportCount: 2, latestReportAt: '2026-09-10T00:00:00.000Z' }
+  ])
+  assertEquals(body.data.activity, [{ month: '2026-08', count: 1 }, { month: '2026-09', count: 2 }])
+  assertEquals(body.data.categories, { '首次覆盖': 1, '跟踪': 2 })
+  assertEquals((await request('GET', '/analysts/missing')).status, 404)
+}))
+
+Deno.test('renaming an analyst moves their reports, trashed ones included', withApp(async () => {
+  const company = await createCompany()
+  const kept = await uploadReport(company.id)
+  const trashed = await uploadReport(company.id)
+  await uploadReport(company.id, { analyst: '李四' })
+  await request('DELETE', `/reports/${company.id}/${trashed.id}`)
+  const analyst = await findAnalyst('张三')
+
+  const viewer = await request('PUT', `/analysts/${analyst.id}`, { as: 'viewer', json: { name: '张珊' } })
+  const taken = await request('PUT', `/analysts/${analyst.id}`, { as: 'analyst', json: { name: '李四' } })
+  const badEmail = await request('PUT', `/analysts/${analyst.id}`, { as: 'analyst', json: { email: 'zhang' } })
+  const { status, body } = await request('PUT', `/analysts/${analyst.id}`, {
+    as: 'analyst',
+    json: { name: '张珊', title: '首席分析师', team: 'TMT', email: 'zhang@example.com' }
+  })
+
+  assertEquals([viewer.status, taken.status, badEmail.status, status], [403, 400, 400, 200])
+  assertEquals([body.data.name, body.data.title, body.data.team], ['张珊', '首席分析师', 'TMT'])
+  const moved = await reportOf(company.id, kept.id)
+  assertEquals([moved.analyst, moved.revision], ['张珊', kept.revision + 1])
+  const { body: trash } = await request('GET', '/trash')
+  assertEquals(trash.data.reports.map((report: any) => report.analyst), ['张珊'])
+}))
+
+Deno.test('merging folds duplicate spellings into one analyst', withApp(async () => {
+  const company = await createCompany()
+  await uploadReport(company.id, { analyst: 'Jane Doe' })
+  await uploadReport(company.id, { analyst: 'Jane Doe' })
+  const spaced = await uploadReport(company.id, { analyst: 'J. Doe' })
+  await uploadReport(company.id, { analyst: 'ＪａｎｅＤｏｅ' })
+  await uploadReport(company.id, { analyst: '张三' })
+  const target = await findAnalyst('Jane Doe')
+  const source = await findAnalyst('ＪａｎｅＤｏｅ')
+
+  const { body: duplicates } = await request('GET', '/analysts/duplicates', { as: 'pm' })
+  assertEquals(duplicates.data.map(names), [['Jane Doe', 'ＪａｎｅＤｏｅ']])
+
+  const analystRole = await request('POST', `/analysts/${target.id}/merge`, { as: 'analyst', json: { sourceIds: [source.id] } })
+  const self = await request('POST', `/analysts/${target.id}/merge`, { as: 'pm', json: { sourceIds: [target.id] } })
+  const unknown = await request('POST', `/analysts/${target.id}/merge`, { as: 'pm', json: { sourceIds: ['missing'] } })
+  const spelled = await findAnalyst('J. Doe')
+  const merged = await request('POST', `/analysts/${target.id}/merge`, { as: 'pm', json: { sourceIds: [source.id, spelled.id] } })
+
+  assertEquals([analystRole.status, self.status, unknown.status, merged.status], [403, 400, 400, 200])
+  assertEquals(names((await request('GET', '/analysts')).body.data), ['Jane Doe', '张三'])
+  assertEquals((await findAnalyst('Jane Doe')).reportCount, 4)
+  assertEquals((await reportOf(company.id, spaced.id)).analyst, 'Jane Doe')
+  const { body: audit } = await request('GET', '/audit?entityType=analyst')
+  assertEquals(audit.data[0].action, 'analyst.merge')
+  assertEquals(Object.keys(audit.data[0].changes).sort(), [source.id, spelled.id].sort())
+}))
+
+Deno.test('analysts can only be deleted once no report names them', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const created = await request('POST', '/analysts', { as: 'analyst', json: { name: '王五', team: '消费' } })
+  const duplicate = await request('POST', '/analysts', { as: 'analyst', json: { name: '张三' } })
+  const used = await findAnalyst('张三')
+  await request('DELETE', `/reports/${company.id}/${report.id}`)
+
+  const inUse = await request('DELETE', `/analysts/${used.id}`, { as: 'pm' })
+  const analystRole = await request('DELETE', `/analysts/${created.body.data.id}`, { as: 'analyst' })
+  const deleted = await request('DELETE', `/analysts/${created.body.data.id}`, { as: 'pm' })
+
+  assertEquals([created.status, duplicate.status], [200, 400])
+  assertEquals([inUse.status, analystRole.status, deleted.status], [400, 403, 200])
+  assertEquals(names((await request('GET', '/analysts')).body.data), ['张三'])
+}))
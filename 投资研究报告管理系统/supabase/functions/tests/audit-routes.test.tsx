@@ -0,0 +1,122 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { addComment, createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+import * as repo from '../server/repository.tsx'
+
+const getAudit = async (query: Record<string, string> = {}) => {
+  const { body } = await request('GET', `/audit?${new URLSearchParams(query)}`, { as: 'pm' })
+  return body.data
+}
+
+Deno.test('company changes are recorded with actor and a before/after diff', withApp(async () => {
+  const company = await createCompany({ name: 'Figma' })
+
+  await request('PUT', `/companies/${company.id}`, { as: 'pm', json: { name: 'Figma Inc.', code: 'FIG.N', type: '美股', description: '协作设计软件' } })
+
+  const [update, create] = await getAudit({ companyId: company.id })
+  assertEquals(update.action, 'company.update')
+  assertEquals([update.actorId, update.actorName], ['user-pm', 'PM'])
+  assertEquals([update.entityType, update.entityId], ['company', company.id])
+  assertEquals(update.changes, { name: { before: 'Figma', after: 'Figma Inc.' } })
+  assertEquals(create.action, 'company.create')
+  assertEquals(create.actorId, 'user-admin')
+  assertEquals(create.changes.name, { before: null, after: 'Figma' })
+}))
+
+Deno.test('a changed report createdAt is recorded', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  await request('PUT', `/reports/${company.id}/${report.id}`, {
+    as: 'analyst',
+    json: { title: report.title, analyst: report.analyst, category: report.category, createdAt: '2024-01-02T00:00:00.000Z' }
+  })
+
+  const [entry] = await getAudit({ entityType: 'report', entityId: report.id })
+  assertEquals(entry.action, 'report.update')
+  assertEquals(entry.companyId, company.id)
+  assertEquals(entry.changes, { createdAt: { before: report.createdAt, after: '2024-01-02T00:00:00.000Z' } })
+}))
+
+Deno.test('comment creation and deletion are recorded against the report\'s company', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const [comment] = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  await request('DELETE', `/reports/${company.id}/${report.id}/comments/${comment.id}`, { as: 'admin' })
+
+  const [deletion, creation] = await getAudit({ entityType: 'comment' })
+  assertEquals([creation.action, creation.entityId, creation.actorId], ['comment.create', comment.id, 'user-analyst'])
+  assertEquals([deletion.action, deletion.entityId, deletion.actorId], ['comment.delete', comment.id, 'user-admin'])
+  assertEquals(deletion.companyId, company.id)
+  assertEquals(deletion.changes.content, { before: '估值偏高', after: null })
+}))
+
+Deno.test('a new comment is recorded by its id, not by its place in the list', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  // Sorts after the new comment, as a comment saved by a concurrent request with a later clock would
+  await repo.comments.save(report.id, {
+    id: 'later', content: '稍后', parentId: null, anchor: null, mentions: [], createdAt: '2999-01-01T00:00:00.000Z'
+  })
+
+  const comments = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  const created = comments.find((comment: any) => comment.content === '估值偏高')
+  const [entry] = await getAudit({ entityType: 'comment' })
+  assertEquals([entry.entityId, entry.changes.content], [created.id, { before: null, after: '估值偏高' }])
+}))
+
+Deno.test('reordering records the new positions', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+
+  await request('POST', '/companies/reorder', { as: 'pm', json: { orderUpdates: [{ id: first.id, order: 1 }, { id: second.id, order: 0 }] } })
+
+  const [entry] = await getAudit({ action: 'company.reorder' })
+  assertEquals(entry.entityId, null)
+  assertEquals(entry.changes, { [first.id]: { before: 0, after: 1 }, [second.id]: { before: 1, after: 0 } })
+}))
+
+Deno.test('failed and read-only requests are not recorded', withApp(async () => {
+  const company = await createCompany()
+
+  await request('PUT', `/companies/${company.id}`, { as: 'pm', json: { name: '' } })
+  await request('DELETE', `/companies/${company.id}`, { as: 'analyst' })
+  await request('GET', `/companies/${company.id}`)
+
+  assertEquals((await getAudit()).map((entry: any) => entry.action), ['company.create'])
+}))
+
+Deno.test('GET /audit filters by actor and time range and honours the limit', withApp(async () => {
+  const company = await createCompany()
+  // Keep the entries on either side of start from sharing its millisecond
+  await new Promise(resolve => setTimeout(resolve, 5))
+  const start = new Date().toISOString()
+  await new Promise(resolve => setTimeout(resolve, 5))
+  await uploadReport(company.id)
+  await uploadReport(company.id)
+
+  assertEquals((await getAudit({ actorId: 'user-analyst' })).length, 2)
+  assertEquals((await getAudit({ from: start })).map((entry: any) => entry.action), ['report.create', 'report.create'])
+  assertEquals((await getAudit({ to: start })).map((entry: any) => entry.action), ['company.create'])
+  assertEquals((await getAudit({ limit: '1' })).length, 1)
+}))
+
+Deno.test('GET /audit validates its query and requires the pm role', withApp(async () => {
+  assertEquals((await request('GET', '/audit?limit=0', { as: 'pm' })).status, 400)
+  assertEquals((await request('GET', '/audit?from=yesterday', { as: 'pm' })).status, 400)
+  assertEquals((await request('GET', '/audit', { as: 'analyst' })).status, 403)
+}))
+
+Deno.test('deleting and restoring a company are both recorded', withApp(async () => {
+  const company = await createCompany()
+
+  await request('DELETE', `/companies/${company.id}`, { as: 'admin' })
+  await request('POST', `/trash/companies/${company.id}/restore`, { as: 'admin' })
+
+  const [restore, deletion] = await getAudit({ companyId: company.id })
+  assertEquals(deletion.action, 'company.delete')
+  assertEquals(deletion.changes.name, { before: 'Figma', after: null })
+  assertEquals(restore.action, 'company.restore')
+  assertEquals(restore.changes.name, { before: null, after: 'Figma' })
+}))
@@ -0,0 +1,62 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { addComment, createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+import * as repo from '../server/repository.tsx'
+
+Deno.test('a new report is published with the report as data', withApp(async ({ changes }) => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  const event = changes[changes.length - 1]
+  assertEquals(event.action, 'report.create')
+  assertEquals([event.companyId, event.reportId, event.entityId], [company.id, report.id, report.id])
+  assertEquals([event.actorId, event.actorName], ['user-analyst', 'Analyst'])
+  assertEquals(event.data, report)
+}))
+
+Deno.test('comment changes carry the report id and its full comment list', withApp(async ({ changes }) => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const comments = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  const event = changes[changes.length - 1]
+  assertEquals(event.action, 'comment.create')
+  assertEquals([event.companyId, event.reportId, event.entityId], [company.id, report.id, comments[0].id])
+  assertEquals(event.data, comments)
+}))
+
+Deno.test('reorders publish the reordered reports', withApp(async ({ changes }) => {
+  const company = await createCompany()
+  const first = await uploadReport(company.id, { title: 'First' })
+  const second = await uploadReport(company.id, { title: 'Second' })
+
+  await request('POST', `/companies/${company.id}/reports/reorder`, {
+    as: 'pm',
+    json: { orderUpdates: [{ id: first.id, order: 1 }, { id: second.id, order: 0 }] }
+  })
+
+  const event = changes[changes.length - 1]
+  assertEquals([event.action, event.companyId], ['report.reorder', company.id])
+  assertEquals((event.data as any[]).map(report => [report.id, report.order]), [[second.id, 0], [first.id, 1]])
+}))
+
+Deno.test('failed requests publish nothing', withApp(async ({ changes }) => {
+  const company = await createCompany()
+  const published = changes.length
+
+  const { status } = await request('PUT', `/companies/${company.id}`, { as: 'viewer', json: { name: 'Figma Inc.' } })
+
+  assertEquals(status, 403)
+  assertEquals(changes.length, published)
+}))
+
+Deno.test('changes are published even when the audit entry cannot be written', withApp(async ({ changes }) => {
+  const company = await createCompany()
+  repo.audit.append = () => Promise.reject(new Error('audit_log is unavailable'))
+
+  const { status } = await request('PUT', `/companies/${company.id}`, { as: 'pm', json: { ...company, name: 'Figma Inc.' } })
+
+  const event = changes[changes.length - 1]
+  assertEquals(status, 200)
+  assertEquals([event.action, event.entityId], ['company.update', company.id])
+  assertEquals((event.data as { name: string }).name, 'Figma Inc.')
+}))
@@ -0,0 +1,136 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { addComment, createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+
+const setup = async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  return { company, report, path: `/reports/${company.id}/${report.id}/comments` }
+}
+
+const anchor = { page: 2, rects: [{ x: 0.1, y: 0.2, width: 0.5, height: 0.05 }], quote: ' 收入增长 ' }
+
+Deno.test('GET /reports/:companyId/:reportId/comments lists comments oldest first', withApp(async () => {
+  const { company, report, path } = await setup()
+  await addComment(company.id, report.id, { content: '第一条' })
+  await addComment(company.id, report.id, { content: '第二条' })
+
+  const { status, body } = await request('GET', path, { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((comment: any) => comment.content), ['第一条', '第二条'])
+}))
+
+Deno.test('GET /reports/:companyId/:reportId/comments returns 404 for an unknown report', withApp(async () => {
+  const company = await createCompany()
+
+  const { status, body } = await request('GET', `/reports/${company.id}/missing/comments`)
+
+  assertEquals(status, 404)
+  assertEquals(body.error, 'Report not found')
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/comments adds a comment with mentions and anchor', withApp(async () => {
+  const { path } = await setup()
+
+  const { status, body } = await request('POST', path, { as: 'analyst', json: { content: ' 请 @张三 复核 ', anchor } })
+
+  assertEquals(status, 200)
+  const [comment] = body.data
+  assertEquals(comment.content, '请 @张三 复核')
+  assertEquals(comment.mentions, ['张三'])
+  assertEquals(comment.authorId, 'user-analyst')
+  assertEquals(comment.anchor, { ...anchor, quote: '收入增长' })
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/comments attaches replies to the root of the thread', withApp(async () => {
+  const { company, report, path } = await setup()
+  const [thread] = await addComment(company.id, report.id, { content: '估值偏高', anchor })
+  const replies = await addComment(company.id, report.id, { content: '同意', parentId: thread.id, anchor })
+  const reply = replies[1]
+
+  const { body } = await request('POST', path, { as: 'pm', json: { content: '补充', parentId: reply.id } })
+
+  assertEquals(reply.parentId, thread.id)
+  assertEquals(reply.anchor, null)
+  assertEquals(body.data[2].parentId, thread.id)
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/comments returns 400 for empty content or a bad anchor', withApp(async () => {
+  const { path } = await setup()
+
+  const empty = await request('POST', path, { as: 'analyst', json: { content: '   ' } })
+  assertEquals(empty.status, 400)
+  assertEquals(empty.body.error, 'Comment content is required')
+
+  const badAnchor = await request('POST', path, { as: 'analyst', json: { content: '估值偏高', anchor: { page: 0, rects: [] } } })
+  assertEquals(badAnchor.status, 400)
+  assertEquals(badAnchor.body.error, 'Invalid anchor')
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/comments returns 404 for an unknown report or parent', withApp(async () => {
+  const { company, path } = await setup()
+
+  const report = await request('POST', `/reports/${company.id}/missing/comments`, { as: 'analyst', json: { content: '估值偏高' } })
+  assertEquals(report.status, 404)
+
+  const parent = await request('POST', path, { as: 'analyst', json: { content: '同意', parentId: 'missing' } })
+  assertEquals(parent.status, 404)
+  assertEquals(parent.body.error, 'Parent comment not found')
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/comments requires the analyst role', withApp(async () => {
+  const { path } = await setup()
+
+  assertEquals((await request('POST', path, { as: 'viewer', json: { content: '估值偏高' } })).status, 403)
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId/comments/:commentId lets the author edit', withApp(async () => {
+  const { company, report, path } = await setup()
+  const [comment] = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  const { status, body } = await request('PUT', `${path}/${comment.id}`, { as: 'analyst', json: { content: '估值合理 @李四' } })
+
+  assertEquals(status, 200)
+  assertEquals(body.data[0].content, '估值合理 @李四')
+  assertEquals(body.data[0].mentions, ['李四'])
+  assertEquals(typeof body.data[0].updatedAt, 'string')
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId/comments/:commentId rejects other users but not admins', withApp(async () => {
+  const { company, report, path } = await setup()
+  const [comment] = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  const other = await request('PUT', `${path}/${comment.id}`, { as: 'pm', json: { content: '改掉' } })
+  assertEquals(other.status, 403)
+
+  const admin = await request('PUT', `${path}/${comment.id}`, { as: 'admin', json: { content: '已审核' } })
+  assertEquals(admin.status, 200)
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId/comments/:commentId returns 400 and 404', withApp(async () => {
+  const { company, report, path } = await setup()
+  const [comment] = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  assertEquals((await request('PUT', `${path}/${comment.id}`, { as: 'analyst', json: { content: '' } })).status, 400)
+  assertEquals((await request('PUT', `${path}/missing`, { as: 'analyst', json: { content: '改掉' } })).status, 404)
+}))
+
+Deno.test('DELETE /reports/:companyId/:reportId/comments/:commentId removes a thread with its replies', withApp(async () => {
+  const { company, report, path } = await setup()
+  const [thread] = await addComment(company.id, report.id, { content: '估值偏高' })
+  await addComment(company.id, report.id, { content: '同意', parentId: thread.id }, 'pm')
+  await addComment(company.id, report.id, { content: '另一条' })
+
+  const { status, body } = await request('DELETE', `${path}/${thread.id}`, { as: 'analyst' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((comment: any) => comment.content), ['另一条'])
+}))
+
+Deno.test('DELETE /reports/:companyId/:reportId/comments/:commentId returns 403 and 404', withApp(async () => {
+  const { company, report, path } = await setup()
+  const [comment] = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  assertEquals((await request('DELETE', `${path}/${comment.id}`, { as: 'pm' })).status, 403)
+  assertEquals((await request('DELETE', `${path}/missing`, { as: 'analyst' })).status, 404)
+}))
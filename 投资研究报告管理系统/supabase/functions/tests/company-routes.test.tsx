@@ -0,0 +1,236 @@
+import { assert, assertEquals, assertExists } from 'jsr:@std/assert'
+import { addComment, createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+import * as repo from '../server/repository.tsx'
+
+Deno.test('GET /companies lists companies by order', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings', code: 'DKNG' })
+
+  const { status, body } = await request('GET', '/companies', { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((company: any) => company.id), [first.id, second.id])
+  assertEquals([first.order, second.order], [0, 1])
+}))
+
+Deno.test('GET /companies pages through the companies with a cursor', withApp(async () => {
+  const created = []
+  for (const code of ['FIG.N', 'DKNG', 'ARM', 'NVDA', 'TSLA']) {
+    created.push(await createCompany({ name: code, code }))
+  }
+
+  const ids: string[] = []
+  let cursor: string | null = ''
+  let pages = 0
+  while (cursor !== null) {
+    const { status, body } = await request('GET', `/companies?limit=2${cursor ? `&cursor=${cursor}` : ''}`, { as: 'viewer' })
+    assertEquals(status, 200)
+    ids.push(...body.data.items.map((company: any) => company.id))
+    cursor = body.data.nextCursor
+    pages++
+  }
+
+  assertEquals(ids, created.map(company => company.id))
+  assertEquals(pages, 3)
+}))
+
+Deno.test('GET /companies filters pages by type, tags and name or code', withApp(async () => {
+  const figma = await createCompany({ name: 'Figma', code: 'FIG.N', type: '美股' })
+  const tencent = await createCompany({ name: '腾讯控股', code: '0700.HK', type: '港股' })
+  await createCompany({ name: 'Meituan', code: '3690.HK', type: '港股' })
+  const tag = (await request('POST', '/tags', { as: 'analyst', json: { name: 'AI capex' } })).body.data
+  await request('PUT', `/companies/${tencent.id}/tags`, { as: 'pm', json: { tagIds: [tag.id] } })
+
+  const names = async (query: string) => {
+    const { body } = await request('GET', `/companies?${query}`, { as: 'viewer' })
+    return body.data.items.map((company: any) => company.name)
+  }
+
+  assertEquals(await names(`type=${encodeURIComponent('港股')}`), ['腾讯控股', 'Meituan'])
+  assertEquals(await names(`tag=${tag.id}`), ['腾讯控股'])
+  assertEquals(await names('q=fig'), [figma.name])
+  assertEquals(await names('q=.hk'), ['腾讯控股', 'Meituan'])
+  assertEquals(await names(`q=${encodeURIComponent('腾讯')}&type=${encodeURIComponent('美股')}`), [])
+}))
+
+Deno.test('GET /companies returns 400 for a bad limit, cursor or sort', withApp(async () => {
+  const statuses = await Promise.all(['limit=0', 'limit=101', 'cursor=not-a-cursor', 'sort=name'].map(async query => {
+    return (await request('GET', `/companies?${query}`)).status
+  }))
+
+  assertEquals(statuses, [400, 400, 400, 400])
+}))
+
+Deno.test('requests without a valid token are rejected', withApp(async () => {
+  assertEquals((await request('GET', '/companies', { as: null })).status, 401)
+  assertEquals((await request('GET', '/companies', { as: 'not-a-user' })).status, 401)
+}))
+
+Deno.test('GET /companies/:id returns the company', withApp(async () => {
+  const company = await createCompany()
+
+  const { status, body } = await request('GET', `/companies/${company.id}`, { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data, company)
+}))
+
+Deno.test('GET /companies/:id returns 404 for an unknown company', withApp(async () => {
+  const { status, body } = await request('GET', '/companies/missing', { as: 'viewer' })
+
+  assertEquals(status, 404)
+  assertEquals(body, { success: false, error: 'Company not found' })
+}))
+
+Deno.test('POST /companies creates a company', withApp(async () => {
+  const { status, body } = await request('POST', '/companies', {
+    as: 'pm',
+    json: { name: '腾讯控股', code: '0700.HK', type: '港股' }
+  })
+
+  assertEquals(status, 200)
+  assertExists(body.data.id)
+  assertEquals(body.data.description, '')
+  assertEquals((await request('GET', `/companies/${body.data.id}`)).body.data.name, '腾讯控股')
+}))
+
+Deno.test('POST /companies returns 400 when required fields are missing', withApp(async () => {
+  const { status, body } = await request('POST', '/companies', { as: 'pm', json: { name: '腾讯控股', code: '0700.HK' } })
+
+  assertEquals(status, 400)
+  assertEquals(body.error, 'Missing required fields: name, code, type')
+}))
+
+Deno.test('POST /companies requires the pm role', withApp(async () => {
+  const { status } = await request('POST', '/companies', { as: 'analyst', json: { name: 'A', code: 'A', type: '美股' } })
+
+  assertEquals(status, 403)
+}))
+
+Deno.test('PUT /companies/:id updates a company', withApp(async () => {
+  const company = await createCompany()
+
+  const { status, body } = await request('PUT', `/companies/${company.id}`, {
+    as: 'pm',
+    json: { name: 'Figma Inc.', code: 'FIG', type: '美股', description: '设计' }
+  })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.name, 'Figma Inc.')
+  assertEquals(body.data.createdAt, company.createdAt)
+  assertEquals((await request('GET', `/companies/${company.id}`)).body.data.code, 'FIG')
+}))
+
+Deno.test('PUT /companies/:id returns 400 when required fields are missing', withApp(async () => {
+  const company = await createCompany()
+
+  const { status } = await request('PUT', `/companies/${company.id}`, { as: 'pm', json: { name: 'Figma' } })
+
+  assertEquals(status, 400)
+}))
+
+Deno.test('PUT /companies/:id returns 404 for an unknown company', withApp(async () => {
+  const { status } = await request('PUT', '/companies/missing', { as: 'pm', json: { name: 'A', code: 'A', type: '美股' } })
+
+  assertEquals(status, 404)
+}))
+
+Deno.test('POST /companies/reorder updates the order', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+
+  const { status } = await request('POST', '/companies/reorder', {
+    as: 'pm',
+    json: { orderUpdates: [{ id: first.id, order: 1 }, { id: second.id, order: 0 }] }
+  })
+
+  assertEquals(status, 200)
+  const { body } = await request('GET', '/companies')
+  assertEquals(body.data.map((company: any) => company.id), [second.id, first.id])
+}))
+
+Deno.test('POST /companies/reorder returns 400 without an orderUpdates array', withApp(async () => {
+  const { status, body } = await request('POST', '/companies/reorder', { as: 'pm', json: { orderUpdates: 'nope' } })
+
+  assertEquals(status, 400)
+  assertEquals(body.error, 'orderUpdates must be an array')
+}))
+
+Deno.test('POST /companies/:id/icon stores the icon and replaces the old one', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const upload = async (name: string) => {
+    const form = new FormData()
+    form.append('icon', new File(['png'], name, { type: 'image/png' }))
+    return await request('POST', `/companies/${company.id}/icon`, { as: 'pm', form })
+  }
+
+  const { status, body } = await upload('logo.png')
+  assertEquals(status, 200)
+  assert(body.data.iconUrl.endsWith(`/make-78971119-company-icons/company-icons/${company.id}.png`))
+
+  await upload('logo.webp')
+  assertEquals(await storage.list('make-78971119-company-icons', 'company-icons'), [`${company.id}.webp`])
+}))
+
+Deno.test('POST /companies/:id/icon returns 400 for a missing or non-image file', withApp(async () => {
+  const company = await createCompany()
+
+  const empty = await request('POST', `/companies/${company.id}/icon`, { as: 'pm', form: new FormData() })
+  assertEquals(empty.status, 400)
+  assertEquals(empty.body.error, 'No icon file provided')
+
+  const form = new FormData()
+  form.append('icon', new File(['text'], 'notes.txt', { type: 'text/plain' }))
+  const wrongType = await request('POST', `/companies/${company.id}/icon`, { as: 'pm', form })
+  assertEquals(wrongType.status, 400)
+  assertEquals(wrongType.body.error, 'File must be an image')
+}))
+
+Deno.test('POST /companies/:id/icon returns 404 for an unknown company', withApp(async () => {
+  const form = new FormData()
+  form.append('icon', new File(['png'], 'logo.png', { type: 'image/png' }))
+
+  const { status } = await request('POST', '/companies/missing/icon', { as: 'pm', form })
+
+  assertEquals(status, 404)
+}))
+
+Deno.test('DELETE /companies/:id moves the company and its reports to the trash', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const other = await createCompany({ name: 'DraftKings' })
+  const report = await uploadReport(company.id)
+  const otherReport = await uploadReport(other.id)
+  await addComment(company.id, report.id, { content: '估值偏高' })
+  await repo.search.setPages(report.id, ['indexed'])
+
+  const { status } = await request('DELETE', `/companies/${company.id}`, { as: 'admin' })
+
+  assertEquals(status, 200)
+  assertEquals((await request('GET', `/companies/${company.id}`)).status, 404)
+  assertEquals((await request('GET', '/companies')).body.data.map((c: any) => c.id), [other.id])
+  assertEquals((await request('GET', `/companies/${company.id}/reports`)).body.data, [])
+  assertEquals((await request('GET', `/reports/${company.id}/${report.id}/comments`)).status, 404)
+
+  // Nothing is removed until the trash is purged
+  const trash = await request('GET', '/trash', { as: 'pm' })
+  assertEquals(trash.body.data.companies.map((c: any) => [c.id, c.reportCount]), [[company.id, 1]])
+  assertEquals((await storage.list('make-78971119-reports', company.id)).length, 1)
+  assertEquals(await repo.search.getPages(report.id), ['indexed'])
+
+  // Other companies are untouched
+  const remaining = await request('GET', `/companies/${other.id}/reports`)
+  assertEquals(remaining.body.data.map((r: any) => r.id), [otherReport.id])
+}))
+
+Deno.test('DELETE /companies/:id returns 404 for an unknown company', withApp(async () => {
+  const { status } = await request('DELETE', '/companies/missing', { as: 'admin' })
+
+  assertEquals(status, 404)
+}))
+
+Deno.test('DELETE /companies/:id requires the admin role', withApp(async () => {
+  const company = await createCompany()
+
+  assertEquals((await request('DELETE', `/companies/${company.id}`, { as: 'pm' })).status, 403)
+  assertEquals((await request('GET', `/companies/${company.id}`)).status, 200)
+}))
@@ -0,0 +1,103 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+
+const companyFields = { name: 'Figma Inc.', code: 'FIG.N', type: '美股', description: '协作设计软件' }
+
+Deno.test('OPTIONS preflight allows the If-Match header of edits from another origin', withApp(async () => {
+  const company = await createCompany()
+
+  const { status, headers } = await request('OPTIONS', `/companies/${company.id}`, {
+    as: null,
+    headers: {
+      Origin: 'https://reports.example.com',
+      'Access-Control-Request-Method': 'PUT',
+      'Access-Control-Request-Headers': 'if-match'
+    }
+  })
+
+  assertEquals(status, 204)
+  assertEquals(headers.get('Access-Control-Allow-Headers')?.toLowerCase().split(',').includes('if-match'), true)
+}))
+
+Deno.test('GET /companies/:id sends the revision as its ETag', withApp(async () => {
+  const company = await createCompany()
+
+  const { headers, body } = await request('GET', `/companies/${company.id}`)
+
+  assertEquals(body.data.revision, 1)
+  assertEquals(headers.get('ETag'), '"1"')
+}))
+
+Deno.test('PUT /companies/:id with a current If-Match bumps the revision', withApp(async () => {
+  const company = await createCompany()
+
+  const { status, headers, body } = await request('PUT', `/companies/${company.id}`, {
+    as: 'pm',
+    json: companyFields,
+    headers: { 'If-Match': '"1"' }
+  })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.revision, 2)
+  assertEquals(headers.get('ETag'), '"2"')
+}))
+
+Deno.test('PUT /companies/:id with a stale If-Match returns 409 and the current company', withApp(async () => {
+  const company = await createCompany({ name: 'Figma' })
+  await request('PUT', `/companies/${company.id}`, { as: 'pm', json: companyFields, headers: { 'If-Match': '"1"' } })
+
+  const { status, body } = await request('PUT', `/companies/${company.id}`, {
+    as: 'pm',
+    json: { ...companyFields, name: 'Figma Design' },
+    headers: { 'If-Match': '"1"' }
+  })
+
+  assertEquals(status, 409)
+  assertEquals([body.data.name, body.data.revision], ['Figma Inc.', 2])
+  assertEquals((await request('GET', `/companies/${company.id}`)).body.data.name, 'Figma Inc.')
+}))
+
+Deno.test('POST /companies/reorder with a stale revision changes nothing', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+  await request('PUT', `/companies/${first.id}`, { as: 'pm', json: companyFields })
+
+  const { status, body } = await request('POST', '/companies/reorder', {
+    as: 'pm',
+    json: { orderUpdates: [{ id: first.id, order: 1, revision: 1 }, { id: second.id, order: 0, revision: 1 }] }
+  })
+
+  assertEquals(status, 409)
+  assertEquals(body.data.map((company: any) => company.id), [first.id, second.id])
+  assertEquals(body.data.map((company: any) => company.order), [first.order, second.order])
+}))
+
+Deno.test('POST /companies/reorder bumps the revision of moved companies only', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+  const third = await createCompany({ name: 'Roblox' })
+
+  const { status, body } = await request('POST', '/companies/reorder', {
+    as: 'pm',
+    json: { orderUpdates: [{ id: second.id, order: 0, revision: 1 }, { id: first.id, order: 1, revision: 1 }, { id: third.id, order: 2, revision: 1 }] }
+  })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((company: any) => [company.id, company.revision]), [[second.id, 2], [first.id, 2], [third.id, 1]])
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId with a stale If-Match returns 409', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const fields = { title: '更新后的标题', analyst: report.analyst, category: report.category }
+  await request('PUT', `/reports/${company.id}/${report.id}`, { as: 'analyst', json: fields, headers: { 'If-Match': '"1"' } })
+
+  const { status, body } = await request('PUT', `/reports/${company.id}/${report.id}`, {
+    as: 'analyst',
+    json: { ...fields, title: '另一个标题' },
+    headers: { 'If-Match': '"1"' }
+  })
+
+  assertEquals(status, 409)
+  assertEquals([body.data.title, body.data.revision], ['更新后的标题', 2])
+}))
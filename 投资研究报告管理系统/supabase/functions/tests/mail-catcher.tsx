@@ -0,0 +1,121 @@
+import type { MailMessage } from '../server/mailer.tsx'
+
+// A local SMTP server for the tests, in the spirit of Mailpit or MailHog: it accepts every message
+// and decodes it back into the MailMessage that was sent. Only what the SMTP sender uses is understood.
+
+export type CaughtMessage = MailMessage & {
+  from: string
+  raw: string
+}
+
+export type MailCatcher = {
+  port: number
+  messages: CaughtMessage[]
+  // Verbs of the commands received, in order
+  commands: string[]
+  close: () => Promise<void>
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const fromBase64 = (value: string) => decoder.decode(Uint8Array.from(atob(value), char => char.charCodeAt(0)))
+
+const parseMessage = (envelopeFrom: string, raw: string): CaughtMessage => {
+  const [head, ...body] = raw.split('\r\n\r\n')
+  const headers = new Map(head.split('\r\n').map(line => {
+    const colon = line.indexOf(':')
+    return [line.slice(0, colon).toLowerCase(), line.slice(colon + 1).trim()] as const
+  }))
+  const subject = headers.get('subject') ?? ''
+  const encodedSubject = subject.match(/^=\?UTF-8\?B\?(.*)\?=$/)
+  return {
+    from: envelopeFrom,
+    to: headers.get('to') ?? '',
+    subject: encodedSubject ? fromBase64(encodedSubject[1]) : subject,
+    text: fromBase64(body.join('\r\n\r\n').replace(/\r\n/g, '')),
+    raw
+  }
+}
+
+const serve = async (conn: Deno.Conn, messages: CaughtMessage[], commands: string[]) => {
+  const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`))
+  const chunk = new Uint8Array(4096)
+  let buffered = ''
+  let from = ''
+  let inData = false
+
+  await reply('220 mail-catcher ready')
+  try {
+    while (true) {
+      const read = await conn.read(chunk)
+      if (read === null) return
+      buffered += decoder.decode(chunk.subarray(0, read))
+
+      while (true) {
+        if (inData) {
+          const end = buffered.indexOf('\r\n.\r\n')
+          if (end === -1) break
+          messages.push(parseMessage(from, buffered.slice(0, end)))
+          buffered = buffered.slice(end + 5)
+          inData = false
+          await reply('250 queued')
+          continue
+        }
+
+        const end = buffered.indexOf('\r\n')
+        if (end === -1) break
+        const line = buffered.slice(0, end)
+        buffered = buffered.slice(end + 2)
+        const verb = line.split(' ')[0].toUpperCase()
+        commands.push(verb)
+
+        if (verb === 'EHLO') {
+          await reply('250-mail-catcher')
+          await reply('250 AUTH PLAIN')
+        } else if (verb === 'AUTH') {
+          await reply('235 authenticated')
+        } else if (verb === 'MAIL') {
+          from = line.match(/<(.*)>/)?.[1] ?? ''
+          await reply('250 ok')
+        } else if (verb === 'RCPT') {
+          await reply('250 ok')
+        } else if (verb === 'DATA') {
+          inData = true
+          await reply('354 end with <CRLF>.<CRLF>')
+        } else if (verb === 'QUIT') {
+          await reply('221 bye')
+          return
+        } else {
+          await reply('502 not implemented')
+        }
+      }
+    }
+  } finally {
+    conn.close()
+  }
+}
+
+export const startMailCatcher = (): MailCatcher => {
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 })
+  const messages: CaughtMessage[] = []
+  const commands: string[] = []
+  const connections: Promise<void>[] = []
+
+  const accepting = (async () => {
+    for await (const conn of listener) {
+      connections.push(serve(conn, messages, commands).catch(() => {}))
+    }
+  })()
+
+  return {
+    port: (listener.addr as Deno.NetAddr).port,
+    messages,
+    commands,
+    async close() {
+      listener.close()
+      await accepting.catch(() => {})
+      await Promise.all(connections)
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { assert, assertEquals, assertRejects } from 'jsr:@std/assert'
+import { addComment, createCompany, request, uploadReport, USERS, withApp } from './test-helpers.tsx'
+import { startMailCatcher } from './mail-catcher.tsx'
+import { createMemorySender, createSmtpSender, setMailSender } from '../server/mailer.tsx'
+import { sendDigests } from '../server/notifications.tsx'
+import * as repo from '../server/repository.tsx'
+
+const notificationsOf = async (as: string) => (await request('GET', '/notifications', { as })).body.data
+
+Deno.test('a new report notifies the company subscribers but not its author', withApp(async () => {
+  const company = await createCompany()
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'analyst' })
+
+  const report = await uploadReport(company.id, { title: 'Q3 业绩点评' })
+
+  const { items, unreadCount } = await notificationsOf('viewer')
+  assertEquals(unreadCount, 1)
+  assertEquals([items[0].action, items[0].companyId, items[0].reportId, items[0].title], ['report.create', company.id, report.id, 'Q3 业绩点评'])
+  assertEquals([items[0].actorName, items[0].readAt], ['Analyst', null])
+  assertEquals((await notificationsOf('analyst')).items, [])
+}))
+
+Deno.test('a new comment notifies company and report subscribers once each', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'pm' })
+  await request('PUT', `/subscriptions/reports/${company.id}/${report.id}`, { as: 'pm' })
+  await request('PUT', `/subscriptions/reports/${company.id}/${report.id}`, { as: 'viewer' })
+
+  const comments = await addComment(company.id, report.id, { content: '估值偏高，建议下调目标价' })
+
+  for (const as of ['pm', 'viewer']) {
+    const { items } = await notificationsOf(as)
+    assertEquals(items.length, 1)
+    assertEquals([items[0].action, items[0].commentId, items[0].excerpt], ['comment.create', comments[0].id, '估值偏高，建议下调目标价'])
+  }
+}))
+
+Deno.test('a new comment is notified by its id, not by its place in the list', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await request('PUT', `/subscriptions/reports/${company.id}/${report.id}`, { as: 'viewer' })
+  // Sorts after the new comment, as a comment saved by a concurrent request with a later clock would
+  await repo.comments.save(report.id, {
+    id: 'later', content: '稍后', parentId: null, anchor: null, mentions: [], createdAt: '2999-01-01T00:00:00.000Z'
+  })
+
+  const comments = await addComment(company.id, report.id, { content: '估值偏高' })
+
+  const created = comments.find((comment: any) => comment.content === '估值偏高')
+  const { items } = await notificationsOf('viewer')
+  assertEquals(items.map((item: any) => [item.commentId, item.excerpt]), [[created.id, '估值偏高']])
+}))
+
+Deno.test('rejected comments notify nobody', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+
+  const { status } = await request('POST', `/reports/${company.id}/${report.id}/comments`, { as: 'analyst', json: { content: ' ' } })
+
+  assertEquals(status, 400)
+  assertEquals((await notificationsOf('viewer')).unreadCount, 0)
+}))
+
+Deno.test('DELETE /subscriptions/companies/:companyId stops notifications', withApp(async () => {
+  const company = await createCompany()
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+
+  const { body } = await request('DELETE', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+  await uploadReport(company.id)
+
+  assertEquals(body.data, [])
+  assertEquals((await notificationsOf('viewer')).items, [])
+}))
+
+Deno.test('POST /notifications/read marks the given notifications, or all of them', withApp(async () => {
+  const company = await createCompany()
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+  await uploadReport(company.id, { title: 'First' })
+  await uploadReport(company.id, { title: 'Second' })
+  const { items } = await notificationsOf('viewer')
+
+  const one = await request('POST', '/notifications/read', { as: 'viewer', json: { ids: [items[0].id] } })
+  const all = await request('POST', '/notifications/read', { as: 'viewer', json: {} })
+
+  assertEquals([one.body.data.unreadCount, all.body.data.unreadCount], [1, 0])
+  assertEquals((await request('GET', '/notifications?unread=true', { as: 'viewer' })).body.data.items, [])
+}))
+
+Deno.test('PUT /notification-settings only accepts off, daily or weekly', withApp(async () => {
+  const invalid = await request('PUT', '/notification-settings', { as: 'viewer', json: { digest: 'hourly' } })
+  const valid = await request('PUT', '/notification-settings', { as: 'viewer', json: { digest: 'weekly' } })
+
+  assertEquals([invalid.status, valid.status], [400, 200])
+  assertEquals((await request('GET', '/notification-settings', { as: 'viewer' })).body.data.digest, 'weekly')
+}))
+
+Deno.test('sendDigests mails due digests over SMTP and waits a full period before the next one', withApp(async () => {
+  const catcher = startMailCatcher()
+  setMailSender(createSmtpSender({ host: '127.0.0.1', port: catcher.port, from: 'reports@example.com' }))
+  try {
+    const company = await createCompany({ name: 'Figma' })
+    await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+    await request('PUT', '/notification-settings', { as: 'viewer', json: { digest: 'daily' } })
+    await request('PUT', '/notification-settings', { as: 'pm', json: { digest: 'daily' } })
+    await uploadReport(company.id, { title: 'Q3 业绩点评' })
+
+    const first = await sendDigests()
+    const second = await sendDigests()
+
+    // The PM follows nothing and gets no mail
+    assertEquals([first, second], [{ sent: 1, failed: 0 }, { sent: 0, failed: 0 }])
+    assertEquals(catcher.messages.length, 1)
+    const [message] = catcher.messages
+    assertEquals([message.from, message.to], ['reports@example.com', USERS.viewer.email])
+    assertEquals(message.subject, '投资研究每日摘要：1 条新动态')
+    assert(message.text.includes('[Figma] Analyst 上传了报告《Q3 业绩点评》'))
+  } finally {
+    await catcher.close()
+  }
+}))
+
+Deno.test('overlapping digest runs send each digest once', withApp(async ({ mail }) => {
+  const company = await createCompany({ name: 'Figma' })
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+  await request('PUT', '/notification-settings', { as: 'viewer', json: { digest: 'daily' } })
+  await uploadReport(company.id)
+
+  const results = await Promise.all([sendDigests(), sendDigests()])
+
+  assertEquals(results.map(result => result.sent).sort(), [0, 1])
+  assertEquals(mail.length, 1)
+}))
+
+Deno.test('a digest that fails to send is retried on the next run', withApp(async () => {
+  const company = await createCompany({ name: 'Figma' })
+  await request('PUT', `/subscriptions/companies/${company.id}`, { as: 'viewer' })
+  await request('PUT', '/notification-settings', { as: 'viewer', json: { digest: 'daily' } })
+  await uploadReport(company.id)
+  setMailSender({ send: () => Promise.reject(new Error('SMTP_HOST is not set')) })
+
+  const failed = await sendDigests()
+  const sender = createMemorySender()
+  setMailSender(sender)
+  const retried = await sendDigests()
+
+  assertEquals([failed, retried], [{ sent: 0, failed: 1 }, { sent: 1, failed: 0 }])
+  assertEquals(sender.messages.map(message => message.to), [USERS.viewer.email])
+}))
+
+Deno.test('the SMTP sender does not send credentials to a server without STARTTLS', async () => {
+  const catcher = startMailCatcher()
+  try {
+    const sender = createSmtpSender({ host: '127.0.0.1', port: catcher.port, from: 'reports@example.com', username: 'reports', password: 'secret' })
+
+    await assertRejects(() => sender.send({ to: USERS.viewer.email, subject: '摘要', text: '正文' }), Error, 'STARTTLS')
+
+    assertEquals([catcher.commands, catcher.messages], [['EHLO'], []])
+  } finally {
+    await catcher.close()
+  }
+})
+
+Deno.test('POST /notifications/digests is limited to admins', withApp(async ({ mail }) => {
+  assertEquals((await request('POST', '/notifications/digests', { as: 'pm' })).status, 403)
+
+  const { status, body } = await request('POST', '/notifications/digests', { as: 'admin' })
+
+  assertEquals([status, body.data], [200, { sent: 0, failed: 0 }])
+  assertEquals(mail, [])
+}))
@@ -0,0 +1,315 @@
+import { assert, assertEquals } from 'jsr:@std/assert'
+import { addComment, createCompany, reportFile, reportForm, request, uploadReport, withApp } from './test-helpers.tsx'
+import { app } from '../server/app.tsx'
+import * as repo from '../server/repository.tsx'
+
+Deno.test('GET /companies/:companyId/reports lists reports with their comments', withApp(async () => {
+  const company = await createCompany()
+  const older = await uploadReport(company.id, { title: '首次覆盖' })
+  const newer = await uploadReport(company.id, { title: 'Q3 业绩点评' })
+  await addComment(company.id, older.id, { content: '估值偏高' })
+
+  const { status, body } = await request('GET', `/companies/${company.id}/reports`, { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((report: any) => report.id), [older.id, newer.id])
+  assertEquals(body.data[0].comments.map((comment: any) => comment.content), ['估值偏高'])
+  assertEquals(body.data[1].comments, [])
+}))
+
+Deno.test('GET /companies/:companyId/reports pages through filtered reports', withApp(async () => {
+  const company = await createCompany()
+  const initiation = await uploadReport(company.id, { title: '首次覆盖：设计协作龙头', category: '首次覆盖', analyst: '李四' })
+  const q2 = await uploadReport(company.id, { title: 'Q2 业绩点评' })
+  const q3 = await uploadReport(company.id, { title: 'Q3 业绩点评' })
+  const notes = await uploadReport(company.id, { title: '管理层交流', category: '会议纪要' })
+  const tag = (await request('POST', '/tags', { as: 'analyst', json: { name: '业绩' } })).body.data
+  for (const report of [q2, q3]) {
+    await request('PUT', `/reports/${company.id}/${report.id}/tags`, { as: 'analyst', json: { tagIds: [tag.id] } })
+  }
+
+  const ids = async (query: string) => {
+    const { body } = await request('GET', `/companies/${company.id}/reports?${query}`, { as: 'viewer' })
+    return body.data.items.map((report: any) => report.id)
+  }
+
+  const first = (await request('GET', `/companies/${company.id}/reports?limit=3`, { as: 'viewer' })).body.data
+  const second = (await request('GET', `/companies/${company.id}/reports?limit=3&cursor=${first.nextCursor}`, { as: 'viewer' })).body.data
+  assertEquals([...first.items, ...second.items].map((report: any) => report.id), [initiation.id, q2.id, q3.id, notes.id])
+  assertEquals(second.nextCursor, null)
+
+  assertEquals(await ids(`category=${encodeURIComponent('跟踪')}`), [q2.id, q3.id])
+  assertEquals(await ids(`analyst=${encodeURIComponent('李四')}`), [initiation.id])
+  assertEquals(await ids(`q=${encodeURIComponent('业绩')}&tag=${tag.id}&limit=1`), [q2.id])
+  assertEquals(await ids(`from=${encodeURIComponent(initiation.createdAt)}&category=${encodeURIComponent('会议纪要')}`), [notes.id])
+  assert((await ids(`to=${encodeURIComponent(initiation.createdAt)}`)).includes(initiation.id))
+  assertEquals(await ids('to=2000-01-01'), [])
+  assertEquals((await request('GET', `/companies/${company.id}/reports?from=yesterday`)).status, 400)
+}))
+
+Deno.test('GET /companies/:companyId/reports/stats counts all reports of the company', withApp(async () => {
+  const company = await createCompany()
+  await uploadReport(company.id, { category: '首次覆盖', analyst: '李四' })
+  await uploadReport(company.id)
+  const latest = await uploadReport(company.id)
+
+  const { status, body } = await request('GET', `/companies/${company.id}/reports/stats`, { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data, {
+    total: 3,
+    categories: { 首次覆盖: 1, 跟踪: 2 },
+    analysts: ['张三', '李四'].sort(),
+    latestReportDate: latest.createdAt
+  })
+}))
+
+Deno.test('GET /reports lists the newest reports across companies', withApp(async () => {
+  const figma = await createCompany({ name: 'Figma', code: 'FIG.N', type: '美股' })
+  const tencent = await createCompany({ name: '腾讯控股', code: '0700.HK', type: '港股' })
+  const trashed = await createCompany({ name: 'Meituan', code: '3690.HK', type: '港股' })
+  // Uploaded in one order, dated in another
+  const dated = async (companyId: string, createdAt: string, fields: Record<string, string> = {}) => {
+    const report = await uploadReport(companyId, fields)
+    const { title, analyst, category } = { ...report, ...fields }
+    return (await request('PUT', `/reports/${companyId}/${report.id}`, { json: { title, analyst, category, createdAt } })).body.data
+  }
+  const march = await dated(figma.id, '2025-03-01T09:00:00.000Z')
+  const may = await dated(tencent.id, '2025-05-01T09:00:00.000Z', { analyst: '李四', category: '会议纪要' })
+  const april = await dated(figma.id, '2025-04-01T09:00:00.000Z')
+  await dated(trashed.id, '2025-06-01T09:00:00.000Z')
+  await request('DELETE', `/companies/${trashed.id}`)
+
+  const ids = async (query = '') => {
+    const { status, body } = await request('GET', `/reports?${query}`, { as: 'viewer' })
+    assertEquals(status, 200)
+    return body.data.items.map((report: any) => report.id)
+  }
+
+  assertEquals(await ids(), [may.id, april.id, march.id])
+  assertEquals(await ids('sort=oldest&limit=2'), [march.id, april.id])
+  assertEquals(await ids(`companyType=${encodeURIComponent('美股')}`), [april.id, march.id])
+  assertEquals(await ids(`category=${encodeURIComponent('会议纪要')}`), [may.id])
+  assertEquals(await ids(`analyst=${encodeURIComponent('李四')}`), [may.id])
+  assertEquals(await ids('from=2025-03-15&to=2025-04-30'), [april.id])
+
+  const { body } = await request('GET', '/reports?limit=1')
+  assertEquals(body.data.items[0].comments, undefined)
+  assertEquals((await request('GET', '/reports?sort=order')).status, 400)
+}))
+
+Deno.test('POST /companies/:companyId/reports stores the file and metadata', withApp(async ({ storage }) => {
+  const company = await createCompany()
+
+  const { status, body } = await request('POST', `/companies/${company.id}/reports`, { as: 'analyst', form: reportForm() })
+
+  assertEquals(status, 200)
+  const report = body.data
+  assertEquals(report.title, 'Q3 业绩点评')
+  assertEquals(report.fileKind, 'excel')
+  assertEquals(report.currentVersion, 1)
+  assertEquals(report.versions[0].uploadedByName, 'Analyst')
+  assertEquals(await storage.list('make-78971119-reports', company.id), [`${report.id}.xlsx`])
+}))
+
+Deno.test('POST /companies/:companyId/reports returns 400 for missing fields or unsupported files', withApp(async () => {
+  const company = await createCompany()
+
+  const missing = await request('POST', `/companies/${company.id}/reports`, { as: 'analyst', form: reportForm({ title: undefined }) })
+  assertEquals(missing.status, 400)
+  assertEquals(missing.body.error, 'Missing required fields')
+
+  const unsupported = await request('POST', `/companies/${company.id}/reports`, {
+    as: 'analyst',
+    form: reportForm({ file: reportFile('script.exe') })
+  })
+  assertEquals(unsupported.status, 400)
+  assertEquals(unsupported.body.error, 'Unsupported file type')
+}))
+
+Deno.test('POST /companies/:companyId/reports returns 404 for an unknown company', withApp(async ({ storage }) => {
+  const { status, body } = await request('POST', '/companies/missing/reports', { as: 'analyst', form: reportForm() })
+
+  assertEquals(status, 404)
+  assertEquals(body.error, 'Company not found')
+  assertEquals(await storage.list('make-78971119-reports', 'missing'), [])
+}))
+
+Deno.test('POST /companies/:companyId/reports removes the uploaded file when the report cannot be saved', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  // withApp gives the next test a fresh repository
+  repo.reports.save = () => Promise.reject(new Error('Database unavailable'))
+
+  const { status } = await request('POST', `/companies/${company.id}/reports`, { as: 'analyst', form: reportForm() })
+
+  assertEquals(status, 500)
+  assertEquals(await storage.list('make-78971119-reports', company.id), [])
+}))
+
+Deno.test('POST /companies/:companyId/reports requires the analyst role', withApp(async () => {
+  const company = await createCompany()
+
+  const { status } = await request('POST', `/companies/${company.id}/reports`, { as: 'viewer', form: reportForm() })
+
+  assertEquals(status, 403)
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId updates the metadata', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  const { status, body } = await request('PUT', `/reports/${company.id}/${report.id}`, {
+    as: 'analyst',
+    json: { title: '深度报告', analyst: '李四', category: '首次覆盖', createdAt: '2024-01-02T00:00:00.000Z' }
+  })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.title, '深度报告')
+  assertEquals(body.data.createdAt, '2024-01-02T00:00:00.000Z')
+  assertEquals(body.data.filePath, report.filePath)
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId accepts ISO 8601 dates and timestamps only', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const update = (createdAt: unknown) => request('PUT', `/reports/${company.id}/${report.id}`, {
+    as: 'analyst',
+    json: { title: report.title, analyst: report.analyst, category: report.category, createdAt }
+  })
+
+  assertEquals((await update('2024-01-02')).body.data.createdAt, '2024-01-02T00:00:00.000Z')
+  assertEquals((await update('2024-01-02T08:30:00+08:00')).body.data.createdAt, '2024-01-02T00:30:00.000Z')
+  for (const invalid of ['yesterday', '2024-02-30', '2024-01-02 08:30', '2024-01-02T08:30', 20240102]) {
+    assertEquals((await update(invalid)).status, 400, String(invalid))
+  }
+  assertEquals((await request('GET', `/companies/${company.id}/reports`)).body.data[0].createdAt, '2024-01-02T00:30:00.000Z')
+}))
+
+Deno.test('PUT /reports/:companyId/:reportId returns 400 and 404', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  const missing = await request('PUT', `/reports/${company.id}/${report.id}`, { as: 'analyst', json: { title: '深度报告' } })
+  assertEquals(missing.status, 400)
+
+  const unknown = await request('PUT', `/reports/${company.id}/missing`, {
+    as: 'analyst',
+    json: { title: '深度报告', analyst: '李四', category: '首次覆盖' }
+  })
+  assertEquals(unknown.status, 404)
+
+  // A report is only found under its own company
+  const other = await createCompany({ name: 'DraftKings' })
+  const elsewhere = await request('PUT', `/reports/${other.id}/${report.id}`, {
+    as: 'analyst',
+    json: { title: '深度报告', analyst: '李四', category: '首次覆盖' }
+  })
+  assertEquals(elsewhere.status, 404)
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/versions adds a version and keeps the old file', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const form = new FormData()
+  form.append('file', reportFile('model-v2.docx', 'v2'))
+  form.append('note', '更新盈利预测')
+
+  const { status, body } = await request('POST', `/reports/${company.id}/${report.id}/versions`, { as: 'analyst', form })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.currentVersion, 2)
+  assertEquals(body.data.fileKind, 'word')
+  assertEquals(body.data.versions.map((v: any) => v.note ?? null), [null, '更新盈利预测'])
+  assertEquals(await storage.list('make-78971119-reports', company.id), [`${report.id}-v2.docx`, `${report.id}.xlsx`])
+}))
+
+Deno.test('POST /reports/:companyId/:reportId/versions returns 400 and 404', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  const noFile = await request('POST', `/reports/${company.id}/${report.id}/versions`, { as: 'analyst', form: new FormData() })
+  assertEquals(noFile.status, 400)
+
+  const unsupportedForm = new FormData()
+  unsupportedForm.append('file', reportFile('script.exe'))
+  const unsupported = await request('POST', `/reports/${company.id}/${report.id}/versions`, { as: 'analyst', form: unsupportedForm })
+  assertEquals(unsupported.status, 400)
+
+  const form = new FormData()
+  form.append('file', reportFile())
+  const unknown = await request('POST', `/reports/${company.id}/missing/versions`, { as: 'analyst', form })
+  assertEquals(unknown.status, 404)
+}))
+
+Deno.test('POST /companies/:companyId/reports/reorder updates the order', withApp(async () => {
+  const company = await createCompany()
+  const first = await uploadReport(company.id)
+  const second = await uploadReport(company.id)
+
+  const { status } = await request('POST', `/companies/${company.id}/reports/reorder`, {
+    as: 'pm',
+    json: { orderUpdates: [{ id: first.id, order: 1 }, { id: second.id, order: 0 }] }
+  })
+
+  assertEquals(status, 200)
+  const { body } = await request('GET', `/companies/${company.id}/reports`)
+  assertEquals(body.data.map((report: any) => report.id), [second.id, first.id])
+}))
+
+Deno.test('POST /companies/:companyId/reports/reorder returns 400 without an orderUpdates array', withApp(async () => {
+  const company = await createCompany()
+
+  const { status } = await request('POST', `/companies/${company.id}/reports/reorder`, { as: 'pm', json: {} })
+
+  assertEquals(status, 400)
+}))
+
+Deno.test('GET /reports/:companyId/:reportId/download returns a working signed URL', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id, { file: reportFile('model.xlsx', 'first') })
+  const form = new FormData()
+  form.append('file', reportFile('model.xlsx', 'second'))
+  await request('POST', `/reports/${company.id}/${report.id}/versions`, { as: 'analyst', form })
+
+  const latest = await request('GET', `/reports/${company.id}/${report.id}/download`, { as: 'viewer' })
+  const first = await request('GET', `/reports/${company.id}/${report.id}/download?version=1`, { as: 'viewer' })
+
+  assertEquals(latest.status, 200)
+  assert(latest.body.data.downloadUrl.includes(`${report.id}-v2.xlsx`))
+  assertEquals(await (await app.request(first.body.data.downloadUrl)).text(), 'first')
+}))
+
+Deno.test('GET /reports/:companyId/:reportId/download returns 404 for unknown reports and versions', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  assertEquals((await request('GET', `/reports/${company.id}/missing/download`)).status, 404)
+
+  const version = await request('GET', `/reports/${company.id}/${report.id}/download?version=9`)
+  assertEquals(version.status, 404)
+  assertEquals(version.body.error, 'Version not found')
+}))
+
+Deno.test('DELETE /reports/:companyId/:reportId moves the report to the trash', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const kept = await uploadReport(company.id)
+  await addComment(company.id, report.id, { content: '估值偏高' })
+
+  const { status } = await request('DELETE', `/reports/${company.id}/${report.id}`, { as: 'pm' })
+
+  assertEquals(status, 200)
+  const { body } = await request('GET', `/companies/${company.id}/reports`)
+  assertEquals(body.data.map((r: any) => r.id), [kept.id])
+  assertEquals((await request('GET', `/reports/${company.id}/${report.id}/comments`)).status, 404)
+  assertEquals((await request('GET', `/reports/${company.id}/${report.id}/download`)).status, 404)
+  assertEquals((await storage.list('make-78971119-reports', company.id)).length, 2)
+}))
+
+Deno.test('DELETE /reports/:companyId/:reportId returns 404 and requires the pm role', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  assertEquals((await request('DELETE', `/reports/${company.id}/missing`, { as: 'pm' })).status, 404)
+  assertEquals((await request('DELETE', `/reports/${company.id}/${report.id}`, { as: 'analyst' })).status, 403)
+}))
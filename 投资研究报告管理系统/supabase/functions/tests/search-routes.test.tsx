@@ -0,0 +1,32 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+import * as repo from '../server/repository.tsx'
+
+Deno.test('GET /search finds reports whose pages contain every term', withApp(async () => {
+  const company = await createCompany()
+  const valuation = await uploadReport(company.id, { title: 'Q3 业绩点评' })
+  const other = await uploadReport(company.id, { title: '会议纪要' })
+  await repo.search.setPages(valuation.id, ['收入增长放缓', 'Figma 的估值偏高，建议下调目标价'])
+  await repo.search.setPages(other.id, ['估计下季度收入持平'])
+
+  const { status, body } = await request('GET', '/search?q=估值 figma', { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((hit: any) => [hit.reportId, hit.companyName, hit.matchCount]), [[valuation.id, company.name, 1]])
+  const [match] = body.data[0].matches
+  assertEquals(match.page, 2)
+  assertEquals(match.highlights.map(([start, end]: [number, number]) => match.snippet.slice(start, end)), ['Figma', '估值'])
+}))
+
+Deno.test('GET /search matches titles and leaves out trashed reports', withApp(async () => {
+  const company = await createCompany()
+  const kept = await uploadReport(company.id, { title: '首次覆盖报告' })
+  const trashed = await uploadReport(company.id, { title: '首次覆盖补充' })
+  await request('DELETE', `/reports/${company.id}/${trashed.id}`)
+
+  const { body } = await request('GET', '/search?q=首次覆盖')
+  const missing = await request('GET', '/search?q=%20')
+
+  assertEquals(body.data.map((hit: any) => [hit.reportId, hit.matches]), [[kept.id, []]])
+  assertEquals(missing.status, 400)
+}))
@@ -0,0 +1,64 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { addComment, createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+
+// Months back from the current UTC month, like 2026-09
+const monthsAgo = (count: number) => {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - count, 1)).toISOString().slice(0, 7)
+}
+
+const uploadDated = async (companyId: string, createdAt: string, fields: Record<string, string> = {}) => {
+  const report = await uploadReport(companyId, fields)
+  const { body } = await request('PUT', `/reports/${companyId}/${report.id}`, {
+    json: { title: report.title, analyst: report.analyst, category: report.category, createdAt }
+  })
+  return body.data
+}
+
+Deno.test('GET /stats aggregates reports and comments of the period', withApp(async () => {
+  const figma = await createCompany()
+  const tencent = await createCompany({ name: '腾讯控股', code: '0700.HK', type: '港股' })
+  const lastMonth = `${monthsAgo(1)}-15T00:00:00.000Z`
+  const first = await uploadDated(figma.id, lastMonth, { category: '首次覆盖' })
+  await uploadReport(figma.id)
+  await uploadReport(tencent.id, { analyst: '李四' })
+  const trashed = await uploadReport(tencent.id, { analyst: '李四' })
+  await uploadDated(tencent.id, `${monthsAgo(14)}-01T00:00:00.000Z`)
+  await addComment(figma.id, first.id, { content: '估值偏高' })
+  await addComment(figma.id, first.id, { content: '同意' }, 'pm')
+  await addComment(tencent.id, trashed.id, { content: '已过时' })
+  await request('DELETE', `/reports/${tencent.id}/${trashed.id}`)
+
+  const { status, body } = await request('GET', '/stats?months=3', { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.totals, { companies: 2, reports: 4, analysts: 2, reportsInPeriod: 3, commentsInPeriod: 2 })
+  assertEquals(body.data.reportsPerMonth, [
+    { month: monthsAgo(2), count: 0 },
+    { month: monthsAgo(1), count: 1 },
+    { month: monthsAgo(0), count: 2 }
+  ])
+  assertEquals(body.data.byCategory, [{ category: '跟踪', count: 2 }, { category: '首次覆盖', count: 1 }])
+  assertEquals(body.data.byStockType, [{ type: '美股', count: 2, companyCount: 1 }, { type: '港股', count: 1, companyCount: 1 }])
+  assertEquals(body.data.topAnalysts.map((analyst: any) => [analyst.name, analyst.count, analyst.companyCount]), [['张三', 2, 1], ['李四', 1, 1]])
+  assertEquals(body.data.commentActivity.at(-1), { month: monthsAgo(0), count: 2, commenters: 2 })
+  assertEquals(body.data.mostDiscussed, [{ reportId: first.id, companyId: figma.id, title: first.title, count: 2 }])
+}))
+
+Deno.test('GET /stats lists companies without a recent report', withApp(async () => {
+  const covered = await createCompany()
+  const silent = await createCompany({ name: 'Arm', code: 'ARM' })
+  const never = await createCompany({ name: 'DraftKings', code: 'DKNG' })
+  await uploadReport(covered.id)
+  const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString()
+  await uploadDated(silent.id, old)
+
+  const { body } = await request('GET', '/stats?staleDays=30')
+  const { body: longer } = await request('GET', '/stats?staleDays=60')
+  const invalid = await request('GET', '/stats?staleDays=0')
+  const tooMany = await request('GET', '/stats?months=37')
+
+  assertEquals(body.data.staleCompanies.map((company: any) => [company.companyId, company.latestReportAt]), [[never.id, null], [silent.id, old]])
+  assertEquals(longer.data.staleCompanies.map((company: any) => company.companyId), [never.id])
+  assertEquals([invalid.status, tooMany.status], [400, 400])
+}))
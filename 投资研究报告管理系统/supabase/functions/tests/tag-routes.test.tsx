@@ -0,0 +1,83 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, request, uploadReport, withApp } from './test-helpers.tsx'
+
+const createTag = async (name: string, color?: string) => {
+  return (await request('POST', '/tags', { as: 'analyst', json: { name, color } })).body.data
+}
+
+Deno.test('POST /tags trims the name, defaults the color and rejects names that differ only in case', withApp(async () => {
+  const { status, body } = await request('POST', '/tags', { as: 'analyst', json: { name: ' AI capex ' } })
+  const duplicate = await request('POST', '/tags', { as: 'analyst', json: { name: 'ai CAPEX' } })
+  const badColor = await request('POST', '/tags', { as: 'analyst', json: { name: 'GLP-1', color: 'chartreuse' } })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.name, body.data.color], ['AI capex', 'slate'])
+  assertEquals([duplicate.status, badColor.status], [400, 400])
+}))
+
+Deno.test('viewers cannot create tags and analysts cannot delete them', withApp(async () => {
+  const tag = await createTag('GLP-1')
+
+  assertEquals((await request('POST', '/tags', { as: 'viewer', json: { name: '出海' } })).status, 403)
+  assertEquals((await request('DELETE', `/tags/${tag.id}`, { as: 'analyst' })).status, 403)
+  assertEquals((await request('DELETE', `/tags/${tag.id}`, { as: 'pm' })).status, 200)
+}))
+
+Deno.test('PUT /companies/:id/tags and PUT /reports/:companyId/:reportId/tags replace the tags', withApp(async () => {
+  const ai = await createTag('AI capex')
+  const region = await createTag('北美', 'blue')
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+
+  const companyTags = await request('PUT', `/companies/${company.id}/tags`, { as: 'pm', json: { tagIds: [ai.id, region.id] } })
+  const reportTags = await request('PUT', `/reports/${company.id}/${report.id}/tags`, { as: 'analyst', json: { tagIds: [ai.id] } })
+  const unknown = await request('PUT', `/companies/${company.id}/tags`, { as: 'pm', json: { tagIds: ['missing'] } })
+  const analyst = await request('PUT', `/companies/${company.id}/tags`, { as: 'analyst', json: { tagIds: [] } })
+
+  assertEquals(companyTags.body.data.tagIds, [ai.id, region.id])
+  assertEquals(reportTags.body.data.tagIds, [ai.id])
+  assertEquals([unknown.status, analyst.status], [400, 403])
+  assertEquals((await request('GET', '/companies')).body.data[0].tagIds, [ai.id, region.id])
+}))
+
+Deno.test('GET /tags/:id lists the companies under a tag and GET /reports?tag= its reports across companies', withApp(async () => {
+  const tag = await createTag('GLP-1')
+  const lilly = await createCompany({ name: 'Eli Lilly' })
+  const novo = await createCompany({ name: 'Novo Nordisk' })
+  await createCompany({ name: 'Figma' })
+  const first = await uploadReport(lilly.id, { title: '替尔泊肽跟踪' })
+  const second = await uploadReport(novo.id, { title: '司美格鲁肽产能' })
+  await uploadReport(novo.id, { title: '胰岛素业务' })
+  await request('PUT', `/companies/${lilly.id}/tags`, { json: { tagIds: [tag.id] } })
+  await request('PUT', `/reports/${lilly.id}/${first.id}/tags`, { json: { tagIds: [tag.id] } })
+  await request('PUT', `/reports/${novo.id}/${second.id}/tags`, { json: { tagIds: [tag.id] } })
+  const trashed = await uploadReport(novo.id, { title: '已删除' })
+  await request('PUT', `/reports/${novo.id}/${trashed.id}/tags`, { json: { tagIds: [tag.id] } })
+  await request('DELETE', `/reports/${novo.id}/${trashed.id}`)
+
+  const { body } = await request('GET', `/tags/${tag.id}`, { as: 'viewer' })
+  const reports = await request('GET', `/reports?tag=${tag.id}&sort=newest`, { as: 'viewer' })
+  const list = await request('GET', '/tags', { as: 'viewer' })
+  const missing = await request('GET', '/tags/missing', { as: 'viewer' })
+
+  assertEquals(body.data.companies.map((company: any) => company.name), ['Eli Lilly'])
+  assertEquals([body.data.tag.companyCount, body.data.tag.reportCount], [1, 2])
+  assertEquals(reports.body.data.items.map((report: any) => report.title).sort(), ['司美格鲁肽产能', '替尔泊肽跟踪'])
+  assertEquals([list.body.data[0].companyCount, list.body.data[0].reportCount], [1, 2])
+  assertEquals(missing.status, 404)
+}))
+
+Deno.test('deleting a tag takes it off companies and reports and is audited', withApp(async () => {
+  const tag = await createTag('出海')
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await request('PUT', `/companies/${company.id}/tags`, { json: { tagIds: [tag.id] } })
+  await request('PUT', `/reports/${company.id}/${report.id}/tags`, { json: { tagIds: [tag.id] } })
+
+  await request('DELETE', `/tags/${tag.id}`)
+
+  assertEquals((await request('GET', `/companies/${company.id}`)).body.data.tagIds, [])
+  assertEquals((await request('GET', `/companies/${company.id}/reports`)).body.data[0].tagIds, [])
+  const { body } = await request('GET', '/audit?entityType=tag')
+  assertEquals(body.data.map((entry: any) => entry.action), ['tag.delete', 'tag.create'])
+}))
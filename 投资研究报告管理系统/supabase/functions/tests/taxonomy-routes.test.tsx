@@ -0,0 +1,89 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, reportForm, request, uploadReport, withApp } from './test-helpers.tsx'
+
+const labels = (terms: { label: string }[]) => terms.map(term => term.label)
+
+const findTerm = async (kind: 'stockTypes' | 'reportCategories', label: string) => {
+  const { body } = await request('GET', '/taxonomies', { as: 'viewer' })
+  return body.data[kind].find((term: any) => term.label === label)
+}
+
+Deno.test('GET /taxonomies returns the default stock types and report categories in order', withApp(async () => {
+  const { status, body } = await request('GET', '/taxonomies', { as: 'viewer' })
+
+  assertEquals(status, 200)
+  assertEquals(labels(body.data.stockTypes), ['A股', '港股', '美股', '行业'])
+  assertEquals(labels(body.data.reportCategories), ['会议纪要', '首次覆盖', '跟踪'])
+  assertEquals(body.data.stockTypes[1].color, 'emerald')
+}))
+
+Deno.test('companies and reports only accept types and categories of the taxonomies', withApp(async () => {
+  const company = await createCompany()
+
+  const createCompanyStatus = (await request('POST', '/companies', { json: { name: 'Arm', code: 'ARM', type: '英股' } })).status
+  const updateCompanyStatus = (await request('PUT', `/companies/${company.id}`, { json: { name: 'Figma', code: 'FIG.N', type: '英股' } })).status
+  const upload = await request('POST', `/companies/${company.id}/reports`, { as: 'analyst', form: reportForm({ category: '深度研究' }) })
+  const session = await request('POST', `/companies/${company.id}/uploads`, {
+    as: 'analyst',
+    json: { fileName: 'model.xlsx', fileSize: 5, title: '模型', analyst: '张三', category: '深度研究' }
+  })
+
+  assertEquals([createCompanyStatus, updateCompanyStatus, upload.status, session.status], [400, 400, 400, 400])
+  assertEquals(upload.body.error, 'Unknown report category: 深度研究')
+
+  await request('POST', '/taxonomies/report_category', { json: { label: '深度研究', color: 'indigo' } })
+  assertEquals((await request('POST', `/companies/${company.id}/reports`, { as: 'analyst', form: reportForm({ category: '深度研究' }) })).status, 200)
+}))
+
+Deno.test('only admins manage terms; labels are unique per taxonomy regardless of case', withApp(async () => {
+  const pm = await request('POST', '/taxonomies/stock_type', { as: 'pm', json: { label: '英股' } })
+  const created = await request('POST', '/taxonomies/stock_type', { json: { label: ' 英股 ' } })
+  const duplicate = await request('POST', '/taxonomies/stock_type', { json: { label: '美股' } })
+  const badColor = await request('POST', '/taxonomies/stock_type', { json: { label: '日股', color: 'chartreuse' } })
+  const unknownKind = await request('POST', '/taxonomies/sector', { json: { label: '科技' } })
+
+  assertEquals([pm.status, duplicate.status, badColor.status, unknownKind.status], [403, 400, 400, 404])
+  assertEquals([created.body.data.label, created.body.data.color, created.body.data.order], ['英股', 'slate', 5])
+  // Categories are a taxonomy of their own
+  assertEquals((await request('POST', '/taxonomies/report_category', { json: { label: '美股' } })).status, 200)
+}))
+
+Deno.test('relabelling a term moves the companies filed under it to the new label', withApp(async () => {
+  const company = await createCompany({ type: '美股' })
+  const term = await findTerm('stockTypes', '美股')
+
+  const { status, body } = await request('PUT', `/taxonomies/stock_type/${term.id}`, { json: { label: '美国', color: 'indigo' } })
+  const moved = (await request('GET', `/companies/${company.id}`)).body.data
+
+  assertEquals(status, 200)
+  assertEquals([body.data.label, body.data.color], ['美国', 'indigo'])
+  assertEquals([moved.type, moved.revision], ['美国', company.revision + 1])
+  assertEquals((await request('PUT', `/taxonomies/report_category/${term.id}`, { json: { label: 'x' } })).status, 404)
+}))
+
+Deno.test('a term cannot be deleted while anything is filed under it, even in the trash', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id, { category: '会议纪要' })
+  const used = await findTerm('reportCategories', '会议纪要')
+  const unused = await findTerm('reportCategories', '首次覆盖')
+  await request('DELETE', `/reports/${company.id}/${report.id}`)
+
+  const inUse = await request('DELETE', `/taxonomies/report_category/${used.id}`)
+  const deleted = await request('DELETE', `/taxonomies/report_category/${unused.id}`)
+
+  assertEquals([inUse.status, deleted.status], [400, 200])
+  assertEquals(labels((await request('GET', '/taxonomies')).body.data.reportCategories), ['会议纪要', '跟踪'])
+  const { body } = await request('GET', '/audit?entityType=taxonomy')
+  assertEquals(body.data.map((entry: any) => entry.action), ['taxonomy.delete'])
+}))
+
+Deno.test('POST /taxonomies/:kind/reorder needs every term of the taxonomy', withApp(async () => {
+  const { body } = await request('GET', '/taxonomies')
+  const ids = body.data.reportCategories.map((term: any) => term.id)
+
+  const partial = await request('POST', '/taxonomies/report_category/reorder', { json: { ids: ids.slice(1) } })
+  const reordered = await request('POST', '/taxonomies/report_category/reorder', { json: { ids: [...ids].reverse() } })
+
+  assertEquals(partial.status, 400)
+  assertEquals(labels(reordered.body.data), ['跟踪', '首次覆盖', '会议纪要'])
+}))
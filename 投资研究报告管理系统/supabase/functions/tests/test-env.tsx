@@ -0,0 +1,6 @@
+// Imported before the server modules: they read these variables when they load.
+// The Supabase values are placeholders; no test talks to Supabase.
+Deno.env.set('DATA_BACKEND', 'memory')
+Deno.env.set('STORAGE_BACKEND', 'local')
+Deno.env.set('SUPABASE_URL', Deno.env.get('SUPABASE_URL') || 'http://localhost:54321')
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || 'test-service-role-key')
@@ -0,0 +1,111 @@
+import './test-env.tsx'
+import { app, initStorage } from '../server/app.tsx'
+import { setTokenVerifier, type AuthUser, type Role } from '../server/auth.tsx'
+import { createMemoryKv, setKvBackend } from '../server/kv.tsx'
+import * as kv from '../server/kv.tsx'
+import { createMemoryRepository, setRepository } from '../server/repository.tsx'
+import { createMemoryPublisher, setPublisher, type ChangeEvent } from '../server/realtime.tsx'
+import { createMemorySender, setMailSender, type MailMessage } from '../server/mailer.tsx'
+import { createLocalStorage, setStorage, type LocalStorageProvider } from '../server/storage.tsx'
+import { createMemoryUserDirectory, setUserDirectory } from '../server/user-directory.tsx'
+
+// Shared setup for the API tests: every test gets an empty in-memory database,
+// an empty KV store, a fresh storage directory, an empty change feed and outbox, a user directory holding USERS,
+// and signs in with the role name as its token.
+// Run with `deno test -A supabase/functions/tests`.
+
+const BASE_URL = 'http://localhost/make-server-78971119'
+
+export const USERS: Record<Role, AuthUser> = {
+  viewer: { id: 'user-viewer', email: 'viewer@example.com', name: 'Viewer', role: 'viewer' },
+  analyst: { id: 'user-analyst', email: 'analyst@example.com', name: 'Analyst', role: 'analyst' },
+  pm: { id: 'user-pm', email: 'pm@example.com', name: 'PM', role: 'pm' },
+  admin: { id: 'user-admin', email: 'admin@example.com', name: 'Admin', role: 'admin' }
+}
+
+setTokenVerifier(async (token) => USERS[token as Role] ?? null)
+
+export type TestContext = {
+  storage: LocalStorageProvider
+  kv: typeof kv
+  // Change events published so far, oldest first
+  changes: ChangeEvent[]
+  // Mail sent so far; tests that need real SMTP use mail-catcher.tsx instead
+  mail: MailMessage[]
+}
+
+// Wraps a test body with a clean backend and removes the storage directory afterwards
+export const withApp = (fn: (context: TestContext) => Promise<void>) => async () => {
+  const rootDir = await Deno.makeTempDir({ prefix: 'reports-api-test-' })
+  const storage = createLocalStorage({ rootDir, baseUrl: `${BASE_URL}/storage`, secret: 'test-secret' })
+  setRepository(createMemoryRepository())
+  setKvBackend(createMemoryKv())
+  setStorage(storage)
+  const publisher = createMemoryPublisher()
+  setPublisher(publisher)
+  const sender = createMemorySender()
+  setMailSender(sender)
+  setUserDirectory(createMemoryUserDirectory(
+    Object.values(USERS).map(user => ({ ...user, createdAt: '2026-01-01T00:00:00.000Z' }))
+  ))
+  await initStorage()
+
+  try {
+    await fn({ storage, kv, changes: publisher.events, mail: sender.messages })
+  } finally {
+    await Deno.remove(rootDir, { recursive: true })
+  }
+}
+
+type RequestOptions = {
+  // Token sent as the bearer; the role names sign in as USERS
+  as?: string | null
+  json?: unknown
+  form?: FormData
+  // Sent as is, e.g. the bytes of an upload chunk
+  body?: BodyInit
+  headers?: Record<string, string>
+}
+
+export const request = async (method: string, path: string, { as = 'admin', json, form, body: raw, headers: extraHeaders }: RequestOptions = {}) => {
+  const headers: Record<string, string> = { ...extraHeaders }
+  if (as) headers.Authorization = `Bearer ${as}`
+  if (json !== undefined) headers['Content-Type'] = 'application/json'
+
+  const response = await app.request(`${BASE_URL}${path}`, {
+    method,
+    headers,
+    body: raw ?? form ?? (json !== undefined ? JSON.stringify(json) : undefined)
+  })
+  const text = await response.text()
+  return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null }
+}
+
+export const createCompany = async (fields: Record<string, string> = {}) => {
+  const { body } = await request('POST', '/companies', {
+    json: { name: 'Figma', code: 'FIG.N', type: '美股', description: '协作设计软件', ...fields }
+  })
+  return body.data
+}
+
+// Spreadsheets are stored without text extraction, which keeps the tests independent of the PDF parser
+export const reportFile = (name = 'model.xlsx', content = 'sheet') => new File([content], name)
+
+export const reportForm = (fields: Record<string, string | File | undefined> = {}) => {
+  const form = new FormData()
+  const values = { title: 'Q3 业绩点评', analyst: '张三', category: '跟踪', file: reportFile(), ...fields }
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) form.append(key, value)
+  }
+  return form
+}
+
+export const uploadReport = async (companyId: string, fields: Record<string, string | File | undefined> = {}) => {
+  const { body } = await request('POST', `/companies/${companyId}/reports`, { as: 'analyst', form: reportForm(fields) })
+  return body.data
+}
+
+export const addComment = async (companyId: string, reportId: string, json: Record<string, unknown>, as: Role = 'analyst') => {
+  const { body } = await request('POST', `/reports/${companyId}/${reportId}/comments`, { as, json })
+  return body.data
+}
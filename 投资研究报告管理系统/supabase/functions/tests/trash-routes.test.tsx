@@ -0,0 +1,147 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { addComment, createCompany, reportFile, request, uploadReport, withApp } from './test-helpers.tsx'
+import * as repo from '../server/repository.tsx'
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '../server/trash-handlers.tsx'
+
+const afterRetention = () => Date.now() + (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000
+
+Deno.test('GET /trash lists deleted companies and reports with their purge date', withApp(async () => {
+  const company = await createCompany()
+  const trashedCompany = await createCompany({ name: 'DraftKings' })
+  const report = await uploadReport(company.id)
+  await uploadReport(trashedCompany.id)
+  await request('DELETE', `/reports/${company.id}/${report.id}`, { as: 'pm' })
+  await request('DELETE', `/companies/${trashedCompany.id}`, { as: 'admin' })
+
+  const { status, body } = await request('GET', '/trash', { as: 'pm' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.companies.map((c: any) => [c.id, c.reportCount]), [[trashedCompany.id, 1]])
+  // Reports of a trashed company are listed with the company, not on their own
+  assertEquals(body.data.reports.map((r: any) => [r.id, r.companyName]), [[report.id, 'Figma']])
+  const { deletedAt, expiresAt } = body.data.reports[0]
+  assertEquals(new Date(expiresAt).getTime() - new Date(deletedAt).getTime(), TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+}))
+
+Deno.test('GET /trash requires the pm role', withApp(async () => {
+  assertEquals((await request('GET', '/trash', { as: 'analyst' })).status, 403)
+}))
+
+Deno.test('POST /trash/companies/:id/restore brings back the company with its reports and comments', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await addComment(company.id, report.id, { content: '估值偏高' })
+  await request('DELETE', `/companies/${company.id}`, { as: 'admin' })
+
+  const { status, body } = await request('POST', `/trash/companies/${company.id}/restore`, { as: 'admin' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.id, company.id)
+  const reports = await request('GET', `/companies/${company.id}/reports`)
+  assertEquals(reports.body.data.map((r: any) => r.comments.length), [1])
+  assertEquals((await request('GET', '/trash', { as: 'pm' })).body.data.companies, [])
+}))
+
+Deno.test('POST /trash/companies/:id/restore returns 404 for companies that are not in the trash', withApp(async () => {
+  const company = await createCompany()
+
+  assertEquals((await request('POST', `/trash/companies/${company.id}/restore`, { as: 'admin' })).status, 404)
+  assertEquals((await request('POST', '/trash/companies/missing/restore', { as: 'admin' })).status, 404)
+}))
+
+Deno.test('POST /trash/reports/:companyId/:reportId/restore brings back the report', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await request('DELETE', `/reports/${company.id}/${report.id}`, { as: 'pm' })
+
+  const { status, body } = await request('POST', `/trash/reports/${company.id}/${report.id}/restore`, { as: 'pm' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.id, report.id)
+  assertEquals((await request('GET', `/reports/${company.id}/${report.id}/download`)).status, 200)
+}))
+
+Deno.test('POST /trash/reports/:companyId/:reportId/restore needs the company restored first', withApp(async () => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  await request('DELETE', `/reports/${company.id}/${report.id}`, { as: 'pm' })
+  await request('DELETE', `/companies/${company.id}`, { as: 'admin' })
+
+  const { status, body } = await request('POST', `/trash/reports/${company.id}/${report.id}/restore`, { as: 'pm' })
+
+  assertEquals(status, 409)
+  assertEquals(body.error, 'Restore the company first')
+  assertEquals((await request('POST', `/trash/reports/${company.id}/missing/restore`, { as: 'pm' })).status, 404)
+}))
+
+Deno.test('POST /trash/purge keeps items that are still within the retention period', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  await uploadReport(company.id)
+  await request('DELETE', `/companies/${company.id}`, { as: 'admin' })
+
+  const { status, body } = await request('POST', '/trash/purge', { as: 'admin' })
+
+  assertEquals(status, 200)
+  assertEquals(body.data, { companies: 0, reports: 0, failed: 0 })
+  assertEquals((await storage.list('make-78971119-reports', company.id)).length, 1)
+  assertEquals((await request('POST', '/trash/purge', { as: 'pm' })).status, 403)
+}))
+
+Deno.test('POST /trash/purge accepts the service role key the schedule signs in with', withApp(async () => {
+  const { status } = await request('POST', '/trash/purge', { as: Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') })
+  const { body } = await request('GET', '/audit?action=trash.purge')
+
+  assertEquals(status, 200)
+  assertEquals(body.data.map((entry: any) => entry.actorId), ['scheduler'])
+}))
+
+Deno.test('purgeExpiredTrash removes expired companies with their reports, comments, files and search index', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const other = await createCompany({ name: 'DraftKings' })
+  const report = await uploadReport(company.id)
+  const trashedReport = await uploadReport(company.id)
+  const otherReport = await uploadReport(other.id)
+  const form = new FormData()
+  form.append('file', reportFile('model-v2.xlsx', 'v2'))
+  await request('POST', `/reports/${company.id}/${report.id}/versions`, { as: 'analyst', form })
+  const [thread] = await addComment(company.id, report.id, { content: '估值偏高' })
+  await addComment(company.id, report.id, { content: '同意', parentId: thread.id })
+  await repo.search.setPages(report.id, ['indexed'])
+  const iconForm = new FormData()
+  iconForm.append('icon', new File(['png'], 'logo.png', { type: 'image/png' }))
+  await request('POST', `/companies/${company.id}/icon`, { as: 'pm', form: iconForm })
+  await request('DELETE', `/reports/${company.id}/${trashedReport.id}`, { as: 'pm' })
+  await request('DELETE', `/companies/${company.id}`, { as: 'admin' })
+
+  assertEquals(await purgeExpiredTrash(afterRetention()), { companies: 1, reports: 0, failed: 0 })
+
+  assertEquals((await request('GET', '/trash', { as: 'pm' })).body.data, { companies: [], reports: [] })
+  assertEquals((await request('POST', `/trash/companies/${company.id}/restore`, { as: 'admin' })).status, 404)
+  assertEquals(await storage.list('make-78971119-reports', company.id), [])
+  assertEquals(await storage.list('make-78971119-company-icons', 'company-icons'), [])
+  assertEquals(await repo.search.getPages(report.id), [])
+
+  // Other companies are untouched
+  const remaining = await request('GET', `/companies/${other.id}/reports`)
+  assertEquals(remaining.body.data.map((r: any) => r.id), [otherReport.id])
+  assertEquals((await storage.list('make-78971119-reports', other.id)).length, 1)
+}))
+
+Deno.test('purgeExpiredTrash removes expired reports and keeps the rows when a file cannot be deleted', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const report = await uploadReport(company.id)
+  const kept = await uploadReport(company.id)
+  await request('DELETE', `/reports/${company.id}/${report.id}`, { as: 'pm' })
+
+  const remove = storage.remove
+  storage.remove = () => Promise.reject(new Error('Storage unavailable'))
+  try {
+    assertEquals(await purgeExpiredTrash(afterRetention()), { companies: 0, reports: 0, failed: 1 })
+  } finally {
+    storage.remove = remove
+  }
+  assertEquals((await request('GET', '/trash', { as: 'pm' })).body.data.reports.length, 1)
+
+  assertEquals(await purgeExpiredTrash(afterRetention()), { companies: 0, reports: 1, failed: 0 })
+  assertEquals(await storage.list('make-78971119-reports', company.id), [`${kept.id}.xlsx`])
+}))
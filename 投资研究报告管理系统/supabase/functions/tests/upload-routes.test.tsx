@@ -0,0 +1,121 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, request, withApp } from './test-helpers.tsx'
+
+const CHUNK_SIZE = 5 * 1024 * 1024
+
+// A spreadsheet one chunk and a few bytes long, so it arrives in two chunks
+const fileBytes = () => {
+  const bytes = new Uint8Array(CHUNK_SIZE + 5)
+  bytes.set(new TextEncoder().encode('first'), 0)
+  bytes.set(new TextEncoder().encode('tail!'), CHUNK_SIZE)
+  return bytes
+}
+
+const startUpload = async (companyId: string, fields: Record<string, unknown> = {}) => {
+  return await request('POST', `/companies/${companyId}/uploads`, {
+    as: 'analyst',
+    json: { fileName: 'model.xlsx', fileSize: CHUNK_SIZE + 5, title: '盈利预测模型', analyst: '张三', category: '跟踪', ...fields }
+  })
+}
+
+const sendChunk = (uploadId: string, index: number, bytes: Uint8Array<ArrayBuffer>) => {
+  return request('PUT', `/uploads/${uploadId}/chunks/${index}`, { as: 'analyst', body: bytes })
+}
+
+const sendAllChunks = async (uploadId: string, bytes: Uint8Array<ArrayBuffer>) => {
+  await sendChunk(uploadId, 0, bytes.slice(0, CHUNK_SIZE))
+  await sendChunk(uploadId, 1, bytes.slice(CHUNK_SIZE))
+}
+
+Deno.test('POST /companies/:companyId/uploads starts a session split into chunks', withApp(async () => {
+  const company = await createCompany()
+
+  const { status, body } = await startUpload(company.id)
+  const unsupported = await startUpload(company.id, { fileName: 'notes.txt' })
+  const tooLarge = await startUpload(company.id, { fileSize: 50 * 1024 * 1024 + 1 })
+  const viewer = await request('POST', `/companies/${company.id}/uploads`, { as: 'viewer', json: {} })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.chunkSize, body.data.totalChunks, body.data.receivedChunks], [CHUNK_SIZE, 2, []])
+  assertEquals([unsupported.status, tooLarge.status, viewer.status], [400, 400, 403])
+}))
+
+Deno.test('PUT /uploads/:uploadId/chunks/:index stores chunks that GET /uploads/:uploadId reports', withApp(async () => {
+  const company = await createCompany()
+  const { uploadId } = (await startUpload(company.id)).body.data
+  const bytes = fileBytes()
+
+  const stored = await sendChunk(uploadId, 1, bytes.slice(CHUNK_SIZE))
+  const wrongSize = await sendChunk(uploadId, 0, bytes.slice(0, 10))
+  const outOfRange = await sendChunk(uploadId, 2, bytes.slice(CHUNK_SIZE))
+  const { body } = await request('GET', `/uploads/${uploadId}`, { as: 'analyst' })
+  const otherUser = await request('GET', `/uploads/${uploadId}`, { as: 'pm' })
+
+  assertEquals([stored.status, wrongSize.status, outOfRange.status], [200, 400, 400])
+  assertEquals(body.data.receivedChunks, [1])
+  assertEquals(otherUser.status, 404)
+}))
+
+Deno.test('POST /uploads/:uploadId/complete returns 409 while chunks are missing', withApp(async () => {
+  const company = await createCompany()
+  const { uploadId } = (await startUpload(company.id)).body.data
+  await sendChunk(uploadId, 0, fileBytes().slice(0, CHUNK_SIZE))
+
+  const { status, body } = await request('POST', `/uploads/${uploadId}/complete`, { as: 'analyst' })
+  const reports = await request('GET', `/companies/${company.id}/reports`)
+
+  assertEquals(status, 409)
+  assertEquals(body.data.receivedChunks, [0])
+  assertEquals(reports.body.data, [])
+}))
+
+Deno.test('POST /uploads/:uploadId/complete creates the report from the chunks in order', withApp(async ({ storage }) => {
+  const company = await createCompany()
+  const { uploadId } = (await startUpload(company.id)).body.data
+  const bytes = fileBytes()
+  await sendAllChunks(uploadId, bytes)
+
+  const { status, body } = await request('POST', `/uploads/${uploadId}/complete`, { as: 'analyst' })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.companyId, body.data.title, body.data.fileName, body.data.fileKind], [company.id, '盈利预测模型', 'model.xlsx', 'excel'])
+  const stored = await storage.download('make-78971119-reports', body.data.filePath)
+  assertEquals(new Uint8Array(await stored.arrayBuffer()), bytes)
+  assertEquals(await storage.list('make-78971119-reports', `uploads/${uploadId}`), [])
+}))
+
+Deno.test('POST /uploads/:uploadId/complete again returns the same report without creating another', withApp(async () => {
+  const company = await createCompany()
+  const { uploadId } = (await startUpload(company.id)).body.data
+  await sendAllChunks(uploadId, fileBytes())
+
+  const first = await request('POST', `/uploads/${uploadId}/complete`, { as: 'analyst' })
+  const repeated = await request('POST', `/uploads/${uploadId}/complete`, { as: 'analyst' })
+  const resumed = await request('GET', `/uploads/${uploadId}`, { as: 'analyst' })
+  const lateChunk = await sendChunk(uploadId, 1, fileBytes().slice(CHUNK_SIZE))
+  const reports = await request('GET', `/companies/${company.id}/reports`)
+  const created = await request('GET', '/audit?action=report.create', { as: 'pm' })
+
+  assertEquals([first.status, repeated.status], [200, 200])
+  assertEquals(repeated.body.data.id, first.body.data.id)
+  assertEquals(resumed.body.data.receivedChunks, [0, 1])
+  assertEquals(lateChunk.status, 409)
+  assertEquals(reports.body.data.map((report: any) => report.id), [first.body.data.id])
+  assertEquals(created.body.data.length, 1)
+}))
+
+Deno.test('Concurrent POST /uploads/:uploadId/complete create one report', withApp(async () => {
+  const company = await createCompany()
+  const { uploadId } = (await startUpload(company.id)).body.data
+  await sendAllChunks(uploadId, fileBytes())
+
+  const results = await Promise.all([
+    request('POST', `/uploads/${uploadId}/complete`, { as: 'analyst' }),
+    request('POST', `/uploads/${uploadId}/complete`, { as: 'analyst' })
+  ])
+  const reports = await request('GET', `/companies/${company.id}/reports`)
+
+  assertEquals(results.filter(result => result.status === 200).length >= 1, true)
+  assertEquals(results.every(result => [200, 409].includes(result.status)), true)
+  assertEquals(reports.body.data.length, 1)
+}))
@@ -0,0 +1,55 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { request, withApp } from './test-helpers.tsx'
+
+const newUser = { email: 'new.analyst@example.com', password: 'correct horse', name: 'New Analyst', role: 'analyst' }
+
+Deno.test('GET /users lists everyone by name but only shows email addresses to admins', withApp(async () => {
+  const viewer = await request('GET', '/users', { as: 'viewer' })
+  const admin = await request('GET', '/users', { as: 'admin' })
+
+  assertEquals(viewer.status, 200)
+  assertEquals(viewer.body.data.map((user: any) => user.name), ['Admin', 'Analyst', 'PM', 'Viewer'])
+  assertEquals(viewer.body.data.some((user: any) => 'email' in user), false)
+  assertEquals(admin.body.data.map((user: any) => user.email), [
+    'admin@example.com', 'analyst@example.com', 'pm@example.com', 'viewer@example.com'
+  ])
+  assertEquals((await request('GET', '/users', { as: null })).status, 401)
+}))
+
+Deno.test('POST /users creates a viewer by default and requires the admin role', withApp(async () => {
+  const { status, body } = await request('POST', '/users', { json: { ...newUser, role: undefined } })
+  const duplicate = await request('POST', '/users', { json: newUser })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.email, body.data.name, body.data.role], [newUser.email, newUser.name, 'viewer'])
+  assertEquals(duplicate.status, 400)
+  assertEquals((await request('POST', '/users', { as: 'pm', json: { ...newUser, email: 'other@example.com' } })).status, 403)
+  assertEquals((await request('GET', '/users', { as: 'viewer' })).body.data.length, 5)
+}))
+
+Deno.test('POST /users validates the required fields and the role', withApp(async () => {
+  const missing = await request('POST', '/users', { json: { email: newUser.email, name: newUser.name } })
+  const badRole = await request('POST', '/users', { json: { ...newUser, role: 'owner' } })
+
+  assertEquals([missing.status, missing.body.error], [400, 'Missing required fields: email, password, name'])
+  assertEquals([badRole.status, badRole.body.error], [400, 'Invalid role'])
+}))
+
+Deno.test('PUT /users/:id/role changes another user\'s role and is admin only', withApp(async () => {
+  const { status, body } = await request('PUT', '/users/user-viewer/role', { json: { role: 'analyst' } })
+  const pm = await request('PUT', '/users/user-analyst/role', { as: 'pm', json: { role: 'pm' } })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.id, body.data.role], ['user-viewer', 'analyst'])
+  assertEquals(pm.status, 403)
+}))
+
+Deno.test('PUT /users/:id/role refuses the admin\'s own role, unknown users and unknown roles', withApp(async () => {
+  const own = await request('PUT', '/users/user-admin/role', { json: { role: 'viewer' } })
+  const unknown = await request('PUT', '/users/user-missing/role', { json: { role: 'pm' } })
+  const badRole = await request('PUT', '/users/user-viewer/role', { json: { role: 'owner' } })
+
+  assertEquals([own.status, own.body.error], [400, 'Cannot change your own role'])
+  assertEquals([unknown.status, unknown.body.error], [404, 'User not found'])
+  assertEquals([badRole.status, badRole.body.error], [400, 'Invalid role'])
+}))
@@ -0,0 +1,71 @@
+import { assertEquals } from 'jsr:@std/assert'
+import { createCompany, request, withApp } from './test-helpers.tsx'
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '../server/trash-handlers.tsx'
+
+Deno.test('POST /watchlists lets a viewer create a list with companies in their order', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+
+  const { status, body } = await request('POST', '/watchlists', {
+    as: 'viewer',
+    json: { name: ' 重点跟踪 ', companyIds: [second.id, first.id] }
+  })
+
+  assertEquals(status, 200)
+  assertEquals([body.data.name, body.data.ownerId], ['重点跟踪', 'user-viewer'])
+  assertEquals(body.data.companyIds, [second.id, first.id])
+}))
+
+Deno.test('watchlists are private to their owner', withApp(async () => {
+  const created = (await request('POST', '/watchlists', { as: 'viewer', json: { name: '重点跟踪' } })).body.data
+
+  assertEquals((await request('GET', '/watchlists', { as: 'analyst' })).body.data, [])
+  assertEquals((await request('PUT', `/watchlists/${created.id}`, { as: 'analyst', json: { name: '我的' } })).status, 404)
+  assertEquals((await request('DELETE', `/watchlists/${created.id}`, { as: 'analyst' })).status, 404)
+  assertEquals((await request('GET', '/watchlists', { as: 'viewer' })).body.data.length, 1)
+}))
+
+Deno.test('POST /watchlists rejects duplicate names for the same user', withApp(async () => {
+  await request('POST', '/watchlists', { as: 'viewer', json: { name: '重点跟踪' } })
+
+  const duplicate = await request('POST', '/watchlists', { as: 'viewer', json: { name: '重点跟踪' } })
+  const otherUser = await request('POST', '/watchlists', { as: 'analyst', json: { name: '重点跟踪' } })
+
+  assertEquals([duplicate.status, otherUser.status], [400, 200])
+}))
+
+Deno.test('PUT /watchlists/:id/companies replaces the companies and their order', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+  const created = (await request('POST', '/watchlists', { as: 'viewer', json: { name: '重点跟踪', companyIds: [first.id] } })).body.data
+
+  const { status, body } = await request('PUT', `/watchlists/${created.id}/companies`, {
+    as: 'viewer',
+    json: { companyIds: [second.id, first.id] }
+  })
+
+  assertEquals(status, 200)
+  assertEquals(body.data.companyIds, [second.id, first.id])
+}))
+
+Deno.test('PUT /watchlists/:id/companies rejects unknown and repeated companies', withApp(async () => {
+  const company = await createCompany()
+  const created = (await request('POST', '/watchlists', { as: 'viewer', json: { name: '重点跟踪' } })).body.data
+
+  const unknown = await request('PUT', `/watchlists/${created.id}/companies`, { as: 'viewer', json: { companyIds: ['missing'] } })
+  const repeated = await request('PUT', `/watchlists/${created.id}/companies`, { as: 'viewer', json: { companyIds: [company.id, company.id] } })
+
+  assertEquals([unknown.status, repeated.status], [400, 400])
+  assertEquals((await request('GET', '/watchlists', { as: 'viewer' })).body.data[0].companyIds, [])
+}))
+
+Deno.test('purging a company removes it from watchlists', withApp(async () => {
+  const first = await createCompany({ name: 'Figma' })
+  const second = await createCompany({ name: 'DraftKings' })
+  await request('POST', '/watchlists', { as: 'viewer', json: { name: '重点跟踪', companyIds: [first.id, second.id] } })
+
+  await request('DELETE', `/companies/${first.id}`)
+  await purgeExpiredTrash(Date.now() + (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000)
+
+  assertEquals((await request('GET', '/watchlists', { as: 'viewer' })).body.data[0].companyIds, [second.id])
+}))
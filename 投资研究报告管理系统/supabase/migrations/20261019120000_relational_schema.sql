@@ -0,0 +1,57 @@
+-- Relational storage for companies, reports and comments.
+-- Deleting a company removes its reports, and deleting a report removes its comments.
+
+create table if not exists companies (
+  id text primary key,
+  name text not null,
+  code text not null,
+  type text not null,
+  description text not null default '',
+  icon_url text,
+  sort_order integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists companies_sort_idx on companies (sort_order, created_at desc);
+
+create table if not exists reports (
+  id text primary key,
+  company_id text not null references companies (id) on delete cascade,
+  title text not null,
+  analyst text not null,
+  category text not null,
+  file_name text not null,
+  file_size text not null,
+  file_path text,
+  file_kind text not null default 'pdf',
+  current_version integer not null default 1,
+  versions jsonb not null default '[]'::jsonb,
+  sort_order integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists reports_company_sort_idx on reports (company_id, sort_order, created_at desc);
+
+create table if not exists comments (
+  id text primary key,
+  report_id text not null references reports (id) on delete cascade,
+  -- Replies are one level deep and go away with their thread
+  parent_id text references comments (id) on delete cascade,
+  content text not null,
+  author_id text,
+  author_name text,
+  mentions jsonb not null default '[]'::jsonb,
+  anchor jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists comments_report_idx on comments (report_id, created_at);
+create index if not exists comments_parent_idx on comments (parent_id);
+
+-- Only the edge function (service role) reads and writes these tables
+alter table companies enable row level security;
+alter table reports enable row level security;
+alter table comments enable row level security;
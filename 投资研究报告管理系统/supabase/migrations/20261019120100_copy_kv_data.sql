@@ -0,0 +1,81 @@
+-- One-shot copy of the JSON blobs in kv_store_78971119 into the relational tables.
+-- Keys are company:{id}, report:{companyId}:{id} and comment:{companyId}:{reportId}:{id}.
+-- Rows that already exist are left alone, so the migration can be re-run safely.
+-- The kv rows are kept as a backup; other kv keys (search index, upload sessions) still live there.
+
+insert into companies (id, name, code, type, description, icon_url, sort_order, created_at, updated_at)
+select
+  value->>'id',
+  value->>'name',
+  value->>'code',
+  value->>'type',
+  coalesce(value->>'description', ''),
+  value->>'iconUrl',
+  (value->>'order')::integer,
+  coalesce(nullif(value->>'createdAt', '')::timestamptz, now()),
+  coalesce(nullif(value->>'updatedAt', '')::timestamptz, now())
+from kv_store_78971119
+where key like 'company:%'
+on conflict (id) do nothing;
+
+-- Reports whose company no longer exists are skipped
+insert into reports (
+  id, company_id, title, analyst, category, file_name, file_size, file_path,
+  file_kind, current_version, versions, sort_order, created_at, updated_at
+)
+select
+  kv.value->>'id',
+  split_part(kv.key, ':', 2),
+  kv.value->>'title',
+  kv.value->>'analyst',
+  kv.value->>'category',
+  kv.value->>'fileName',
+  kv.value->>'fileSize',
+  kv.value->>'filePath',
+  coalesce(kv.value->>'fileKind', 'pdf'),
+  coalesce((kv.value->>'currentVersion')::integer, 1),
+  coalesce(kv.value->'versions', '[]'::jsonb),
+  (kv.value->>'order')::integer,
+  coalesce(nullif(kv.value->>'createdAt', '')::timestamptz, now()),
+  coalesce(nullif(kv.value->>'updatedAt', '')::timestamptz, now())
+from kv_store_78971119 kv
+join companies c on c.id = split_part(kv.key, ':', 2)
+where kv.key like 'report:%'
+on conflict (id) do nothing;
+
+-- Top-level comments first so replies can reference them
+insert into comments (id, report_id, parent_id, content, author_id, author_name, mentions, anchor, created_at, updated_at)
+select
+  kv.value->>'id',
+  split_part(kv.key, ':', 3),
+  null,
+  kv.value->>'content',
+  kv.value->>'authorId',
+  kv.value->>'authorName',
+  coalesce(kv.value->'mentions', '[]'::jsonb),
+  nullif(kv.value->'anchor', 'null'::jsonb),
+  coalesce(nullif(kv.value->>'createdAt', '')::timestamptz, now()),
+  nullif(kv.value->>'updatedAt', '')::timestamptz
+from kv_store_78971119 kv
+join reports r on r.id = split_part(kv.key, ':', 3)
+where kv.key like 'comment:%'
+  and coalesce(kv.value->>'parentId', '') = ''
+on conflict (id) do nothing;
+
+-- Replies whose thread was already deleted are skipped
+insert into comments (id, report_id, parent_id, content, author_id, author_name, mentions, anchor, created_at, updated_at)
+select
+  kv.value->>'id',
+  split_part(kv.key, ':', 3),
+  kv.value->>'parentId',
+  kv.value->>'content',
+  kv.value->>'authorId',
+  kv.value->>'authorName',
+  coalesce(kv.value->'mentions', '[]'::jsonb),
+  null,
+  coalesce(nullif(kv.value->>'createdAt', '')::timestamptz, now()),
+  nullif(kv.value->>'updatedAt', '')::timestamptz
+from kv_store_78971119 kv
+join comments parent on parent.id = kv.value->>'parentId'
+where kv.key like 'comment:%'
+on conflict (id) do nothing;
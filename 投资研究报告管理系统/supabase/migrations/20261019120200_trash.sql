@@ -0,0 +1,9 @@
+-- Deleted companies and reports move to the trash instead of being removed.
+-- The API restores them within 30 days; after that the purge job deletes them for good.
+
+alter table companies add column if not exists deleted_at timestamptz;
+alter table reports add column if not exists deleted_at timestamptz;
+
+-- Trash listings and the purge job only look at deleted rows
+create index if not exists companies_deleted_idx on companies (deleted_at) where deleted_at is not null;
+create index if not exists reports_deleted_idx on reports (deleted_at) where deleted_at is not null;
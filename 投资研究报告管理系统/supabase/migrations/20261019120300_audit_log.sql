@@ -0,0 +1,34 @@
+-- Append-only record of every change made through the API.
+-- Entries keep plain ids instead of foreign keys so they outlive the companies and reports they describe.
+
+create table if not exists audit_log (
+  id text primary key,
+  actor_id text not null,
+  actor_name text not null,
+  action text not null,
+  entity_type text not null,
+  entity_id text,
+  company_id text,
+  -- { field: { before, after } }
+  changes jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_idx on audit_log (created_at desc);
+create index if not exists audit_log_company_idx on audit_log (company_id, created_at desc);
+create index if not exists audit_log_entity_idx on audit_log (entity_type, entity_id, created_at desc);
+create index if not exists audit_log_actor_idx on audit_log (actor_id, created_at desc);
+
+create or replace function audit_log_append_only() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on audit_log;
+create trigger audit_log_append_only
+  before update or delete on audit_log
+  for each row execute function audit_log_append_only();
+
+alter table audit_log enable row level security;
@@ -0,0 +1,10 @@
+-- The server broadcasts every change on the private Realtime channel "changes" (see server/realtime.tsx).
+-- Private channels are authorized through realtime.messages; any signed-in user may listen,
+-- only the service role may send.
+
+drop policy if exists "Signed-in users receive changes" on realtime.messages;
+create policy "Signed-in users receive changes"
+  on realtime.messages
+  for select
+  to authenticated
+  using (realtime.topic() = 'changes' and extension = 'broadcast');
@@ -0,0 +1,68 @@
+-- Optimistic concurrency: every write to a company or report increments its revision.
+-- Updates only go through while the revision is the one the client last saw (see server/concurrency.tsx).
+
+alter table companies add column if not exists revision integer not null default 1;
+alter table reports add column if not exists revision integer not null default 1;
+
+-- Reorders touch many rows, so they are checked and applied in one transaction.
+-- updates is [{ id, order, revision? }]; items without a revision are applied unchecked.
+-- Returns false, writing nothing, when any given revision is stale. Only rows whose position
+-- actually changes get a new revision.
+
+create or replace function reorder_companies(updates jsonb, updated_at timestamptz)
+returns boolean
+language plpgsql as $$
+begin
+  perform 1 from companies
+    where id in (select item->>'id' from jsonb_array_elements(updates) item)
+    for update;
+
+  if exists (
+    select 1 from jsonb_array_elements(updates) item
+    join companies on companies.id = item->>'id'
+    where item ? 'revision' and companies.revision <> (item->>'revision')::integer
+  ) then
+    return false;
+  end if;
+
+  update companies
+    set sort_order = (item->>'order')::integer,
+        revision = companies.revision + 1,
+        updated_at = reorder_companies.updated_at
+    from jsonb_array_elements(updates) item
+    where companies.id = item->>'id'
+      and companies.sort_order is distinct from (item->>'order')::integer;
+
+  return true;
+end;
+$$;
+
+create or replace function reorder_reports(company_id text, updates jsonb, updated_at timestamptz)
+returns boolean
+language plpgsql as $$
+begin
+  perform 1 from reports
+    where reports.company_id = reorder_reports.company_id
+      and id in (select item->>'id' from jsonb_array_elements(updates) item)
+    for update;
+
+  if exists (
+    select 1 from jsonb_array_elements(updates) item
+    join reports on reports.id = item->>'id' and reports.company_id = reorder_reports.company_id
+    where item ? 'revision' and reports.revision <> (item->>'revision')::integer
+  ) then
+    return false;
+  end if;
+
+  update reports
+    set sort_order = (item->>'order')::integer,
+        revision = reports.revision + 1,
+        updated_at = reorder_reports.updated_at
+    from jsonb_array_elements(updates) item
+    where reports.id = item->>'id'
+      and reports.company_id = reorder_reports.company_id
+      and reports.sort_order is distinct from (item->>'order')::integer;
+
+  return true;
+end;
+$$;
@@ -0,0 +1,40 @@
+-- Personal watchlists: each user keeps named lists of companies in their own order,
+-- independent of the shared sort_order on companies.
+
+create table if not exists watchlists (
+  id text primary key,
+  owner_id text not null,
+  name text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists watchlists_owner_idx on watchlists (owner_id, created_at);
+
+create table if not exists watchlist_companies (
+  watchlist_id text not null references watchlists (id) on delete cascade,
+  company_id text not null references companies (id) on delete cascade,
+  sort_order integer not null,
+  primary key (watchlist_id, company_id)
+);
+
+create index if not exists watchlist_companies_company_idx on watchlist_companies (company_id);
+
+-- Replaces a watchlist's companies and their order in one transaction
+create or replace function set_watchlist_companies(watchlist_id text, company_ids text[], updated_at timestamptz)
+returns void
+language plpgsql as $$
+begin
+  delete from watchlist_companies where watchlist_companies.watchlist_id = set_watchlist_companies.watchlist_id;
+
+  insert into watchlist_companies (watchlist_id, company_id, sort_order)
+    select set_watchlist_companies.watchlist_id, company_id, ordinality - 1
+    from unnest(company_ids) with ordinality as company_id;
+
+  update watchlists set updated_at = set_watchlist_companies.updated_at
+    where id = set_watchlist_companies.watchlist_id;
+end;
+$$;
+
+alter table watchlists enable row level security;
+alter table watchlist_companies enable row level security;
@@ -0,0 +1,48 @@
+-- Notification center: users subscribe to companies or single reports, new reports and comments
+-- on what they follow create notifications, and a digest of them can be mailed daily or weekly.
+
+create table if not exists subscriptions (
+  id text primary key,
+  user_id text not null,
+  company_id text not null references companies (id) on delete cascade,
+  -- Null for a subscription to the whole company
+  report_id text references reports (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (user_id, company_id, report_id)
+);
+
+create index if not exists subscriptions_company_idx on subscriptions (company_id, report_id);
+
+create table if not exists notifications (
+  id text primary key,
+  user_id text not null,
+  -- report.create or comment.create
+  action text not null,
+  company_id text not null references companies (id) on delete cascade,
+  report_id text not null references reports (id) on delete cascade,
+  comment_id text references comments (id) on delete cascade,
+  actor_id text not null,
+  actor_name text not null,
+  title text not null,
+  excerpt text not null default '',
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_idx on notifications (user_id, created_at desc);
+create index if not exists notifications_unread_idx on notifications (user_id) where read_at is null;
+
+create table if not exists notification_settings (
+  user_id text primary key,
+  -- Where digests go; taken from the user's account whenever the settings are saved
+  email text not null,
+  name text not null default '',
+  -- off, daily or weekly
+  digest text not null default 'off',
+  last_digest_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table subscriptions enable row level security;
+alter table notifications enable row level security;
+alter table notification_settings enable row level security;
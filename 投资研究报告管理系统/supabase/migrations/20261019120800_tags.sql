@@ -0,0 +1,55 @@
+-- Free-form tags (themes, regions, event types) shared by companies and reports.
+-- Deleting a tag removes it from everything it was on.
+
+create table if not exists tags (
+  id text primary key,
+  name text not null,
+  -- One of the preset colour names, see tag-handlers.tsx
+  color text not null default 'slate',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- "AI capex" and "ai capex" are the same tag
+create unique index if not exists tags_name_idx on tags (lower(name));
+
+create table if not exists company_tags (
+  company_id text not null references companies (id) on delete cascade,
+  tag_id text not null references tags (id) on delete cascade,
+  primary key (company_id, tag_id)
+);
+
+create index if not exists company_tags_tag_idx on company_tags (tag_id);
+
+create table if not exists report_tags (
+  report_id text not null references reports (id) on delete cascade,
+  tag_id text not null references tags (id) on delete cascade,
+  primary key (report_id, tag_id)
+);
+
+create index if not exists report_tags_tag_idx on report_tags (tag_id);
+
+-- Replace the tags of a company or report in one transaction
+create or replace function set_company_tags(company_id text, tag_ids text[])
+returns void
+language plpgsql as $$
+begin
+  delete from company_tags where company_tags.company_id = set_company_tags.company_id;
+  insert into company_tags (company_id, tag_id)
+    select set_company_tags.company_id, tag_id from unnest(tag_ids) as tag_id;
+end;
+$$;
+
+create or replace function set_report_tags(report_id text, tag_ids text[])
+returns void
+language plpgsql as $$
+begin
+  delete from report_tags where report_tags.report_id = set_report_tags.report_id;
+  insert into report_tags (report_id, tag_id)
+    select set_report_tags.report_id, tag_id from unnest(tag_ids) as tag_id;
+end;
+$$;
+
+alter table tags enable row level security;
+alter table company_tags enable row level security;
+alter table report_tags enable row level security;
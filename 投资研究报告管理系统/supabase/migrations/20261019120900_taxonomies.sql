@@ -0,0 +1,88 @@
+-- Admin-managed taxonomies: the stock types companies are filed under (companies.type) and the
+-- categories of reports (reports.category). Both columns keep the term's label, so relabelling a
+-- term rewrites them, see update_taxonomy_term. Terms that are still in use cannot be deleted.
+
+create table if not exists taxonomy_terms (
+  id text primary key,
+  kind text not null check (kind in ('stock_type', 'report_category')),
+  label text not null,
+  -- One of the preset colour names, see server/palette.tsx
+  color text not null default 'slate',
+  sort_order integer not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists taxonomy_terms_label_idx on taxonomy_terms (kind, lower(label));
+create index if not exists taxonomy_terms_kind_idx on taxonomy_terms (kind, sort_order);
+
+-- The values the app shipped with
+insert into taxonomy_terms (id, kind, label, color, sort_order) values
+  ('a-share', 'stock_type', 'A股', 'red', 1),
+  ('hk-share', 'stock_type', '港股', 'emerald', 2),
+  ('us-share', 'stock_type', '美股', 'blue', 3),
+  ('industry', 'stock_type', '行业', 'orange', 4),
+  ('meeting-notes', 'report_category', '会议纪要', 'purple', 1),
+  ('initiation', 'report_category', '首次覆盖', 'green', 2),
+  ('tracking', 'report_category', '跟踪', 'amber', 3)
+on conflict (id) do nothing;
+
+-- Anything else already in use becomes a term too, after the defaults, so existing rows stay valid
+insert into taxonomy_terms (id, kind, label, sort_order)
+  select gen_random_uuid()::text, 'stock_type', used.label, 4 + row_number() over (order by used.label)
+  from (select distinct type as label from companies) as used
+  where not exists (
+    select 1 from taxonomy_terms where kind = 'stock_type' and lower(label) = lower(used.label)
+  );
+
+insert into taxonomy_terms (id, kind, label, sort_order)
+  select gen_random_uuid()::text, 'report_category', used.label, 3 + row_number() over (order by used.label)
+  from (select distinct category as label from reports) as used
+  where not exists (
+    select 1 from taxonomy_terms where kind = 'report_category' and lower(label) = lower(used.label)
+  );
+
+-- Save a term; a new label is carried over to every company or report filed under the old one,
+-- trashed ones included, and those get a new revision
+create or replace function update_taxonomy_term(term_id text, new_label text, new_color text, updated_at timestamptz)
+returns void
+language plpgsql as $$
+declare
+  term taxonomy_terms%rowtype;
+begin
+  select * into term from taxonomy_terms where id = term_id for update;
+  if not found then
+    return;
+  end if;
+
+  update taxonomy_terms
+    set label = new_label, color = new_color, updated_at = update_taxonomy_term.updated_at
+    where id = term_id;
+
+  if term.label <> new_label then
+    if term.kind = 'stock_type' then
+      update companies
+        set type = new_label, revision = revision + 1, updated_at = update_taxonomy_term.updated_at
+        where type = term.label;
+    else
+      update reports
+        set category = new_label, revision = revision + 1, updated_at = update_taxonomy_term.updated_at
+        where category = term.label;
+    end if;
+  end if;
+end;
+$$;
+
+-- Number the terms of a kind in the given order
+create or replace function reorder_taxonomy_terms(term_kind text, term_ids text[])
+returns void
+language plpgsql as $$
+begin
+  update taxonomy_terms
+    set sort_order = ordered.position
+    from unnest(term_ids) with ordinality as ordered (id, position)
+    where taxonomy_terms.id = ordered.id and taxonomy_terms.kind = term_kind;
+end;
+$$;
+
+alter table taxonomy_terms enable row level security;
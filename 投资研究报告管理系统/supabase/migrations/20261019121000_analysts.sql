@@ -0,0 +1,102 @@
+-- Analysts as their own records, with a profile, instead of free text on each report. Reports keep
+-- the analyst's name (reports.analyst), like the taxonomy labels, so renaming an analyst rewrites
+-- them, see update_analyst. Spellings of one person that survive the clean-up below are combined
+-- with merge_analysts from the analyst directory.
+
+create table if not exists analysts (
+  id text primary key,
+  name text not null,
+  title text not null default '',
+  team text not null default '',
+  email text not null default '',
+  bio text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- "Jane Doe" and "jane doe" are the same analyst
+create unique index if not exists analysts_name_idx on analysts (lower(name));
+create index if not exists reports_analyst_idx on reports (analyst);
+
+-- Trim the free-text names and collapse runs of whitespace
+update reports
+  set analyst = regexp_replace(btrim(analyst), '\s+', ' ', 'g'), revision = revision + 1, updated_at = now()
+  where analyst <> regexp_replace(btrim(analyst), '\s+', ' ', 'g');
+
+-- Names that differ only in case become the spelling used on most reports
+with spellings as (
+  select analyst, lower(analyst) as name_key, count(*) as uses from reports group by analyst
+), canonical as (
+  select distinct on (name_key) name_key, analyst as name from spellings order by name_key, uses desc, analyst
+)
+update reports
+  set analyst = canonical.name, revision = revision + 1, updated_at = now()
+  from canonical
+  where lower(reports.analyst) = canonical.name_key and reports.analyst <> canonical.name;
+
+-- One analyst per remaining name, trashed reports included, dated by their first report
+insert into analysts (id, name, created_at)
+  select gen_random_uuid()::text, analyst, min(created_at)
+  from reports
+  where analyst <> ''
+  group by analyst
+on conflict do nothing;
+
+-- Save a profile; a new name is carried over to every report of the analyst, trashed ones
+-- included, and those get a new revision
+create or replace function update_analyst(
+  analyst_id text,
+  new_name text,
+  new_title text,
+  new_team text,
+  new_email text,
+  new_bio text,
+  updated_at timestamptz
+)
+returns void
+language plpgsql as $$
+declare
+  existing analysts%rowtype;
+begin
+  select * into existing from analysts where id = analyst_id for update;
+  if not found then
+    return;
+  end if;
+
+  update analysts
+    set name = new_name, title = new_title, team = new_team, email = new_email, bio = new_bio,
+      updated_at = update_analyst.updated_at
+    where id = analyst_id;
+
+  if existing.name <> new_name then
+    update reports
+      set analyst = new_name, revision = revision + 1, updated_at = update_analyst.updated_at
+      where analyst = existing.name;
+  end if;
+end;
+$$;
+
+-- Fold the source analysts into the target: their reports move to the target's name and the
+-- sources are deleted
+create or replace function merge_analysts(target_id text, source_ids text[], updated_at timestamptz)
+returns void
+language plpgsql as $$
+declare
+  target analysts%rowtype;
+begin
+  select * into target from analysts where id = target_id for update;
+  if not found then
+    return;
+  end if;
+
+  update reports
+    set analyst = target.name, revision = revision + 1, updated_at = merge_analysts.updated_at
+    where analyst in (select name from analysts where id = any(source_ids) and id <> target_id);
+
+  delete from analysts where id = any(source_ids) and id <> target_id;
+
+  update analysts set updated_at = merge_analysts.updated_at where id = target_id;
+end;
+$$;
+
+alter table analysts enable row level security;
@@ -0,0 +1,102 @@
+-- Aggregates for the analytics dashboard, grouped in the database so GET /stats never loads every
+-- report and comment into the server. The dashboard counts comments by month across all reports.
+
+create index if not exists comments_created_idx on comments (created_at);
+
+-- Dashboard numbers over companies, reports and comments outside the trash, as one jsonb object:
+-- - totals: companies, reports and directory analysts overall, reports and comments since since
+-- - reportsPerMonth and commentActivity: UTC months like 2026-09 since since, oldest first, months
+--   without any left out
+-- - byCategory, byStockType and topAnalysts: reports since since, most first, ties by name
+-- - mostDiscussed: reports with the most comments since since
+-- - staleCompanies: companies without a report since stale_before, never-covered ones first, then
+--   the longest silent
+create or replace function dashboard_stats(since timestamptz, stale_before timestamptz, top_analysts integer, most_discussed integer)
+returns jsonb
+language sql stable as $$
+  with visible_companies as (
+    select * from companies where deleted_at is null
+  ),
+  visible_reports as (
+    select r.*, c.type as company_type
+    from reports r
+    join visible_companies c on c.id = r.company_id
+    where r.deleted_at is null
+  ),
+  period_reports as (
+    select * from visible_reports where created_at >= since
+  ),
+  period_comments as (
+    select m.*, r.company_id, r.title as report_title
+    from comments m
+    join visible_reports r on r.id = m.report_id
+    where m.created_at >= since
+  )
+  select jsonb_build_object(
+    'totals', jsonb_build_object(
+      'companies', (select count(*) from visible_companies),
+      'reports', (select count(*) from visible_reports),
+      'analysts', (select count(*) from analysts),
+      'reportsInPeriod', (select count(*) from period_reports),
+      'commentsInPeriod', (select count(*) from period_comments)
+    ),
+    'reportsPerMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'count', count) order by month)
+      from (
+        select to_char(created_at at time zone 'UTC', 'YYYY-MM') as month, count(*) as count
+        from period_reports group by 1
+      ) months
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'count', count) order by count desc, category)
+      from (select category, count(*) as count from period_reports group by category) categories
+    ), '[]'::jsonb),
+    'byStockType', coalesce((
+      select jsonb_agg(jsonb_build_object('type', type, 'count', count, 'companyCount', company_count) order by count desc, type)
+      from (
+        select company_type as type, count(*) as count, count(distinct company_id) as company_count
+        from period_reports group by company_type
+      ) types
+    ), '[]'::jsonb),
+    'topAnalysts', coalesce((
+      select jsonb_agg(jsonb_build_object('analystId', a.id, 'name', ranked.name, 'count', ranked.count, 'companyCount', ranked.company_count)
+        order by ranked.count desc, ranked.name)
+      from (
+        select analyst as name, count(*) as count, count(distinct company_id) as company_count
+        from period_reports group by analyst
+        order by count desc, analyst
+        limit top_analysts
+      ) ranked
+      left join analysts a on a.name = ranked.name
+    ), '[]'::jsonb),
+    'commentActivity', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'count', count, 'commenters', commenters) order by month)
+      from (
+        select to_char(created_at at time zone 'UTC', 'YYYY-MM') as month, count(*) as count,
+          count(distinct author_id) as commenters
+        from period_comments group by 1
+      ) months
+    ), '[]'::jsonb),
+    'mostDiscussed', coalesce((
+      select jsonb_agg(jsonb_build_object('reportId', report_id, 'companyId', company_id, 'title', report_title, 'count', count)
+        order by count desc, report_id)
+      from (
+        select report_id, company_id, report_title, count(*) as count
+        from period_comments group by report_id, company_id, report_title
+        order by count desc, report_id
+        limit most_discussed
+      ) discussed
+    ), '[]'::jsonb),
+    'staleCompanies', coalesce((
+      select jsonb_agg(jsonb_build_object('companyId', id, 'name', name, 'code', code, 'type', type, 'latestReportAt', latest_report_at)
+        order by latest_report_at nulls first, name)
+      from (
+        select c.id, c.name, c.code, c.type, max(r.created_at) as latest_report_at
+        from visible_companies c
+        left join visible_reports r on r.company_id = c.id
+        group by c.id, c.name, c.code, c.type
+        having max(r.created_at) is null or max(r.created_at) < stale_before
+      ) stale
+    ), '[]'::jsonb)
+  )
+$$;
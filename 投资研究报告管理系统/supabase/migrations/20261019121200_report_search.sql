@@ -0,0 +1,120 @@
+-- Full-text search over report metadata and extracted PDF text, replacing the report-text:* kv blobs
+-- that search-handlers.tsx used to scan on every query.
+-- The simple configuration keeps words as written (lower-cased, no stemming), which suits the mix of
+-- Chinese and English in the reports. Chinese has no spaces between words, so report_search_text
+-- splits it into single characters and search_reports matches a Chinese term as a phrase of them.
+
+create or replace function report_search_text(content text) returns text
+language sql immutable parallel safe as $$
+  select regexp_replace(content, '([㐀-䶿一-鿿豈-﫿])', ' \1 ', 'g')
+$$;
+
+-- One row per PDF page, replaced whenever a new PDF version is uploaded
+create table if not exists report_pages (
+  report_id text not null references reports (id) on delete cascade,
+  page integer not null,
+  content text not null,
+  search tsvector generated always as (to_tsvector('simple', report_search_text(content))) stored,
+  primary key (report_id, page)
+);
+
+create index if not exists report_pages_search_idx on report_pages using gin (search);
+
+alter table reports add column if not exists search tsvector
+  generated always as (to_tsvector('simple', report_search_text(title || ' ' || analyst || ' ' || category))) stored;
+
+create index if not exists reports_search_idx on reports using gin (search);
+
+alter table report_pages enable row level security;
+
+-- Keys are report-text:{companyId}:{reportId}; pages of reports that no longer exist are skipped
+insert into report_pages (report_id, page, content)
+select r.id, pages.page, pages.content
+from kv_store_78971119 kv
+join reports r on r.id = split_part(kv.key, ':', 3)
+cross join lateral jsonb_array_elements_text(kv.value->'pages') with ordinality as pages (content, page)
+where kv.key like 'report-text:%'
+on conflict (report_id, page) do nothing;
+
+delete from kv_store_78971119 where key like 'report-text:%';
+
+-- Reports outside the trash where every term appears in the metadata or on some page; terms are
+-- websearch_to_tsquery inputs. Reports with the most matching pages come first, then the newest.
+-- matches holds up to max_snippets of the pages mentioning any term, each with a ts_headline
+-- excerpt around the match: chr(2) and chr(3) mark the matched words, and moreBefore and moreAfter
+-- tell whether the page goes on past the excerpt. Excerpts keep the spaces report_search_text added.
+create or replace function search_reports(terms text[], max_results integer, max_snippets integer)
+returns table (
+  report_id text, company_id text, company_name text, company_code text, title text, analyst text,
+  category text, created_at timestamptz, match_count integer, matches jsonb
+)
+language plpgsql stable as $$
+declare
+  term_queries tsquery[];
+  term_query tsquery;
+  any_term tsquery;
+begin
+  -- Terms without any word, such as punctuation alone, match nothing and are left out
+  select array_agg(query) into term_queries
+  from unnest(terms) as term, websearch_to_tsquery('simple', report_search_text(term)) as query
+  where numnode(query) > 0;
+  if term_queries is null then
+    return;
+  end if;
+  foreach term_query in array term_queries loop
+    any_term := case when any_term is null then term_query else any_term || term_query end;
+  end loop;
+
+  return query
+  with candidates as (
+    select r.id from reports r where r.search @@ any_term
+    union
+    select p.report_id from report_pages p where p.search @@ any_term
+  ),
+  matched as (
+    select r.id, r.company_id, c.name as company_name, c.code as company_code, r.title, r.analyst, r.category, r.created_at
+    from reports r
+    join candidates using (id)
+    join companies c on c.id = r.company_id
+    where r.deleted_at is null
+      and c.deleted_at is null
+      and not exists (
+        select 1 from unnest(term_queries) as query
+        where not r.search @@ query
+          and not exists (select 1 from report_pages p where p.report_id = r.id and p.search @@ query)
+      )
+  ),
+  counted as (
+    select m.*,
+      (select count(*)::integer from report_pages p where p.report_id = m.id and p.search @@ any_term) as match_count
+    from matched m
+    order by match_count desc, m.created_at desc
+    limit max_results
+  )
+  select counted.id, counted.company_id, counted.company_name, counted.company_code, counted.title,
+    counted.analyst, counted.category, counted.created_at, counted.match_count,
+    coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'page', excerpt.page,
+        'headline', excerpt.headline,
+        'moreBefore', excerpt.start > 1,
+        'moreAfter', excerpt.start > 0 and excerpt.start + length(excerpt.plain) <= length(excerpt.text)
+      ) order by excerpt.page)
+      from (
+        select hit.*, strpos(hit.text, hit.plain) as start
+        from (
+          select p.page, report_search_text(p.content) as text, headline,
+            replace(replace(headline, chr(2), ''), chr(3), '') as plain
+          from report_pages p,
+            ts_headline('simple', report_search_text(p.content), any_term,
+              format('StartSel=%s, StopSel=%s, MaxWords=60, MinWords=20, ShortWord=0', chr(2), chr(3))) as headline
+          where p.report_id = counted.id and p.search @@ any_term
+          order by p.page
+          limit max_snippets
+        ) hit
+      ) excerpt
+    ), '[]'::jsonb)
+  from counted
+  order by counted.match_count desc, counted.created_at desc;
+end;
+$$;
@@ -0,0 +1,27 @@
+-- Purges the trash once a day instead of on every server start. pg_cron runs the job and pg_net calls
+-- POST /trash/purge, so files are removed by the server before their rows (see server/trash-handlers.tsx).
+-- The server is found and signed in to through two Vault secrets:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- POSTs to a server route as the scheduler; returns the pg_net request id
+create or replace function call_server(path text) returns bigint
+language sql as $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/make-server-78971119' || path,
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'),
+      'Content-Type', 'application/json'
+    ),
+    body := '{}'::jsonb
+  )
+$$;
+
+revoke execute on function call_server(text) from public, anon, authenticated;
+
+-- Scheduling under the same name again replaces the job
+select cron.schedule('purge-trash', '30 3 * * *', $$select call_server('/trash/purge')$$);
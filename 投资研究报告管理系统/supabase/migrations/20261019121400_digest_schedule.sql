@@ -0,0 +1,5 @@
+-- Sends the due notification digests every hour instead of on every server start, through
+-- call_server from the trash purge schedule. POST /notifications/digests claims each user's digest
+-- before mailing it, so a manual run overlapping the scheduled one sends it once.
+
+select cron.schedule('send-digests', '0 * * * *', $$select call_server('/notifications/digests')$$);
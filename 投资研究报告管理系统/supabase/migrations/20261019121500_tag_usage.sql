@@ -0,0 +1,32 @@
+-- Tag counts for GET /tags and GET /tags/:id, grouped in the database over the company_tags and
+-- report_tags indexes instead of loading every company and report into the server.
+
+-- Tags by name with how many companies and reports outside the trash carry each; only_tag limits the
+-- result to that tag
+create or replace function tag_usage(only_tag text default null)
+returns table (
+  id text, name text, color text, created_at timestamptz, updated_at timestamptz,
+  company_count integer, report_count integer
+)
+language sql stable as $$
+  select t.id, t.name, t.color, t.created_at, t.updated_at,
+    coalesce(company_counts.count, 0)::integer, coalesce(report_counts.count, 0)::integer
+  from tags t
+  left join (
+    select ct.tag_id, count(*) as count
+    from company_tags ct
+    join companies c on c.id = ct.company_id
+    where c.deleted_at is null and (only_tag is null or ct.tag_id = only_tag)
+    group by ct.tag_id
+  ) company_counts on company_counts.tag_id = t.id
+  left join (
+    select rt.tag_id, count(*) as count
+    from report_tags rt
+    join reports r on r.id = rt.report_id
+    join companies c on c.id = r.company_id
+    where r.deleted_at is null and c.deleted_at is null and (only_tag is null or rt.tag_id = only_tag)
+    group by rt.tag_id
+  ) report_counts on report_counts.tag_id = t.id
+  where only_tag is null or t.id = only_tag
+  order by t.name
+$$;
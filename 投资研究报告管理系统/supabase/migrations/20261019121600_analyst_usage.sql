@@ -0,0 +1,55 @@
+-- Report counts for the analyst directory and profiles, grouped in the database instead of loading
+-- every report into analyst-handlers.tsx. Only reports outside the trash count, and reports name
+-- their analyst exactly, as update_analyst and merge_analysts keep them.
+
+-- Analysts by name with how many reports they wrote on how many companies, and when the latest was
+create or replace function analyst_usage()
+returns table (
+  id text, name text, title text, team text, email text, bio text, created_at timestamptz, updated_at timestamptz,
+  report_count integer, company_count integer, latest_report_at timestamptz
+)
+language sql stable as $$
+  select a.id, a.name, a.title, a.team, a.email, a.bio, a.created_at, a.updated_at,
+    coalesce(usage.report_count, 0)::integer, coalesce(usage.company_count, 0)::integer, usage.latest_report_at
+  from analysts a
+  left join (
+    select r.analyst, count(*) as report_count, count(distinct r.company_id) as company_count,
+      max(r.created_at) as latest_report_at
+    from reports r
+    join companies c on c.id = r.company_id
+    where r.deleted_at is null and c.deleted_at is null
+    group by r.analyst
+  ) usage on usage.analyst = a.name
+  order by a.name
+$$;
+
+-- The numbers on an analyst's profile: coverage per company, most recent first; reports per UTC
+-- month, oldest first; and reports per category
+create or replace function analyst_profile(analyst_name text)
+returns table (
+  report_count integer, latest_report_at timestamptz, coverage jsonb, activity jsonb, categories jsonb
+)
+language sql stable as $$
+  with own as (
+    select r.company_id, r.category, r.created_at
+    from reports r
+    join companies c on c.id = r.company_id
+    where r.analyst = analyst_name and r.deleted_at is null and c.deleted_at is null
+  )
+  select
+    (select count(*)::integer from own),
+    (select max(created_at) from own),
+    coalesce((
+      select jsonb_agg(jsonb_build_object('companyId', company_id, 'reportCount', report_count, 'latestReportAt', latest_report_at)
+        order by latest_report_at desc, company_id)
+      from (select company_id, count(*)::integer as report_count, max(created_at) as latest_report_at from own group by company_id) covered
+    ), '[]'::jsonb),
+    coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'count', report_count) order by month)
+      from (select to_char(created_at at time zone 'UTC', 'YYYY-MM') as month, count(*)::integer as report_count from own group by 1) months
+    ), '[]'::jsonb),
+    coalesce((
+      select jsonb_object_agg(category, report_count)
+      from (select category, count(*)::integer as report_count from own group by category) categories
+    ), '{}'::jsonb)
+$$;
@@ -0,0 +1,13 @@
+-- Filtering companies and reports by tags in the database. PostgREST exposes these functions as a
+-- computed tag_ids column, so a page query asks for rows carrying every tag with tag_ids=cs.{…}
+-- instead of loading the tag join table and sending the matching ids back in the URL.
+
+create or replace function tag_ids(companies) returns text[]
+language sql stable as $$
+  select coalesce(array_agg(tag_id), '{}') from company_tags where company_id = $1.id
+$$;
+
+create or replace function tag_ids(reports) returns text[]
+language sql stable as $$
+  select coalesce(array_agg(tag_id), '{}') from report_tags where report_id = $1.id
+$$;
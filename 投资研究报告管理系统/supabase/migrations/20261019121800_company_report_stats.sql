@@ -0,0 +1,23 @@
+-- Counts for the filters above a company's report list, grouped in the database instead of loading
+-- every report of the company into report-handlers.tsx.
+
+-- Reports of the company outside the trash: how many, per category, the analysts who wrote them in
+-- code point order, and when the latest was created. A trashed company has no reports to count.
+create or replace function company_report_stats(company_id text)
+returns table (total integer, categories jsonb, analysts text[], latest_report_at timestamptz)
+language sql stable as $$
+  with own as (
+    select r.category, r.analyst, r.created_at
+    from reports r
+    join companies c on c.id = r.company_id
+    where r.company_id = company_report_stats.company_id and r.deleted_at is null and c.deleted_at is null
+  )
+  select
+    (select count(*)::integer from own),
+    coalesce((
+      select jsonb_object_agg(category, report_count)
+      from (select category, count(*)::integer as report_count from own group by category) categories
+    ), '{}'::jsonb),
+    coalesce((select array_agg(analyst order by analyst collate "C") from (select distinct analyst from own) analysts), '{}'),
+    (select max(created_at) from own)
+$$;
@@ -0,0 +1,13 @@
+-- Report counts for the companies in the trash, grouped in the database instead of loading every
+-- report of each trashed company into trash-handlers.tsx.
+
+-- Reports outside the trash per company, whether or not the company itself is trashed: those are
+-- the reports a trashed company brings back when it is restored. Companies without any are left out.
+create or replace function report_counts(company_ids text[])
+returns table (company_id text, report_count integer)
+language sql stable as $$
+  select r.company_id, count(*)::integer
+  from reports r
+  where r.company_id = any(report_counts.company_ids) and r.deleted_at is null
+  group by r.company_id
+$$;
@@ -1,17 +1,39 @@
-import { projectId, publicAnonKey } from './supabase/info';
-import type { Company, Report, Comment } from '../App';
+import { projectId } from './supabase/info';
+import { supabase } from './supabase/client';
+import type { Session } from '@supabase/supabase-js';
+import { isUserRole } from './permissions';
+import type { Analyst, AnalystProfile, AppNotification, AuditEntry, AuditFilter, ChangeEvent, Company, CompanyFilter, DashboardStats, Page, Report, ReportFilter, ReportStats, Comment, CommentAnchor, CurrentUser, DigestFrequency, SearchResult, Subscription, Tag, TagContents, Taxonomies, TaxonomyKind, TaxonomyTerm, TrashContents, UserProfile, UserRole, Watchlist } from '../App';
 
 const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-78971119`;
 
+// Access token of the signed-in user, kept in sync by authApi.onAuthStateChange
+let accessToken: string | null = null;
+
 const createAuthHeaders = () => ({
   'Content-Type': 'application/json',
-  'Authorization': `Bearer ${publicAnonKey}`,
+  'Authorization': `Bearer ${accessToken}`,
 });
 
 const createFormHeaders = () => ({
-  'Authorization': `Bearer ${publicAnonKey}`,
+  'Authorization': `Bearer ${accessToken}`,
 });
 
+// 带上读取时的版本号，数据已被他人修改时服务器返回 409
+const ifMatch = (revision?: number): Record<string, string> => (
+  revision ? { 'If-Match': `"${revision}"` } : {}
+);
+
+// 409：保存的内容已被他人修改，current 为服务器上的最新数据
+export class ConflictError<T = unknown> extends Error {
+  current: T;
+
+  constructor(message: string, current: T) {
+    super(message);
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
 // Cache management
 const cache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -40,6 +62,16 @@ const clearCachePattern = (pattern: string) => {
   }
 };
 
+const setAccessToken = (token: string | null) => {
+  if (token !== accessToken) {
+    // Cached responses belong to the previous user
+    cache.clear();
+    // The private realtime channel authorizes with the user's token
+    supabase.realtime.setAuth(token);
+  }
+  accessToken = token;
+};
+
 // Request deduplication
 const pendingRequests = new Map<string, Promise<any>>();
 
@@ -65,6 +97,11 @@ const makeRequest = async function<T>(
   const request = fetch(url, options).then(async (response) => {
     pendingRequests.delete(requestKey);
     
+    if (response.status === 409) {
+      const result = await response.json().catch(() => null);
+      throw new ConflictError(result?.error || 'Conflict', result?.data);
+    }
+
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`HTTP ${response.status}: ${errorText}`);
@@ -91,6 +128,93 @@ const makeRequest = async function<T>(
   return request;
 };
 
+// fetch 无法报告上传进度，带进度的上传改用 XMLHttpRequest，返回格式与 makeRequest 一致
+// onProgress 回调的是本次请求已发送的字节数
+const uploadWithProgress = function<T>(
+  method: 'POST' | 'PUT',
+  url: string,
+  body: FormData | Blob,
+  onProgress?: (loadedBytes: number) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(createFormHeaders()).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    if (body instanceof Blob) {
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    }
+
+    xhr.upload.onprogress = (event) => {
+      onProgress?.(event.loaded);
+    };
+
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`HTTP ${xhr.status}: ${xhr.responseText}`));
+        return;
+      }
+      try {
+        const result = JSON.parse(xhr.responseText);
+        if (!result.success) {
+          reject(new Error(result.error || 'API request failed'));
+          return;
+        }
+        resolve(result.data);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error'));
+
+    xhr.send(body);
+  });
+};
+
+// 分片上传：网络抖动时重试单个分片，4xx 错误说明请求本身有问题，不再重试
+const CHUNK_RETRIES = 3;
+
+const withRetry = async function<T>(task: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const isClientError = error instanceof Error && /^HTTP 4\d\d/.test(error.message);
+      if (isClientError || attempt >= CHUNK_RETRIES) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
+  }
+};
+
+type UploadStatus = {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+};
+
+// 同一文件、同一元数据的上传会话记录在 localStorage，页面刷新或重试后从已上传的分片继续
+const getResumeKey = (companyId: string, data: { title: string; analyst: string; category: string; file: File }) =>
+  `report-upload:${companyId}:${data.file.name}:${data.file.size}:${data.file.lastModified}:${data.title}:${data.analyst}:${data.category}`;
+
+// 与服务端 pagination.tsx 的默认页大小一致
+export const PAGE_SIZE = 30;
+
+// 筛选条件转为查询参数，tagIds 对应可重复的 tag 参数
+const pageParams = (filter: CompanyFilter | ReportFilter, cursor: string | null | undefined, limit: number) => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  Object.entries(filter).forEach(([key, value]) => {
+    if (key === 'tagIds') {
+      (value as string[]).forEach(tagId => params.append('tag', tagId));
+    } else if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  if (cursor) params.set('cursor', cursor);
+  return params;
+};
+
 export const companyApi = {
   async getAll(): Promise<Company[]> {
     const cacheKey = getCacheKey('companies_getAll');
@@ -99,6 +223,13 @@ export const companyApi = {
     }, cacheKey);
   },
 
+  // 分页列表随筛选和实时变更变化，不做缓存
+  async getPage(filter: CompanyFilter = {}, cursor?: string | null, limit = PAGE_SIZE): Promise<Page<Company>> {
+    return makeRequest<Page<Company>>(`${API_BASE_URL}/companies?${pageParams(filter, cursor, limit)}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
   async getById(id: string): Promise<Company> {
     const cacheKey = getCacheKey('companies_getById', { id });
     return makeRequest<Company>(`${API_BASE_URL}/companies/${id}`, {
@@ -115,11 +246,12 @@ export const companyApi = {
     });
   },
 
-  async update(id: string, data: Partial<Company>): Promise<Company> {
+  // 传入 revision 时只在公司未被他人修改的情况下保存
+  async update(id: string, data: Partial<Company>, revision?: number): Promise<Company> {
     clearCachePattern('companies');
     return makeRequest<Company>(`${API_BASE_URL}/companies/${id}`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
+      headers: { ...createAuthHeaders(), ...ifMatch(revision) },
       body: JSON.stringify(data),
     });
   },
@@ -133,9 +265,10 @@ export const companyApi = {
     });
   },
 
-  async updateOrder(orderUpdates: { id: string; order: number }[]): Promise<void> {
+  // 返回排序后的公司列表；任一公司的 revision 过期时整体不保存
+  async updateOrder(orderUpdates: { id: string; order: number; revision?: number }[]): Promise<Company[]> {
     clearCachePattern('companies');
-    return makeRequest<void>(`${API_BASE_URL}/companies/reorder`, {
+    return makeRequest<Company[]>(`${API_BASE_URL}/companies/reorder`, {
       method: 'POST',
       headers: createAuthHeaders(),
       body: JSON.stringify({ orderUpdates }),
@@ -163,24 +296,91 @@ export const reportApi = {
     }, cacheKey);
   },
 
+  async getPage(companyId: string, filter: ReportFilter = {}, cursor?: string | null, limit = PAGE_SIZE): Promise<Page<Report>> {
+    return makeRequest<Page<Report>>(`${API_BASE_URL}/companies/${companyId}/reports?${pageParams(filter, cursor, limit)}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  // 所有公司的报告，默认最新上传的在前，不含评论
+  async getFeed(filter: ReportFilter = {}, cursor?: string | null, limit = PAGE_SIZE): Promise<Page<Report>> {
+    return makeRequest<Page<Report>>(`${API_BASE_URL}/reports?${pageParams(filter, cursor, limit)}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async getStats(companyId: string): Promise<ReportStats> {
+    return makeRequest<ReportStats>(`${API_BASE_URL}/companies/${companyId}/reports/stats`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
   async upload(companyId: string, data: {
     title: string;
     analyst: string;
     category: string;
     file: File;
-  }): Promise<Report> {
+  }, onProgress?: (percent: number) => void): Promise<Report> {
     clearCachePattern(`reports_${companyId}`);
-    const formData = new FormData();
-    formData.append('title', data.title);
-    formData.append('analyst', data.analyst);
-    formData.append('category', data.category);
-    formData.append('file', data.file);
-    
-    return makeRequest<Report>(`${API_BASE_URL}/companies/${companyId}/reports`, {
+    clearCachePattern('analysts'); // 新的分析师名称会加入名录
+    const resumeKey = getResumeKey(companyId, data);
+
+    let status: UploadStatus | null = null;
+    const savedUploadId = localStorage.getItem(resumeKey);
+    if (savedUploadId) {
+      try {
+        status = await makeRequest<UploadStatus>(`${API_BASE_URL}/uploads/${savedUploadId}`, {
+          headers: createAuthHeaders(),
+        });
+      } catch (error) {
+        // 会话已过期或已完成，重新开始
+        localStorage.removeItem(resumeKey);
+      }
+    }
+    if (!status) {
+      status = await makeRequest<UploadStatus>(`${API_BASE_URL}/companies/${companyId}/uploads`, {
+        method: 'POST',
+        headers: createAuthHeaders(),
+        body: JSON.stringify({
+          fileName: data.file.name,
+          fileSize: data.file.size,
+          title: data.title,
+          analyst: data.analyst,
+          category: data.category
+        }),
+      });
+      localStorage.setItem(resumeKey, status.uploadId);
+    }
+
+    const { uploadId, chunkSize, totalChunks } = status;
+    const received = new Set(status.receivedChunks);
+    const chunkBounds = (index: number) => [index * chunkSize, Math.min((index + 1) * chunkSize, data.file.size)];
+    let uploadedBytes = status.receivedChunks.reduce((sum, index) => {
+      const [start, end] = chunkBounds(index);
+      return sum + end - start;
+    }, 0);
+    const reportProgress = (bytes: number) => onProgress?.(Math.round((bytes / data.file.size) * 100));
+    reportProgress(uploadedBytes);
+
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue;
+      const [start, end] = chunkBounds(index);
+      await withRetry(() => uploadWithProgress<void>(
+        'PUT',
+        `${API_BASE_URL}/uploads/${uploadId}/chunks/${index}`,
+        data.file.slice(start, end),
+        (loaded) => reportProgress(uploadedBytes + loaded)
+      ));
+      uploadedBytes += end - start;
+      reportProgress(uploadedBytes);
+    }
+
+    const report = await makeRequest<Report>(`${API_BASE_URL}/uploads/${uploadId}/complete`, {
       method: 'POST',
-      headers: createFormHeaders(),
-      body: formData,
+      headers: createAuthHeaders(),
     });
+    localStorage.removeItem(resumeKey);
+    return report;
   },
 
   async update(companyId: string, reportId: string, data: {
@@ -188,18 +388,19 @@ export const reportApi = {
     analyst: string;
     category: string;
     createdAt?: string;
-  }): Promise<Report> {
+  }, revision?: number): Promise<Report> {
     clearCachePattern(`reports_${companyId}`);
+    clearCachePattern('analysts');
     return makeRequest<Report>(`${API_BASE_URL}/reports/${companyId}/${reportId}`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
+      headers: { ...createAuthHeaders(), ...ifMatch(revision) },
       body: JSON.stringify(data),
     });
   },
 
-  async updateOrder(companyId: string, orderUpdates: { id: string; order: number }[]): Promise<void> {
+  async updateOrder(companyId: string, orderUpdates: { id: string; order: number; revision?: number }[]): Promise<Report[]> {
     clearCachePattern(`reports_${companyId}`);
-    return makeRequest<void>(`${API_BASE_URL}/companies/${companyId}/reports/reorder`, {
+    return makeRequest<Report[]>(`${API_BASE_URL}/companies/${companyId}/reports/reorder`, {
       method: 'POST',
       headers: createAuthHeaders(),
       body: JSON.stringify({ orderUpdates }),
@@ -214,8 +415,25 @@ export const reportApi = {
     });
   },
 
-  async getDownloadUrl(companyId: string, reportId: string): Promise<string> {
-    const result = await makeRequest<{ downloadUrl: string }>(`${API_BASE_URL}/reports/${companyId}/${reportId}/download`, {
+  async uploadVersion(companyId: string, reportId: string, data: { file: File; note?: string }): Promise<Report> {
+    clearCachePattern(`reports_${companyId}`);
+    const formData = new FormData();
+    formData.append('file', data.file);
+    if (data.note) {
+      formData.append('note', data.note);
+    }
+
+    return makeRequest<Report>(`${API_BASE_URL}/reports/${companyId}/${reportId}/versions`, {
+      method: 'POST',
+      headers: createFormHeaders(),
+      body: formData,
+    });
+  },
+
+  // 不传 version 时下载最新版本
+  async getDownloadUrl(companyId: string, reportId: string, version?: number): Promise<string> {
+    const query = version ? `?version=${version}` : '';
+    const result = await makeRequest<{ downloadUrl: string }>(`${API_BASE_URL}/reports/${companyId}/${reportId}/download${query}`, {
       headers: createAuthHeaders(),
     });
     return result.downloadUrl;
@@ -230,34 +448,518 @@ export const commentApi = {
     }, cacheKey);
   },
 
-  async create(companyId: string, reportId: string, content: string): Promise<Comment> {
+  async create(companyId: string, reportId: string, data: { content: string; parentId?: string; anchor?: CommentAnchor }): Promise<Comment[]> {
     clearCachePattern(`comments_${companyId}_${reportId}`);
     clearCachePattern(`reports_${companyId}`);
-    return makeRequest<Comment>(`${API_BASE_URL}/reports/${companyId}/${reportId}/comments`, {
+    return makeRequest<Comment[]>(`${API_BASE_URL}/reports/${companyId}/${reportId}/comments`, {
       method: 'POST',
       headers: createAuthHeaders(),
-      body: JSON.stringify({ content }),
+      body: JSON.stringify(data),
     });
   },
 
-  async update(companyId: string, reportId: string, commentId: string, content: string): Promise<Comment> {
+  async update(companyId: string, reportId: string, commentId: string, content: string): Promise<Comment[]> {
     clearCachePattern(`comments_${companyId}_${reportId}`);
     clearCachePattern(`reports_${companyId}`);
-    return makeRequest<Comment>(`${API_BASE_URL}/comments/${companyId}/${reportId}/${commentId}`, {
+    return makeRequest<Comment[]>(`${API_BASE_URL}/reports/${companyId}/${reportId}/comments/${commentId}`, {
       method: 'PUT',
       headers: createAuthHeaders(),
       body: JSON.stringify({ content }),
     });
   },
 
-  async delete(companyId: string, reportId: string, commentId: string): Promise<void> {
+  async delete(companyId: string, reportId: string, commentId: string): Promise<Comment[]> {
     clearCachePattern(`comments_${companyId}_${reportId}`);
     clearCachePattern(`reports_${companyId}`);
-    return makeRequest<void>(`${API_BASE_URL}/comments/${companyId}/${reportId}/${commentId}`, {
+    return makeRequest<Comment[]>(`${API_BASE_URL}/reports/${companyId}/${reportId}/comments/${commentId}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+// 自选列表只属于当前用户，修改频繁且数据量小，不做缓存
+export const watchlistApi = {
+  async getAll(): Promise<Watchlist[]> {
+    return makeRequest<Watchlist[]>(`${API_BASE_URL}/watchlists`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async create(name: string, companyIds: string[] = []): Promise<Watchlist> {
+    return makeRequest<Watchlist>(`${API_BASE_URL}/watchlists`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ name, companyIds }),
+    });
+  },
+
+  async rename(id: string, name: string): Promise<Watchlist> {
+    return makeRequest<Watchlist>(`${API_BASE_URL}/watchlists/${id}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ name }),
+    });
+  },
+
+  // companyIds 为完整的公司列表，顺序即自选列表中的顺序
+  async setCompanies(id: string, companyIds: string[]): Promise<Watchlist> {
+    return makeRequest<Watchlist>(`${API_BASE_URL}/watchlists/${id}/companies`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ companyIds }),
+    });
+  },
+
+  async delete(id: string): Promise<void> {
+    return makeRequest<void>(`${API_BASE_URL}/watchlists/${id}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+// 标签的公司数和报告数随打标签变化，打标签时一并清掉缓存
+export const tagApi = {
+  async getAll(): Promise<Tag[]> {
+    const cacheKey = getCacheKey('tags_getAll');
+    return makeRequest<Tag[]>(`${API_BASE_URL}/tags`, {
+      headers: createAuthHeaders(),
+    }, cacheKey);
+  },
+
+  async getById(id: string): Promise<TagContents> {
+    const cacheKey = getCacheKey('tags_getById', { id });
+    return makeRequest<TagContents>(`${API_BASE_URL}/tags/${id}`, {
+      headers: createAuthHeaders(),
+    }, cacheKey);
+  },
+
+  async create(name: string, color?: string): Promise<Tag> {
+    clearCachePattern('tags');
+    return makeRequest<Tag>(`${API_BASE_URL}/tags`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ name, color }),
+    });
+  },
+
+  async update(id: string, data: { name?: string; color?: string }): Promise<Tag> {
+    clearCachePattern('tags');
+    return makeRequest<Tag>(`${API_BASE_URL}/tags/${id}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+  },
+
+  // 删除后标签会从所有公司和报告上移除
+  async delete(id: string): Promise<void> {
+    clearCachePattern('tags');
+    clearCachePattern('companies');
+    clearCachePattern('reports');
+    return makeRequest<void>(`${API_BASE_URL}/tags/${id}`, {
       method: 'DELETE',
       headers: createAuthHeaders(),
     });
   },
+
+  // tagIds 为完整的标签列表
+  async setCompanyTags(companyId: string, tagIds: string[]): Promise<Company> {
+    clearCachePattern('tags');
+    clearCachePattern('companies');
+    return makeRequest<Company>(`${API_BASE_URL}/companies/${companyId}/tags`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ tagIds }),
+    });
+  },
+
+  async setReportTags(companyId: string, reportId: string, tagIds: string[]): Promise<Report> {
+    clearCachePattern('tags');
+    clearCachePattern(`reports_${companyId}`);
+    return makeRequest<Report>(`${API_BASE_URL}/reports/${companyId}/${reportId}/tags`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ tagIds }),
+    });
+  },
+};
+
+// 分类只能由管理员修改
+export const taxonomyApi = {
+  async getAll(): Promise<Taxonomies> {
+    const cacheKey = getCacheKey('taxonomies_getAll');
+    return makeRequest<Taxonomies>(`${API_BASE_URL}/taxonomies`, {
+      headers: createAuthHeaders(),
+    }, cacheKey);
+  },
+
+  async create(kind: TaxonomyKind, label: string, color?: string): Promise<TaxonomyTerm> {
+    clearCachePattern('taxonomies');
+    return makeRequest<TaxonomyTerm>(`${API_BASE_URL}/taxonomies/${kind}`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ label, color }),
+    });
+  },
+
+  // 改名后，归在旧名称下的公司或报告会一并改为新名称
+  async update(term: TaxonomyTerm, data: { label?: string; color?: string }): Promise<TaxonomyTerm> {
+    clearCachePattern('taxonomies');
+    clearCachePattern(term.kind === 'stock_type' ? 'companies' : 'reports');
+    return makeRequest<TaxonomyTerm>(`${API_BASE_URL}/taxonomies/${term.kind}/${term.id}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+  },
+
+  // 仍有公司或报告（包括回收站中的）使用时，服务端会拒绝删除
+  async delete(term: TaxonomyTerm): Promise<void> {
+    clearCachePattern('taxonomies');
+    return makeRequest<void>(`${API_BASE_URL}/taxonomies/${term.kind}/${term.id}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+  },
+
+  // ids 为该分类全部条目的新顺序
+  async reorder(kind: TaxonomyKind, ids: string[]): Promise<TaxonomyTerm[]> {
+    clearCachePattern('taxonomies');
+    return makeRequest<TaxonomyTerm[]>(`${API_BASE_URL}/taxonomies/${kind}/reorder`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ ids }),
+    });
+  },
+};
+
+type AnalystFields = Partial<Pick<Analyst, 'name' | 'title' | 'team' | 'email' | 'bio'>>;
+
+// 上传或编辑报告时填写的新分析师由服务端自动加入名录
+export const analystApi = {
+  async getAll(): Promise<Analyst[]> {
+    const cacheKey = getCacheKey('analysts_getAll');
+    return makeRequest<Analyst[]>(`${API_BASE_URL}/analysts`, {
+      headers: createAuthHeaders(),
+    }, cacheKey);
+  },
+
+  async getById(id: string): Promise<AnalystProfile> {
+    const cacheKey = getCacheKey('analysts_getById', { id });
+    return makeRequest<AnalystProfile>(`${API_BASE_URL}/analysts/${id}`, {
+      headers: createAuthHeaders(),
+    }, cacheKey);
+  },
+
+  // 名称疑似同一人的分组，每组报告最多的在前
+  async getDuplicates(): Promise<Analyst[][]> {
+    return makeRequest<Analyst[][]>(`${API_BASE_URL}/analysts/duplicates`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async create(data: AnalystFields): Promise<Analyst> {
+    clearCachePattern('analysts');
+    return makeRequest<Analyst>(`${API_BASE_URL}/analysts`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+  },
+
+  // 改名后，该分析师的报告一并改为新名称
+  async update(id: string, data: AnalystFields): Promise<Analyst> {
+    clearCachePattern('analysts');
+    clearCachePattern('reports');
+    return makeRequest<Analyst>(`${API_BASE_URL}/analysts/${id}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+  },
+
+  // 把 sourceIds 的报告归到目标分析师名下，并删除这些分析师
+  async merge(targetId: string, sourceIds: string[]): Promise<Analyst> {
+    clearCachePattern('analysts');
+    clearCachePattern('reports');
+    return makeRequest<Analyst>(`${API_BASE_URL}/analysts/${targetId}/merge`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ sourceIds }),
+    });
+  },
+
+  // 仍有报告（包括回收站中的）时，服务端会拒绝删除
+  async delete(id: string): Promise<void> {
+    clearCachePattern('analysts');
+    return makeRequest<void>(`${API_BASE_URL}/analysts/${id}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+// 关注与通知只属于当前用户且随时变化，不做缓存
+export const notificationApi = {
+  async getAll(unreadOnly = false): Promise<{ items: AppNotification[]; unreadCount: number }> {
+    return makeRequest(`${API_BASE_URL}/notifications${unreadOnly ? '?unread=true' : ''}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  // 不传 ids 时全部标为已读，返回剩余的未读数
+  async markRead(ids?: string[]): Promise<{ unreadCount: number }> {
+    return makeRequest(`${API_BASE_URL}/notifications/read`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ ids }),
+    });
+  },
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    return makeRequest<Subscription[]>(`${API_BASE_URL}/subscriptions`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  // 关注或取消关注后返回当前用户的全部关注
+  async setCompanySubscribed(companyId: string, subscribed: boolean): Promise<Subscription[]> {
+    return makeRequest<Subscription[]>(`${API_BASE_URL}/subscriptions/companies/${companyId}`, {
+      method: subscribed ? 'PUT' : 'DELETE',
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async setReportSubscribed(companyId: string, reportId: string, subscribed: boolean): Promise<Subscription[]> {
+    return makeRequest<Subscription[]>(`${API_BASE_URL}/subscriptions/reports/${companyId}/${reportId}`, {
+      method: subscribed ? 'PUT' : 'DELETE',
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async getSettings(): Promise<{ digest: DigestFrequency; lastDigestAt: string | null }> {
+    return makeRequest(`${API_BASE_URL}/notification-settings`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async updateSettings(digest: DigestFrequency): Promise<{ digest: DigestFrequency; lastDigestAt: string | null }> {
+    return makeRequest(`${API_BASE_URL}/notification-settings`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ digest }),
+    });
+  },
+};
+
+export const trashApi = {
+  // 删除操作随时会改变回收站内容，不做缓存
+  async getAll(): Promise<TrashContents> {
+    return makeRequest<TrashContents>(`${API_BASE_URL}/trash`, {
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async restoreCompany(id: string): Promise<Company> {
+    clearCachePattern('companies');
+    clearCachePattern('reports');
+    return makeRequest<Company>(`${API_BASE_URL}/trash/companies/${id}/restore`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+    });
+  },
+
+  async restoreReport(companyId: string, reportId: string): Promise<Report> {
+    clearCachePattern('reports');
+    return makeRequest<Report>(`${API_BASE_URL}/trash/reports/${companyId}/${reportId}/restore`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+export const auditApi = {
+  // 操作记录随每次修改增加，不做缓存
+  async getAll(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    return makeRequest<AuditEntry[]>(`${API_BASE_URL}/audit?${params}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+export const statsApi = {
+  // 看板打开时和有修改推送时重新加载，不做缓存
+  async get(months: number, staleDays: number): Promise<DashboardStats> {
+    const params = new URLSearchParams({ months: String(months), staleDays: String(staleDays) });
+    return makeRequest<DashboardStats>(`${API_BASE_URL}/stats?${params}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+export const searchApi = {
+  // 搜索结果随上传实时变化，不做缓存
+  async search(query: string): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query });
+    return makeRequest<SearchResult[]>(`${API_BASE_URL}/search?${params}`, {
+      headers: createAuthHeaders(),
+    });
+  },
+};
+
+// 所有页面共用一个频道，最后一个监听者取消订阅时断开
+type ChangeListener = (event: ChangeEvent) => void;
+const changeListeners = new Set<ChangeListener>();
+let changesChannel: ReturnType<typeof supabase.channel> | null = null;
+
+// 收到变更先清掉相关缓存，监听者随后重新加载的数据才是最新的
+const invalidateCacheFor = (event: ChangeEvent) => {
+  if (event.entityType === 'company' || event.entityType === 'trash') {
+    clearCachePattern('companies');
+  }
+  if (event.entityType === 'user') {
+    clearCachePattern('users');
+  }
+  if (event.entityType === 'tag' || event.action.endsWith('.tags')) {
+    clearCachePattern('tags');
+  }
+  // 报告可能带来新的分析师，分析师改名或合并会改动报告
+  if (event.entityType === 'analyst' || event.entityType === 'report') {
+    clearCachePattern('analysts');
+  }
+  if (event.action === 'analyst.update' || event.action === 'analyst.merge') {
+    clearCachePattern('reports');
+  }
+  if (event.action === 'tag.delete') {
+    clearCachePattern('companies');
+    clearCachePattern('reports');
+  }
+  // 分类改名会改动归在其下的公司或报告
+  if (event.entityType === 'taxonomy') {
+    clearCachePattern('taxonomies');
+  }
+  if (event.action === 'taxonomy.update') {
+    clearCachePattern('companies');
+    clearCachePattern('reports');
+  }
+  if (event.entityType === 'trash') {
+    clearCachePattern('reports');
+    clearCachePattern('comments');
+  }
+  if (event.companyId) {
+    clearCachePattern(event.companyId);
+  }
+};
+
+export const realtimeApi = {
+  subscribe(listener: ChangeListener): () => void {
+    changeListeners.add(listener);
+    if (!changesChannel) {
+      changesChannel = supabase
+        .channel('changes', { config: { private: true } })
+        .on('broadcast', { event: 'change' }, ({ payload }) => {
+          const event = payload as ChangeEvent;
+          invalidateCacheFor(event);
+          changeListeners.forEach(notify => notify(event));
+        })
+        .subscribe((status) => {
+          if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.error('Realtime channel status:', status);
+          }
+        });
+    }
+
+    return () => {
+      changeListeners.delete(listener);
+      if (changeListeners.size === 0 && changesChannel) {
+        supabase.removeChannel(changesChannel);
+        changesChannel = null;
+      }
+    };
+  },
+};
+
+const toCurrentUser = (session: Session | null): CurrentUser | null => {
+  if (!session) return null;
+  const { user } = session;
+  return {
+    id: user.id,
+    email: user.email ?? '',
+    name: user.user_metadata?.name || user.email || '',
+    role: isUserRole(user.app_metadata?.role) ? user.app_metadata.role : 'viewer',
+  };
+};
+
+export const authApi = {
+  async getCurrentUser(): Promise<CurrentUser | null> {
+    const { data } = await supabase.auth.getSession();
+    setAccessToken(data.session?.access_token ?? null);
+    return toCurrentUser(data.session);
+  },
+
+  onAuthStateChange(callback: (user: CurrentUser | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setAccessToken(session?.access_token ?? null);
+      callback(toCurrentUser(session));
+    });
+    return () => data.subscription.unsubscribe();
+  },
+
+  async signIn(email: string, password: string): Promise<CurrentUser> {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error || !data.session) {
+      throw new Error(error?.message || 'Sign in failed');
+    }
+    setAccessToken(data.session.access_token);
+    return toCurrentUser(data.session)!;
+  },
+
+  async signOut(): Promise<void> {
+    await supabase.auth.signOut();
+    setAccessToken(null);
+  },
+
+  // Re-authenticate the current user before a destructive action
+  async verifyPassword(password: string): Promise<boolean> {
+    const { data } = await supabase.auth.getSession();
+    const email = data.session?.user.email;
+    if (!email) return false;
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return !error;
+  },
+};
+
+export const userApi = {
+  async getAll(): Promise<UserProfile[]> {
+    const cacheKey = getCacheKey('users_getAll');
+    return makeRequest<UserProfile[]>(`${API_BASE_URL}/users`, {
+      headers: createAuthHeaders(),
+    }, cacheKey);
+  },
+
+  async create(data: { email: string; password: string; name: string; role: UserRole }): Promise<UserProfile> {
+    clearCachePattern('users');
+    return makeRequest<UserProfile>(`${API_BASE_URL}/users`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateRole(id: string, role: UserRole): Promise<UserProfile> {
+    clearCachePattern('users');
+    return makeRequest<UserProfile>(`${API_BASE_URL}/users/${id}/role`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ role }),
+    });
+  },
 };
 
 // Initialize sample data
@@ -1,22 +1,58 @@
-export const STOCK_TYPES = ['全部类型', 'A股', '港股', '美股', '行业'] as const;
-
-export const REPORT_CATEGORIES = ['全部', '会议纪要', '首次覆盖', '跟踪'] as const;
-
-export const getTypeColor = (type: string) => {
-  switch (type) {
-    case 'A股': return 'bg-red-50 text-red-600 border-red-100 shadow-red-500/5';
-    case '港股': return 'bg-emerald-50 text-emerald-600 border-emerald-100 shadow-emerald-500/5';
-    case '美股': return 'bg-blue-50 text-blue-600 border-blue-100 shadow-blue-500/5';
-    case '行业': return 'bg-orange-50 text-orange-600 border-orange-100 shadow-orange-500/5';
-    default: return 'bg-muted text-muted-foreground border-border';
-  }
+import type { FileKind } from '../App';
+
+// 支持上传的文件扩展名及对应类型（与服务端 file-kinds.tsx 一致）
+export const FILE_KIND_EXTENSIONS: Record<FileKind, string[]> = {
+  pdf: ['pdf'],
+  excel: ['xlsx', 'xls'],
+  word: ['docx', 'doc'],
+  powerpoint: ['pptx', 'ppt'],
+  image: ['png', 'jpg', 'jpeg', 'gif', 'webp']
+};
+
+export const FILE_KIND_LABELS: Record<FileKind, string> = {
+  pdf: 'PDF',
+  excel: 'Excel',
+  word: 'Word',
+  powerpoint: 'PPT',
+  image: '图片'
+};
+
+// 回收站保留天数，到期后由服务端永久删除（与服务端 trash-handlers.tsx 一致）
+export const TRASH_RETENTION_DAYS = 30;
+
+// 文件选择框的 accept 属性
+export const REPORT_FILE_ACCEPT = Object.values(FILE_KIND_EXTENSIONS).flat().map(ext => `.${ext}`).join(',');
+
+// 标签和分类（股票类型、报告类别）可选颜色（与服务端 palette.tsx 一致）
+export const TAG_COLORS = ['slate', 'red', 'orange', 'amber', 'green', 'emerald', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+
+const TAG_COLOR_CLASSES: Record<string, string> = {
+  slate: 'bg-slate-50 text-slate-600 border-slate-200 shadow-slate-500/5',
+  red: 'bg-red-50 text-red-600 border-red-100 shadow-red-500/5',
+  orange: 'bg-orange-50 text-orange-600 border-orange-100 shadow-orange-500/5',
+  amber: 'bg-amber-50 text-amber-600 border-amber-100 shadow-amber-500/5',
+  green: 'bg-green-50 text-green-600 border-green-100 shadow-green-500/5',
+  emerald: 'bg-emerald-50 text-emerald-600 border-emerald-100 shadow-emerald-500/5',
+  teal: 'bg-teal-50 text-teal-600 border-teal-100 shadow-teal-500/5',
+  blue: 'bg-blue-50 text-blue-600 border-blue-100 shadow-blue-500/5',
+  indigo: 'bg-indigo-50 text-indigo-600 border-indigo-100 shadow-indigo-500/5',
+  purple: 'bg-purple-50 text-purple-600 border-purple-100 shadow-purple-500/5',
+  pink: 'bg-pink-50 text-pink-600 border-pink-100 shadow-pink-500/5',
+};
+
+// 颜色选择器里的色块
+export const TAG_SWATCH_CLASSES: Record<string, string> = {
+  slate: 'bg-slate-400',
+  red: 'bg-red-400',
+  orange: 'bg-orange-400',
+  amber: 'bg-amber-400',
+  green: 'bg-green-400',
+  emerald: 'bg-emerald-400',
+  teal: 'bg-teal-400',
+  blue: 'bg-blue-400',
+  indigo: 'bg-indigo-400',
+  purple: 'bg-purple-400',
+  pink: 'bg-pink-400',
 };
 
-export const getCategoryColor = (category: string) => {
-  switch (category) {
-    case '会议纪要': return 'bg-purple-50 text-purple-600 border-purple-100 shadow-purple-500/5';
-    case '首次覆盖': return 'bg-green-50 text-green-600 border-green-100 shadow-green-500/5';
-    case '跟踪': return 'bg-amber-50 text-amber-600 border-amber-100 shadow-amber-500/5';
-    default: return 'bg-muted text-muted-foreground border-border';
-  }
-};
\ No newline at end of file
+export const getTagColor = (color: string) => TAG_COLOR_CLASSES[color] ?? 'bg-muted text-muted-foreground border-border';
\ No newline at end of file
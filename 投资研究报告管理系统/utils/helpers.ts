@@ -1,4 +1,5 @@
-import type { Report } from '../App';
+import type { FileKind, Report, ReportVersion } from '../App';
+import { FILE_KIND_EXTENSIONS } from './constants';
 
 export const formatDate = (dateString: string) => {
   if (!dateString) return '';
@@ -14,22 +15,44 @@ export const formatDate = (dateString: string) => {
   }
 };
 
-export const getLatestReportDate = (reports: Report[]) => {
-  if (reports.length === 0) return '-';
-  const latest = reports.reduce((latest, report) => 
-    new Date(report.createdAt || '') > new Date(latest.createdAt || '') ? report : latest
-  );
-  return formatDate(latest.createdAt || '');
+export const getTotalComments = (reports: Report[]) => {
+  return reports.reduce((total, report) => total + (report.comments?.length || 0), 0);
 };
 
-export const getAnalystCount = (reports: Report[]) => {
-  return new Set(reports.map(report => report.analyst)).size;
+// 旧报告没有版本记录，视为只有第 1 版（与服务端 report-versions.tsx 一致）
+export const getReportVersions = (report: Report): ReportVersion[] => {
+  if (report.versions && report.versions.length > 0) {
+    return report.versions;
+  }
+  return [{
+    version: 1,
+    fileName: report.fileName,
+    fileSize: report.fileSize,
+    filePath: report.filePath || '',
+    uploadedByName: report.analyst,
+    uploadedAt: report.createdAt || ''
+  }];
 };
 
-export const getTotalComments = (reports: Report[]) => {
-  return reports.reduce((total, report) => total + (report.comments?.length || 0), 0);
+// 从文件名推测报告标题：去掉扩展名和开头的日期，下划线视为空格
+export const guessReportTitle = (fileName: string) => {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/^\d{4}[-_.]?\d{2}[-_.]?\d{2}[\s_-]*/, '')
+    .replace(/_+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim() || fileName;
+};
+
+// 按扩展名判断文件类型，不支持的文件返回 null
+export const getFileKind = (fileName: string): FileKind | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  const entry = Object.entries(FILE_KIND_EXTENSIONS).find(([, extensions]) => extensions.includes(extension));
+  return entry ? entry[0] as FileKind : null;
 };
 
+export const getReportFileKind = (report: Report): FileKind => report.fileKind ?? 'pdf';
+
 export const isTouchDevice = () => {
   return 'ontouchstart' in window || navigator.maxTouchPoints > 0;
 };
\ No newline at end of file
@@ -0,0 +1,62 @@
+import type { Comment, CurrentUser, UserRole } from '../App';
+
+// 角色由低到高，高级角色拥有低级角色的全部权限（与服务端 auth.tsx 保持一致）
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'pm', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '查看者',
+  analyst: '分析师',
+  pm: '投资经理',
+  admin: '管理员',
+};
+
+export type Action =
+  | 'report:upload'
+  | 'report:edit'
+  | 'comment:write'
+  | 'tag:edit'
+  | 'analyst:edit'
+  | 'company:edit'
+  | 'reorder'
+  | 'report:delete'
+  | 'tag:delete'
+  | 'analyst:merge'
+  | 'company:delete'
+  | 'trash:view'
+  | 'audit:view'
+  | 'user:manage'
+  | 'taxonomy:manage';
+
+// 每个操作所需的最低角色
+const ACTION_MIN_ROLE: Record<Action, UserRole> = {
+  'report:upload': 'analyst',
+  'report:edit': 'analyst',
+  'comment:write': 'analyst',
+  'tag:edit': 'analyst',
+  'analyst:edit': 'analyst',
+  'company:edit': 'pm',
+  'reorder': 'pm',
+  'report:delete': 'pm',
+  'tag:delete': 'pm',
+  'analyst:merge': 'pm',
+  'company:delete': 'admin',
+  'trash:view': 'pm',
+  'audit:view': 'pm',
+  'user:manage': 'admin',
+  'taxonomy:manage': 'admin',
+};
+
+export const isUserRole = (value: unknown): value is UserRole => {
+  return USER_ROLES.includes(value as UserRole);
+};
+
+export const can = (user: CurrentUser | null | undefined, action: Action) => {
+  if (!user) return false;
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(ACTION_MIN_ROLE[action]);
+};
+
+// 评论只能由作者本人修改或删除，管理员可管理所有评论
+export const canModifyComment = (user: CurrentUser | null | undefined, comment: Comment) => {
+  if (!user || !can(user, 'comment:write')) return false;
+  return comment.authorId === user.id || user.role === 'admin';
+};
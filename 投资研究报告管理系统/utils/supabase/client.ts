@@ -0,0 +1,5 @@
+import { createClient } from '@supabase/supabase-js';
+import { projectId, publicAnonKey } from './info';
+
+// 前端共享的 Supabase 客户端，用于登录鉴权
+export const supabase = createClient(`https://${projectId}.supabase.co`, publicAnonKey);